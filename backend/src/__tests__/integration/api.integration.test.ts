@@ -72,13 +72,13 @@ describe('API Integration Tests', () => {
       address: '123 Main St, City, State 12345',
       coordinates: { lat: 40.7128, lng: -74.0060 },
       hours: {
-        monday: { open: '06:00', close: '22:00' },
-        tuesday: { open: '06:00', close: '22:00' },
-        wednesday: { open: '06:00', close: '22:00' },
-        thursday: { open: '06:00', close: '22:00' },
-        friday: { open: '06:00', close: '22:00' },
-        saturday: { open: '07:00', close: '21:00' },
-        sunday: { open: '08:00', close: '20:00' },
+        monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+        sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
         timezone: 'America/New_York'
       },
       lettuceScore: 4.2,
@@ -92,13 +92,13 @@ describe('API Integration Tests', () => {
       address: '456 Oak Ave, City, State 12345',
       coordinates: { lat: 40.7589, lng: -73.9851 },
       hours: {
-        monday: { open: '06:00', close: '22:00' },
-        tuesday: { open: '06:00', close: '22:00' },
-        wednesday: { open: '06:00', close: '22:00' },
-        thursday: { open: '06:00', close: '22:00' },
-        friday: { open: '06:00', close: '22:00' },
-        saturday: { open: '07:00', close: '21:00' },
-        sunday: { open: '08:00', close: '20:00' },
+        monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+        sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
         timezone: 'America/New_York'
       },
       lettuceScore: 3.8,
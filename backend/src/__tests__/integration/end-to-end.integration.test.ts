@@ -117,13 +117,13 @@ describe('End-to-End Integration Tests', () => {
       address: '1560 Broadway, New York, NY 10036',
       coordinates: { lat: 40.7589, lng: -73.9851 },
       hours: {
-        monday: { open: '06:00', close: '23:00' },
-        tuesday: { open: '06:00', close: '23:00' },
-        wednesday: { open: '06:00', close: '23:00' },
-        thursday: { open: '06:00', close: '23:00' },
-        friday: { open: '06:00', close: '23:00' },
-        saturday: { open: '07:00', close: '23:00' },
-        sunday: { open: '08:00', close: '22:00' },
+        monday: { intervals: [{ open: '06:00', close: '23:00' }] },
+        tuesday: { intervals: [{ open: '06:00', close: '23:00' }] },
+        wednesday: { intervals: [{ open: '06:00', close: '23:00' }] },
+        thursday: { intervals: [{ open: '06:00', close: '23:00' }] },
+        friday: { intervals: [{ open: '06:00', close: '23:00' }] },
+        saturday: { intervals: [{ open: '07:00', close: '23:00' }] },
+        sunday: { intervals: [{ open: '08:00', close: '22:00' }] },
         timezone: 'America/New_York',
       },
       lettuceScore: 4.2,
@@ -138,13 +138,13 @@ describe('End-to-End Integration Tests', () => {
       address: '2 Penn Plaza, New York, NY 10121',
       coordinates: { lat: 40.7505, lng: -73.9934 },
       hours: {
-        monday: { open: '06:00', close: '22:00' },
-        tuesday: { open: '06:00', close: '22:00' },
-        wednesday: { open: '06:00', close: '22:00' },
-        thursday: { open: '06:00', close: '22:00' },
-        friday: { open: '06:00', close: '22:00' },
-        saturday: { open: '07:00', close: '21:00' },
-        sunday: { open: '08:00', close: '20:00' },
+        monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+        sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
         timezone: 'America/New_York',
       },
       lettuceScore: 3.8,
@@ -159,13 +159,13 @@ describe('End-to-End Integration Tests', () => {
       address: '4 Union Square S, New York, NY 10003',
       coordinates: { lat: 40.7359, lng: -73.9911 },
       hours: {
-        monday: { open: '06:00', close: '22:00' },
-        tuesday: { open: '06:00', close: '22:00' },
-        wednesday: { open: '06:00', close: '22:00' },
-        thursday: { open: '06:00', close: '22:00' },
-        friday: { open: '06:00', close: '22:00' },
-        saturday: { open: '07:00', close: '21:00' },
-        sunday: { open: '08:00', close: '20:00' },
+        monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+        sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
         timezone: 'America/New_York',
       },
       lettuceScore: 2.9,
@@ -200,13 +200,13 @@ describe('End-to-End Integration Tests', () => {
         address: '1560 Broadway, New York, NY 10036',
         coordinates: { lat: 40.7589, lng: -73.9851 },
         hours: {
-          monday: { open: '06:00', close: '23:00' },
-          tuesday: { open: '06:00', close: '23:00' },
-          wednesday: { open: '06:00', close: '23:00' },
-          thursday: { open: '06:00', close: '23:00' },
-          friday: { open: '06:00', close: '23:00' },
-          saturday: { open: '07:00', close: '23:00' },
-          sunday: { open: '08:00', close: '22:00' },
+          monday: { intervals: [{ open: '06:00', close: '23:00' }] },
+          tuesday: { intervals: [{ open: '06:00', close: '23:00' }] },
+          wednesday: { intervals: [{ open: '06:00', close: '23:00' }] },
+          thursday: { intervals: [{ open: '06:00', close: '23:00' }] },
+          friday: { intervals: [{ open: '06:00', close: '23:00' }] },
+          saturday: { intervals: [{ open: '07:00', close: '23:00' }] },
+          sunday: { intervals: [{ open: '08:00', close: '22:00' }] },
           timezone: 'America/New_York',
         },
         lettuceScore: 4.2,
@@ -172,6 +172,33 @@ describe('RatingRepository', () => {
     });
   });
 
+  describe('getScoreEstimate', () => {
+    it('should map the score estimate from the database function', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ score_estimate: { score: 4.12, lower: 3.55, upper: 4.69, effective_sample_size: 3.4 } }]
+      } as any);
+
+      const result = await ratingRepository.getScoreEstimate('location-123', 'tomato');
+
+      expect(result).toEqual({ score: 4.12, lower: 3.55, upper: 4.69, effectiveSampleSize: 3.4 });
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT calculate_score_estimate($1, $2) as score_estimate',
+        ['location-123', 'tomato']
+      );
+    });
+
+    it('should estimate the lettuce score by default', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ score_estimate: { score: 0, lower: 0, upper: 0, effective_sample_size: 0 } }]
+      } as any);
+
+      const result = await ratingRepository.getScoreEstimate('location-123');
+
+      expect(result).toEqual({ score: 0, lower: 0, upper: 0, effectiveSampleSize: 0 });
+      expect(mockPool.query).toHaveBeenCalledWith(expect.any(String), ['location-123', 'lettuce']);
+    });
+  });
+
   describe('isRecentlyRated', () => {
     it('should return true for recently rated locations', async () => {
       mockPool.query.mockResolvedValueOnce({ 
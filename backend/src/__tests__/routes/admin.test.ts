@@ -0,0 +1,354 @@
+import request from 'supertest';
+import express from 'express';
+import { SubwayLocationDetail } from '../../types';
+
+// Mock the LocationRepository before importing the routes
+const mockCreateLocation = jest.fn();
+const mockUpdateLocation = jest.fn();
+const mockDeleteLocation = jest.fn();
+const mockGetLocationById = jest.fn();
+const mockInvalidateLocationCache = jest.fn();
+
+jest.mock('../../repositories/LocationRepository', () => {
+  return {
+    LocationRepository: jest.fn().mockImplementation(() => ({
+      createLocation: mockCreateLocation,
+      updateLocation: mockUpdateLocation,
+      deleteLocation: mockDeleteLocation,
+      getLocationById: mockGetLocationById,
+      invalidateLocationCache: mockInvalidateLocationCache
+    }))
+  };
+});
+
+const mockCreateException = jest.fn();
+const mockGetExceptionsByLocation = jest.fn();
+const mockDeleteException = jest.fn();
+
+jest.mock('../../repositories/HoursExceptionRepository', () => {
+  return {
+    HoursExceptionRepository: jest.fn().mockImplementation(() => ({
+      createException: mockCreateException,
+      getExceptionsByLocation: mockGetExceptionsByLocation,
+      deleteException: mockDeleteException
+    }))
+  };
+});
+
+// Import routes after mocking
+import adminRoutes from '../../routes/admin';
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRoutes);
+
+const ADMIN_KEY = 'test-admin-key';
+const LOCATION_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+const validHours = {
+  monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+  tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+  wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+  thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+  friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+  saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+  sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
+  timezone: 'America/New_York'
+};
+
+const validLocation = {
+  name: 'Subway - Union Square',
+  address: '4 Union Square S, New York, NY 10003',
+  coordinates: { lat: 40.7359, lng: -73.9911 },
+  hours: validHours
+};
+
+const mockLocationDetail: SubwayLocationDetail = {
+  id: LOCATION_ID,
+  ...validLocation,
+  lettuceScore: 0,
+  recentlyRated: false,
+  ratings: [],
+  timeRecommendations: [],
+  totalRatings: 0,
+  averageScore: 0
+};
+
+describe('Admin Routes', () => {
+  const originalAdminKey = process.env.ADMIN_API_KEY;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    mockGetLocationById.mockResolvedValue(mockLocationDetail);
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_API_KEY = originalAdminKey;
+  });
+
+  describe('Authentication', () => {
+    it('should return 401 without a bearer token', async () => {
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .send(validLocation);
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Unauthorized');
+      expect(mockCreateLocation).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 with the wrong key', async () => {
+      const response = await request(app)
+        .delete(`/api/admin/locations/${LOCATION_ID}`)
+        .set('Authorization', 'Bearer wrong-key');
+
+      expect(response.status).toBe(401);
+      expect(mockDeleteLocation).not.toHaveBeenCalled();
+    });
+
+    it('should return 503 when ADMIN_API_KEY is not configured', async () => {
+      delete process.env.ADMIN_API_KEY;
+
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send(validLocation);
+
+      expect(response.status).toBe(503);
+      expect(response.body.error).toBe('Admin API disabled');
+    });
+  });
+
+  describe('POST /api/admin/locations', () => {
+    it('should create a location and invalidate caches', async () => {
+      mockCreateLocation.mockResolvedValue(LOCATION_ID);
+
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send(validLocation);
+
+      expect(response.status).toBe(201);
+      expect(response.body.id).toBe(LOCATION_ID);
+      expect(mockCreateLocation).toHaveBeenCalledWith(validLocation);
+      expect(mockInvalidateLocationCache).toHaveBeenCalledWith(LOCATION_ID);
+    });
+
+    it('should return 400 with field details for invalid data', async () => {
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send({ ...validLocation, name: '', coordinates: { lat: 95, lng: 0 } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid location data');
+      expect(response.body.details.map((d: { field: string }) => d.field)).toEqual(
+        expect.arrayContaining(['name', 'coordinates.lat'])
+      );
+      expect(mockCreateLocation).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown timezone', async () => {
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send({ ...validLocation, hours: { ...validHours, timezone: 'Mars/Olympus_Mons' } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid store hours');
+    });
+
+    it('should handle repository errors', async () => {
+      mockCreateLocation.mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send(validLocation);
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Internal server error');
+      expect(response.body.message).toBe('Failed to create location');
+    });
+  });
+
+  describe('PATCH /api/admin/locations/:id', () => {
+    it('should update only the provided fields', async () => {
+      mockUpdateLocation.mockResolvedValue(true);
+
+      const response = await request(app)
+        .patch(`/api/admin/locations/${LOCATION_ID}`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send({ name: 'Subway - Union Sq (Renovated)' });
+
+      expect(response.status).toBe(200);
+      expect(mockUpdateLocation).toHaveBeenCalledWith(LOCATION_ID, { name: 'Subway - Union Sq (Renovated)' });
+      expect(mockInvalidateLocationCache).toHaveBeenCalledWith(LOCATION_ID);
+    });
+
+    it('should return 400 for an empty update', async () => {
+      const response = await request(app)
+        .patch(`/api/admin/locations/${LOCATION_ID}`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(mockUpdateLocation).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid location ID', async () => {
+      const response = await request(app)
+        .patch('/api/admin/locations/not-a-uuid')
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send({ name: 'New name' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid location ID');
+    });
+
+    it('should return 404 for non-existent location', async () => {
+      mockUpdateLocation.mockResolvedValue(false);
+
+      const response = await request(app)
+        .patch(`/api/admin/locations/${LOCATION_ID}`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send({ name: 'New name' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Location not found');
+      expect(mockInvalidateLocationCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/admin/locations/:id', () => {
+    it('should delete a location and invalidate caches', async () => {
+      mockDeleteLocation.mockResolvedValue(true);
+
+      const response = await request(app)
+        .delete(`/api/admin/locations/${LOCATION_ID}`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.id).toBe(LOCATION_ID);
+      expect(mockInvalidateLocationCache).toHaveBeenCalledWith(LOCATION_ID);
+    });
+
+    it('should return 404 for non-existent location', async () => {
+      mockDeleteLocation.mockResolvedValue(false);
+
+      const response = await request(app)
+        .delete(`/api/admin/locations/${LOCATION_ID}`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Location not found');
+    });
+  });
+
+  describe('Hours exceptions', () => {
+    const EXCEPTION_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+    const thanksgiving = {
+      startDate: '2024-11-28',
+      endDate: '2024-11-28',
+      closed: true,
+      reason: 'Thanksgiving'
+    };
+
+    it('should create a closure and invalidate caches', async () => {
+      mockGetLocationById.mockResolvedValue(mockLocationDetail);
+      mockCreateException.mockResolvedValue({ id: EXCEPTION_ID, locationId: LOCATION_ID, ...thanksgiving });
+
+      const response = await request(app)
+        .post(`/api/admin/locations/${LOCATION_ID}/hours-exceptions`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send(thanksgiving);
+
+      expect(response.status).toBe(201);
+      expect(response.body.id).toBe(EXCEPTION_ID);
+      expect(mockCreateException).toHaveBeenCalledWith(LOCATION_ID, thanksgiving);
+      expect(mockInvalidateLocationCache).toHaveBeenCalledWith(LOCATION_ID);
+    });
+
+    it('should create special hours', async () => {
+      const christmasEve = { startDate: '2024-12-24', endDate: '2024-12-24', open: '08:00', close: '15:00', reason: 'Christmas Eve' };
+      mockGetLocationById.mockResolvedValue(mockLocationDetail);
+      mockCreateException.mockResolvedValue({ id: EXCEPTION_ID, ...christmasEve });
+
+      const response = await request(app)
+        .post(`/api/admin/locations/${LOCATION_ID}/hours-exceptions`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send(christmasEve);
+
+      expect(response.status).toBe(201);
+      expect(mockCreateException).toHaveBeenCalledWith(LOCATION_ID, { ...christmasEve, closed: false });
+    });
+
+    it('should return 400 for missing hours, reversed dates or impossible dates', async () => {
+      const invalid = [
+        { startDate: '2024-12-24', endDate: '2024-12-24', reason: 'Christmas Eve' },
+        { ...thanksgiving, startDate: '2024-11-29' },
+        { ...thanksgiving, startDate: '2024-02-30', endDate: '2024-02-30' },
+        { ...thanksgiving, reason: '' }
+      ];
+
+      for (const body of invalid) {
+        const response = await request(app)
+          .post(`/api/admin/locations/${LOCATION_ID}/hours-exceptions`)
+          .set('Authorization', `Bearer ${ADMIN_KEY}`)
+          .send(body);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid hours exception');
+      }
+      expect(mockCreateException).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for non-existent location', async () => {
+      mockGetLocationById.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post(`/api/admin/locations/${LOCATION_ID}/hours-exceptions`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`)
+        .send(thanksgiving);
+
+      expect(response.status).toBe(404);
+      expect(mockCreateException).not.toHaveBeenCalled();
+    });
+
+    it('should list upcoming exceptions', async () => {
+      mockGetExceptionsByLocation.mockResolvedValue([{ id: EXCEPTION_ID, ...thanksgiving }]);
+
+      const response = await request(app)
+        .get(`/api/admin/locations/${LOCATION_ID}/hours-exceptions?from=2024-11-01`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.exceptions).toHaveLength(1);
+      expect(mockGetExceptionsByLocation).toHaveBeenCalledWith(LOCATION_ID, '2024-11-01');
+    });
+
+    it('should delete an exception and invalidate caches', async () => {
+      mockDeleteException.mockResolvedValue(true);
+
+      const response = await request(app)
+        .delete(`/api/admin/locations/${LOCATION_ID}/hours-exceptions/${EXCEPTION_ID}`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`);
+
+      expect(response.status).toBe(200);
+      expect(mockDeleteException).toHaveBeenCalledWith(LOCATION_ID, EXCEPTION_ID);
+      expect(mockInvalidateLocationCache).toHaveBeenCalledWith(LOCATION_ID);
+    });
+
+    it('should return 404 when deleting an unknown exception', async () => {
+      mockDeleteException.mockResolvedValue(false);
+
+      const response = await request(app)
+        .delete(`/api/admin/locations/${LOCATION_ID}/hours-exceptions/${EXCEPTION_ID}`)
+        .set('Authorization', `Bearer ${ADMIN_KEY}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Hours exception not found');
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import request from 'supertest';
+import express from 'express';
+import { hashPassword } from '../../utils/passwords';
+import { hashRefreshToken, signAccessToken } from '../../utils/sessionTokens';
+
+// Mock the UserRepository before importing the routes
+const mockCreateUser = jest.fn();
+const mockGetUserByEmail = jest.fn();
+const mockGetUserById = jest.fn();
+const mockSaveRefreshToken = jest.fn();
+const mockConsumeRefreshToken = jest.fn();
+
+jest.mock('../../repositories/UserRepository', () => {
+  return {
+    UserRepository: jest.fn().mockImplementation(() => ({
+      createUser: mockCreateUser,
+      getUserByEmail: mockGetUserByEmail,
+      getUserById: mockGetUserById,
+      saveRefreshToken: mockSaveRefreshToken,
+      consumeRefreshToken: mockConsumeRefreshToken
+    }))
+  };
+});
+
+// Import routes after mocking
+import authRoutes from '../../routes/auth';
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+
+const JWT_SECRET = 'test-jwt-secret';
+
+const mockUser = {
+  id: '789e0123-e89b-12d3-a456-426614174000',
+  email: 'fan@example.com',
+  displayName: 'Lettuce Fan',
+  createdAt: new Date('2024-01-15T10:30:00Z')
+};
+
+describe('Auth Routes', () => {
+  const originalSecret = process.env.JWT_SECRET;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.JWT_SECRET = JWT_SECRET;
+    mockSaveRefreshToken.mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  describe('POST /api/auth/register', () => {
+    it('should create an account and start a session', async () => {
+      mockCreateUser.mockResolvedValue(mockUser);
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'fan@example.com', password: 'crispy-lettuce', displayName: 'Lettuce Fan' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.user.email).toBe('fan@example.com');
+      expect(response.body.accessToken).toBeDefined();
+      expect(response.body.refreshToken).toBeDefined();
+      expect(response.body.user).not.toHaveProperty('passwordHash');
+
+      // Password is stored hashed, never as plain text
+      const [, passwordHash] = mockCreateUser.mock.calls[0];
+      expect(passwordHash).toMatch(/^scrypt\$/);
+      expect(mockSaveRefreshToken).toHaveBeenCalledWith(
+        mockUser.id,
+        hashRefreshToken(response.body.refreshToken),
+        expect.any(Date)
+      );
+    });
+
+    it('should return 409 for an email that is already registered', async () => {
+      mockCreateUser.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'fan@example.com', password: 'crispy-lettuce' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Email already registered');
+    });
+
+    it('should return 400 for a short password', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'fan@example.com', password: 'short' });
+
+      expect(response.status).toBe(400);
+      expect(mockCreateUser).not.toHaveBeenCalled();
+    });
+
+    it('should return 503 when JWT_SECRET is not configured', async () => {
+      delete process.env.JWT_SECRET;
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'fan@example.com', password: 'crispy-lettuce' });
+
+      expect(response.status).toBe(503);
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('should start a session for the right password', async () => {
+      mockGetUserByEmail.mockResolvedValue({ ...mockUser, passwordHash: await hashPassword('crispy-lettuce') });
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'fan@example.com', password: 'crispy-lettuce' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.id).toBe(mockUser.id);
+      expect(response.body.user).not.toHaveProperty('passwordHash');
+    });
+
+    it('should return 401 for the wrong password', async () => {
+      mockGetUserByEmail.mockResolvedValue({ ...mockUser, passwordHash: await hashPassword('crispy-lettuce') });
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'fan@example.com', password: 'wilted-lettuce' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid credentials');
+    });
+
+    it('should return 401 for an unknown email', async () => {
+      mockGetUserByEmail.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'nobody@example.com', password: 'crispy-lettuce' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid credentials');
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should rotate the refresh token', async () => {
+      mockConsumeRefreshToken.mockResolvedValue(mockUser.id);
+      mockGetUserById.mockResolvedValue(mockUser);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'old-refresh-token' });
+
+      expect(response.status).toBe(200);
+      expect(mockConsumeRefreshToken).toHaveBeenCalledWith(hashRefreshToken('old-refresh-token'));
+      expect(response.body.refreshToken).not.toBe('old-refresh-token');
+    });
+
+    it('should return 401 for a used or expired refresh token', async () => {
+      mockConsumeRefreshToken.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'used-refresh-token' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe('INVALID_REFRESH_TOKEN');
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the refresh token', async () => {
+      mockConsumeRefreshToken.mockResolvedValue(mockUser.id);
+
+      const response = await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: 'refresh-token' });
+
+      expect(response.status).toBe(204);
+      expect(mockConsumeRefreshToken).toHaveBeenCalledWith(hashRefreshToken('refresh-token'));
+    });
+  });
+
+  describe('GET /api/auth/me', () => {
+    it('should return the signed-in user', async () => {
+      mockGetUserById.mockResolvedValue(mockUser);
+      const accessToken = signAccessToken({ id: mockUser.id, email: mockUser.email }, JWT_SECRET);
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(mockGetUserById).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should return 401 without an access token', async () => {
+      const response = await request(app).get('/api/auth/me');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 401 for a token signed with another secret', async () => {
+      const accessToken = signAccessToken({ id: mockUser.id, email: mockUser.email }, 'other-secret');
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe('INVALID_ACCESS_TOKEN');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import request from 'supertest';
+import express from 'express';
+import deviceRoutes from '../../routes/devices';
+import { verifyDeviceToken } from '../../utils/deviceTokens';
+
+const app = express();
+app.use(express.json());
+app.use('/api/devices', deviceRoutes);
+
+describe('Device Routes', () => {
+  const originalSecret = process.env.DEVICE_TOKEN_SECRET;
+
+  beforeAll(() => {
+    process.env.DEVICE_TOKEN_SECRET = 'test-device-secret';
+  });
+
+  afterAll(() => {
+    process.env.DEVICE_TOKEN_SECRET = originalSecret;
+  });
+
+  describe('POST /api/devices', () => {
+    it('should issue a signed device token', async () => {
+      const response = await request(app).post('/api/devices');
+
+      expect(response.status).toBe(201);
+      expect(response.body.deviceId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(verifyDeviceToken(response.body.deviceToken)).toBe(response.body.deviceId);
+    });
+
+    it('should issue a different device each time', async () => {
+      const first = await request(app).post('/api/devices');
+      const second = await request(app).post('/api/devices');
+
+      expect(first.body.deviceId).not.toBe(second.body.deviceId);
+    });
+  });
+
+  describe('verifyDeviceToken', () => {
+    it('should reject a token with a tampered device ID', async () => {
+      const response = await request(app).post('/api/devices');
+      const [, signature] = response.body.deviceToken.split('.');
+
+      expect(verifyDeviceToken(`123e4567-e89b-12d3-a456-426614174000.${signature}`)).toBeNull();
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(verifyDeviceToken('not-a-token')).toBeNull();
+      expect(verifyDeviceToken('a.b.c')).toBeNull();
+    });
+  });
+});
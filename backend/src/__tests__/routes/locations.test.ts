@@ -1,20 +1,129 @@
 import request from 'supertest';
 import express from 'express';
+import sharp from 'sharp';
 import { SubwayLocation, SubwayLocationDetail } from '../../types';
+import { hashEditToken } from '../../utils/ratingTokens';
+import { issueDeviceToken } from '../../utils/deviceTokens';
+import { signAccessToken } from '../../utils/sessionTokens';
 
 // Mock the LocationRepository before importing the routes
-const mockGetNearbyLocations = jest.fn();
+const mockGetNearbyLocationsPage = jest.fn();
 const mockGetLocationById = jest.fn();
+const mockSearchLocations = jest.fn();
+const mockAutocompleteLocations = jest.fn();
+const mockGetLocationsInBounds = jest.fn();
+const mockGetHotLocations = jest.fn();
+const mockGetLocationsBatch = jest.fn();
 
 jest.mock('../../repositories/LocationRepository', () => {
   return {
     LocationRepository: jest.fn().mockImplementation(() => ({
-      getNearbyLocations: mockGetNearbyLocations,
-      getLocationById: mockGetLocationById
+      getNearbyLocationsPage: mockGetNearbyLocationsPage,
+      getLocationById: mockGetLocationById,
+      searchLocations: mockSearchLocations,
+      autocompleteLocations: mockAutocompleteLocations,
+      getLocationsInBounds: mockGetLocationsInBounds,
+      getHotLocations: mockGetHotLocations,
+      getLocationsBatch: mockGetLocationsBatch
     }))
   };
 });
 
+const mockGetRatingById = jest.fn();
+const mockUpdateRatingScore = jest.fn();
+const mockDeleteRating = jest.fn();
+const mockSubmitRatings = jest.fn();
+const mockGetHeatmapAnalysis = jest.fn();
+const mockGetHistoricalAnalysisInRange = jest.fn();
+const mockGetFreshnessForecast = jest.fn();
+const mockGetFreshnessForecasts = jest.fn();
+
+jest.mock('../../repositories/RatingRepository', () => {
+  return {
+    RatingRepository: jest.fn().mockImplementation(() => ({
+      getRatingById: mockGetRatingById,
+      updateRatingScore: mockUpdateRatingScore,
+      deleteRating: mockDeleteRating,
+      submitRatings: mockSubmitRatings,
+      getHeatmapAnalysis: mockGetHeatmapAnalysis,
+      getHistoricalAnalysisInRange: mockGetHistoricalAnalysisInRange,
+      getFreshnessForecast: mockGetFreshnessForecast,
+      getFreshnessForecasts: mockGetFreshnessForecasts
+    }))
+  };
+});
+
+const mockCreatePhoto = jest.fn();
+const mockGetPhotosByLocation = jest.fn();
+const mockGetPhotoIdsByRating = jest.fn();
+
+jest.mock('../../repositories/PhotoRepository', () => {
+  return {
+    PhotoRepository: jest.fn().mockImplementation(() => ({
+      createPhoto: mockCreatePhoto,
+      getPhotosByLocation: mockGetPhotosByLocation,
+      getPhotoIdsByRating: mockGetPhotoIdsByRating
+    }))
+  };
+});
+
+const mockGetExceptionsForLocations = jest.fn();
+
+jest.mock('../../repositories/HoursExceptionRepository', () => {
+  return {
+    HoursExceptionRepository: jest.fn().mockImplementation(() => ({
+      getExceptionsForLocations: mockGetExceptionsForLocations
+    }))
+  };
+});
+
+const mockGetScoreHistory = jest.fn();
+
+jest.mock('../../repositories/ScoreHistoryRepository', () => {
+  return {
+    ScoreHistoryRepository: jest.fn().mockImplementation(() => ({
+      getScoreHistory: mockGetScoreHistory
+    }))
+  };
+});
+
+const mockGetRestockPattern = jest.fn();
+const mockGetRestockEvents = jest.fn();
+
+jest.mock('../../repositories/RestockRepository', () => {
+  return {
+    RestockRepository: jest.fn().mockImplementation(() => ({
+      getRestockPattern: mockGetRestockPattern,
+      getRestockEvents: mockGetRestockEvents
+    }))
+  };
+});
+
+const mockGetScoreExplanation = jest.fn();
+
+jest.mock('../../repositories/ScoringRepository', () => {
+  return {
+    ScoringRepository: jest.fn().mockImplementation(() => ({
+      getScoreExplanation: mockGetScoreExplanation
+    }))
+  };
+});
+
+const mockSavePhoto = jest.fn();
+const mockRemovePhoto = jest.fn();
+
+jest.mock('../../services/photoStorage', () => ({
+  photoStorage: {
+    save: (...args: unknown[]) => mockSavePhoto(...args),
+    remove: (...args: unknown[]) => mockRemovePhoto(...args)
+  }
+}));
+
+jest.mock('../../utils/weightedScore', () => ({
+  calculateWeightedScore: jest.fn().mockResolvedValue(4.3),
+  calculateIngredientScores: jest.fn().mockResolvedValue({ lettuce: 4.3 })
+}));
+
 // Import routes after mocking
 import locationRoutes from '../../routes/locations';
 
@@ -25,8 +134,29 @@ app.use('/api/locations', locationRoutes);
 describe('Location Routes', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockGetExceptionsForLocations.mockResolvedValue(new Map());
+    mockGetRestockPattern.mockResolvedValue({
+      typicalDays: [],
+      typicalTime: null,
+      summary: null,
+      eventCount: 0,
+      lastRestockedAt: null,
+      confidence: 'low'
+    });
   });
 
+  // Open every day, all day
+  const aroundTheClock = {
+    monday: { intervals: [{ open: '00:00', close: '24:00' }] },
+    tuesday: { intervals: [{ open: '00:00', close: '24:00' }] },
+    wednesday: { intervals: [{ open: '00:00', close: '24:00' }] },
+    thursday: { intervals: [{ open: '00:00', close: '24:00' }] },
+    friday: { intervals: [{ open: '00:00', close: '24:00' }] },
+    saturday: { intervals: [{ open: '00:00', close: '24:00' }] },
+    sunday: { intervals: [{ open: '00:00', close: '24:00' }] },
+    timezone: 'America/New_York'
+  };
+
   describe('GET /api/locations/nearby', () => {
     const mockLocations: SubwayLocation[] = [
       {
@@ -35,13 +165,13 @@ describe('Location Routes', () => {
         address: '123 Main St, City, State 12345',
         coordinates: { lat: 40.7128, lng: -74.0060 },
         hours: {
-          monday: { open: '06:00', close: '22:00' },
-          tuesday: { open: '06:00', close: '22:00' },
-          wednesday: { open: '06:00', close: '22:00' },
-          thursday: { open: '06:00', close: '22:00' },
-          friday: { open: '06:00', close: '22:00' },
-          saturday: { open: '07:00', close: '21:00' },
-          sunday: { open: '08:00', close: '20:00' },
+          monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+          sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
           timezone: 'America/New_York'
         },
         lettuceScore: 4.2,
@@ -55,13 +185,13 @@ describe('Location Routes', () => {
         address: '456 Oak Ave, City, State 12345',
         coordinates: { lat: 40.7589, lng: -73.9851 },
         hours: {
-          monday: { open: '06:00', close: '22:00' },
-          tuesday: { open: '06:00', close: '22:00' },
-          wednesday: { open: '06:00', close: '22:00' },
-          thursday: { open: '06:00', close: '22:00' },
-          friday: { open: '06:00', close: '22:00' },
-          saturday: { open: '07:00', close: '21:00' },
-          sunday: { open: '08:00', close: '20:00' },
+          monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+          saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+          sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
           timezone: 'America/New_York'
         },
         lettuceScore: 3.8,
@@ -72,7 +202,7 @@ describe('Location Routes', () => {
     ];
 
     it('should return nearby locations successfully', async () => {
-      mockGetNearbyLocations.mockResolvedValue(mockLocations);
+      mockGetNearbyLocationsPage.mockResolvedValue({ locations: mockLocations, nextCursor: null });
 
       const response = await request(app)
         .get('/api/locations/nearby')
@@ -83,6 +213,7 @@ describe('Location Routes', () => {
       expect(response.body.searchRadius).toBe(5000);
       expect(response.body.totalFound).toBe(2);
       expect(response.body.locations).toHaveLength(2);
+      expect(response.body.nextCursor).toBeNull();
       
       // Check first location structure (dates are serialized as strings in JSON)
       expect(response.body.locations[0].id).toBe('123e4567-e89b-12d3-a456-426614174000');
@@ -90,14 +221,37 @@ describe('Location Routes', () => {
       expect(response.body.locations[0].lettuceScore).toBe(4.2);
       expect(response.body.locations[0].lastRated).toBe('2024-01-15T10:30:00.000Z');
 
-      expect(mockGetNearbyLocations).toHaveBeenCalledWith(
+      expect(mockGetNearbyLocationsPage).toHaveBeenCalledWith(
         { lat: 40.7128, lng: -74.0060 },
-        5000
+        5000,
+        expect.objectContaining({ sort: 'distance', limit: 20, after: undefined })
+      );
+    });
+
+    it('should compute each location\'s open status', async () => {
+      mockGetNearbyLocationsPage.mockResolvedValue({
+        locations: [{ ...mockLocations[0]!, hours: aroundTheClock }, mockLocations[1]!],
+        nextCursor: null
+      });
+
+      const response = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.locations[0]).toMatchObject({ isOpen: true, closingSoon: false });
+      expect(response.body.locations[0].closesAt).toBeUndefined();
+      expect(typeof response.body.locations[1].isOpen).toBe('boolean');
+      expect(response.body.locations[1].closesAt ?? response.body.locations[1].opensAt).toEqual(expect.any(String));
+      expect(mockGetExceptionsForLocations).toHaveBeenCalledWith(
+        mockLocations.map(location => location.id),
+        expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/)
       );
     });
 
     it('should handle custom radius and limit parameters', async () => {
-      mockGetNearbyLocations.mockResolvedValue(mockLocations);
+      const nextCursor = { sortKey: 150, distance: 150, id: mockLocations[0]!.id };
+      mockGetNearbyLocationsPage.mockResolvedValue({ locations: mockLocations.slice(0, 1), nextCursor });
 
       const response = await request(app)
         .get('/api/locations/nearby')
@@ -107,12 +261,198 @@ describe('Location Routes', () => {
       expect(response.body.locations).toHaveLength(1);
       expect(response.body.searchRadius).toBe(2000);
 
-      expect(mockGetNearbyLocations).toHaveBeenCalledWith(
+      expect(mockGetNearbyLocationsPage).toHaveBeenCalledWith(
+        { lat: 40.7128, lng: -74.0060 },
+        2000,
+        expect.objectContaining({ limit: 1, after: undefined })
+      );
+      expect(response.body.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should pass a returned cursor back as the keyset position', async () => {
+      const nextCursor = { sortKey: -4.2, distance: 150, id: mockLocations[0]!.id };
+      mockGetNearbyLocationsPage.mockResolvedValue({ locations: mockLocations.slice(0, 1), nextCursor });
+
+      const firstPage = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060, limit: 1, sort: 'score' });
+
+      mockGetNearbyLocationsPage.mockResolvedValue({ locations: mockLocations.slice(1), nextCursor: null });
+
+      const secondPage = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060, limit: 1, sort: 'score', cursor: firstPage.body.nextCursor });
+
+      expect(secondPage.status).toBe(200);
+      expect(secondPage.body.nextCursor).toBeNull();
+      expect(mockGetNearbyLocationsPage).toHaveBeenLastCalledWith(
+        { lat: 40.7128, lng: -74.0060 },
+        5000,
+        expect.objectContaining({ sort: 'score', limit: 1, after: nextCursor })
+      );
+    });
+
+    it('should pass filters and sort order to the repository', async () => {
+      mockGetNearbyLocationsPage.mockResolvedValue({ locations: mockLocations, nextCursor: null });
+
+      const response = await request(app)
+        .get('/api/locations/nearby')
+        .query({
+          lat: 40.7128,
+          lng: -74.0060,
+          radius: 2000,
+          minScore: 4,
+          openNow: 'true',
+          recentlyRatedOnly: 'false',
+          minRatings: 3,
+          sort: 'blended'
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.sort).toBe('blended');
+      expect(mockGetNearbyLocationsPage).toHaveBeenCalledWith(
         { lat: 40.7128, lng: -74.0060 },
-        2000
+        2000,
+        {
+          sort: 'blended',
+          minScore: 4,
+          openNow: true,
+          recentlyRatedOnly: false,
+          minRatings: 3,
+          limit: 20,
+          after: undefined
+        }
       );
     });
 
+    it('should return 400 for an unknown sort order', async () => {
+      const response = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060, sort: 'popularity' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid sort');
+    });
+
+    it('should return 400 for an out of range minScore', async () => {
+      const response = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060, minScore: 6 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid minScore');
+    });
+
+    it('should return 400 for a non-boolean openNow', async () => {
+      const response = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060, openNow: 'sometimes' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid filter');
+      expect(mockGetNearbyLocationsPage).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed cursor', async () => {
+      const response = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060, cursor: 'not-a-cursor' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid cursor');
+      expect(mockGetNearbyLocationsPage).not.toHaveBeenCalled();
+    });
+
+    describe('with a visit time', () => {
+      const at = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+      const forecastFor = (predictedScore: number | null) => ({
+        at,
+        predictedScore,
+        lowerBound: predictedScore,
+        upperBound: predictedScore,
+        confidence: 'low',
+        historicalScore: predictedScore,
+        currentScore: null,
+        momentumWeight: 0,
+        sampleSize: 0
+      });
+
+      beforeEach(() => {
+        mockGetNearbyLocationsPage.mockResolvedValue({ locations: mockLocations, nextCursor: null });
+        mockGetFreshnessForecasts.mockResolvedValue(new Map([
+          [mockLocations[0]!.id, forecastFor(3.9)],
+          [mockLocations[1]!.id, forecastFor(4.6)]
+        ]));
+      });
+
+      it('should rank by predicted score at the visit time', async () => {
+        const response = await request(app)
+          .get('/api/locations/nearby')
+          .query({ lat: 40.7128, lng: -74.0060, sort: 'score', at, openNow: 'true' });
+
+        expect(response.status).toBe(200);
+        expect(response.body.at).toBe(at);
+        expect(response.body.locations.map((location: SubwayLocation) => location.name)).toEqual([
+          'Subway Uptown',
+          'Subway Downtown'
+        ]);
+        expect(response.body.locations[0].forecast.predictedScore).toBe(4.6);
+
+        // The closest matches open at the visit time are ranked
+        expect(mockGetNearbyLocationsPage).toHaveBeenCalledWith(
+          { lat: 40.7128, lng: -74.0060 },
+          5000,
+          { openNow: true, openAt: new Date(at), recentlyRatedOnly: undefined, minRatings: undefined, limit: 100 }
+        );
+        expect(mockGetFreshnessForecasts).toHaveBeenCalledWith(mockLocations, new Date(at));
+      });
+
+      it('should keep distance order when sorting by distance', async () => {
+        const response = await request(app)
+          .get('/api/locations/nearby')
+          .query({ lat: 40.7128, lng: -74.0060, at });
+
+        expect(response.body.locations.map((location: SubwayLocation) => location.name)).toEqual([
+          'Subway Downtown',
+          'Subway Uptown'
+        ]);
+      });
+
+      it('should filter by predicted score', async () => {
+        const response = await request(app)
+          .get('/api/locations/nearby')
+          .query({ lat: 40.7128, lng: -74.0060, at, minScore: 4 });
+
+        expect(response.body.locations.map((location: SubwayLocation) => location.name)).toEqual(['Subway Uptown']);
+      });
+
+      it('should page through the ranking with the returned cursor', async () => {
+        const firstPage = await request(app)
+          .get('/api/locations/nearby')
+          .query({ lat: 40.7128, lng: -74.0060, sort: 'score', at, limit: 1 });
+
+        expect(firstPage.body.locations.map((location: SubwayLocation) => location.name)).toEqual(['Subway Uptown']);
+        expect(firstPage.body.nextCursor).toEqual(expect.any(String));
+
+        const secondPage = await request(app)
+          .get('/api/locations/nearby')
+          .query({ lat: 40.7128, lng: -74.0060, sort: 'score', at, limit: 1, cursor: firstPage.body.nextCursor });
+
+        expect(secondPage.body.locations.map((location: SubwayLocation) => location.name)).toEqual(['Subway Downtown']);
+        expect(secondPage.body.nextCursor).toBeNull();
+      });
+
+      it('should return 400 for a visit time more than a week ahead', async () => {
+        const response = await request(app)
+          .get('/api/locations/nearby')
+          .query({ lat: 40.7128, lng: -74.0060, at: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000).toISOString() });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid forecast time');
+        expect(mockGetNearbyLocationsPage).not.toHaveBeenCalled();
+      });
+    });
+
     it('should return 400 for missing lat parameter', async () => {
       const response = await request(app)
         .get('/api/locations/nearby')
@@ -162,8 +502,23 @@ describe('Location Routes', () => {
       expect(response.body.message).toBe('Limit must be between 1 and 100');
     });
 
+    it('should return 400 for a non-numeric radius or limit', async () => {
+      const radiusResponse = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060, radius: 'abc' });
+      const limitResponse = await request(app)
+        .get('/api/locations/nearby')
+        .query({ lat: 40.7128, lng: -74.0060, limit: 'abc' });
+
+      expect(radiusResponse.status).toBe(400);
+      expect(radiusResponse.body.error).toBe('Invalid radius');
+      expect(limitResponse.status).toBe(400);
+      expect(limitResponse.body.error).toBe('Invalid limit');
+      expect(mockGetNearbyLocationsPage).not.toHaveBeenCalled();
+    });
+
     it('should handle repository errors', async () => {
-      mockGetNearbyLocations.mockRejectedValue(new Error('Database error'));
+      mockGetNearbyLocationsPage.mockRejectedValue(new Error('Database error'));
 
       const response = await request(app)
         .get('/api/locations/nearby')
@@ -175,167 +530,1521 @@ describe('Location Routes', () => {
     });
 
     it('should parse string coordinates correctly', async () => {
-      mockGetNearbyLocations.mockResolvedValue(mockLocations);
+      mockGetNearbyLocationsPage.mockResolvedValue({ locations: mockLocations, nextCursor: null });
 
       const response = await request(app)
         .get('/api/locations/nearby')
         .query({ lat: '40.7128', lng: '-74.0060' });
 
       expect(response.status).toBe(200);
-      expect(mockGetNearbyLocations).toHaveBeenCalledWith(
+      expect(mockGetNearbyLocationsPage).toHaveBeenCalledWith(
         { lat: 40.7128, lng: -74.0060 },
-        5000
+        5000,
+        expect.objectContaining({ sort: 'distance', limit: 20, after: undefined })
       );
     });
   });
 
-  describe('GET /api/locations/:id', () => {
-    const mockLocationDetail: SubwayLocationDetail = {
+  describe('GET /api/locations/hot', () => {
+    const mockHotLocation = {
       id: '123e4567-e89b-12d3-a456-426614174000',
       name: 'Subway Downtown',
-      address: '123 Main St, City, State 12345',
+      address: '123 Main St, New York, NY 10001',
       coordinates: { lat: 40.7128, lng: -74.0060 },
-      hours: {
-        monday: { open: '06:00', close: '22:00' },
-        tuesday: { open: '06:00', close: '22:00' },
-        wednesday: { open: '06:00', close: '22:00' },
-        thursday: { open: '06:00', close: '22:00' },
-        friday: { open: '06:00', close: '22:00' },
-        saturday: { open: '07:00', close: '21:00' },
-        sunday: { open: '08:00', close: '20:00' },
-        timezone: 'America/New_York'
-      },
-      lettuceScore: 4.2,
-      lastRated: new Date('2024-01-15T10:30:00Z'),
+      lettuceScore: 4.5,
       recentlyRated: true,
-      ratings: [
-        {
-          id: '321e4567-e89b-12d3-a456-426614174002',
-          locationId: '123e4567-e89b-12d3-a456-426614174000',
-          score: 5,
-          timestamp: new Date('2024-01-15T10:30:00Z')
-        },
-        {
-          id: '421e4567-e89b-12d3-a456-426614174003',
-          locationId: '123e4567-e89b-12d3-a456-426614174000',
-          score: 4,
-          timestamp: new Date('2024-01-15T09:15:00Z')
-        }
-      ],
-      timeRecommendations: [
-        {
-          period: 'morning',
-          averageScore: 4.5,
-          confidence: 'high',
-          sampleSize: 15,
-          timeRange: '6:00 AM - 11:00 AM'
-        },
-        {
-          period: 'lunch',
-          averageScore: 4.0,
-          confidence: 'medium',
-          sampleSize: 8,
-          timeRange: '11:00 AM - 3:00 PM'
-        }
-      ],
-      totalRatings: 2,
-      averageScore: 4.5
+      distanceFromUser: 150,
+      ratingCount: 12,
+      recentRatingCount: 6,
+      ratingVelocity: 0.25
     };
 
-    it('should return location details successfully', async () => {
-      mockGetLocationById.mockResolvedValue(mockLocationDetail);
+    it('should return trending locations with rating velocity', async () => {
+      mockGetHotLocations.mockResolvedValue([mockHotLocation]);
 
       const response = await request(app)
-        .get('/api/locations/123e4567-e89b-12d3-a456-426614174000');
+        .get('/api/locations/hot')
+        .query({ lat: 40.7128, lng: -74.0060, radius: 3000 });
 
       expect(response.status).toBe(200);
-      
-      // Check main properties (dates are serialized as strings in JSON)
-      expect(response.body.id).toBe('123e4567-e89b-12d3-a456-426614174000');
-      expect(response.body.name).toBe('Subway Downtown');
-      expect(response.body.lettuceScore).toBe(4.2);
-      expect(response.body.lastRated).toBe('2024-01-15T10:30:00.000Z');
-      expect(response.body.totalRatings).toBe(2);
-      expect(response.body.averageScore).toBe(4.5);
-      
-      // Check ratings array
-      expect(response.body.ratings).toHaveLength(2);
-      expect(response.body.ratings[0].score).toBe(5);
-      expect(response.body.ratings[0].timestamp).toBe('2024-01-15T10:30:00.000Z');
-      
-      // Check time recommendations
-      expect(response.body.timeRecommendations).toHaveLength(2);
-      expect(response.body.timeRecommendations[0].period).toBe('morning');
-      expect(response.body.timeRecommendations[0].averageScore).toBe(4.5);
-      
-      expect(mockGetLocationById).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000');
+      expect(response.body.totalFound).toBe(1);
+      expect(response.body.searchRadius).toBe(3000);
+      expect(response.body.locations[0].ratingVelocity).toBe(0.25);
+      expect(mockGetHotLocations).toHaveBeenCalledWith({ lat: 40.7128, lng: -74.0060 }, 3000, 10);
     });
 
-    it('should return 404 for non-existent location', async () => {
-      mockGetLocationById.mockResolvedValue(null);
-
+    it('should return 400 for missing coordinates', async () => {
       const response = await request(app)
-        .get('/api/locations/123e4567-e89b-12d3-a456-426614174000');
+        .get('/api/locations/hot')
+        .query({ lat: 40.7128 });
 
-      expect(response.status).toBe(404);
-      expect(response.body.error).toBe('Location not found');
-      expect(response.body.message).toBe('No location found with ID: 123e4567-e89b-12d3-a456-426614174000');
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Missing required parameters');
     });
 
-    it('should return 400 for invalid UUID format', async () => {
+    it('should return 400 for invalid radius', async () => {
       const response = await request(app)
-        .get('/api/locations/invalid-uuid');
+        .get('/api/locations/hot')
+        .query({ lat: 40.7128, lng: -74.0060, radius: 60000 });
 
       expect(response.status).toBe(400);
-      expect(response.body.error).toBe('Invalid location ID');
-      expect(response.body.message).toBe('Location ID must be a valid UUID');
+      expect(response.body.error).toBe('Invalid radius');
     });
 
     it('should handle repository errors', async () => {
-      mockGetLocationById.mockRejectedValue(new Error('Database error'));
+      mockGetHotLocations.mockRejectedValue(new Error('Database error'));
 
       const response = await request(app)
-        .get('/api/locations/123e4567-e89b-12d3-a456-426614174000');
+        .get('/api/locations/hot')
+        .query({ lat: 40.7128, lng: -74.0060 });
 
       expect(response.status).toBe(500);
-      expect(response.body.error).toBe('Internal server error');
-      expect(response.body.message).toBe('Failed to fetch location details');
+      expect(response.body.message).toBe('Failed to fetch hot locations');
     });
+  });
 
-    it('should accept valid UUID formats', async () => {
-      mockGetLocationById.mockResolvedValue(mockLocationDetail);
+  describe('GET /api/locations/search', () => {
+    const mockSuggestions = [
+      {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        name: 'Subway - Union Square',
+        address: '4 Union Square S, New York, NY 10003',
+        coordinates: { lat: 40.7359, lng: -73.9911 },
+        matchScore: 1
+      }
+    ];
 
-      // Test various valid UUID formats
-      const validUUIDs = [
-        '123e4567-e89b-12d3-a456-426614174000',
-        'A1B2C3D4-E5F6-1234-A567-123456789ABC',
-        'ffffffff-ffff-1fff-8fff-ffffffffffff'
-      ];
+    it('should return full search results', async () => {
+      mockSearchLocations.mockResolvedValue([{ ...mockSuggestions[0], lettuceScore: 4.1, recentlyRated: false }]);
 
-      for (const uuid of validUUIDs) {
-        const response = await request(app)
-          .get(`/api/locations/${uuid}`);
+      const response = await request(app)
+        .get('/api/locations/search')
+        .query({ q: '  Union Square ' });
 
-        expect(response.status).not.toBe(400);
-        expect(mockGetLocationById).toHaveBeenCalledWith(uuid);
-      }
+      expect(response.status).toBe(200);
+      expect(response.body.query).toBe('Union Square');
+      expect(response.body.mode).toBe('full');
+      expect(response.body.totalFound).toBe(1);
+      expect(mockSearchLocations).toHaveBeenCalledWith('Union Square', { coordinates: undefined, limit: 10 });
+      expect(mockAutocompleteLocations).not.toHaveBeenCalled();
     });
 
-    it('should reject invalid UUID formats', async () => {
-      const invalidUUIDs = [
-        'not-a-uuid',
-        '123e4567-e89b-12d3-a456',
-        '123e4567-e89b-12d3-a456-426614174000-extra',
-        '123e4567-e89b-12d3-g456-426614174000' // invalid character 'g'
-      ];
+    it('should use autocomplete mode with proximity bias', async () => {
+      mockAutocompleteLocations.mockResolvedValue(mockSuggestions);
 
-      for (const uuid of invalidUUIDs) {
-        const response = await request(app)
-          .get(`/api/locations/${uuid}`);
+      const response = await request(app)
+        .get('/api/locations/search')
+        .query({ q: 'unio', mode: 'autocomplete', lat: 40.7128, lng: -74.0060 });
 
-        expect(response.status).toBe(400);
-        expect(response.body.error).toBe('Invalid location ID');
-      }
+      expect(response.status).toBe(200);
+      expect(response.body.mode).toBe('autocomplete');
+      expect(response.body.results).toHaveLength(1);
+      expect(mockAutocompleteLocations).toHaveBeenCalledWith('unio', {
+        coordinates: { lat: 40.7128, lng: -74.0060 },
+        limit: 5
+      });
+    });
+
+    it('should return 400 for a too-short query', async () => {
+      const response = await request(app)
+        .get('/api/locations/search')
+        .query({ q: 'u' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid search query');
+    });
+
+    it('should return 400 when only one coordinate is given', async () => {
+      const response = await request(app)
+        .get('/api/locations/search')
+        .query({ q: 'union', lat: 40.7128 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid coordinates');
+    });
+
+    it('should return 400 for an unknown mode', async () => {
+      const response = await request(app)
+        .get('/api/locations/search')
+        .query({ q: 'union', mode: 'fuzzy' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid search mode');
+    });
+
+    it('should handle repository errors', async () => {
+      mockSearchLocations.mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/locations/search')
+        .query({ q: 'union' });
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to search locations');
+    });
+  });
+
+  describe('GET /api/locations/within-bounds', () => {
+    const viewport = { north: 40.8, south: 40.7, east: -73.9, west: -74.1 };
+
+    it('should return locations inside the viewport', async () => {
+      mockGetLocationsInBounds.mockResolvedValue({ locations: [], tooMany: false });
+
+      const response = await request(app)
+        .get('/api/locations/within-bounds')
+        .query(viewport);
+
+      expect(response.status).toBe(200);
+      expect(response.body.bounds).toEqual(viewport);
+      expect(response.body.limit).toBe(100);
+      expect(response.body.tooMany).toBe(false);
+      expect(mockGetLocationsInBounds).toHaveBeenCalledWith(viewport, 100);
+    });
+
+    it('should report when the viewport has more locations than the limit', async () => {
+      mockGetLocationsInBounds.mockResolvedValue({ locations: [], tooMany: true });
+
+      const response = await request(app)
+        .get('/api/locations/within-bounds')
+        .query({ ...viewport, limit: 50 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.tooMany).toBe(true);
+      expect(mockGetLocationsInBounds).toHaveBeenCalledWith(viewport, 50);
+    });
+
+    it('should accept a viewport crossing the antimeridian', async () => {
+      mockGetLocationsInBounds.mockResolvedValue({ locations: [], tooMany: false });
+
+      const response = await request(app)
+        .get('/api/locations/within-bounds')
+        .query({ north: 10, south: -10, east: -170, west: 170 });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 400 when a bound is missing', async () => {
+      const response = await request(app)
+        .get('/api/locations/within-bounds')
+        .query({ north: 40.8, south: 40.7, east: -73.9 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Missing required parameters');
+    });
+
+    it('should return 400 when north is not above south', async () => {
+      const response = await request(app)
+        .get('/api/locations/within-bounds')
+        .query({ ...viewport, north: 40.6 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid bounds');
+    });
+
+    it('should return 400 for a limit above the cap', async () => {
+      const response = await request(app)
+        .get('/api/locations/within-bounds')
+        .query({ ...viewport, limit: 500 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid limit');
+    });
+
+    it('should handle repository errors', async () => {
+      mockGetLocationsInBounds.mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/locations/within-bounds')
+        .query(viewport);
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to fetch locations in bounds');
+    });
+  });
+
+  describe('POST /api/locations/batch', () => {
+    const firstId = '123e4567-e89b-12d3-a456-426614174000';
+    const secondId = '123e4567-e89b-12d3-a456-426614174001';
+
+    const mockEntry = {
+      id: firstId,
+      lettuceScore: 4.2,
+      averageScore: 4.1,
+      totalRatings: 10,
+      recentRatings: 2,
+      scoreDistribution: [
+        { score: 1, count: 0 },
+        { score: 2, count: 1 },
+        { score: 3, count: 1 },
+        { score: 4, count: 3 },
+        { score: 5, count: 5 }
+      ]
+    };
+
+    it('should return scores and stats for each location', async () => {
+      mockGetLocationsBatch.mockResolvedValue([mockEntry]);
+
+      const response = await request(app)
+        .post('/api/locations/batch')
+        .send({ ids: [firstId, secondId] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.locations).toEqual([mockEntry]);
+      expect(response.body.notFound).toEqual([secondId]);
+      expect(mockGetLocationsBatch).toHaveBeenCalledWith([firstId, secondId]);
+    });
+
+    it('should return 400 when ids is missing or empty', async () => {
+      const response = await request(app)
+        .post('/api/locations/batch')
+        .send({ ids: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Missing required parameters');
+      expect(mockGetLocationsBatch).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for more than 100 ids', async () => {
+      const ids = Array.from({ length: 101 }, () => firstId);
+
+      const response = await request(app)
+        .post('/api/locations/batch')
+        .send({ ids });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Too many IDs');
+    });
+
+    it('should return 400 listing invalid ids', async () => {
+      const response = await request(app)
+        .post('/api/locations/batch')
+        .send({ ids: [firstId, 'not-a-uuid'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid location ID');
+      expect(response.body.details.invalidIds).toEqual(['not-a-uuid']);
+    });
+
+    it('should handle repository errors', async () => {
+      mockGetLocationsBatch.mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app)
+        .post('/api/locations/batch')
+        .send({ ids: [firstId] });
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to fetch location batch');
+    });
+  });
+
+  describe('GET /api/locations/:id', () => {
+    const mockLocationDetail: SubwayLocationDetail = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'Subway Downtown',
+      address: '123 Main St, City, State 12345',
+      coordinates: { lat: 40.7128, lng: -74.0060 },
+      hours: {
+        monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+        saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+        sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
+        timezone: 'America/New_York'
+      },
+      lettuceScore: 4.2,
+      lastRated: new Date('2024-01-15T10:30:00Z'),
+      recentlyRated: true,
+      ratings: [
+        {
+          id: '321e4567-e89b-12d3-a456-426614174002',
+          locationId: '123e4567-e89b-12d3-a456-426614174000',
+          score: 5,
+          timestamp: new Date('2024-01-15T10:30:00Z')
+        },
+        {
+          id: '421e4567-e89b-12d3-a456-426614174003',
+          locationId: '123e4567-e89b-12d3-a456-426614174000',
+          score: 4,
+          timestamp: new Date('2024-01-15T09:15:00Z')
+        }
+      ],
+      timeRecommendations: [
+        {
+          period: 'morning',
+          averageScore: 4.5,
+          confidence: 'high',
+          sampleSize: 15,
+          timeRange: '6:00 AM - 11:00 AM'
+        },
+        {
+          period: 'lunch',
+          averageScore: 4.0,
+          confidence: 'medium',
+          sampleSize: 8,
+          timeRange: '11:00 AM - 3:00 PM'
+        }
+      ],
+      totalRatings: 2,
+      averageScore: 4.5
+    };
+
+    it('should return location details successfully', async () => {
+      mockGetLocationById.mockResolvedValue(mockLocationDetail);
+
+      const response = await request(app)
+        .get('/api/locations/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).toBe(200);
+      
+      // Check main properties (dates are serialized as strings in JSON)
+      expect(response.body.id).toBe('123e4567-e89b-12d3-a456-426614174000');
+      expect(response.body.name).toBe('Subway Downtown');
+      expect(response.body.lettuceScore).toBe(4.2);
+      expect(response.body.lastRated).toBe('2024-01-15T10:30:00.000Z');
+      expect(response.body.totalRatings).toBe(2);
+      expect(response.body.averageScore).toBe(4.5);
+      
+      // Check ratings array
+      expect(response.body.ratings).toHaveLength(2);
+      expect(response.body.ratings[0].score).toBe(5);
+      expect(response.body.ratings[0].timestamp).toBe('2024-01-15T10:30:00.000Z');
+      
+      // Check time recommendations
+      expect(response.body.timeRecommendations).toHaveLength(2);
+      expect(response.body.timeRecommendations[0].period).toBe('morning');
+      expect(response.body.timeRecommendations[0].averageScore).toBe(4.5);
+      
+      expect(mockGetLocationById).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000');
+    });
+
+    it('should include the usual restock days and time', async () => {
+      const restockPattern = {
+        typicalDays: ['tuesday', 'friday'],
+        typicalTime: '10:00',
+        summary: 'Usually restocked Tue/Fri ~10 AM',
+        eventCount: 9,
+        lastRestockedAt: '2024-01-12T15:05:00.000Z',
+        confidence: 'low'
+      };
+      mockGetLocationById.mockResolvedValue(mockLocationDetail);
+      mockGetRestockPattern.mockResolvedValue(restockPattern);
+
+      const response = await request(app)
+        .get('/api/locations/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).toBe(200);
+      expect(response.body.restockPattern).toEqual(restockPattern);
+      expect(mockGetRestockPattern).toHaveBeenCalledWith(mockLocationDetail.id, 'America/New_York');
+    });
+
+    it('should apply hours exceptions to the open status', async () => {
+      const day = 24 * 60 * 60 * 1000;
+      const closure = {
+        id: 'exception-1',
+        locationId: mockLocationDetail.id,
+        startDate: new Date(Date.now() - 2 * day).toISOString().slice(0, 10),
+        endDate: new Date(Date.now() + 2 * day).toISOString().slice(0, 10),
+        closed: true,
+        open: null,
+        close: null,
+        reason: 'Renovation',
+        createdAt: new Date()
+      };
+      mockGetLocationById.mockResolvedValue({ ...mockLocationDetail, hours: aroundTheClock });
+      mockGetExceptionsForLocations.mockResolvedValue(new Map([[mockLocationDetail.id, [closure]]]));
+
+      const response = await request(app)
+        .get('/api/locations/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).toBe(200);
+      expect(response.body.isOpen).toBe(false);
+      expect(response.body.closingSoon).toBe(false);
+      expect(new Date(response.body.opensAt).getTime()).toBeGreaterThan(Date.now() + day);
+    });
+
+    it('should return 404 for non-existent location', async () => {
+      mockGetLocationById.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/locations/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Location not found');
+      expect(response.body.message).toBe('No location found with ID: 123e4567-e89b-12d3-a456-426614174000');
+    });
+
+    it('should return 400 for invalid UUID format', async () => {
+      const response = await request(app)
+        .get('/api/locations/invalid-uuid');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid location ID');
+      expect(response.body.message).toBe('Location ID must be a valid UUID');
+    });
+
+    it('should handle repository errors', async () => {
+      mockGetLocationById.mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/locations/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Internal server error');
+      expect(response.body.message).toBe('Failed to fetch location details');
+    });
+
+    it('should accept valid UUID formats', async () => {
+      mockGetLocationById.mockResolvedValue(mockLocationDetail);
+
+      // Test various valid UUID formats
+      const validUUIDs = [
+        '123e4567-e89b-12d3-a456-426614174000',
+        'A1B2C3D4-E5F6-1234-A567-123456789ABC',
+        'ffffffff-ffff-1fff-8fff-ffffffffffff'
+      ];
+
+      for (const uuid of validUUIDs) {
+        const response = await request(app)
+          .get(`/api/locations/${uuid}`);
+
+        expect(response.status).not.toBe(400);
+        expect(mockGetLocationById).toHaveBeenCalledWith(uuid);
+      }
+    });
+
+    it('should reject invalid UUID formats', async () => {
+      const invalidUUIDs = [
+        'not-a-uuid',
+        '123e4567-e89b-12d3-a456',
+        '123e4567-e89b-12d3-a456-426614174000-extra',
+        '123e4567-e89b-12d3-g456-426614174000' // invalid character 'g'
+      ];
+
+      for (const uuid of invalidUUIDs) {
+        const response = await request(app)
+          .get(`/api/locations/${uuid}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid location ID');
+      }
+    });
+  });
+
+  describe('POST /api/locations/:id/ratings', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    const ratingId = '456e7890-e89b-12d3-a456-426614174001';
+    const userId = '789e0123-e89b-12d3-a456-426614174000';
+    const originalSecret = process.env.JWT_SECRET;
+
+    beforeEach(() => {
+      process.env.JWT_SECRET = 'test-jwt-secret';
+      mockGetLocationById.mockResolvedValue({ id: locationId });
+      mockSubmitRatings.mockResolvedValue([{ ratingId, ingredient: 'lettuce', action: 'created' }]);
+      mockGetRatingById.mockResolvedValue({
+        id: ratingId,
+        locationId,
+        score: 4,
+        timestamp: new Date(),
+        editTokenHash: 'stored-hash'
+      });
+    });
+
+    afterAll(() => {
+      process.env.JWT_SECRET = originalSecret;
+    });
+
+    it('should take userId from the session, not the request body', async () => {
+      const accessToken = signAccessToken({ id: userId, email: 'fan@example.com' }, 'test-jwt-secret');
+      const { deviceToken } = issueDeviceToken();
+
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('X-Device-Token', deviceToken)
+        .send({ score: 4, userId: '00000000-0000-4000-8000-000000000000' });
+
+      expect(response.status).toBe(201);
+      expect(mockSubmitRatings).toHaveBeenCalledWith(locationId, [{ ingredient: 'lettuce', score: 4 }], userId, expect.any(String), { tags: [], comment: null });
+    });
+
+    it('should still accept anonymous ratings', async () => {
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .send({ score: 4, userId });
+
+      expect(response.status).toBe(201);
+      expect(mockSubmitRatings).toHaveBeenCalledWith(locationId, [{ ingredient: 'lettuce', score: 4 }], undefined, expect.any(String), { tags: [], comment: null });
+    });
+
+    it('should report a new rating as created', async () => {
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .send({ score: 4 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.action).toBe('created');
+      expect(response.body.actions).toEqual({ lettuce: 'created' });
+      expect(response.body.rating).not.toHaveProperty('editTokenHash');
+    });
+
+    it('should report a repeat inside the window as an update', async () => {
+      mockSubmitRatings.mockResolvedValue([{ ratingId, ingredient: 'lettuce', action: 'updated' }]);
+      const { deviceToken } = issueDeviceToken();
+
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .set('X-Device-Token', deviceToken)
+        .send({ score: 4 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.action).toBe('updated');
+      expect(response.body.message).toBe('Your earlier rating was updated');
+    });
+
+    it('should return 401 for an invalid access token', async () => {
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .set('Authorization', 'Bearer not-a-jwt')
+        .send({ score: 4 });
+
+      expect(response.status).toBe(401);
+      expect(mockSubmitRatings).not.toHaveBeenCalled();
+    });
+
+    it('should store tags and a trimmed comment with the rating', async () => {
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .send({ score: 2, tags: ['wilted', 'low_stock'], comment: '  Almost out by 2pm  ' });
+
+      expect(response.status).toBe(201);
+      expect(mockSubmitRatings).toHaveBeenCalledWith(
+        locationId,
+        [{ ingredient: 'lettuce', score: 2 }],
+        undefined,
+        expect.any(String),
+        { tags: ['wilted', 'low_stock'], comment: 'Almost out by 2pm' }
+      );
+    });
+
+    it('should return 400 for unknown or repeated tags', async () => {
+      for (const tags of [['soggy'], ['crisp', 'crisp'], 'crisp']) {
+        const response = await request(app)
+          .post(`/api/locations/${locationId}/ratings`)
+          .send({ score: 4, tags });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid tags');
+      }
+      expect(mockSubmitRatings).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a comment that is too long', async () => {
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .send({ score: 4, comment: 'a'.repeat(281) });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid comment');
+      expect(mockSubmitRatings).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a comment with offensive language', async () => {
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .send({ score: 1, comment: 'This lettuce is $hit' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('COMMENT_PROFANITY');
+      expect(mockSubmitRatings).not.toHaveBeenCalled();
+    });
+
+    it('should rate other ingredients in the same submission', async () => {
+      const tomatoRatingId = '456e7890-e89b-12d3-a456-426614174002';
+      mockSubmitRatings.mockResolvedValue([
+        { ratingId, ingredient: 'lettuce', action: 'updated' },
+        { ratingId: tomatoRatingId, ingredient: 'tomato', action: 'created' }
+      ]);
+      mockGetRatingById.mockImplementation(async (id: string) => ({
+        id,
+        locationId,
+        score: id === tomatoRatingId ? 2 : 4,
+        ingredient: id === tomatoRatingId ? 'tomato' : 'lettuce',
+        timestamp: new Date(),
+        editTokenHash: 'stored-hash'
+      }));
+
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .send({ score: 4, ingredientScores: { tomato: 2 }, tags: ['crisp'] });
+
+      expect(response.status).toBe(200);
+      expect(mockSubmitRatings).toHaveBeenCalledTimes(1);
+      expect(mockSubmitRatings).toHaveBeenCalledWith(
+        locationId,
+        [{ ingredient: 'lettuce', score: 4 }, { ingredient: 'tomato', score: 2 }],
+        undefined,
+        expect.any(String),
+        { tags: ['crisp'], comment: null }
+      );
+      expect(response.body.actions).toEqual({ lettuce: 'updated', tomato: 'created' });
+      expect(response.body.rating.id).toBe(ratingId);
+      expect(response.body.ratings.map((rating: { ingredient: string }) => rating.ingredient)).toEqual(['lettuce', 'tomato']);
+      expect(response.body.ingredientScores).toEqual({ lettuce: 4.3 });
+    });
+
+    it('should rate a single non-lettuce ingredient', async () => {
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .send({ score: 3, ingredient: 'onion' });
+
+      expect(response.status).toBe(201);
+      expect(mockSubmitRatings).toHaveBeenCalledWith(locationId, [{ ingredient: 'onion', score: 3 }], undefined, expect.any(String), { tags: [], comment: null });
+    });
+
+    it('should return 400 for an unknown ingredient', async () => {
+      const response = await request(app)
+        .post(`/api/locations/${locationId}/ratings`)
+        .send({ score: 4, ingredient: 'pickle' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid ingredient');
+      expect(mockSubmitRatings).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid ingredient scores', async () => {
+      for (const ingredientScores of [{ pickle: 3 }, { tomato: 6 }, { lettuce: 3 }, [3]]) {
+        const response = await request(app)
+          .post(`/api/locations/${locationId}/ratings`)
+          .send({ score: 4, ingredientScores });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid ingredient scores');
+      }
+      expect(mockSubmitRatings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH and DELETE /api/locations/:id/ratings/:ratingId', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    const ratingId = '456e7890-e89b-12d3-a456-426614174001';
+    const ratingUrl = `/api/locations/${locationId}/ratings/${ratingId}`;
+    const editToken = 'owner-token';
+
+    const storedRating = (overrides: Record<string, unknown> = {}) => ({
+      id: ratingId,
+      locationId,
+      score: 1,
+      timestamp: new Date(),
+      editTokenHash: hashEditToken(editToken),
+      ...overrides
+    });
+
+    it('should update the score for the token holder', async () => {
+      mockGetRatingById.mockResolvedValue(storedRating());
+      mockUpdateRatingScore.mockResolvedValue({ ...storedRating(), score: 5 });
+
+      const response = await request(app)
+        .patch(ratingUrl)
+        .set('X-Rating-Token', editToken)
+        .send({ score: 5 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.rating.score).toBe(5);
+      expect(response.body.newLocationScore).toBe(4.3);
+      expect(mockUpdateRatingScore).toHaveBeenCalledWith(ratingId, 5);
+    });
+
+    it('should delete the rating for the token holder', async () => {
+      mockGetRatingById.mockResolvedValue(storedRating());
+      mockDeleteRating.mockResolvedValue(true);
+      mockGetPhotoIdsByRating.mockResolvedValue(['photo-1']);
+
+      const response = await request(app)
+        .delete(ratingUrl)
+        .set('X-Rating-Token', editToken);
+
+      expect(response.status).toBe(200);
+      expect(response.body.newLocationScore).toBe(4.3);
+      expect(mockDeleteRating).toHaveBeenCalledWith(ratingId);
+      expect(mockRemovePhoto).toHaveBeenCalledWith('photo-1');
+    });
+
+    it('should return 401 without a rating token', async () => {
+      const response = await request(app)
+        .delete(ratingUrl);
+
+      expect(response.status).toBe(401);
+      expect(mockGetRatingById).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for the wrong token', async () => {
+      mockGetRatingById.mockResolvedValue(storedRating());
+
+      const response = await request(app)
+        .patch(ratingUrl)
+        .set('X-Rating-Token', 'someone-else')
+        .send({ score: 5 });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Forbidden');
+      expect(mockUpdateRatingScore).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 once the edit window has passed', async () => {
+      mockGetRatingById.mockResolvedValue(storedRating({ timestamp: new Date(Date.now() - 60 * 60 * 1000) }));
+
+      const response = await request(app)
+        .delete(ratingUrl)
+        .set('X-Rating-Token', editToken);
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('EDIT_WINDOW_EXPIRED');
+      expect(mockDeleteRating).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the rating belongs to another location', async () => {
+      mockGetRatingById.mockResolvedValue(storedRating({ locationId: '123e4567-e89b-12d3-a456-426614174999' }));
+
+      const response = await request(app)
+        .delete(ratingUrl)
+        .set('X-Rating-Token', editToken);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should let the submitting device delete its rating without the edit token', async () => {
+      const { deviceId, deviceToken } = issueDeviceToken();
+      mockGetRatingById.mockResolvedValue(storedRating({ userId: deviceId }));
+      mockDeleteRating.mockResolvedValue(true);
+
+      const response = await request(app)
+        .delete(ratingUrl)
+        .set('X-Device-Token', deviceToken);
+
+      expect(response.status).toBe(200);
+      expect(mockDeleteRating).toHaveBeenCalledWith(ratingId);
+    });
+
+    it('should let the submitting device update its rating after its token was replaced', async () => {
+      const { deviceId, deviceToken } = issueDeviceToken();
+      mockGetRatingById.mockResolvedValue(storedRating({ userId: deviceId }));
+      mockUpdateRatingScore.mockResolvedValue({ ...storedRating({ userId: deviceId }), score: 5 });
+
+      const response = await request(app)
+        .patch(ratingUrl)
+        .set('X-Device-Token', deviceToken)
+        .set('X-Rating-Token', 'replaced-token')
+        .send({ score: 5 });
+
+      expect(response.status).toBe(200);
+      expect(mockUpdateRatingScore).toHaveBeenCalledWith(ratingId, 5);
+    });
+
+    it('should return 403 for a different device', async () => {
+      mockGetRatingById.mockResolvedValue(storedRating({ userId: issueDeviceToken().deviceId }));
+
+      const response = await request(app)
+        .delete(ratingUrl)
+        .set('X-Device-Token', issueDeviceToken().deviceToken);
+
+      expect(response.status).toBe(403);
+      expect(mockDeleteRating).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for a forged device token', async () => {
+      const response = await request(app)
+        .delete(ratingUrl)
+        .set('X-Device-Token', '123e4567-e89b-12d3-a456-426614174000.forged');
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe('INVALID_DEVICE_TOKEN');
+    });
+
+    it('should return 400 for an invalid score', async () => {
+      const response = await request(app)
+        .patch(ratingUrl)
+        .set('X-Rating-Token', editToken)
+        .send({ score: 9 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid rating score');
+    });
+  });
+
+  describe('Rating photos', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    const ratingId = '456e7890-e89b-12d3-a456-426614174001';
+    const photosUrl = `/api/locations/${locationId}/ratings/${ratingId}/photos`;
+    const editToken = 'owner-token';
+    const originalMaxBytes = process.env.PHOTO_MAX_BYTES;
+    let jpeg: Buffer;
+
+    beforeAll(async () => {
+      jpeg = await sharp({
+        create: { width: 64, height: 48, channels: 3, background: { r: 40, g: 160, b: 60 } }
+      })
+        .jpeg()
+        .withExif({ IFD0: { Make: 'LettuceCam' } })
+        .toBuffer();
+    });
+
+    beforeEach(() => {
+      mockGetRatingById.mockResolvedValue({
+        id: ratingId,
+        locationId,
+        score: 2,
+        timestamp: new Date(),
+        editTokenHash: hashEditToken(editToken)
+      });
+      mockGetPhotoIdsByRating.mockResolvedValue([]);
+      mockCreatePhoto.mockImplementation(async (photo) => ({
+        ...photo,
+        url: `/api/photos/${photo.id}`,
+        thumbnailUrl: `/api/photos/${photo.id}/thumbnail`,
+        createdAt: new Date()
+      }));
+    });
+
+    afterEach(() => {
+      process.env.PHOTO_MAX_BYTES = originalMaxBytes;
+    });
+
+    it('should store the photo without metadata, with a thumbnail', async () => {
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', editToken)
+        .attach('photo', jpeg, { filename: 'bin.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ ratingId, locationId, width: 64, height: 48 });
+      expect(response.body.url).toBe(`/api/photos/${response.body.id}`);
+
+      const [photoId, image, thumbnail] = mockSavePhoto.mock.calls[0];
+      expect(photoId).toBe(response.body.id);
+      expect((await sharp(image).metadata()).exif).toBeUndefined();
+      expect(await sharp(thumbnail).metadata()).toMatchObject({ width: 320, height: 320 });
+    });
+
+    it('should return 403 for someone other than the rater', async () => {
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', 'someone-else')
+        .attach('photo', jpeg, { filename: 'bin.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(403);
+      expect(mockSavePhoto).not.toHaveBeenCalled();
+    });
+
+    it('should check ownership before accepting the upload', async () => {
+      process.env.PHOTO_MAX_BYTES = '100';
+
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', 'someone-else')
+        .attach('photo', jpeg, { filename: 'bin.jpg', contentType: 'image/jpeg' });
+
+      // An oversized upload would get 413 if the body were read first
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 400 without a photo', async () => {
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', editToken);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Missing photo');
+    });
+
+    it('should return 415 for other file types', async () => {
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', editToken)
+        .attach('photo', Buffer.from('GIF89a'), { filename: 'bin.gif', contentType: 'image/gif' });
+
+      expect(response.status).toBe(415);
+      expect(mockSavePhoto).not.toHaveBeenCalled();
+    });
+
+    it('should return 415 when the content is not really an image', async () => {
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', editToken)
+        .attach('photo', Buffer.from('not an image'), { filename: 'bin.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(415);
+      expect(mockSavePhoto).not.toHaveBeenCalled();
+    });
+
+    it('should return 413 for photos over the size limit', async () => {
+      process.env.PHOTO_MAX_BYTES = '100';
+
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', editToken)
+        .attach('photo', jpeg, { filename: 'bin.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(413);
+      expect(response.body.details.maxBytes).toBe(100);
+    });
+
+    it('should limit the number of photos per rating', async () => {
+      mockGetPhotoIdsByRating.mockResolvedValue(['a', 'b', 'c']);
+
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', editToken)
+        .attach('photo', jpeg, { filename: 'bin.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Too many photos');
+    });
+
+    it('should discard the stored files when a concurrent upload reached the limit first', async () => {
+      mockCreatePhoto.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post(photosUrl)
+        .set('X-Rating-Token', editToken)
+        .attach('photo', jpeg, { filename: 'bin.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Too many photos');
+      expect(mockCreatePhoto).toHaveBeenCalledWith(expect.objectContaining({ ratingId }), 3);
+      expect(mockRemovePhoto).toHaveBeenCalledWith(mockSavePhoto.mock.calls[0][0]);
+    });
+
+    it('should list recent photos for a location', async () => {
+      mockGetLocationById.mockResolvedValue({ id: locationId });
+      mockGetPhotosByLocation.mockResolvedValue([{ id: 'photo-1' }]);
+
+      const response = await request(app).get(`/api/locations/${locationId}/photos`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.photos).toEqual([{ id: 'photo-1' }]);
+      expect(mockGetPhotosByLocation).toHaveBeenCalledWith(locationId, 24);
+    });
+  });
+
+  describe('GET /api/locations/:id/analysis', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    const analysis = {
+      timeRecommendations: [],
+      totalAnalyzedRatings: 0,
+      hasReliableData: false,
+      optimalTimingMessage: 'Not enough data for time recommendations',
+      periods: []
+    };
+
+    beforeEach(() => {
+      mockGetLocationById.mockResolvedValue({ id: locationId, hours: aroundTheClock });
+      mockGetHistoricalAnalysisInRange.mockResolvedValue(analysis);
+    });
+
+    it('should analyze the given window', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/analysis`)
+        .query({ from: '2023-06-01', to: '2023-08-31', granularity: 'month' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        locationId,
+        from: '2023-06-01T00:00:00.000Z',
+        to: '2023-09-01T00:00:00.000Z',
+        granularity: 'month',
+        ...analysis
+      });
+      expect(mockGetHistoricalAnalysisInRange).toHaveBeenCalledWith(
+        locationId,
+        new Date('2023-06-01T00:00:00Z'),
+        new Date('2023-09-01T00:00:00Z'),
+        'month'
+      );
+    });
+
+    it('should default to the last 30 days as one bucket', async () => {
+      const response = await request(app).get(`/api/locations/${locationId}/analysis`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.granularity).toBe('all');
+      const [, from, to] = mockGetHistoricalAnalysisInRange.mock.calls[0]!;
+      expect(to.getTime() - from.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should keep exact timestamps as given', async () => {
+      await request(app)
+        .get(`/api/locations/${locationId}/analysis`)
+        .query({ from: '2024-01-01T06:00:00Z', to: '2024-01-02T06:00:00Z' });
+
+      expect(mockGetHistoricalAnalysisInRange).toHaveBeenCalledWith(
+        locationId,
+        new Date('2024-01-01T06:00:00Z'),
+        new Date('2024-01-02T06:00:00Z'),
+        'all'
+      );
+    });
+
+    it('should reject an unknown granularity', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/analysis`)
+        .query({ granularity: 'hour' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid granularity');
+    });
+
+    it('should reject invalid or reversed dates', async () => {
+      for (const query of [{ from: 'last summer' }, { from: '2024-02-01', to: '2024-01-01' }]) {
+        const response = await request(app).get(`/api/locations/${locationId}/analysis`).query(query);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid date range');
+      }
+      expect(mockGetHistoricalAnalysisInRange).not.toHaveBeenCalled();
+    });
+
+    it('should reject windows longer than two years', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/analysis`)
+        .query({ from: '2020-01-01', to: '2024-01-01' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('at most');
+    });
+
+    it('should return 404 for an unknown location', async () => {
+      mockGetLocationById.mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/locations/${locationId}/analysis`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/locations/:id/analysis/heatmap', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    const heatmap = {
+      timezone: 'America/New_York',
+      days: [{ dayOfWeek: 'monday', hours: [{ hour: 8, averageScore: 4.5, sampleSize: 2, confidence: 'low' }] }],
+      totalAnalyzedRatings: 2
+    };
+
+    beforeEach(() => {
+      mockGetLocationById.mockResolvedValue({ id: locationId, hours: aroundTheClock });
+      mockGetHeatmapAnalysis.mockResolvedValue(heatmap);
+    });
+
+    it('should return the heatmap in the store timezone', async () => {
+      const response = await request(app).get(`/api/locations/${locationId}/analysis/heatmap`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ locationId, daysAnalyzed: 90, ...heatmap });
+      expect(mockGetHeatmapAnalysis).toHaveBeenCalledWith(locationId, 'America/New_York', 90);
+    });
+
+    it('should accept a custom number of days', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/analysis/heatmap`)
+        .query({ days: 30 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.daysAnalyzed).toBe(30);
+      expect(mockGetHeatmapAnalysis).toHaveBeenCalledWith(locationId, 'America/New_York', 30);
+    });
+
+    it('should reject an invalid number of days', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/analysis/heatmap`)
+        .query({ days: 0 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid days');
+      expect(mockGetHeatmapAnalysis).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown location', async () => {
+      mockGetLocationById.mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/locations/${locationId}/analysis/heatmap`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Location not found');
+    });
+
+    it('should return 500 when the analysis fails', async () => {
+      mockGetHeatmapAnalysis.mockRejectedValue(new Error('Failed to fetch heatmap analysis'));
+
+      const response = await request(app).get(`/api/locations/${locationId}/analysis/heatmap`);
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to fetch heatmap analysis');
+    });
+  });
+
+  describe('GET /api/locations/:id/score-history', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    const buckets = [
+      {
+        start: new Date('2024-01-15T00:00:00.000Z'),
+        end: new Date('2024-01-16T00:00:00.000Z'),
+        minScore: 3.5,
+        avgScore: 3.9,
+        maxScore: 4.2,
+        ratingCount: 3
+      }
+    ];
+
+    beforeEach(() => {
+      mockGetLocationById.mockResolvedValue({ id: locationId, hours: aroundTheClock });
+      mockGetScoreHistory.mockResolvedValue(buckets);
+    });
+
+    it('should return daily buckets for the last 30 days by default', async () => {
+      const response = await request(app).get(`/api/locations/${locationId}/score-history`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        locationId,
+        interval: 'day',
+        from: '2024-01-15T00:00:00.000Z',
+        buckets: [{ start: '2024-01-15T00:00:00.000Z', minScore: 3.5, avgScore: 3.9, maxScore: 4.2, ratingCount: 3 }]
+      });
+
+      const [, from, to, interval] = mockGetScoreHistory.mock.calls[0];
+      expect(interval).toBe('day');
+      expect(to.getTime() - from.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should cover 26 weeks by default for weekly buckets', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/score-history`)
+        .query({ interval: 'week' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.interval).toBe('week');
+
+      const [, from, to, interval] = mockGetScoreHistory.mock.calls[0];
+      expect(interval).toBe('week');
+      expect(to.getTime() - from.getTime()).toBe(182 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should accept a custom number of days', async () => {
+      await request(app)
+        .get(`/api/locations/${locationId}/score-history`)
+        .query({ days: 7 });
+
+      const [, from, to] = mockGetScoreHistory.mock.calls[0];
+      expect(to.getTime() - from.getTime()).toBe(7 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject an unknown interval', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/score-history`)
+        .query({ interval: 'month' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid interval');
+      expect(mockGetScoreHistory).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid number of days', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/score-history`)
+        .query({ days: 400 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid days');
+    });
+
+    it('should return 404 for an unknown location', async () => {
+      mockGetLocationById.mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/locations/${locationId}/score-history`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Location not found');
+      expect(mockGetScoreHistory).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the history query fails', async () => {
+      mockGetScoreHistory.mockRejectedValue(new Error('Failed to fetch score history'));
+
+      const response = await request(app).get(`/api/locations/${locationId}/score-history`);
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to fetch score history');
+    });
+  });
+
+  describe('GET /api/locations/:id/score/explain', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    const explanation = {
+      locationId,
+      ingredient: 'lettuce',
+      strategy: 'bayesian',
+      score: 3.83,
+      lower: 3.21,
+      upper: 4.45,
+      effectiveSampleSize: 1.8,
+      prior: { mean: 3.4, weight: 2, share: 0.526 },
+      contributions: [
+        {
+          ratingId: 'rating-2',
+          timestamp: new Date('2024-01-16T12:00:00Z'),
+          score: 5,
+          recencyWeight: 1,
+          timeWeight: 1,
+          weight: 1,
+          share: 0.263
+        },
+        {
+          ratingId: 'rating-1',
+          timestamp: new Date('2024-01-13T12:00:00Z'),
+          score: 3,
+          recencyWeight: 1,
+          timeWeight: 0.8,
+          weight: 0.8,
+          share: 0.211
+        }
+      ]
+    };
+
+    beforeEach(() => {
+      mockGetLocationById.mockResolvedValue({ id: locationId, hours: aroundTheClock });
+      mockGetScoreExplanation.mockResolvedValue(explanation);
+    });
+
+    it('should explain the lettuce score by default', async () => {
+      const response = await request(app).get(`/api/locations/${locationId}/score/explain`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        strategy: 'bayesian',
+        score: 3.83,
+        prior: { mean: 3.4, weight: 2, share: 0.526 },
+        contributions: [
+          { ratingId: 'rating-2', timestamp: '2024-01-16T12:00:00.000Z', score: 5, recencyWeight: 1, timeWeight: 1, share: 0.263 },
+          { ratingId: 'rating-1', timestamp: '2024-01-13T12:00:00.000Z', score: 3, recencyWeight: 1, timeWeight: 0.8, share: 0.211 }
+        ]
+      });
+      expect(mockGetScoreExplanation).toHaveBeenCalledWith(locationId, 'lettuce');
+    });
+
+    it('should explain the score of another ingredient', async () => {
+      await request(app)
+        .get(`/api/locations/${locationId}/score/explain`)
+        .query({ ingredient: 'tomato' });
+
+      expect(mockGetScoreExplanation).toHaveBeenCalledWith(locationId, 'tomato');
+    });
+
+    it('should reject an unknown ingredient', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/score/explain`)
+        .query({ ingredient: 'pickles' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid ingredient');
+      expect(mockGetScoreExplanation).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid location ID', async () => {
+      const response = await request(app).get('/api/locations/not-a-uuid/score/explain');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid location ID');
+    });
+
+    it('should return 404 for an unknown location', async () => {
+      mockGetLocationById.mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/locations/${locationId}/score/explain`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Location not found');
+      expect(mockGetScoreExplanation).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the explanation query fails', async () => {
+      mockGetScoreExplanation.mockRejectedValue(new Error('Failed to explain score'));
+
+      const response = await request(app).get(`/api/locations/${locationId}/score/explain`);
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to explain score');
+    });
+  });
+
+  describe('GET /api/locations/:id/restocks', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    // Tuesdays and Fridays around 10 AM New York time
+    const events = [
+      { restockedAt: new Date('2024-01-12T15:05:00Z'), scoreBefore: 2, scoreAfter: 5 },
+      { restockedAt: new Date('2024-01-09T14:50:00Z'), scoreBefore: 1.5, scoreAfter: 4.5 },
+      { restockedAt: new Date('2024-01-05T15:20:00Z'), scoreBefore: 2.5, scoreAfter: 5 },
+      { restockedAt: new Date('2024-01-02T15:00:00Z'), scoreBefore: 2, scoreAfter: 4 }
+    ];
+
+    beforeEach(() => {
+      mockGetLocationById.mockResolvedValue({ id: locationId, hours: aroundTheClock });
+      mockGetRestockEvents.mockResolvedValue(events);
+    });
+
+    it('should return restock events and the usual restock pattern', async () => {
+      const response = await request(app).get(`/api/locations/${locationId}/restocks`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        locationId,
+        timezone: 'America/New_York',
+        daysAnalyzed: 180,
+        pattern: {
+          typicalDays: ['tuesday', 'friday'],
+          typicalTime: '10:00',
+          summary: 'Usually restocked Tue/Fri ~10 AM',
+          eventCount: 4
+        }
+      });
+      expect(response.body.events).toHaveLength(4);
+      expect(response.body.events[0].restockedAt).toBe('2024-01-12T15:05:00.000Z');
+
+      const [, since] = mockGetRestockEvents.mock.calls[0];
+      expect(Date.now() - since.getTime()).toBeCloseTo(180 * 24 * 60 * 60 * 1000, -4);
+    });
+
+    it('should accept a custom number of days', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/restocks`)
+        .query({ days: 30 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.daysAnalyzed).toBe(30);
+    });
+
+    it('should reject an invalid number of days', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/restocks`)
+        .query({ days: 'forever' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid days');
+      expect(mockGetRestockEvents).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown location', async () => {
+      mockGetLocationById.mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/locations/${locationId}/restocks`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Location not found');
+    });
+
+    it('should return 500 when the events query fails', async () => {
+      mockGetRestockEvents.mockRejectedValue(new Error('Failed to fetch restock events'));
+
+      const response = await request(app).get(`/api/locations/${locationId}/restocks`);
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to fetch restock events');
+    });
+  });
+
+  describe('GET /api/locations/:id/forecast', () => {
+    const locationId = '123e4567-e89b-12d3-a456-426614174000';
+    const lastRated = new Date('2024-01-15T10:30:00Z');
+    const forecast = {
+      predictedScore: 4.1,
+      lowerBound: 3.6,
+      upperBound: 4.6,
+      confidence: 'medium',
+      historicalScore: 4,
+      currentScore: 4.3,
+      momentumWeight: 0.2,
+      sampleSize: 12
+    };
+
+    beforeEach(() => {
+      mockGetLocationById.mockResolvedValue({ id: locationId, hours: aroundTheClock, lettuceScore: 4.3, lastRated });
+      mockGetFreshnessForecast.mockImplementation(async (_id, _timezone, _current, at) => ({ at, ...forecast }));
+    });
+
+    it('should forecast the score at the visit time', async () => {
+      const at = new Date(Date.now() + 3 * 60 * 60 * 1000);
+
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/forecast`)
+        .query({ at: at.toISOString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        locationId,
+        timezone: 'America/New_York',
+        at: at.toISOString(),
+        ...forecast
+      });
+      expect(response.body.dayOfWeek).toEqual(expect.any(String));
+      expect(response.body.hour).toEqual(expect.any(Number));
+      expect(mockGetFreshnessForecast).toHaveBeenCalledWith(
+        locationId,
+        'America/New_York',
+        { score: 4.3, lastRated },
+        at
+      );
+    });
+
+    it('should forecast for now by default', async () => {
+      const before = Date.now();
+
+      const response = await request(app).get(`/api/locations/${locationId}/forecast`);
+
+      expect(response.status).toBe(200);
+      const at: Date = mockGetFreshnessForecast.mock.calls[0][3];
+      expect(at.getTime()).toBeGreaterThanOrEqual(before);
+      expect(at.getTime()).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should return 400 for an unparseable visit time', async () => {
+      const response = await request(app)
+        .get(`/api/locations/${locationId}/forecast`)
+        .query({ at: 'lunchtime' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid forecast time');
+      expect(mockGetFreshnessForecast).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a visit time more than a week ahead or well in the past', async () => {
+      const tooLate = await request(app)
+        .get(`/api/locations/${locationId}/forecast`)
+        .query({ at: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000).toISOString() });
+      const tooEarly = await request(app)
+        .get(`/api/locations/${locationId}/forecast`)
+        .query({ at: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString() });
+
+      expect(tooLate.status).toBe(400);
+      expect(tooEarly.status).toBe(400);
+      expect(mockGetFreshnessForecast).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown location', async () => {
+      mockGetLocationById.mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/locations/${locationId}/forecast`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Location not found');
+    });
+
+    it('should return 500 when the forecast fails', async () => {
+      mockGetFreshnessForecast.mockRejectedValue(new Error('Failed to fetch freshness forecast'));
+
+      const response = await request(app).get(`/api/locations/${locationId}/forecast`);
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to fetch freshness forecast');
     });
   });
 
@@ -368,7 +2077,7 @@ describe('Location Routes', () => {
     });
 
     it('should handle boundary coordinate values', async () => {
-      mockGetNearbyLocations.mockResolvedValue([]);
+      mockGetNearbyLocationsPage.mockResolvedValue({ locations: [], nextCursor: null });
 
       const boundaryCoordinates = [
         { lat: -90, lng: -180 },  // minimum values
@@ -382,9 +2091,10 @@ describe('Location Routes', () => {
           .query(coords);
 
         expect(response.status).toBe(200);
-        expect(mockGetNearbyLocations).toHaveBeenCalledWith(
+        expect(mockGetNearbyLocationsPage).toHaveBeenCalledWith(
           coords,
-          5000
+          5000,
+          expect.objectContaining({ limit: 20 })
         );
       }
     });
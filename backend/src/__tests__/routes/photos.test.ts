@@ -0,0 +1,88 @@
+import request from 'supertest';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const mockGetPhotoById = jest.fn();
+
+jest.mock('../../repositories/PhotoRepository', () => {
+  return {
+    PhotoRepository: jest.fn().mockImplementation(() => ({
+      getPhotoById: mockGetPhotoById
+    }))
+  };
+});
+
+// Import routes after mocking
+import photoRoutes from '../../routes/photos';
+import { photoStorage } from '../../services/photoStorage';
+
+const app = express();
+app.use('/api/photos', photoRoutes);
+
+describe('Photo Routes', () => {
+  const photoId = '0b7c9f5e-3a1d-4c2b-9e8f-7a6b5c4d3e2f';
+  const originalStorageDir = process.env.PHOTO_STORAGE_DIR;
+  let storageDir: string;
+
+  beforeAll(async () => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'photos-'));
+    process.env.PHOTO_STORAGE_DIR = storageDir;
+    await photoStorage.save(photoId, Buffer.from('full-size'), Buffer.from('thumb'));
+  });
+
+  afterAll(() => {
+    process.env.PHOTO_STORAGE_DIR = originalStorageDir;
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetPhotoById.mockResolvedValue({ id: photoId, contentType: 'image/jpeg' });
+  });
+
+  describe('GET /api/photos/:id', () => {
+    it('should serve the full-size photo', async () => {
+      const response = await request(app).get(`/api/photos/${photoId}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/jpeg');
+      expect(response.headers['cache-control']).toContain('immutable');
+      expect(response.body.toString()).toBe('full-size');
+    });
+
+    it('should serve the thumbnail', async () => {
+      const response = await request(app).get(`/api/photos/${photoId}/thumbnail`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.toString()).toBe('thumb');
+    });
+
+    it('should return 404 for an unknown photo', async () => {
+      mockGetPhotoById.mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/photos/${photoId}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Photo not found');
+    });
+
+    it('should return 404 when the file is missing from storage', async () => {
+      const missingId = '1c8d0a6f-4b2e-4d3c-8f9a-8b7c6d5e4f3a';
+      mockGetPhotoById.mockResolvedValue({ id: missingId, contentType: 'image/jpeg' });
+
+      const response = await request(app).get(`/api/photos/${missingId}`);
+
+      expect(response.status).toBe(404);
+      expect(response.headers['content-type']).toContain('application/json');
+    });
+
+    it('should return 400 for an invalid photo ID', async () => {
+      const response = await request(app).get('/api/photos/..%2F..%2Fetc%2Fpasswd');
+
+      expect(response.status).toBe(400);
+      expect(mockGetPhotoById).not.toHaveBeenCalled();
+    });
+  });
+});
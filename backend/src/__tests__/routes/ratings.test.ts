@@ -47,13 +47,13 @@ describe('Rating Endpoints', () => {
     address: '123 Test St, Test City, TC 12345',
     coordinates: { lat: 40.7128, lng: -74.0060 },
     hours: {
-      monday: { open: '06:00', close: '22:00' },
-      tuesday: { open: '06:00', close: '22:00' },
-      wednesday: { open: '06:00', close: '22:00' },
-      thursday: { open: '06:00', close: '22:00' },
-      friday: { open: '06:00', close: '22:00' },
-      saturday: { open: '07:00', close: '21:00' },
-      sunday: { open: '08:00', close: '20:00' },
+      monday: { intervals: [{ open: '06:00', close: '22:00' }] },
+      tuesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+      wednesday: { intervals: [{ open: '06:00', close: '22:00' }] },
+      thursday: { intervals: [{ open: '06:00', close: '22:00' }] },
+      friday: { intervals: [{ open: '06:00', close: '22:00' }] },
+      saturday: { intervals: [{ open: '07:00', close: '21:00' }] },
+      sunday: { intervals: [{ open: '08:00', close: '20:00' }] },
       timezone: 'America/New_York'
     },
     lettuceScore: 4.2,
@@ -74,8 +74,12 @@ describe('Rating Endpoints', () => {
   describe('POST /api/locations/:id/ratings', () => {
     it('should successfully submit a rating', async () => {
       mockLocationRepo.getLocationById.mockResolvedValue(mockLocation);
-      mockRatingRepo.createRating.mockResolvedValue('456e7890-e89b-12d3-a456-426614174001');
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue([mockRating]);
+      mockRatingRepo.submitRatings.mockResolvedValue([{
+        ratingId: '456e7890-e89b-12d3-a456-426614174001',
+        ingredient: 'lettuce',
+        action: 'created'
+      }]);
+      mockRatingRepo.getRatingById.mockResolvedValue({ ...mockRating, editTokenHash: null });
 
       const response = await request(app)
         .post('/api/locations/123e4567-e89b-12d3-a456-426614174000/ratings')
@@ -86,11 +90,15 @@ describe('Rating Endpoints', () => {
       expect(response.body).toHaveProperty('newLocationScore');
       expect(response.body).toHaveProperty('message');
       expect(response.body.rating.score).toBe(4);
-      expect(mockRatingRepo.createRating).toHaveBeenCalledWith(
+      expect(mockRatingRepo.submitRatings).toHaveBeenCalledWith(
         '123e4567-e89b-12d3-a456-426614174000',
-        4,
-        undefined
+        [{ ingredient: 'lettuce', score: 4 }],
+        undefined,
+        expect.any(String),
+        { tags: [], comment: null }
       );
+      expect(response.body).toHaveProperty('editToken');
+      expect(response.body).toHaveProperty('editableUntil');
     });
 
     it('should reject invalid location ID', async () => {
@@ -179,6 +187,10 @@ describe('Rating Endpoints', () => {
       mockRatingRepo.getRatingStats.mockResolvedValue(mockStats);
       mockRatingRepo.getTimeBasedAnalysis.mockResolvedValue(mockTimeAnalysis);
       mockRatingRepo.getRatingsByLocation.mockResolvedValue([mockRating]);
+      mockRatingRepo.getTagCounts.mockResolvedValue([
+        { tag: 'crisp', count: 6 },
+        { tag: 'wilted', count: 2 }
+      ]);
 
       const response = await request(app)
         .get('/api/locations/123e4567-e89b-12d3-a456-426614174000/ratings/summary');
@@ -190,6 +202,10 @@ describe('Rating Endpoints', () => {
       expect(response.body).toHaveProperty('optimalTimes');
       expect(response.body).toHaveProperty('recentActivity', 3);
       expect(response.body).toHaveProperty('scoreDistribution');
+      expect(response.body.tagCounts).toEqual([
+        { tag: 'crisp', count: 6 },
+        { tag: 'wilted', count: 2 }
+      ]);
       
       expect(response.body.optimalTimes).toHaveLength(2);
       expect(response.body.optimalTimes[0]).toHaveProperty('timeRange', '6:00 AM - 11:00 AM');
@@ -0,0 +1,122 @@
+import { ScoringBacktestResult } from '../../types';
+
+jest.mock('../../database/connection', () => ({ end: jest.fn() }));
+
+const mockDelPattern = jest.fn();
+
+jest.mock('../../cache/redisClient', () => ({
+  __esModule: true,
+  default: { isOpen: false },
+  connectRedis: jest.fn(),
+  CacheService: {
+    delPattern: (pattern: string) => mockDelPattern(pattern)
+  }
+}));
+
+const mockBacktestStrategy = jest.fn();
+const mockSetActiveStrategy = jest.fn();
+const mockRecomputeStoredScores = jest.fn();
+
+jest.mock('../../repositories/ScoringRepository', () => {
+  return {
+    ScoringRepository: jest.fn().mockImplementation(() => ({
+      backtestStrategy: mockBacktestStrategy,
+      setActiveStrategy: mockSetActiveStrategy,
+      recomputeStoredScores: mockRecomputeStoredScores
+    }))
+  };
+});
+
+import {
+  backtestStrategies,
+  formatBacktestReport,
+  parseBacktestArgs,
+  recomputeScores
+} from '../../scripts/scoring';
+
+function backtestResult(strategy: string, meanAbsoluteError: number): ScoringBacktestResult {
+  return { strategy, predictions: 120, meanAbsoluteError, rootMeanSquaredError: meanAbsoluteError * 1.3, bias: -0.05 };
+}
+
+describe('Scoring Script', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseBacktestArgs', () => {
+    const now = new Date('2024-01-31T12:00:00Z');
+
+    it('should backtest every strategy over all ratings by default', () => {
+      expect(parseBacktestArgs([], now)).toEqual({
+        strategies: ['bayesian', 'recency_decay', 'time_decay', 'hot_locations'],
+        since: null
+      });
+    });
+
+    it('should backtest the named strategies over the last N days', () => {
+      expect(parseBacktestArgs(['--days', '30', 'bayesian', 'time_decay'], now)).toEqual({
+        strategies: ['bayesian', 'time_decay'],
+        since: new Date('2024-01-01T12:00:00Z')
+      });
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => parseBacktestArgs(['median'], now)).toThrow('Unknown scoring strategy: median');
+    });
+
+    it('should reject invalid days', () => {
+      expect(() => parseBacktestArgs(['--days', 'zero'], now)).toThrow('--days must be a positive number of days');
+    });
+  });
+
+  describe('backtestStrategies', () => {
+    it('should rank strategies by mean absolute error', async () => {
+      mockBacktestStrategy.mockImplementation(async (strategy: string) =>
+        backtestResult(strategy, strategy === 'bayesian' ? 0.61 : 0.74)
+      );
+      const since = new Date('2024-01-01T00:00:00Z');
+
+      const results = await backtestStrategies({ strategies: ['recency_decay', 'bayesian'], since });
+
+      expect(results.map(result => result.strategy)).toEqual(['bayesian', 'recency_decay']);
+      expect(mockBacktestStrategy).toHaveBeenCalledWith('recency_decay', since);
+    });
+  });
+
+  describe('formatBacktestReport', () => {
+    it('should tabulate results and mark the active strategy', () => {
+      const report = formatBacktestReport(
+        [backtestResult('bayesian', 0.612), backtestResult('recency_decay', 0.74)],
+        'recency_decay'
+      );
+
+      const lines = report.split('\n');
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toMatch(/^strategy\s+predictions\s+MAE\s+RMSE\s+bias$/);
+      expect(lines[1]).toMatch(/^bayesian\s+120\s+0\.612\s+0\.796\s+-0\.050$/);
+      expect(lines[2]).toMatch(/^recency_decay\s+120\s+0\.740\s+0\.962\s+-0\.050  \(active\)$/);
+    });
+  });
+
+  describe('recomputeScores', () => {
+    it('should switch strategy, rescore locations and clear cached scores', async () => {
+      mockRecomputeStoredScores.mockResolvedValue(42);
+      mockDelPattern.mockResolvedValue(3);
+
+      const locations = await recomputeScores('time_decay');
+
+      expect(locations).toBe(42);
+      expect(mockSetActiveStrategy).toHaveBeenCalledWith('time_decay');
+      expect(mockSetActiveStrategy.mock.invocationCallOrder[0]).toBeLessThan(
+        mockRecomputeStoredScores.mock.invocationCallOrder[0]!
+      );
+      expect(mockDelPattern).toHaveBeenCalledWith('nearby:*');
+      expect(mockDelPattern).toHaveBeenCalledWith('location:*');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { StoreHours, Coordinates } from '../../types';
+import { LegacyStoreHours, Coordinates } from '../../types';
 
 // Mock the database connection
 const mockClient = {
@@ -86,7 +86,7 @@ describe('Location Data Seeding System', () => {
   });
 
   describe('validateStoreHours', () => {
-    const validHours: StoreHours = {
+    const validHours: LegacyStoreHours = {
       monday: { open: "06:00", close: "22:00" },
       tuesday: { open: "06:00", close: "22:00" },
       wednesday: { open: "06:00", close: "22:00" },
@@ -212,7 +212,7 @@ describe('Location Data Seeding System', () => {
             validLocation.address,
             validLocation.coordinates.lng,
             validLocation.coordinates.lat,
-            JSON.stringify(validLocation.hours)
+            expect.stringContaining('"monday":{"intervals":[{"open":"06:00","close":"22:00"}]}')
           ])
         );
         expect(mockClient.release).toHaveBeenCalled();
@@ -238,7 +238,7 @@ describe('Location Data Seeding System', () => {
         name: "Subway - Test Location",
         address: "123 Test St, Test City, NY 10001",
         coordinates: { lat: 40.7589, lng: -73.9851 },
-        hours: {} as StoreHours
+        hours: {} as LegacyStoreHours
       };
 
       it('should return true if location exists', async () => {
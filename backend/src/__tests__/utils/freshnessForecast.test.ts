@@ -0,0 +1,115 @@
+import { forecastFreshness } from '../../utils/freshnessForecast';
+import { Rating } from '../../types';
+
+const TIMEZONE = 'America/New_York';
+
+// Wednesday 2024-01-17 10:30 in New York
+const NOW = new Date('2024-01-17T15:30:00Z');
+// Same day 12:15 in New York
+const LUNCH = new Date('2024-01-17T17:15:00Z');
+
+let ratingCount = 0;
+
+function ratingAt(score: number, timestamp: string): Rating {
+  ratingCount++;
+  return {
+    id: `rating-${ratingCount}`,
+    locationId: 'test-location',
+    score,
+    timestamp: new Date(timestamp)
+  };
+}
+
+// Wednesdays at 12:xx New York time are consistently poor; other times are good
+const history: Rating[] = [
+  ratingAt(2, '2024-01-10T17:05:00Z'),
+  ratingAt(2, '2024-01-10T17:40:00Z'),
+  ratingAt(1, '2024-01-03T17:20:00Z'),
+  ratingAt(2, '2023-12-27T17:10:00Z'),
+  ratingAt(5, '2024-01-10T13:00:00Z'),
+  ratingAt(5, '2024-01-09T22:00:00Z'),
+  ratingAt(4, '2024-01-08T15:00:00Z'),
+  ratingAt(5, '2024-01-06T19:00:00Z')
+];
+
+describe('Freshness Forecast Utils', () => {
+  describe('forecastFreshness', () => {
+    it('should return no prediction for a location that was never rated', () => {
+      const forecast = forecastFreshness([], TIMEZONE, { score: null }, LUNCH, NOW);
+
+      expect(forecast).toEqual({
+        at: LUNCH,
+        predictedScore: null,
+        lowerBound: null,
+        upperBound: null,
+        confidence: 'low',
+        historicalScore: null,
+        currentScore: null,
+        momentumWeight: 0,
+        sampleSize: 0
+      });
+    });
+
+    it('should expect the weekday and hour pattern once the current score has gone stale', () => {
+      const forecast = forecastFreshness(
+        history,
+        TIMEZONE,
+        { score: 5, lastRated: new Date('2024-01-16T12:00:00Z') },
+        LUNCH,
+        NOW
+      );
+
+      expect(forecast.sampleSize).toBe(4);
+      expect(forecast.momentumWeight).toBe(0);
+      // (7 from the slot + 3 x 3.25 overall) / (4 + 3)
+      expect(forecast.historicalScore).toBeCloseTo(2.39, 2);
+      expect(forecast.predictedScore).toBeCloseTo(2.39, 2);
+    });
+
+    it('should lean on a fresh current score for a visit soon after', () => {
+      const justRated = { score: 4.8, lastRated: new Date('2024-01-17T15:20:00Z') };
+
+      const soon = forecastFreshness(history, TIMEZONE, justRated, new Date('2024-01-17T15:45:00Z'), NOW);
+      const later = forecastFreshness(history, TIMEZONE, justRated, LUNCH, NOW);
+
+      expect(soon.momentumWeight).toBeGreaterThanOrEqual(0.9);
+      expect(soon.predictedScore!).toBeGreaterThan(4.5);
+      expect(later.momentumWeight).toBeLessThan(soon.momentumWeight);
+      expect(later.predictedScore!).toBeLessThan(soon.predictedScore!);
+      expect(later.predictedScore!).toBeGreaterThan(later.historicalScore!);
+    });
+
+    it('should treat a visit time in the past as now', () => {
+      const current = { score: 4, lastRated: new Date('2024-01-17T15:00:00Z') };
+
+      const past = forecastFreshness(history, TIMEZONE, current, new Date('2024-01-17T15:00:00Z'), NOW);
+      const now = forecastFreshness(history, TIMEZONE, current, NOW, NOW);
+
+      expect(past.momentumWeight).toBe(now.momentumWeight);
+    });
+
+    it('should bound the band within the rating scale around the prediction', () => {
+      const forecast = forecastFreshness(history, TIMEZONE, { score: 3.25 }, LUNCH, NOW);
+
+      expect(forecast.lowerBound!).toBeGreaterThanOrEqual(1);
+      expect(forecast.upperBound!).toBeLessThanOrEqual(5);
+      expect(forecast.lowerBound!).toBeLessThan(forecast.predictedScore!);
+      expect(forecast.upperBound!).toBeGreaterThan(forecast.predictedScore!);
+    });
+
+    it('should narrow the band as the slot gathers ratings', () => {
+      const sparse = forecastFreshness(history.slice(2), TIMEZONE, { score: null }, LUNCH, NOW);
+      const dense = forecastFreshness(history, TIMEZONE, { score: null }, LUNCH, NOW);
+
+      expect(dense.upperBound! - dense.lowerBound!).toBeLessThan(sparse.upperBound! - sparse.lowerBound!);
+    });
+
+    it('should fall back to the current score without recent ratings', () => {
+      const forecast = forecastFreshness([], TIMEZONE, { score: 3.7 }, LUNCH, NOW);
+
+      expect(forecast.historicalScore).toBe(3.7);
+      expect(forecast.predictedScore).toBe(3.7);
+      expect(forecast.confidence).toBe('low');
+    });
+  });
+});
@@ -7,6 +7,10 @@ import {
   analyzeHistoricalPatterns,
   filterRatingsByDateRange,
   getOptimalTimingMessage,
+  getLocalDayAndHour,
+  buildFreshnessHeatmap,
+  summarizeHistoricalPatterns,
+  splitRatingsByGranularity,
   TIME_PERIODS,
   CONFIDENCE_THRESHOLDS
 } from '../../utils/historicalAnalysis';
@@ -375,6 +379,138 @@ describe('Historical Analysis Utils', () => {
     });
   });
 
+  describe('getLocalDayAndHour', () => {
+    it('should read the weekday and hour in the given timezone', () => {
+      // Tuesday 02:30 UTC is still Monday evening in New York
+      const timestamp = new Date('2024-01-16T02:30:00Z');
+      expect(getLocalDayAndHour(timestamp, 'America/New_York')).toEqual({ dayOfWeek: 'monday', hour: 21 });
+      expect(getLocalDayAndHour(timestamp, 'UTC')).toEqual({ dayOfWeek: 'tuesday', hour: 2 });
+    });
+
+    it('should report midnight as hour 0', () => {
+      expect(getLocalDayAndHour(new Date('2024-01-15T05:00:00Z'), 'America/New_York')).toEqual({ dayOfWeek: 'monday', hour: 0 });
+    });
+  });
+
+  describe('buildFreshnessHeatmap', () => {
+    const ratingAt = (score: number, timestamp: string): Rating => ({
+      id: `rating-${timestamp}-${score}`,
+      locationId: 'test-location',
+      score,
+      timestamp: new Date(timestamp)
+    });
+
+    it('should return a 7x24 grid starting on Monday', () => {
+      const heatmap = buildFreshnessHeatmap([], 'America/New_York');
+
+      expect(heatmap.timezone).toBe('America/New_York');
+      expect(heatmap.days.map(day => day.dayOfWeek)).toEqual([
+        'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'
+      ]);
+      heatmap.days.forEach(day => {
+        expect(day.hours).toHaveLength(24);
+        expect(day.hours.map(cell => cell.hour)).toEqual(Array.from({ length: 24 }, (_, hour) => hour));
+      });
+      expect(heatmap.totalAnalyzedRatings).toBe(0);
+    });
+
+    it('should bucket ratings by weekday and hour in the store timezone', () => {
+      const heatmap = buildFreshnessHeatmap([
+        ratingAt(5, '2024-01-15T13:10:00Z'), // Monday 08:10 EST
+        ratingAt(4, '2024-01-22T13:50:00Z'), // Monday 08:50 EST a week later
+        ratingAt(1, '2024-01-20T01:30:00Z')  // Friday 20:30 EST, Saturday in UTC
+      ], 'America/New_York');
+
+      const mondayMorning = heatmap.days[0]!.hours[8]!;
+      expect(mondayMorning).toEqual({ hour: 8, averageScore: 4.5, sampleSize: 2, confidence: 'low' });
+
+      const fridayEvening = heatmap.days[4]!.hours[20]!;
+      expect(fridayEvening.averageScore).toBe(1);
+      expect(heatmap.days[5]!.hours.every(cell => cell.sampleSize === 0)).toBe(true);
+      expect(heatmap.totalAnalyzedRatings).toBe(3);
+    });
+
+    it('should leave the score of empty cells null', () => {
+      const heatmap = buildFreshnessHeatmap([ratingAt(5, '2024-01-15T13:10:00Z')], 'America/New_York');
+
+      expect(heatmap.days[0]!.hours[9]).toEqual({ hour: 9, averageScore: null, sampleSize: 0, confidence: 'low' });
+    });
+
+    it('should raise confidence with sample size', () => {
+      const ratings = Array.from({ length: CONFIDENCE_THRESHOLDS.high }, (_, i) =>
+        ratingAt(4, `2024-01-15T13:${String(i).padStart(2, '0')}:00Z`)
+      );
+
+      expect(buildFreshnessHeatmap(ratings, 'America/New_York').days[0]!.hours[8]!.confidence).toBe('high');
+    });
+  });
+
+  describe('summarizeHistoricalPatterns', () => {
+    it('should add the optimal timing message to the analysis', () => {
+      const ratings = Array.from({ length: 12 }, () => createRatingAtHour(5, 8));
+      const summary = summarizeHistoricalPatterns(ratings);
+
+      expect(summary.bestPeriod).toBe('morning');
+      expect(summary.totalAnalyzedRatings).toBe(12);
+      expect(summary.optimalTimingMessage).toBe(getOptimalTimingMessage(analyzeHistoricalPatterns(ratings)));
+    });
+  });
+
+  describe('splitRatingsByGranularity', () => {
+    const ratingAt = (timestamp: string): Rating => ({
+      id: `rating-${timestamp}`,
+      locationId: 'test-location',
+      score: 4,
+      timestamp: new Date(timestamp)
+    });
+
+    const from = new Date('2024-01-10T12:00:00Z'); // a Wednesday
+    const to = new Date('2024-02-05T00:00:00Z');
+    const ratings = [
+      ratingAt('2024-01-10T12:00:00Z'),
+      ratingAt('2024-01-14T23:59:00Z'),
+      ratingAt('2024-01-15T00:00:00Z'),
+      ratingAt('2024-02-04T08:00:00Z')
+    ];
+
+    it('should keep the whole window as one bucket for "all"', () => {
+      const buckets = splitRatingsByGranularity(ratings, from, to, 'all');
+
+      expect(buckets).toHaveLength(1);
+      expect(buckets[0]).toEqual({ start: from, end: to, ratings });
+    });
+
+    it('should split by Monday-based weeks, cutting the first bucket at from', () => {
+      const buckets = splitRatingsByGranularity(ratings, from, to, 'week');
+
+      expect(buckets.map(bucket => bucket.start.toISOString())).toEqual([
+        '2024-01-10T12:00:00.000Z',
+        '2024-01-15T00:00:00.000Z',
+        '2024-01-22T00:00:00.000Z',
+        '2024-01-29T00:00:00.000Z'
+      ]);
+      expect(buckets[3]!.end).toEqual(to);
+      expect(buckets.map(bucket => bucket.ratings.length)).toEqual([2, 1, 0, 1]);
+    });
+
+    it('should split by calendar months', () => {
+      const buckets = splitRatingsByGranularity(ratings, from, to, 'month');
+
+      expect(buckets.map(bucket => [bucket.start.toISOString(), bucket.end.toISOString()])).toEqual([
+        ['2024-01-10T12:00:00.000Z', '2024-02-01T00:00:00.000Z'],
+        ['2024-02-01T00:00:00.000Z', '2024-02-05T00:00:00.000Z']
+      ]);
+      expect(buckets.map(bucket => bucket.ratings.length)).toEqual([3, 1]);
+    });
+
+    it('should split by days, keeping empty days', () => {
+      const buckets = splitRatingsByGranularity(ratings, from, new Date('2024-01-13T00:00:00Z'), 'day');
+
+      expect(buckets).toHaveLength(3);
+      expect(buckets.map(bucket => bucket.ratings.length)).toEqual([1, 0, 0]);
+    });
+  });
+
   describe('Integration Tests', () => {
     it('should perform complete historical analysis workflow', () => {
       // Create realistic test data
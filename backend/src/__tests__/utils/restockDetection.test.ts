@@ -0,0 +1,176 @@
+import { detectRestockEvents, summarizeRestockPattern } from '../../utils/restockDetection';
+import { Rating, RestockEvent } from '../../types';
+
+let ratingCount = 0;
+
+function ratingAt(score: number, timestamp: string): Rating {
+  ratingCount++;
+  return {
+    id: `rating-${ratingCount}`,
+    locationId: 'test-location',
+    score,
+    timestamp: new Date(timestamp)
+  };
+}
+
+function restockAt(restockedAt: string): RestockEvent {
+  return { restockedAt: new Date(restockedAt), scoreBefore: 2, scoreAfter: 5 };
+}
+
+describe('Restock Detection Utils', () => {
+  describe('detectRestockEvents', () => {
+    it('should detect a jump from low to high scores', () => {
+      const ratings = [
+        ratingAt(2, '2024-01-16T12:00:00Z'),
+        ratingAt(2, '2024-01-16T14:00:00Z'),
+        ratingAt(5, '2024-01-16T16:00:00Z'),
+        ratingAt(5, '2024-01-16T17:00:00Z')
+      ];
+
+      expect(detectRestockEvents(ratings)).toEqual([
+        { restockedAt: new Date('2024-01-16T16:00:00Z'), scoreBefore: 2, scoreAfter: 5 }
+      ]);
+    });
+
+    it('should accept ratings newest first', () => {
+      const ratings = [
+        ratingAt(5, '2024-01-16T17:00:00Z'),
+        ratingAt(4, '2024-01-16T16:00:00Z'),
+        ratingAt(1, '2024-01-16T14:00:00Z'),
+        ratingAt(2, '2024-01-16T12:00:00Z')
+      ];
+
+      expect(detectRestockEvents(ratings)).toEqual([
+        { restockedAt: new Date('2024-01-16T16:00:00Z'), scoreBefore: 1.5, scoreAfter: 4.5 }
+      ]);
+    });
+
+    it('should ignore a single high rating among low ones', () => {
+      const ratings = [
+        ratingAt(2, '2024-01-16T12:00:00Z'),
+        ratingAt(2, '2024-01-16T13:00:00Z'),
+        ratingAt(5, '2024-01-16T14:00:00Z'),
+        ratingAt(2, '2024-01-16T15:00:00Z'),
+        ratingAt(1, '2024-01-16T16:00:00Z')
+      ];
+
+      expect(detectRestockEvents(ratings)).toEqual([]);
+    });
+
+    it('should ignore gradual improvement', () => {
+      const ratings = [2, 3, 3, 4, 4, 5].map((score, index) =>
+        ratingAt(score, `2024-01-16T${String(10 + index).padStart(2, '0')}:00:00Z`)
+      );
+
+      expect(detectRestockEvents(ratings)).toEqual([]);
+    });
+
+    it('should ignore jumps across a long gap between ratings', () => {
+      const ratings = [
+        ratingAt(2, '2024-01-15T12:00:00Z'),
+        ratingAt(2, '2024-01-15T13:00:00Z'),
+        ratingAt(5, '2024-01-16T13:00:00Z'),
+        ratingAt(5, '2024-01-16T14:00:00Z')
+      ];
+
+      expect(detectRestockEvents(ratings)).toEqual([]);
+    });
+
+    it('should detect each of several restocks once', () => {
+      const ratings = [
+        ratingAt(2, '2024-01-16T10:00:00Z'),
+        ratingAt(1, '2024-01-16T11:00:00Z'),
+        ratingAt(5, '2024-01-16T12:00:00Z'),
+        ratingAt(5, '2024-01-16T13:00:00Z'),
+        ratingAt(5, '2024-01-16T14:00:00Z'),
+        ratingAt(2, '2024-01-19T10:00:00Z'),
+        ratingAt(2, '2024-01-19T11:00:00Z'),
+        ratingAt(4, '2024-01-19T12:00:00Z'),
+        ratingAt(5, '2024-01-19T13:00:00Z')
+      ];
+
+      expect(detectRestockEvents(ratings).map(event => event.restockedAt)).toEqual([
+        new Date('2024-01-16T12:00:00Z'),
+        new Date('2024-01-19T12:00:00Z')
+      ]);
+    });
+
+    it('should need enough ratings on both sides', () => {
+      expect(detectRestockEvents([ratingAt(1, '2024-01-16T12:00:00Z'), ratingAt(5, '2024-01-16T13:00:00Z')])).toEqual([]);
+    });
+  });
+
+  describe('summarizeRestockPattern', () => {
+    const timezone = 'America/New_York';
+
+    it('should find the usual restock days and time in the store timezone', () => {
+      // Tuesdays and Fridays between 9:45 and 10:20 New York time, plus one Sunday
+      const events = [
+        restockAt('2024-01-02T15:00:00Z'),
+        restockAt('2024-01-05T15:20:00Z'),
+        restockAt('2024-01-09T14:45:00Z'),
+        restockAt('2024-01-12T15:10:00Z'),
+        restockAt('2024-01-14T20:00:00Z')
+      ];
+
+      const pattern = summarizeRestockPattern(events, timezone);
+
+      expect(pattern).toEqual({
+        typicalDays: ['tuesday', 'friday'],
+        typicalTime: '10:00',
+        summary: 'Usually restocked Tue/Fri ~10 AM',
+        eventCount: 5,
+        lastRestockedAt: new Date('2024-01-14T20:00:00Z'),
+        confidence: 'low'
+      });
+    });
+
+    it('should round the usual time to the nearest half hour', () => {
+      const events = [
+        restockAt('2024-01-01T19:25:00Z'),
+        restockAt('2024-01-08T19:35:00Z'),
+        restockAt('2024-01-15T19:40:00Z')
+      ];
+
+      const pattern = summarizeRestockPattern(events, timezone);
+
+      expect(pattern.typicalTime).toBe('14:30');
+      expect(pattern.summary).toBe('Usually restocked Mon ~2:30 PM');
+    });
+
+    it('should not call out days without enough events', () => {
+      const pattern = summarizeRestockPattern(
+        [restockAt('2024-01-02T15:00:00Z'), restockAt('2024-01-09T15:00:00Z')],
+        timezone
+      );
+
+      expect(pattern.typicalDays).toEqual([]);
+      expect(pattern.summary).toBeNull();
+      expect(pattern.eventCount).toBe(2);
+      expect(pattern.lastRestockedAt).toEqual(new Date('2024-01-09T15:00:00Z'));
+    });
+
+    it('should not call out days when restocks are spread across the week', () => {
+      const events = [
+        restockAt('2024-01-01T15:00:00Z'),
+        restockAt('2024-01-02T15:00:00Z'),
+        restockAt('2024-01-03T15:00:00Z'),
+        restockAt('2024-01-04T15:00:00Z'),
+        restockAt('2024-01-05T15:00:00Z')
+      ];
+
+      expect(summarizeRestockPattern(events, timezone).typicalDays).toEqual([]);
+    });
+
+    it('should return an empty pattern without events', () => {
+      expect(summarizeRestockPattern([], timezone)).toEqual({
+        typicalDays: [],
+        typicalTime: null,
+        summary: null,
+        eventCount: 0,
+        lastRestockedAt: null,
+        confidence: 'low'
+      });
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { mapLettuceScore, parseScoreEstimate } from '../../utils/scoreEstimate';
+
+describe('Score Estimate', () => {
+  describe('parseScoreEstimate', () => {
+    it('should map the JSONB fields to numbers', () => {
+      const estimate = parseScoreEstimate({ score: 3.42, lower: 2.9, upper: 3.95, effective_sample_size: 4.5 });
+
+      expect(estimate).toEqual({ score: 3.42, lower: 2.9, upper: 3.95, effectiveSampleSize: 4.5 });
+    });
+  });
+
+  describe('mapLettuceScore', () => {
+    it('should take the lettuce score from the estimate', () => {
+      const mapped = mapLettuceScore({
+        lettuce_score: '4.10',
+        score_estimate: { score: 3.42, lower: 2.9, upper: 3.95, effective_sample_size: 4.5 }
+      });
+
+      expect(mapped.lettuceScore).toBe(3.42);
+      expect(mapped.scoreEstimate).toEqual({ score: 3.42, lower: 2.9, upper: 3.95, effectiveSampleSize: 4.5 });
+    });
+
+    it('should fall back to the lettuce score without an estimate', () => {
+      expect(mapLettuceScore({ lettuce_score: '4.10', score_estimate: null })).toEqual({ lettuceScore: 4.1 });
+      expect(mapLettuceScore({ lettuce_score: null })).toEqual({ lettuceScore: 0 });
+    });
+  });
+});
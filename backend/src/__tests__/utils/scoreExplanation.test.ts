@@ -0,0 +1,48 @@
+import { explainContributions, WeightedRating } from '../../utils/scoreExplanation';
+
+function weightedRating(score: number, recencyWeight: number, timeWeight: number): WeightedRating {
+  return {
+    ratingId: `rating-${score}-${recencyWeight}`,
+    timestamp: new Date('2024-01-16T12:00:00Z'),
+    score,
+    recencyWeight,
+    timeWeight
+  };
+}
+
+describe('Score Explanation Utils', () => {
+  describe('explainContributions', () => {
+    it('should share the score by weight when the strategy has no prior', () => {
+      const { prior, contributions } = explainContributions(
+        [weightedRating(5, 1, 1), weightedRating(1, 0.9, 1)],
+        null
+      );
+
+      expect(prior).toBeNull();
+      expect(contributions.map(contribution => contribution.weight)).toEqual([1, 0.9]);
+      expect(contributions.map(contribution => contribution.share)).toEqual([0.526, 0.474]);
+    });
+
+    it('should multiply recency and time weights', () => {
+      const { contributions } = explainContributions([weightedRating(4, 0.9, 0.5)], null);
+
+      expect(contributions[0]).toMatchObject({ recencyWeight: 0.9, timeWeight: 0.5, weight: 0.45, share: 1 });
+    });
+
+    it('should give the prior its share of a Bayesian score', () => {
+      // One fresh 5 against a prior of 3.5 counted as 2 ratings: (2 x 3.5 + 5) / 3 = 4
+      const { prior, contributions } = explainContributions(
+        [weightedRating(5, 1, 1)],
+        { mean: 3.5, weight: 2 }
+      );
+
+      expect(prior).toEqual({ mean: 3.5, weight: 2, share: 0.667 });
+      expect(contributions[0]!.share).toBe(0.333);
+      expect(prior!.share * prior!.mean + contributions[0]!.share * 5).toBeCloseTo(4, 2);
+    });
+
+    it('should leave out the prior without ratings', () => {
+      expect(explainContributions([], { mean: 3.5, weight: 2 })).toEqual({ prior: null, contributions: [] });
+    });
+  });
+});
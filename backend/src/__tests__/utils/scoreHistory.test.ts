@@ -0,0 +1,102 @@
+import { buildScoreHistory, getBucketKey, getBucketStart } from '../../utils/scoreHistory';
+import { ScoreSnapshot } from '../../types';
+
+function snapshot(score: number, recordedAt: string): ScoreSnapshot {
+  return { score, recordedAt: new Date(recordedAt) };
+}
+
+describe('Score History Utils', () => {
+  describe('getBucketStart', () => {
+    it('should truncate to the start of the UTC day', () => {
+      expect(getBucketStart(new Date('2024-01-17T15:30:00Z'), 'day')).toEqual(new Date('2024-01-17T00:00:00Z'));
+    });
+
+    it('should truncate to the Monday of the UTC week', () => {
+      // 2024-01-21 is a Sunday
+      expect(getBucketStart(new Date('2024-01-21T23:00:00Z'), 'week')).toEqual(new Date('2024-01-15T00:00:00Z'));
+      expect(getBucketStart(new Date('2024-01-15T00:00:00Z'), 'week')).toEqual(new Date('2024-01-15T00:00:00Z'));
+    });
+  });
+
+  describe('getBucketKey', () => {
+    it('should key buckets by their start date', () => {
+      expect(getBucketKey(new Date('2024-01-17T15:30:00Z'), 'day')).toBe('2024-01-17');
+      expect(getBucketKey(new Date('2024-01-17T15:30:00Z'), 'week')).toBe('2024-01-15');
+    });
+  });
+
+  describe('buildScoreHistory', () => {
+    const from = new Date('2024-01-15T12:00:00Z');
+    const to = new Date('2024-01-18T06:00:00Z');
+
+    it('should create a bucket for every day touching the window', () => {
+      const buckets = buildScoreHistory([], new Map(), from, to, 'day');
+
+      expect(buckets.map(bucket => bucket.start.toISOString().slice(0, 10))).toEqual([
+        '2024-01-15',
+        '2024-01-16',
+        '2024-01-17',
+        '2024-01-18'
+      ]);
+      expect(buckets[3]!.end).toEqual(new Date('2024-01-19T00:00:00Z'));
+    });
+
+    it('should leave scores empty before the first snapshot', () => {
+      const buckets = buildScoreHistory([snapshot(4, '2024-01-16T10:00:00Z')], new Map(), from, to, 'day');
+
+      expect(buckets[0]).toMatchObject({ minScore: null, avgScore: null, maxScore: null, ratingCount: 0 });
+      expect(buckets[1]).toMatchObject({ minScore: 4, avgScore: 4, maxScore: 4 });
+    });
+
+    it('should carry the latest score into buckets without snapshots', () => {
+      const snapshots = [
+        snapshot(3, '2024-01-10T08:00:00Z'),
+        snapshot(4.5, '2024-01-16T09:00:00Z')
+      ];
+
+      const buckets = buildScoreHistory(snapshots, new Map(), from, to, 'day');
+
+      expect(buckets[0]).toMatchObject({ minScore: 3, avgScore: 3, maxScore: 3 });
+      expect(buckets[1]).toMatchObject({ minScore: 3, avgScore: 3.75, maxScore: 4.5 });
+      expect(buckets[2]).toMatchObject({ minScore: 4.5, avgScore: 4.5, maxScore: 4.5 });
+    });
+
+    it('should summarize several snapshots in one bucket', () => {
+      const snapshots = [
+        snapshot(2, '2024-01-16T08:00:00Z'),
+        snapshot(5, '2024-01-16T12:00:00Z'),
+        snapshot(3.33, '2024-01-16T18:00:00Z')
+      ];
+
+      const [, day] = buildScoreHistory(snapshots, new Map(), from, to, 'day');
+
+      expect(day).toMatchObject({ minScore: 2, avgScore: 3.44, maxScore: 5 });
+    });
+
+    it('should attach rating counts by bucket key', () => {
+      const ratingCounts = new Map([['2024-01-15', 4], ['2024-01-17', 1]]);
+
+      const buckets = buildScoreHistory([], ratingCounts, from, to, 'day');
+
+      expect(buckets.map(bucket => bucket.ratingCount)).toEqual([4, 0, 1, 0]);
+    });
+
+    it('should build weekly buckets starting on Monday', () => {
+      const buckets = buildScoreHistory(
+        [snapshot(4, '2024-01-24T10:00:00Z')],
+        new Map([['2024-01-22', 2]]),
+        new Date('2024-01-17T00:00:00Z'),
+        new Date('2024-01-30T00:00:00Z'),
+        'week'
+      );
+
+      expect(buckets.map(bucket => bucket.start.toISOString().slice(0, 10))).toEqual([
+        '2024-01-15',
+        '2024-01-22',
+        '2024-01-29'
+      ]);
+      expect(buckets[1]).toMatchObject({ avgScore: 4, ratingCount: 2 });
+      expect(buckets[2]).toMatchObject({ avgScore: 4, ratingCount: 0 });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { getConfiguredScoringStrategy, isScoringStrategy } from '../../utils/scoringStrategies';
+
+describe('Scoring Strategies', () => {
+  const originalStrategy = process.env.SCORING_STRATEGY;
+
+  afterEach(() => {
+    if (originalStrategy === undefined) {
+      delete process.env.SCORING_STRATEGY;
+    } else {
+      process.env.SCORING_STRATEGY = originalStrategy;
+    }
+  });
+
+  describe('isScoringStrategy', () => {
+    it('should accept registered strategies', () => {
+      expect(isScoringStrategy('bayesian')).toBe(true);
+      expect(isScoringStrategy('hot_locations')).toBe(true);
+    });
+
+    it('should reject unknown names', () => {
+      expect(isScoringStrategy('median')).toBe(false);
+      expect(isScoringStrategy('toString')).toBe(false);
+    });
+  });
+
+  describe('getConfiguredScoringStrategy', () => {
+    it('should use the strategy from SCORING_STRATEGY', () => {
+      process.env.SCORING_STRATEGY = 'time_decay';
+
+      expect(getConfiguredScoringStrategy()).toBe('time_decay');
+    });
+
+    it('should default to the bayesian strategy', () => {
+      delete process.env.SCORING_STRATEGY;
+
+      expect(getConfiguredScoringStrategy()).toBe('bayesian');
+    });
+
+    it('should fall back to the default for unknown strategies', () => {
+      process.env.SCORING_STRATEGY = 'median';
+
+      expect(getConfiguredScoringStrategy()).toBe('bayesian');
+    });
+  });
+});
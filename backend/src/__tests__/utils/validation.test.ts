@@ -8,13 +8,15 @@ import {
   calculateDistance,
   isValidSubwayLocation,
   validateStoreHours,
+  normalizeStoreHours,
   isValidTimeRange,
   timeToMinutes,
   isStoreOpen,
+  getStoreStatus,
   isValidTimezone,
   validateLocationSeedData
 } from '../../utils/validation';
-import { StoreHours } from '../../types';
+import { HoursException, StoreHoursInput } from '../../types';
 
 describe('Validation Utils', () => {
   describe('validateCoordinates', () => {
@@ -212,7 +214,7 @@ describe('Validation Utils', () => {
   });
 
   describe('validateStoreHours', () => {
-    const validHours: StoreHours = {
+    const validHours: StoreHoursInput = {
       monday: { open: "06:00", close: "22:00" },
       tuesday: { open: "06:00", close: "22:00" },
       wednesday: { open: "06:00", close: "22:00" },
@@ -270,6 +272,86 @@ describe('Validation Utils', () => {
       delete (missingDayHours as any).monday;
       expect(validateStoreHours(missingDayHours)).toBe(false);
     });
+
+    describe('with intervals', () => {
+      it('should accept split shifts', () => {
+        const splitShiftHours = {
+          ...validHours,
+          monday: { intervals: [{ open: "11:00", close: "14:00" }, { open: "17:00", close: "22:00" }] }
+        };
+        expect(validateStoreHours(splitShiftHours)).toBe(true);
+      });
+
+      it('should accept an empty list as a closed day', () => {
+        expect(validateStoreHours({ ...validHours, sunday: { intervals: [] } })).toBe(true);
+      });
+
+      it('should accept intervals running past midnight', () => {
+        const lateHours = {
+          ...validHours,
+          friday: { intervals: [{ open: "10:00", close: "02:00" }] },
+          saturday: { intervals: [{ open: "10:00", close: "03:00" }] }
+        };
+        expect(validateStoreHours(lateHours)).toBe(true);
+      });
+
+      it('should reject overlapping intervals', () => {
+        const overlappingHours = {
+          ...validHours,
+          monday: { intervals: [{ open: "17:00", close: "22:00" }, { open: "11:00", close: "18:00" }] }
+        };
+        expect(validateStoreHours(overlappingHours)).toBe(false);
+      });
+
+      it('should reject empty intervals', () => {
+        const emptyHours = { ...validHours, monday: { intervals: [{ open: "09:00", close: "09:00" }] } };
+        expect(validateStoreHours(emptyHours)).toBe(false);
+      });
+
+      it('should reject a past-midnight interval running into the next day\'s hours', () => {
+        const clashingHours = {
+          ...validHours,
+          friday: { intervals: [{ open: "10:00", close: "08:00" }] }
+        };
+        expect(validateStoreHours(clashingHours)).toBe(false);
+      });
+    });
+  });
+
+  describe('normalizeStoreHours', () => {
+    it('should convert single open/close days to intervals', () => {
+      const hours = normalizeStoreHours({
+        monday: { open: "06:00", close: "22:00" },
+        tuesday: { open: "06:00", close: "22:00" },
+        wednesday: { open: "06:00", close: "22:00" },
+        thursday: { open: "06:00", close: "22:00" },
+        friday: { open: "06:00", close: "22:00" },
+        saturday: { open: "07:00", close: "23:00" },
+        sunday: { open: "00:00", close: "00:00", closed: true },
+        timezone: "America/New_York"
+      });
+
+      expect(hours.monday).toEqual({ intervals: [{ open: "06:00", close: "22:00" }] });
+      expect(hours.sunday).toEqual({ intervals: [] });
+      expect(hours.timezone).toBe("America/New_York");
+    });
+
+    it('should sort intervals by opening time', () => {
+      const hours = normalizeStoreHours({
+        ...validStoreHoursInput(),
+        monday: { intervals: [{ open: "17:00", close: "22:00" }, { open: "11:00", close: "14:00" }] }
+      });
+
+      expect(hours.monday.intervals.map(interval => interval.open)).toEqual(["11:00", "17:00"]);
+    });
+
+    function validStoreHoursInput(): StoreHoursInput {
+      const day = { intervals: [{ open: "06:00", close: "22:00" }] };
+      return {
+        monday: day, tuesday: day, wednesday: day, thursday: day, friday: day, saturday: day, sunday: day,
+        timezone: "America/New_York"
+      };
+    }
   });
 
   describe('isValidTimeRange', () => {
@@ -302,7 +384,7 @@ describe('Validation Utils', () => {
   });
 
   describe('isStoreOpen', () => {
-    const testHours: StoreHours = {
+    const testHours: StoreHoursInput = {
       monday: { open: "06:00", close: "22:00" },
       tuesday: { open: "06:00", close: "22:00" },
       wednesday: { open: "06:00", close: "22:00" },
@@ -336,6 +418,164 @@ describe('Validation Utils', () => {
       const fridayNight = new Date('2024-01-19T23:30:00-05:00'); // 11:30 PM EST explicitly
       expect(isStoreOpen(testHours, fridayNight)).toBe(true);
     });
+
+    it('should be closed between split shifts', () => {
+      const splitShiftHours = {
+        ...testHours,
+        monday: { intervals: [{ open: "11:00", close: "14:00" }, { open: "17:00", close: "22:00" }] }
+      };
+      expect(isStoreOpen(splitShiftHours, new Date('2024-01-15T17:00:00Z'))).toBe(true); // 12:00 PM
+      expect(isStoreOpen(splitShiftHours, new Date('2024-01-15T20:00:00Z'))).toBe(false); // 3:00 PM
+      expect(isStoreOpen(splitShiftHours, new Date('2024-01-15T23:00:00Z'))).toBe(true); // 6:00 PM
+    });
+
+    it('should stay open past midnight into the next day', () => {
+      const lateHours = { ...testHours, saturday: { intervals: [{ open: "10:00", close: "02:00" }] } };
+      // 1:00 AM EST on Sunday, a closed day, still inside Saturday's interval
+      expect(isStoreOpen(lateHours, new Date('2024-01-21T06:00:00Z'))).toBe(true);
+      // 3:00 AM EST on Sunday
+      expect(isStoreOpen(lateHours, new Date('2024-01-21T08:00:00Z'))).toBe(false);
+    });
+
+    it('should not carry a closed day\'s interval past midnight', () => {
+      const lateHours = { ...testHours, saturday: { intervals: [{ open: "10:00", close: "02:00" }] } };
+      const closedSaturday: HoursException = {
+        id: 'exception-1',
+        locationId: 'location-1',
+        startDate: '2024-01-20',
+        endDate: '2024-01-20',
+        closed: true,
+        open: null,
+        close: null,
+        reason: 'Private event',
+        createdAt: new Date('2024-01-01T00:00:00Z')
+      };
+      expect(isStoreOpen(lateHours, new Date('2024-01-21T06:00:00Z'), [closedSaturday])).toBe(false);
+    });
+
+    describe('with hours exceptions', () => {
+      const exception = (overrides: Partial<HoursException>): HoursException => ({
+        id: 'exception-1',
+        locationId: 'location-1',
+        startDate: '2024-01-15',
+        endDate: '2024-01-15',
+        closed: true,
+        open: null,
+        close: null,
+        reason: 'Holiday',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        ...overrides
+      });
+
+      it('should be closed on a closure date', () => {
+        const mondayMorning = new Date('2024-01-15T15:00:00Z'); // 10:00 AM EST
+        expect(isStoreOpen(testHours, mondayMorning, [exception({})])).toBe(false);
+      });
+
+      it('should use the store timezone to pick the exception date', () => {
+        // 11:00 PM EST on Sunday the 14th is already the 15th in UTC
+        const sundayNight = new Date('2024-01-15T04:00:00Z');
+        const hours = { ...testHours, sunday: { open: '00:00', close: '24:00' } };
+        expect(isStoreOpen(hours, sundayNight, [exception({})])).toBe(true);
+      });
+
+      it('should apply special hours instead of the weekly hours', () => {
+        const specialHours = [exception({ closed: false, open: '10:00', close: '14:00' })];
+        expect(isStoreOpen(testHours, new Date('2024-01-15T16:00:00Z'), specialHours)).toBe(true); // 11:00 AM
+        expect(isStoreOpen(testHours, new Date('2024-01-15T20:00:00Z'), specialHours)).toBe(false); // 3:00 PM
+      });
+
+      it('should open a normally closed day', () => {
+        const sunday = new Date('2024-01-14T15:00:00Z'); // 10:00 AM EST
+        const openSunday = [exception({ startDate: '2024-01-14', endDate: '2024-01-14', closed: false, open: '09:00', close: '17:00' })];
+        expect(isStoreOpen(testHours, sunday, openSunday)).toBe(true);
+      });
+
+      it('should cover every date in the range and prefer the newest exception', () => {
+        const exceptions = [
+          exception({ startDate: '2024-01-10', endDate: '2024-01-20' }),
+          exception({
+            id: 'exception-2',
+            closed: false,
+            open: '06:00',
+            close: '22:00',
+            createdAt: new Date('2024-01-05T00:00:00Z')
+          })
+        ];
+        expect(isStoreOpen(testHours, new Date('2024-01-16T15:00:00Z'), exceptions)).toBe(false);
+        expect(isStoreOpen(testHours, new Date('2024-01-15T15:00:00Z'), exceptions)).toBe(true);
+      });
+    });
+  });
+
+  describe('getStoreStatus', () => {
+    const day = { intervals: [{ open: "06:00", close: "22:00" }] };
+    const hours: StoreHoursInput = {
+      monday: day,
+      tuesday: { intervals: [{ open: "11:00", close: "14:00" }, { open: "17:00", close: "22:00" }] },
+      wednesday: day,
+      thursday: day,
+      friday: { intervals: [{ open: "06:00", close: "02:00" }] },
+      saturday: { intervals: [] },
+      sunday: { intervals: [] },
+      timezone: "America/New_York"
+    };
+
+    it('should give the closing time of an open store', () => {
+      // Monday at 10:00 AM EST
+      expect(getStoreStatus(hours, new Date('2024-01-15T15:00:00Z'))).toEqual({
+        isOpen: true,
+        closesAt: new Date('2024-01-16T03:00:00Z'), // 10:00 PM EST
+        closingSoon: false
+      });
+    });
+
+    it('should flag a store closing within 30 minutes', () => {
+      // Monday at 9:45 PM EST
+      const status = getStoreStatus(hours, new Date('2024-01-16T02:45:00Z'));
+      expect(status.isOpen).toBe(true);
+      expect(status.closingSoon).toBe(true);
+    });
+
+    it('should give the next opening between split shifts', () => {
+      // Tuesday at 3:00 PM EST
+      expect(getStoreStatus(hours, new Date('2024-01-16T20:00:00Z'))).toEqual({
+        isOpen: false,
+        opensAt: new Date('2024-01-16T22:00:00Z'), // 5:00 PM EST
+        closingSoon: false
+      });
+    });
+
+    it('should look past closed days for the next opening', () => {
+      // Saturday at noon EST; Friday's hours end at 2:00 AM
+      const status = getStoreStatus(hours, new Date('2024-01-20T17:00:00Z'));
+      expect(status.isOpen).toBe(false);
+      expect(status.opensAt).toEqual(new Date('2024-01-22T11:00:00Z')); // Monday 6:00 AM EST
+    });
+
+    it('should close past midnight for late hours', () => {
+      // Friday at 11:00 PM EST
+      const status = getStoreStatus(hours, new Date('2024-01-20T04:00:00Z'));
+      expect(status.closesAt).toEqual(new Date('2024-01-20T07:00:00Z')); // Saturday 2:00 AM EST
+    });
+
+    it('should evaluate the hours in the store timezone', () => {
+      const pacificHours = { ...hours, timezone: "America/Los_Angeles" };
+      // 7:00 AM EST Monday is 4:00 AM PST, before opening
+      const status = getStoreStatus(pacificHours, new Date('2024-01-15T12:00:00Z'));
+      expect(status.isOpen).toBe(false);
+      expect(status.opensAt).toEqual(new Date('2024-01-15T14:00:00Z')); // 6:00 AM PST
+    });
+
+    it('should join back-to-back intervals and leave out closesAt when always open', () => {
+      const allDay = { intervals: [{ open: "00:00", close: "24:00" }] };
+      const alwaysOpen: StoreHoursInput = {
+        monday: allDay, tuesday: allDay, wednesday: allDay, thursday: allDay,
+        friday: allDay, saturday: allDay, sunday: allDay,
+        timezone: "America/New_York"
+      };
+      expect(getStoreStatus(alwaysOpen, new Date('2024-01-15T15:00:00Z'))).toEqual({ isOpen: true, closingSoon: false });
+    });
   });
 
   describe('isValidTimezone', () => {
@@ -1,6 +1,5 @@
 import { RatingRepository } from '../../repositories/RatingRepository';
-import { Rating } from '../../types';
-import { calculateWeightedScore, calculateTimeBasedWeight, calculateAdvancedWeightedScore } from '../../utils/weightedScore';
+import { calculateWeightedScore, calculateScoreEstimate, calculateIngredientScores, calculateTimeBasedWeight } from '../../utils/weightedScore';
 
 // Mock the rating repository
 jest.mock('../../repositories/RatingRepository');
@@ -15,106 +14,80 @@ describe('Weighted Score Calculation', () => {
   });
 
   describe('calculateWeightedScore', () => {
-    it('should return 0 for location with no ratings', async () => {
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue([]);
+    it('should return the lettuce score from the score estimate', async () => {
+      mockRatingRepo.getScoreEstimate.mockResolvedValue({ score: 4.2, lower: 3.8, upper: 4.6, effectiveSampleSize: 6.5 });
 
       const result = await calculateWeightedScore('location-id', mockRatingRepo);
 
-      expect(result).toBe(0);
-      expect(mockRatingRepo.getRatingsByLocation).toHaveBeenCalledWith('location-id', 10);
+      expect(result).toBe(4.2);
+      expect(mockRatingRepo.getScoreEstimate).toHaveBeenCalledWith('location-id', 'lettuce');
     });
 
-    it('should return the score for a single rating', async () => {
-      const ratings: Rating[] = [
-        {
-          id: '1',
-          locationId: 'location-id',
-          score: 4,
-          timestamp: new Date('2024-01-15T10:00:00Z')
-        }
-      ];
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue(ratings);
+    it('should score the requested ingredient', async () => {
+      mockRatingRepo.getScoreEstimate.mockResolvedValue({ score: 3.1, lower: 2.5, upper: 3.7, effectiveSampleSize: 2 });
 
-      const result = await calculateWeightedScore('location-id', mockRatingRepo);
+      const result = await calculateWeightedScore('location-id', mockRatingRepo, 'tomato');
 
-      expect(result).toBe(4.0);
+      expect(result).toBe(3.1);
+      expect(mockRatingRepo.getScoreEstimate).toHaveBeenCalledWith('location-id', 'tomato');
     });
 
-    it('should weight recent ratings more heavily', async () => {
-      const ratings: Rating[] = [
-        {
-          id: '1',
-          locationId: 'location-id',
-          score: 5, // Most recent - weight 1.0
-          timestamp: new Date('2024-01-15T10:00:00Z')
-        },
-        {
-          id: '2',
-          locationId: 'location-id',
-          score: 1, // Second most recent - weight 0.9
-          timestamp: new Date('2024-01-15T09:00:00Z')
-        }
-      ];
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue(ratings);
+    it('should return 0 for location with no ratings', async () => {
+      mockRatingRepo.getScoreEstimate.mockResolvedValue({ score: 0, lower: 0, upper: 0, effectiveSampleSize: 0 });
 
       const result = await calculateWeightedScore('location-id', mockRatingRepo);
 
-      // Expected calculation: (5 * 1.0 + 1 * 0.9) / (1.0 + 0.9) = 5.9 / 1.9 ≈ 3.1
-      expect(result).toBe(3.1);
+      expect(result).toBe(0);
     });
 
-    it('should handle 10 ratings with exponential decay', async () => {
-      const ratings: Rating[] = Array.from({ length: 10 }, (_, i) => ({
-        id: `${i + 1}`,
-        locationId: 'location-id',
-        score: 5, // All ratings are 5
-        timestamp: new Date(`2024-01-15T${10 + i}:00:00Z`)
-      }));
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue(ratings);
+    it('should handle repository errors gracefully', async () => {
+      mockRatingRepo.getScoreEstimate.mockRejectedValue(new Error('Database error'));
 
       const result = await calculateWeightedScore('location-id', mockRatingRepo);
 
-      // Since all ratings are 5, weighted average should be 5.0
-      expect(result).toBe(5.0);
+      expect(result).toBe(0);
     });
+  });
 
-    it('should demonstrate exponential decay effect', async () => {
-      const ratings: Rating[] = [
-        { id: '1', locationId: 'location-id', score: 5, timestamp: new Date() }, // weight: 1.0
-        { id: '2', locationId: 'location-id', score: 1, timestamp: new Date() }, // weight: 0.9
-        { id: '3', locationId: 'location-id', score: 1, timestamp: new Date() }, // weight: 0.81
-        { id: '4', locationId: 'location-id', score: 1, timestamp: new Date() }, // weight: 0.729
-        { id: '5', locationId: 'location-id', score: 1, timestamp: new Date() }  // weight: 0.6561
-      ];
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue(ratings);
+  describe('calculateScoreEstimate', () => {
+    it('should return the score with its credible interval', async () => {
+      const estimate = { score: 4, lower: 3.4, upper: 4.6, effectiveSampleSize: 1 };
+      mockRatingRepo.getScoreEstimate.mockResolvedValue(estimate);
 
-      const result = await calculateWeightedScore('location-id', mockRatingRepo);
+      const result = await calculateScoreEstimate('location-id', mockRatingRepo);
 
-      // The most recent rating (5) should have much more influence than older ratings (1)
-      expect(result).toBeGreaterThan(1.5); // Should be closer to 5 than to 1
-      expect(result).toBeLessThan(5.0);
+      expect(result).toEqual(estimate);
     });
 
-    it('should round to 1 decimal place', async () => {
-      const ratings: Rating[] = [
-        { id: '1', locationId: 'location-id', score: 3, timestamp: new Date() },
-        { id: '2', locationId: 'location-id', score: 4, timestamp: new Date() },
-        { id: '3', locationId: 'location-id', score: 3, timestamp: new Date() }
-      ];
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue(ratings);
+    it('should return an empty estimate on repository errors', async () => {
+      mockRatingRepo.getScoreEstimate.mockRejectedValue(new Error('Database error'));
 
-      const result = await calculateWeightedScore('location-id', mockRatingRepo);
+      const result = await calculateScoreEstimate('location-id', mockRatingRepo);
 
-      // Result should be rounded to 1 decimal place
-      expect(result.toString()).toMatch(/^\d+\.\d$/);
+      expect(result).toEqual({ score: 0, lower: 0, upper: 0, effectiveSampleSize: 0 });
     });
+  });
 
-    it('should handle repository errors gracefully', async () => {
-      mockRatingRepo.getRatingsByLocation.mockRejectedValue(new Error('Database error'));
+  describe('calculateIngredientScores', () => {
+    it('should score each rated ingredient from its own ratings', async () => {
+      mockRatingRepo.getRatedIngredients.mockResolvedValue(['lettuce', 'tomato']);
+      mockRatingRepo.getScoreEstimate.mockImplementation(async (_locationId, ingredient) => {
+        const score = ingredient === 'tomato' ? 2.4 : 4.6;
+        return { score, lower: score - 0.5, upper: score + 0.3, effectiveSampleSize: 1 };
+      });
 
-      const result = await calculateWeightedScore('location-id', mockRatingRepo);
+      const result = await calculateIngredientScores('location-id', mockRatingRepo);
 
-      expect(result).toBe(0);
+      expect(result).toEqual({ lettuce: 4.6, tomato: 2.4 });
+      expect(mockRatingRepo.getScoreEstimate).toHaveBeenCalledWith('location-id', 'tomato');
+    });
+
+    it('should return an empty map when nothing was rated', async () => {
+      mockRatingRepo.getRatedIngredients.mockResolvedValue([]);
+
+      const result = await calculateIngredientScores('location-id', mockRatingRepo);
+
+      expect(result).toEqual({});
     });
   });
 
@@ -156,37 +129,4 @@ describe('Weighted Score Calculation', () => {
       expect(weight).toBeLessThan(0.01); // Very small weight
     });
   });
-
-  describe('calculateAdvancedWeightedScore', () => {
-    it('should combine recency and time-based weights', async () => {
-      const ratings: Rating[] = [
-        {
-          id: '1',
-          locationId: 'location-id',
-          score: 5,
-          timestamp: new Date('2024-01-15T11:30:00Z') // 30 minutes ago - recent
-        },
-        {
-          id: '2',
-          locationId: 'location-id',
-          score: 1,
-          timestamp: new Date('2024-01-14T12:00:00Z') // 24 hours ago - older
-        }
-      ];
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue(ratings);
-
-      const result = await calculateAdvancedWeightedScore('location-id', mockRatingRepo);
-
-      // Recent high rating should dominate over older low rating
-      expect(result).toBeGreaterThan(3.5);
-    });
-
-    it('should return 0 for location with no ratings', async () => {
-      mockRatingRepo.getRatingsByLocation.mockResolvedValue([]);
-
-      const result = await calculateAdvancedWeightedScore('location-id', mockRatingRepo);
-
-      expect(result).toBe(0);
-    });
-  });
 });
\ No newline at end of file
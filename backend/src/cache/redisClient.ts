@@ -37,27 +37,55 @@ export const connectRedis = async (): Promise<boolean> => {
 
 // Cache keys
 export const CACHE_KEYS = {
-  NEARBY_LOCATIONS: (lat: number, lng: number, radius: number) => 
-    `nearby:${lat.toFixed(4)}:${lng.toFixed(4)}:${radius}`,
+  NEARBY_LOCATIONS: (
+    lat: number,
+    lng: number,
+    radius: number,
+    options: {
+      sort?: string;
+      minScore?: number | undefined;
+      openNow?: boolean | undefined;
+      openAt?: Date | undefined;
+      recentlyRatedOnly?: boolean | undefined;
+      minRatings?: number | undefined;
+      limit?: number | undefined;
+      cursor?: string | undefined;
+    } = {}
+  ) => 
+    `nearby:${lat.toFixed(4)}:${lng.toFixed(4)}:${radius}:${options.sort ?? 'distance'}` +
+    `:min${options.minScore ?? ''}:open${options.openNow ? 1 : 0}` +
+    (options.openNow && options.openAt ? `@${options.openAt.toISOString()}` : '') +
+    `:recent${options.recentlyRatedOnly ? 1 : 0}:count${options.minRatings ?? ''}` +
+    (options.limit !== undefined ? `:${options.limit}` : '') +
+    (options.cursor ? `:after:${options.cursor}` : ''),
+  LOCATIONS_IN_BOUNDS: (north: number, south: number, east: number, west: number, limit: number) =>
+    `bounds:${north.toFixed(3)}:${south.toFixed(3)}:${east.toFixed(3)}:${west.toFixed(3)}:${limit}`,
   LOCATION_DETAIL: (id: string) => `location:${id}`,
   LOCATION_SCORE: (id: string) => `score:${id}`,
   RATING_SUMMARY: (id: string) => `summary:${id}`,
   TIME_ANALYSIS: (id: string) => `time:${id}`,
   POPULAR_LOCATIONS: () => 'popular:locations',
-  SEARCH_RESULTS: (query: string) => `search:${query.toLowerCase().replace(/\s+/g, '_')}`,
+  // Exact coordinates: the cached results carry distances from this point
+  SEARCH_RESULTS: (query: string, mode: string = 'full', limit: number = 10, lat?: number, lng?: number) =>
+    `search:${mode}:${query.toLowerCase().replace(/\s+/g, '_')}:${limit}` +
+    (lat !== undefined && lng !== undefined ? `:${lat}:${lng}` : ''),
   USER_PREFERENCES: (userId: string) => `user:${userId}:prefs`,
   LOCATION_STATS: (id: string) => `stats:${id}`,
-  HOT_LOCATIONS: () => 'hot:locations',
+  HOT_LOCATIONS: (lat: number, lng: number, radius: number, limit: number) =>
+    `hot:${lat.toFixed(3)}:${lng.toFixed(3)}:${radius}:${limit}`,
 } as const;
 
 // Cache TTL (Time To Live) in seconds
 export const CACHE_TTL = {
   NEARBY_LOCATIONS: 300, // 5 minutes
+  LOCATIONS_IN_BOUNDS: 300, // 5 minutes
   LOCATION_DETAIL: 600, // 10 minutes
   LOCATION_SCORE: 60, // 1 minute (frequently updated)
+  LOCATION_STATS: 60, // 1 minute (score plus rating stats)
   RATING_SUMMARY: 300, // 5 minutes
   TIME_ANALYSIS: 3600, // 1 hour
   POPULAR_LOCATIONS: 1800, // 30 minutes
+  HOT_LOCATIONS: 300, // 5 minutes (view is refreshed on a schedule)
   SEARCH_RESULTS: 180, // 3 minutes
   USER_PREFERENCES: 86400, // 24 hours
 } as const;
@@ -280,17 +308,17 @@ export class CacheService {
         return;
       }
 
-      const hotLocationsKey = CACHE_KEYS.HOT_LOCATIONS();
+      const popularLocationsKey = CACHE_KEYS.POPULAR_LOCATIONS();
       
-      // Clear existing hot locations
-      await redisClient.del(hotLocationsKey);
+      // Clear existing popular locations
+      await redisClient.del(popularLocationsKey);
       
       // Add locations to sorted set
       const pipeline = redisClient.multi();
       locations.forEach(({ id, score }) => {
-        pipeline.zAdd(hotLocationsKey, { score, value: id });
+        pipeline.zAdd(popularLocationsKey, { score, value: id });
       });
-      pipeline.expire(hotLocationsKey, CACHE_TTL.POPULAR_LOCATIONS);
+      pipeline.expire(popularLocationsKey, CACHE_TTL.POPULAR_LOCATIONS);
       
       await pipeline.exec();
       
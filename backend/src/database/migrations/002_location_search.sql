@@ -0,0 +1,6 @@
+-- Enable trigram matching for fuzzy store search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Trigram indexes for name/address search (used by % and <% operators)
+CREATE INDEX IF NOT EXISTS idx_locations_name_trgm ON locations USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_locations_address_trgm ON locations USING GIN (address gin_trgm_ops);
@@ -0,0 +1,38 @@
+-- SQL counterpart of isStoreOpen() so "open now" can be filtered in queries
+CREATE OR REPLACE FUNCTION is_location_open(
+  hours JSONB,
+  at_time TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  local_time TIMESTAMP;
+  day_hours JSONB;
+  current_minutes INTEGER;
+  open_minutes INTEGER;
+  close_minutes INTEGER;
+BEGIN
+  -- Convert to store's timezone
+  local_time := at_time AT TIME ZONE (hours->>'timezone');
+  day_hours := hours -> to_char(local_time, 'FMday');
+
+  IF day_hours IS NULL OR COALESCE((day_hours->>'closed')::BOOLEAN, FALSE) THEN
+    RETURN FALSE;
+  END IF;
+
+  current_minutes := EXTRACT(HOUR FROM local_time)::INTEGER * 60 + EXTRACT(MINUTE FROM local_time)::INTEGER;
+  open_minutes := split_part(day_hours->>'open', ':', 1)::INTEGER * 60 + split_part(day_hours->>'open', ':', 2)::INTEGER;
+  -- 24:00 naturally becomes 1440 (end of day)
+  close_minutes := split_part(day_hours->>'close', ':', 1)::INTEGER * 60 + split_part(day_hours->>'close', ':', 2)::INTEGER;
+
+  -- Handle overnight hours (e.g., 22:00 - 06:00)
+  IF close_minutes <= open_minutes THEN
+    RETURN current_minutes >= open_minutes OR current_minutes <= close_minutes;
+  END IF;
+
+  RETURN current_minutes >= open_minutes AND current_minutes <= close_minutes;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Unknown timezone or malformed hours
+    RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql STABLE;
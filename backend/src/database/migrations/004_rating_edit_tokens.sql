@@ -0,0 +1,3 @@
+-- Hash of the ownership token returned when a rating is submitted.
+-- Lets the original submitter edit or retract the rating for a short window.
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS edit_token_hash CHAR(64) NULL;
@@ -0,0 +1,29 @@
+-- User accounts for cross-device rating history (email/password login)
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email VARCHAR(255) NOT NULL,
+  password_hash TEXT NOT NULL,
+  display_name VARCHAR(50) NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Emails are stored lowercased; one account per address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email ON users (email);
+
+-- Refresh tokens for JWT sessions. Only a SHA-256 hash of each token is stored;
+-- logout and refresh revoke the token so it cannot be reused.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refresh_tokens_hash ON refresh_tokens (token_hash);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens (user_id);
+
+-- ratings.user_id now holds either a user ID (signed in) or an anonymous device ID
+CREATE INDEX IF NOT EXISTS idx_ratings_user_timestamp ON ratings (user_id, timestamp DESC) WHERE user_id IS NOT NULL;
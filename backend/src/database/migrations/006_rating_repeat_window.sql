@@ -0,0 +1,4 @@
+-- Look up a rater's latest rating for a location when enforcing the repeat window
+CREATE INDEX IF NOT EXISTS idx_ratings_location_user_timestamp
+  ON ratings (location_id, user_id, timestamp DESC)
+  WHERE user_id IS NOT NULL;
@@ -0,0 +1,3 @@
+-- Optional freshness tags and a short comment left with a rating
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS comment VARCHAR(280) NULL;
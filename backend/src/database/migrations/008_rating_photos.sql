@@ -0,0 +1,15 @@
+-- Photos attached to ratings. Image files live in PHOTO_STORAGE_DIR;
+-- this table records where each one is and which rating it belongs to.
+CREATE TABLE IF NOT EXISTS rating_photos (
+  id UUID PRIMARY KEY,
+  rating_id UUID NOT NULL REFERENCES ratings(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  content_type VARCHAR(50) NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_photos_rating ON rating_photos (rating_id);
+CREATE INDEX IF NOT EXISTS idx_rating_photos_location_created ON rating_photos (location_id, created_at DESC);
@@ -0,0 +1,63 @@
+-- Ratings can rate other ingredients besides lettuce. Existing ratings are lettuce ratings.
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS ingredient VARCHAR(20) NOT NULL DEFAULT 'lettuce';
+
+ALTER TABLE ratings DROP CONSTRAINT IF EXISTS valid_ingredient;
+ALTER TABLE ratings ADD CONSTRAINT valid_ingredient
+  CHECK (ingredient IN ('lettuce', 'tomato', 'cucumber', 'onion', 'spinach'));
+
+CREATE INDEX IF NOT EXISTS idx_ratings_location_ingredient_timestamp
+  ON ratings (location_id, ingredient, timestamp DESC);
+
+-- Weighted score of one ingredient at a location, from its last 10 ratings
+CREATE OR REPLACE FUNCTION calculate_ingredient_score(location_uuid UUID, ingredient_name VARCHAR)
+RETURNS DECIMAL(3,2) AS $$
+DECLARE
+  weighted_score DECIMAL(3,2);
+BEGIN
+  SELECT 
+    COALESCE(
+      SUM(score * weight) / SUM(weight),
+      0
+    )
+  INTO weighted_score
+  FROM (
+    SELECT 
+      score,
+      -- More recent ratings get higher weight (exponential decay)
+      EXP(-EXTRACT(EPOCH FROM (NOW() - timestamp)) / 86400.0) as weight
+    FROM ratings 
+    WHERE location_id = location_uuid
+      AND ingredient = ingredient_name
+    ORDER BY timestamp DESC
+    LIMIT 10
+  ) recent_ratings;
+  
+  RETURN COALESCE(weighted_score, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- The lettuce score only counts lettuce ratings
+CREATE OR REPLACE FUNCTION calculate_lettuce_score(location_uuid UUID)
+RETURNS DECIMAL(3,2) AS $$
+BEGIN
+  RETURN calculate_ingredient_score(location_uuid, 'lettuce');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scores of every rated ingredient at a location, e.g. {"lettuce": 4.2, "tomato": 3.5}
+CREATE OR REPLACE FUNCTION calculate_ingredient_scores(location_uuid UUID)
+RETURNS JSONB AS $$
+BEGIN
+  RETURN COALESCE(
+    (
+      SELECT jsonb_object_agg(rated.ingredient, calculate_ingredient_score(location_uuid, rated.ingredient))
+      FROM (
+        SELECT DISTINCT ingredient
+        FROM ratings
+        WHERE location_id = location_uuid
+      ) rated
+    ),
+    '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql;
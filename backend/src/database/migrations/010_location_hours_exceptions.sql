@@ -0,0 +1,63 @@
+-- Holiday and special hours that override a location's weekly hours for a date range.
+-- Dates are in the store's own timezone; both ends of the range are included.
+CREATE TABLE IF NOT EXISTS location_hours_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  closed BOOLEAN NOT NULL DEFAULT FALSE,
+  open_time VARCHAR(5),
+  close_time VARCHAR(5),
+  reason VARCHAR(200) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_exception_dates CHECK (end_date >= start_date),
+  CONSTRAINT valid_exception_hours CHECK (closed OR (open_time IS NOT NULL AND close_time IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_hours_exceptions_location_dates
+  ON location_hours_exceptions (location_id, start_date, end_date);
+
+-- is_location_open() for a stored location: an exception covering the store's
+-- local date replaces that day's weekly hours. The newest exception wins on overlap.
+CREATE OR REPLACE FUNCTION is_location_open(
+  location_uuid UUID,
+  hours JSONB,
+  at_time TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  local_time TIMESTAMP;
+  hours_exception RECORD;
+BEGIN
+  local_time := at_time AT TIME ZONE (hours->>'timezone');
+
+  SELECT closed, open_time, close_time
+  INTO hours_exception
+  FROM location_hours_exceptions
+  WHERE location_id = location_uuid
+    AND local_time::date BETWEEN start_date AND end_date
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN is_location_open(hours, at_time);
+  END IF;
+
+  IF hours_exception.closed THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN is_location_open(
+    jsonb_set(
+      hours,
+      ARRAY[to_char(local_time, 'FMday')],
+      jsonb_build_object('open', hours_exception.open_time, 'close', hours_exception.close_time)
+    ),
+    at_time
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Unknown timezone or malformed hours
+    RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql STABLE;
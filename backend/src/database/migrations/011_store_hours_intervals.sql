@@ -0,0 +1,135 @@
+-- Store hours move from one open/close pair per day to a list of intervals per day:
+--   {"open": "06:00", "close": "22:00"}            -> {"intervals": [{"open": "06:00", "close": "22:00"}]}
+--   {"open": "00:00", "close": "00:00", "closed": true} -> {"intervals": []}
+-- An interval whose close is at or before its open runs past midnight into the next day.
+UPDATE locations
+SET hours = (
+  SELECT jsonb_object_agg(
+    day.key,
+    CASE
+      WHEN day.key = 'timezone' OR day.value ? 'intervals' THEN day.value
+      WHEN COALESCE((day.value->>'closed')::BOOLEAN, FALSE) THEN jsonb_build_object('intervals', '[]'::jsonb)
+      ELSE jsonb_build_object(
+        'intervals',
+        jsonb_build_array(jsonb_build_object('open', day.value->'open', 'close', day.value->'close'))
+      )
+    END
+  )
+  FROM jsonb_each(locations.hours) day
+)
+WHERE EXISTS (
+  SELECT 1
+  FROM jsonb_each(locations.hours) day
+  WHERE day.key <> 'timezone' AND NOT day.value ? 'intervals'
+);
+
+-- HH:MM to minutes since midnight; 24:00 becomes 1440
+CREATE OR REPLACE FUNCTION hours_time_to_minutes(time_text TEXT)
+RETURNS INTEGER AS $$
+  SELECT split_part(time_text, ':', 1)::INTEGER * 60 + split_part(time_text, ':', 2)::INTEGER;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether a store is open at current_minutes, given today's intervals and
+-- yesterday's (whose past-midnight intervals may still be running)
+CREATE OR REPLACE FUNCTION hours_open_during(
+  today_intervals JSONB,
+  yesterday_intervals JSONB,
+  current_minutes INTEGER
+)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(today_intervals, '[]'::jsonb)) slot
+    WHERE current_minutes >= hours_time_to_minutes(slot->>'open')
+      AND (
+        -- Runs past midnight, so open for the rest of today
+        hours_time_to_minutes(slot->>'close') <= hours_time_to_minutes(slot->>'open')
+        OR current_minutes <= hours_time_to_minutes(slot->>'close')
+      )
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(yesterday_intervals, '[]'::jsonb)) slot
+    WHERE hours_time_to_minutes(slot->>'close') <= hours_time_to_minutes(slot->>'open')
+      AND current_minutes <= hours_time_to_minutes(slot->>'close')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Opening intervals of a stored location on a store-local date, with hours exceptions applied
+CREATE OR REPLACE FUNCTION location_intervals_on(
+  location_uuid UUID,
+  hours JSONB,
+  local_date DATE
+)
+RETURNS JSONB AS $$
+DECLARE
+  hours_exception RECORD;
+BEGIN
+  SELECT closed, open_time, close_time
+  INTO hours_exception
+  FROM location_hours_exceptions
+  WHERE location_id = location_uuid
+    AND local_date BETWEEN start_date AND end_date
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN hours -> to_char(local_date, 'FMday') -> 'intervals';
+  END IF;
+
+  IF hours_exception.closed THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  RETURN jsonb_build_array(
+    jsonb_build_object('open', hours_exception.open_time, 'close', hours_exception.close_time)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- SQL counterpart of isStoreOpen() for the intervals form of store hours
+CREATE OR REPLACE FUNCTION is_location_open(
+  hours JSONB,
+  at_time TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  local_time TIMESTAMP;
+BEGIN
+  -- Convert to store's timezone
+  local_time := at_time AT TIME ZONE (hours->>'timezone');
+
+  RETURN hours_open_during(
+    hours -> to_char(local_time, 'FMday') -> 'intervals',
+    hours -> to_char(local_time - INTERVAL '1 day', 'FMday') -> 'intervals',
+    EXTRACT(HOUR FROM local_time)::INTEGER * 60 + EXTRACT(MINUTE FROM local_time)::INTEGER
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Unknown timezone or malformed hours
+    RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- is_location_open() for a stored location, with its hours exceptions applied
+CREATE OR REPLACE FUNCTION is_location_open(
+  location_uuid UUID,
+  hours JSONB,
+  at_time TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  local_time TIMESTAMP;
+BEGIN
+  local_time := at_time AT TIME ZONE (hours->>'timezone');
+
+  RETURN hours_open_during(
+    location_intervals_on(location_uuid, hours, local_time::date),
+    location_intervals_on(location_uuid, hours, (local_time - INTERVAL '1 day')::date),
+    EXTRACT(HOUR FROM local_time)::INTEGER * 60 + EXTRACT(MINUTE FROM local_time)::INTEGER
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Unknown timezone or malformed hours
+    RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,76 @@
+-- Lettuce score history. A snapshot is written whenever a rating change moves a
+-- location's weighted score, so consecutive rows for a location always differ.
+CREATE TABLE IF NOT EXISTS location_score_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  score DECIMAL(3,2) NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_score_snapshots_location_recorded
+  ON location_score_snapshots (location_id, recorded_at DESC);
+
+-- Record the current lettuce score unless it matches the latest snapshot.
+-- Skips locations that no longer exist (ratings removed by a cascading delete).
+CREATE OR REPLACE FUNCTION record_score_snapshot(location_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  current_score DECIMAL(3,2);
+  previous_score DECIMAL(3,2);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = location_uuid) THEN
+    RETURN;
+  END IF;
+
+  current_score := calculate_lettuce_score(location_uuid);
+
+  SELECT score INTO previous_score
+  FROM location_score_snapshots
+  WHERE location_id = location_uuid
+  ORDER BY recorded_at DESC
+  LIMIT 1;
+
+  IF previous_score IS DISTINCT FROM current_score THEN
+    INSERT INTO location_score_snapshots (location_id, score)
+    VALUES (location_uuid, current_score);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_score_snapshot_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM record_score_snapshot(OLD.location_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM record_score_snapshot(NEW.location_id);
+  IF TG_OP = 'UPDATE' AND OLD.location_id <> NEW.location_id THEN
+    PERFORM record_score_snapshot(OLD.location_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_record_score_snapshot ON ratings;
+CREATE TRIGGER trigger_record_score_snapshot
+  AFTER INSERT OR UPDATE OF score, ingredient, timestamp, location_id OR DELETE ON ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION record_score_snapshot_trigger();
+
+-- The most recent snapshot scores for a location, oldest first, for sparklines
+CREATE OR REPLACE FUNCTION get_score_trend(location_uuid UUID, max_points INTEGER DEFAULT 10)
+RETURNS DECIMAL(3,2)[] AS $$
+  SELECT COALESCE(array_agg(score ORDER BY recorded_at), ARRAY[]::DECIMAL(3,2)[])
+  FROM (
+    SELECT score, recorded_at
+    FROM location_score_snapshots
+    WHERE location_id = location_uuid
+    ORDER BY recorded_at DESC
+    LIMIT max_points
+  ) recent_snapshots;
+$$ LANGUAGE sql STABLE;
+
+-- Start every existing location's history from its current score
+SELECT record_score_snapshot(id) FROM locations;
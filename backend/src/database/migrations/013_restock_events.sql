@@ -0,0 +1,15 @@
+-- Restocks inferred from a location's lettuce ratings jumping from low to high scores.
+-- restocked_at is the first high rating after the jump, so re-running detection over
+-- the same ratings finds the same event and the unique constraint skips it.
+CREATE TABLE IF NOT EXISTS restock_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  restocked_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  score_before DECIMAL(3,2) NOT NULL,
+  score_after DECIMAL(3,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_restock_event UNIQUE (location_id, restocked_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_restock_events_location_restocked
+  ON restock_events (location_id, restocked_at DESC);
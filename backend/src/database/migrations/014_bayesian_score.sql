@@ -0,0 +1,73 @@
+-- Every ingredient score now comes from one model: a Bayesian average that starts from
+-- the chain-wide mean of the ingredient's last 30 days of ratings and is pulled toward
+-- the location's own ratings, each counting half as much every 3 days. A single fresh
+-- 5-star rating no longer scores the same as fifty of them, and the spread of the
+-- ratings gives an 80% credible interval around the score.
+--
+-- A location without ratings of the ingredient scores 0 across the board, as before.
+CREATE OR REPLACE FUNCTION calculate_score_estimate(location_uuid UUID, ingredient_name VARCHAR)
+RETURNS JSONB AS $$
+DECLARE
+  -- The chain-wide mean counts as this many fresh ratings
+  prior_weight CONSTANT DOUBLE PRECISION := 2;
+  half_life_seconds CONSTANT DOUBLE PRECISION := 3 * 86400;
+  -- z for an 80% interval
+  interval_z CONSTANT DOUBLE PRECISION := 1.28;
+  prior_mean DOUBLE PRECISION;
+  prior_stddev DOUBLE PRECISION;
+  total_weight DOUBLE PRECISION;
+  weighted_sum DOUBLE PRECISION;
+  weighted_square_sum DOUBLE PRECISION;
+  posterior_mean DOUBLE PRECISION;
+  posterior_variance DOUBLE PRECISION;
+  margin DOUBLE PRECISION;
+BEGIN
+  SELECT SUM(weight), SUM(score * weight), SUM(score * score * weight)
+  INTO total_weight, weighted_sum, weighted_square_sum
+  FROM (
+    SELECT
+      score::DOUBLE PRECISION as score,
+      POWER(0.5, GREATEST(EXTRACT(EPOCH FROM (NOW() - timestamp)), 0) / half_life_seconds) as weight
+    FROM ratings
+    WHERE location_id = location_uuid
+      AND ingredient = ingredient_name
+    ORDER BY timestamp DESC
+    LIMIT 50
+  ) recent_ratings;
+
+  IF total_weight IS NULL THEN
+    RETURN jsonb_build_object('score', 0, 'lower', 0, 'upper', 0, 'effective_sample_size', 0);
+  END IF;
+
+  SELECT COALESCE(AVG(score), 3), GREATEST(COALESCE(STDDEV_SAMP(score), 1), 0.5)
+  INTO prior_mean, prior_stddev
+  FROM ratings
+  WHERE ingredient = ingredient_name
+    AND timestamp > NOW() - INTERVAL '30 days';
+
+  posterior_mean := (prior_weight * prior_mean + weighted_sum) / (prior_weight + total_weight);
+  -- Spread of the ratings around the score, with the chain-wide spread as its prior
+  posterior_variance := (
+    prior_weight * prior_stddev * prior_stddev
+    + weighted_square_sum - 2 * posterior_mean * weighted_sum + posterior_mean * posterior_mean * total_weight
+  ) / (prior_weight + total_weight);
+  margin := interval_z * SQRT(GREATEST(posterior_variance, 0) / (prior_weight + total_weight));
+
+  RETURN jsonb_build_object(
+    'score', ROUND(posterior_mean::NUMERIC, 2),
+    'lower', ROUND(GREATEST(posterior_mean - margin, 1)::NUMERIC, 2),
+    'upper', ROUND(LEAST(posterior_mean + margin, 5)::NUMERIC, 2),
+    'effective_sample_size', ROUND(total_weight::NUMERIC, 1)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION calculate_ingredient_score(location_uuid UUID, ingredient_name VARCHAR)
+RETURNS DECIMAL(3,2) AS $$
+BEGIN
+  RETURN (calculate_score_estimate(location_uuid, ingredient_name)->>'score')::DECIMAL(3,2);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scores move to the new model; start each location's history from its new score
+SELECT record_score_snapshot(id) FROM locations;
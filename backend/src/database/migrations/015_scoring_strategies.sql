@@ -0,0 +1,177 @@
+-- Scoring strategies. Each score_estimate_<strategy> function scores one ingredient at a
+-- location from the ratings up to as_of, so a backtest can replay history with the same
+-- code that scores locations live. calculate_score_estimate uses the strategy stored in
+-- app_settings, which the scoring recompute command sets.
+CREATE TABLE IF NOT EXISTS app_settings (
+  key VARCHAR(50) PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO app_settings (key, value)
+VALUES ('scoring_strategy', 'bayesian')
+ON CONFLICT (key) DO NOTHING;
+
+-- Estimate for strategies without a credible interval: lower and upper equal the score
+CREATE OR REPLACE FUNCTION point_score_estimate(score DOUBLE PRECISION, rating_count BIGINT)
+RETURNS JSONB AS $$
+  SELECT CASE
+    WHEN score IS NULL THEN jsonb_build_object('score', 0, 'lower', 0, 'upper', 0, 'effective_sample_size', 0)
+    ELSE jsonb_build_object(
+      'score', ROUND(score::NUMERIC, 2),
+      'lower', ROUND(score::NUMERIC, 2),
+      'upper', ROUND(score::NUMERIC, 2),
+      'effective_sample_size', rating_count
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Bayesian average of time-decayed ratings shrunk toward the chain-wide mean (migration 014)
+CREATE OR REPLACE FUNCTION score_estimate_bayesian(location_uuid UUID, ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS JSONB AS $$
+DECLARE
+  -- The chain-wide mean counts as this many fresh ratings
+  prior_weight CONSTANT DOUBLE PRECISION := 2;
+  half_life_seconds CONSTANT DOUBLE PRECISION := 3 * 86400;
+  -- z for an 80% interval
+  interval_z CONSTANT DOUBLE PRECISION := 1.28;
+  prior_mean DOUBLE PRECISION;
+  prior_stddev DOUBLE PRECISION;
+  total_weight DOUBLE PRECISION;
+  weighted_sum DOUBLE PRECISION;
+  weighted_square_sum DOUBLE PRECISION;
+  posterior_mean DOUBLE PRECISION;
+  posterior_variance DOUBLE PRECISION;
+  margin DOUBLE PRECISION;
+BEGIN
+  SELECT SUM(weight), SUM(score * weight), SUM(score * score * weight)
+  INTO total_weight, weighted_sum, weighted_square_sum
+  FROM (
+    SELECT
+      score::DOUBLE PRECISION as score,
+      POWER(0.5, GREATEST(EXTRACT(EPOCH FROM (as_of - timestamp)), 0) / half_life_seconds) as weight
+    FROM ratings
+    WHERE location_id = location_uuid
+      AND ingredient = ingredient_name
+      AND timestamp <= as_of
+    ORDER BY timestamp DESC
+    LIMIT 50
+  ) recent_ratings;
+
+  IF total_weight IS NULL THEN
+    RETURN point_score_estimate(NULL, 0);
+  END IF;
+
+  SELECT COALESCE(AVG(score), 3), GREATEST(COALESCE(STDDEV_SAMP(score), 1), 0.5)
+  INTO prior_mean, prior_stddev
+  FROM ratings
+  WHERE ingredient = ingredient_name
+    AND timestamp > as_of - INTERVAL '30 days'
+    AND timestamp <= as_of;
+
+  posterior_mean := (prior_weight * prior_mean + weighted_sum) / (prior_weight + total_weight);
+  -- Spread of the ratings around the score, with the chain-wide spread as its prior
+  posterior_variance := (
+    prior_weight * prior_stddev * prior_stddev
+    + weighted_square_sum - 2 * posterior_mean * weighted_sum + posterior_mean * posterior_mean * total_weight
+  ) / (prior_weight + total_weight);
+  margin := interval_z * SQRT(GREATEST(posterior_variance, 0) / (prior_weight + total_weight));
+
+  RETURN jsonb_build_object(
+    'score', ROUND(posterior_mean::NUMERIC, 2),
+    'lower', ROUND(GREATEST(posterior_mean - margin, 1)::NUMERIC, 2),
+    'upper', ROUND(LEAST(posterior_mean + margin, 5)::NUMERIC, 2),
+    'effective_sample_size', ROUND(total_weight::NUMERIC, 1)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Last 10 ratings, each one older weighted 0.9x as much (the original calculateWeightedScore)
+CREATE OR REPLACE FUNCTION score_estimate_recency_decay(location_uuid UUID, ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS JSONB AS $$
+  SELECT point_score_estimate(SUM(score * weight) / SUM(weight), COUNT(*))
+  FROM (
+    SELECT
+      score,
+      POWER(0.9, ROW_NUMBER() OVER (ORDER BY timestamp DESC) - 1) as weight
+    FROM ratings
+    WHERE location_id = location_uuid
+      AND ingredient = ingredient_name
+      AND timestamp <= as_of
+    ORDER BY timestamp DESC
+    LIMIT 10
+  ) recent_ratings;
+$$ LANGUAGE sql STABLE;
+
+-- Recency decay with each rating's weight also halved every 24 hours after its first hour
+-- (the original calculateAdvancedWeightedScore)
+CREATE OR REPLACE FUNCTION score_estimate_time_decay(location_uuid UUID, ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS JSONB AS $$
+  SELECT point_score_estimate(SUM(score * weight) / SUM(weight), COUNT(*))
+  FROM (
+    SELECT
+      score,
+      POWER(0.9, ROW_NUMBER() OVER (ORDER BY timestamp DESC) - 1) * (
+        CASE
+          WHEN as_of - timestamp <= INTERVAL '1 hour' THEN 1
+          ELSE POWER(0.5, EXTRACT(EPOCH FROM (as_of - timestamp)) / 86400.0)
+        END
+      ) as weight
+    FROM ratings
+    WHERE location_id = location_uuid
+      AND ingredient = ingredient_name
+      AND timestamp <= as_of
+    ORDER BY timestamp DESC
+    LIMIT 10
+  ) recent_ratings;
+$$ LANGUAGE sql STABLE;
+
+-- Last 10 ratings weighted 10 down to 1 by position, scaled up by age
+-- (the original calculate_lettuce_score_optimized behind hot locations)
+CREATE OR REPLACE FUNCTION score_estimate_hot_locations(location_uuid UUID, ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS JSONB AS $$
+  SELECT point_score_estimate(SUM(score * weight) / SUM(weight), COUNT(*))
+  FROM (
+    SELECT
+      score,
+      (11 - ROW_NUMBER() OVER (ORDER BY timestamp DESC))
+        * (1 + EXTRACT(EPOCH FROM (as_of - timestamp)) / 86400.0 * 0.1) as weight
+    FROM ratings
+    WHERE location_id = location_uuid
+      AND ingredient = ingredient_name
+      AND timestamp <= as_of
+    ORDER BY timestamp DESC
+    LIMIT 10
+  ) recent_ratings;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION calculate_strategy_score_estimate(
+  strategy_name VARCHAR,
+  location_uuid UUID,
+  ingredient_name VARCHAR,
+  as_of TIMESTAMPTZ
+)
+RETURNS JSONB AS $$
+BEGIN
+  CASE strategy_name
+    WHEN 'bayesian' THEN RETURN score_estimate_bayesian(location_uuid, ingredient_name, as_of);
+    WHEN 'recency_decay' THEN RETURN score_estimate_recency_decay(location_uuid, ingredient_name, as_of);
+    WHEN 'time_decay' THEN RETURN score_estimate_time_decay(location_uuid, ingredient_name, as_of);
+    WHEN 'hot_locations' THEN RETURN score_estimate_hot_locations(location_uuid, ingredient_name, as_of);
+    ELSE RAISE EXCEPTION 'Unknown scoring strategy: %', strategy_name;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Every ingredient score comes from the active strategy
+CREATE OR REPLACE FUNCTION calculate_score_estimate(location_uuid UUID, ingredient_name VARCHAR)
+RETURNS JSONB AS $$
+BEGIN
+  RETURN calculate_strategy_score_estimate(
+    COALESCE((SELECT value FROM app_settings WHERE key = 'scoring_strategy'), 'bayesian'),
+    location_uuid,
+    ingredient_name,
+    NOW()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,140 @@
+-- The weight each rating gets under a scoring strategy, split into a recency weight from
+-- its position among the latest ratings and a time weight from its age at as_of. Every
+-- strategy scores from these rows, so the score explanation shows exactly the weights
+-- behind a score. Newest rating first.
+CREATE OR REPLACE FUNCTION score_contributions(
+  strategy_name VARCHAR,
+  location_uuid UUID,
+  ingredient_name VARCHAR,
+  as_of TIMESTAMPTZ
+)
+RETURNS TABLE (
+  rating_id UUID,
+  rated_at TIMESTAMP WITH TIME ZONE,
+  score INTEGER,
+  recency_weight DOUBLE PRECISION,
+  time_weight DOUBLE PRECISION
+) AS $$
+  SELECT
+    recent_ratings.id as rating_id,
+    recent_ratings.timestamp as rated_at,
+    recent_ratings.score,
+    (CASE strategy_name
+      WHEN 'recency_decay' THEN POWER(0.9, rating_position - 1)
+      WHEN 'time_decay' THEN POWER(0.9, rating_position - 1)
+      WHEN 'hot_locations' THEN 11 - rating_position
+      ELSE 1
+    END)::DOUBLE PRECISION as recency_weight,
+    (CASE strategy_name
+      WHEN 'bayesian' THEN POWER(0.5, GREATEST(age_seconds, 0) / (3 * 86400))
+      WHEN 'time_decay' THEN CASE WHEN age_seconds <= 3600 THEN 1 ELSE POWER(0.5, age_seconds / 86400) END
+      WHEN 'hot_locations' THEN 1 + age_seconds / 86400 * 0.1
+      ELSE 1
+    END)::DOUBLE PRECISION as time_weight
+  FROM (
+    SELECT
+      id,
+      timestamp,
+      ratings.score,
+      ROW_NUMBER() OVER (ORDER BY timestamp DESC) as rating_position,
+      EXTRACT(EPOCH FROM (as_of - timestamp))::DOUBLE PRECISION as age_seconds
+    FROM ratings
+    WHERE location_id = location_uuid
+      AND ingredient = ingredient_name
+      AND timestamp <= as_of
+    ORDER BY timestamp DESC
+    LIMIT CASE WHEN strategy_name = 'bayesian' THEN 50 ELSE 10 END
+  ) recent_ratings
+  ORDER BY recent_ratings.timestamp DESC;
+$$ LANGUAGE sql STABLE;
+
+-- The chain-wide mean of an ingredient's last 30 days of ratings that Bayesian scores
+-- start from, its spread, and how many fresh ratings it counts as
+CREATE OR REPLACE FUNCTION score_prior(ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS TABLE (
+  prior_mean DOUBLE PRECISION,
+  prior_stddev DOUBLE PRECISION,
+  prior_weight DOUBLE PRECISION
+) AS $$
+  SELECT
+    COALESCE(AVG(score), 3)::DOUBLE PRECISION,
+    GREATEST(COALESCE(STDDEV_SAMP(score), 1), 0.5)::DOUBLE PRECISION,
+    2::DOUBLE PRECISION
+  FROM ratings
+  WHERE ingredient = ingredient_name
+    AND timestamp > as_of - INTERVAL '30 days'
+    AND timestamp <= as_of;
+$$ LANGUAGE sql STABLE;
+
+-- Weighted average of the contributions, for strategies without a credible interval
+CREATE OR REPLACE FUNCTION weighted_score_estimate(
+  strategy_name VARCHAR,
+  location_uuid UUID,
+  ingredient_name VARCHAR,
+  as_of TIMESTAMPTZ
+)
+RETURNS JSONB AS $$
+  SELECT point_score_estimate(
+    SUM(score * recency_weight * time_weight) / SUM(recency_weight * time_weight),
+    COUNT(*)
+  )
+  FROM score_contributions(strategy_name, location_uuid, ingredient_name, as_of);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION score_estimate_bayesian(location_uuid UUID, ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS JSONB AS $$
+DECLARE
+  -- z for an 80% interval
+  interval_z CONSTANT DOUBLE PRECISION := 1.28;
+  prior_row RECORD;
+  total_weight DOUBLE PRECISION;
+  weighted_sum DOUBLE PRECISION;
+  weighted_square_sum DOUBLE PRECISION;
+  posterior_mean DOUBLE PRECISION;
+  posterior_variance DOUBLE PRECISION;
+  margin DOUBLE PRECISION;
+BEGIN
+  SELECT
+    SUM(recency_weight * time_weight),
+    SUM(score * recency_weight * time_weight),
+    SUM(score * score * recency_weight * time_weight)
+  INTO total_weight, weighted_sum, weighted_square_sum
+  FROM score_contributions('bayesian', location_uuid, ingredient_name, as_of);
+
+  IF total_weight IS NULL THEN
+    RETURN point_score_estimate(NULL, 0);
+  END IF;
+
+  SELECT * INTO prior_row FROM score_prior(ingredient_name, as_of);
+
+  posterior_mean := (prior_row.prior_weight * prior_row.prior_mean + weighted_sum) / (prior_row.prior_weight + total_weight);
+  -- Spread of the ratings around the score, with the chain-wide spread as its prior
+  posterior_variance := (
+    prior_row.prior_weight * prior_row.prior_stddev * prior_row.prior_stddev
+    + weighted_square_sum - 2 * posterior_mean * weighted_sum + posterior_mean * posterior_mean * total_weight
+  ) / (prior_row.prior_weight + total_weight);
+  margin := interval_z * SQRT(GREATEST(posterior_variance, 0) / (prior_row.prior_weight + total_weight));
+
+  RETURN jsonb_build_object(
+    'score', ROUND(posterior_mean::NUMERIC, 2),
+    'lower', ROUND(GREATEST(posterior_mean - margin, 1)::NUMERIC, 2),
+    'upper', ROUND(LEAST(posterior_mean + margin, 5)::NUMERIC, 2),
+    'effective_sample_size', ROUND(total_weight::NUMERIC, 1)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION score_estimate_recency_decay(location_uuid UUID, ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS JSONB AS $$
+  SELECT weighted_score_estimate('recency_decay', location_uuid, ingredient_name, as_of);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION score_estimate_time_decay(location_uuid UUID, ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS JSONB AS $$
+  SELECT weighted_score_estimate('time_decay', location_uuid, ingredient_name, as_of);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION score_estimate_hot_locations(location_uuid UUID, ingredient_name VARCHAR, as_of TIMESTAMPTZ)
+RETURNS JSONB AS $$
+  SELECT weighted_score_estimate('hot_locations', location_uuid, ingredient_name, as_of);
+$$ LANGUAGE sql STABLE;
@@ -44,11 +44,35 @@ ON location_scores USING GIST (coordinates);
 CREATE INDEX IF NOT EXISTS idx_location_scores_lettuce_score 
 ON location_scores (lettuce_score DESC);
 
--- Optimized function for nearby locations using materialized view
+-- Nearby locations with filters applied in SQL. Scores and recency are calculated live
+-- rather than read from location_scores, which is only refreshed by a scoring recompute.
+-- open_now checks opening hours at open_at, or now when it is null.
+-- Rows are ordered by (sort_key, distance_meters, id), where sort_key depends on
+-- sort_order and always sorts ascending; pass the last row's values as
+-- after_sort_key/after_distance/after_id to fetch the next page (keyset pagination).
+DROP FUNCTION IF EXISTS get_nearby_locations_optimized(DOUBLE PRECISION, DOUBLE PRECISION, INTEGER);
+DROP FUNCTION IF EXISTS get_nearby_locations_optimized(
+  DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, INTEGER, DOUBLE PRECISION, UUID
+);
+DROP FUNCTION IF EXISTS get_nearby_locations_optimized(
+  DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, UUID,
+  DOUBLE PRECISION, BOOLEAN, BOOLEAN, INTEGER, TEXT
+);
+
 CREATE OR REPLACE FUNCTION get_nearby_locations_optimized(
   user_lat DOUBLE PRECISION,
   user_lng DOUBLE PRECISION,
-  radius_meters INTEGER DEFAULT 5000
+  radius_meters INTEGER DEFAULT 5000,
+  page_size INTEGER DEFAULT NULL,
+  after_sort_key DOUBLE PRECISION DEFAULT NULL,
+  after_distance DOUBLE PRECISION DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  min_score DOUBLE PRECISION DEFAULT NULL,
+  open_now BOOLEAN DEFAULT FALSE,
+  recently_rated_only BOOLEAN DEFAULT FALSE,
+  min_ratings INTEGER DEFAULT NULL,
+  sort_order TEXT DEFAULT 'distance', -- distance | score | recency | blended
+  open_at TIMESTAMPTZ DEFAULT NULL
 )
 RETURNS TABLE (
   id UUID,
@@ -58,35 +82,74 @@ RETURNS TABLE (
   lng DOUBLE PRECISION,
   hours JSONB,
   lettuce_score DOUBLE PRECISION,
-  last_rated TIMESTAMP,
+  last_rated TIMESTAMP WITH TIME ZONE,
   recently_rated BOOLEAN,
-  distance_meters DOUBLE PRECISION
+  distance_meters DOUBLE PRECISION,
+  sort_key DOUBLE PRECISION
 ) AS $$
 BEGIN
   RETURN QUERY
-  SELECT 
-    ls.id,
-    ls.name,
-    ls.address,
-    ST_Y(ls.coordinates::geometry) as lat,
-    ST_X(ls.coordinates::geometry) as lng,
-    ls.hours,
-    ls.lettuce_score,
-    ls.last_rated,
-    ls.recently_rated,
-    ST_Distance(
-      ls.coordinates::geography,
-      ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
-    ) as distance_meters
-  FROM location_scores ls
-  WHERE ST_DWithin(
-    ls.coordinates::geography,
-    ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
-    radius_meters
-  )
-  ORDER BY 
-    ls.coordinates::geography <-> ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
-    ls.lettuce_score DESC;
+  SELECT *
+  FROM (
+    SELECT
+      candidates.*,
+      (CASE sort_order
+        WHEN 'score' THEN -candidates.lettuce_score
+        WHEN 'recency' THEN -COALESCE(EXTRACT(EPOCH FROM candidates.last_rated), 0)
+        -- 70% lettuce score, 30% proximity within the search radius
+        WHEN 'blended' THEN -(0.7 * candidates.lettuce_score / 5 + 0.3 * (1 - candidates.distance_meters / radius_meters))
+        ELSE candidates.distance_meters
+      END)::DOUBLE PRECISION as sort_key
+    FROM (
+      SELECT
+        l.id,
+        l.name,
+        l.address,
+        ST_Y(l.coordinates::geometry) as lat,
+        ST_X(l.coordinates::geometry) as lng,
+        l.hours,
+        COALESCE(calculate_lettuce_score(l.id), 0)::DOUBLE PRECISION as lettuce_score,
+        (
+          SELECT MAX(r.timestamp)
+          FROM ratings r
+          WHERE r.location_id = l.id
+          AND r.ingredient = 'lettuce'
+        ) as last_rated,
+        EXISTS (
+          SELECT 1
+          FROM ratings r
+          WHERE r.location_id = l.id
+          AND r.ingredient = 'lettuce'
+          AND r.timestamp > NOW() - INTERVAL '2 hours'
+        ) as recently_rated,
+        ST_Distance(
+          l.coordinates::geography,
+          ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
+        ) as distance_meters
+      FROM locations l
+      WHERE ST_DWithin(
+        l.coordinates::geography,
+        ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+        radius_meters
+      )
+      AND (NOT open_now OR is_location_open(l.id, l.hours, COALESCE(open_at, NOW())))
+      AND (
+        min_ratings IS NULL
+        OR (
+          SELECT COUNT(*)
+          FROM ratings r
+          WHERE r.location_id = l.id
+          AND r.ingredient = 'lettuce'
+        ) >= min_ratings
+      )
+    ) candidates
+    WHERE (min_score IS NULL OR candidates.lettuce_score >= min_score)
+      AND (NOT recently_rated_only OR candidates.recently_rated)
+  ) nearby
+  WHERE after_sort_key IS NULL
+    OR (nearby.sort_key, nearby.distance_meters, nearby.id) > (after_sort_key, after_distance, after_id)
+  ORDER BY nearby.sort_key, nearby.distance_meters, nearby.id
+  LIMIT page_size;
 END;
 $$ LANGUAGE plpgsql STABLE;
 
@@ -98,41 +161,11 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
--- Optimized function for calculating weighted scores with caching
+-- Kept for the hot locations view; scores come from the same model as calculate_lettuce_score
 CREATE OR REPLACE FUNCTION calculate_lettuce_score_optimized(location_uuid UUID)
 RETURNS DOUBLE PRECISION AS $$
-DECLARE
-  weighted_score DOUBLE PRECISION := 0;
-  rating_record RECORD;
-  weight_factor DOUBLE PRECISION;
-  total_weight DOUBLE PRECISION := 0;
-  rating_count INTEGER := 0;
 BEGIN
-  -- Get the last 10 ratings for this location, ordered by timestamp DESC
-  FOR rating_record IN
-    SELECT score, timestamp
-    FROM ratings
-    WHERE location_id = location_uuid
-    ORDER BY timestamp DESC
-    LIMIT 10
-  LOOP
-    rating_count := rating_count + 1;
-    
-    -- Calculate weight based on recency and position
-    -- More recent ratings get higher weight, and earlier ratings in the top 10 get higher weight
-    weight_factor := (11 - rating_count) * 
-                    (1 + EXTRACT(EPOCH FROM (NOW() - rating_record.timestamp)) / 86400.0 * 0.1);
-    
-    weighted_score := weighted_score + (rating_record.score * weight_factor);
-    total_weight := total_weight + weight_factor;
-  END LOOP;
-  
-  -- Return weighted average, or 0 if no ratings
-  IF total_weight > 0 THEN
-    RETURN weighted_score / total_weight;
-  ELSE
-    RETURN 0;
-  END IF;
+  RETURN calculate_lettuce_score(location_uuid);
 END;
 $$ LANGUAGE plpgsql STABLE;
 
@@ -238,7 +271,11 @@ ON ratings (location_id, EXTRACT(HOUR FROM timestamp), score)
 WHERE timestamp > NOW() - INTERVAL '90 days';
 
 -- Create materialized view for hot locations (frequently accessed)
-CREATE MATERIALIZED VIEW IF NOT EXISTS hot_locations AS
+-- Recreated (rather than IF NOT EXISTS) so rating velocity columns are picked up.
+-- Counts, averages and velocity cover lettuce ratings only.
+DROP MATERIALIZED VIEW IF EXISTS hot_locations;
+
+CREATE MATERIALIZED VIEW hot_locations AS
 SELECT 
   l.id,
   l.name,
@@ -246,24 +283,31 @@ SELECT
   l.coordinates,
   l.hours,
   COUNT(r.id) as rating_count,
+  COUNT(CASE WHEN r.timestamp > NOW() - INTERVAL '24 hours' THEN 1 END) as ratings_last_24h,
   AVG(r.score) as avg_score,
   calculate_lettuce_score_optimized(l.id) as lettuce_score,
   MAX(r.timestamp) as last_rated,
   COUNT(CASE WHEN r.timestamp > NOW() - INTERVAL '2 hours' THEN 1 END) > 0 as recently_rated
 FROM locations l
-LEFT JOIN ratings r ON l.id = r.location_id
+LEFT JOIN ratings r ON l.id = r.location_id AND r.ingredient = 'lettuce'
 WHERE r.timestamp > NOW() - INTERVAL '7 days' OR r.timestamp IS NULL
 GROUP BY l.id, l.name, l.address, l.coordinates, l.hours
 HAVING COUNT(r.id) >= 3 OR COUNT(r.id) = 0;
 
--- Index for hot locations
+-- Index for hot locations (unique index is required by REFRESH ... CONCURRENTLY)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hot_locations_id 
+ON hot_locations (id);
+
 CREATE INDEX IF NOT EXISTS idx_hot_locations_coordinates 
 ON hot_locations USING GIST (coordinates);
 
 CREATE INDEX IF NOT EXISTS idx_hot_locations_score 
 ON hot_locations (lettuce_score DESC, rating_count DESC);
 
--- Ultra-fast nearby search for hot locations
+-- Ultra-fast nearby search for hot locations, busiest first.
+-- rating_velocity is ratings per hour over the last 24 hours.
+DROP FUNCTION IF EXISTS get_nearby_hot_locations(DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, INTEGER);
+
 CREATE OR REPLACE FUNCTION get_nearby_hot_locations(
   user_lat DOUBLE PRECISION,
   user_lng DOUBLE PRECISION,
@@ -278,10 +322,12 @@ RETURNS TABLE (
   lng DOUBLE PRECISION,
   hours JSONB,
   lettuce_score DOUBLE PRECISION,
-  last_rated TIMESTAMP,
+  last_rated TIMESTAMP WITH TIME ZONE,
   recently_rated BOOLEAN,
   distance_meters DOUBLE PRECISION,
-  rating_count BIGINT
+  rating_count BIGINT,
+  ratings_last_24h BIGINT,
+  rating_velocity DOUBLE PRECISION
 ) AS $$
 BEGIN
   RETURN QUERY
@@ -299,16 +345,21 @@ BEGIN
       hl.coordinates::geography,
       ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
     ) as distance_meters,
-    hl.rating_count
+    hl.rating_count,
+    hl.ratings_last_24h,
+    hl.ratings_last_24h / 24.0::DOUBLE PRECISION as rating_velocity
   FROM hot_locations hl
   WHERE ST_DWithin(
     hl.coordinates::geography,
     ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
     radius_meters
   )
+  AND hl.rating_count > 0
   ORDER BY 
-    hl.coordinates::geography <-> ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
-    hl.lettuce_score DESC
+    hl.ratings_last_24h DESC,
+    hl.rating_count DESC,
+    hl.lettuce_score DESC,
+    hl.coordinates::geography <-> ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography
   LIMIT limit_count;
 END;
 $$ LANGUAGE plpgsql STABLE;
@@ -330,7 +381,7 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql STABLE;
 
--- Optimized rating statistics function
+-- Optimized lettuce rating statistics function
 CREATE OR REPLACE FUNCTION get_location_rating_stats_batch(location_ids UUID[])
 RETURNS TABLE (
   location_id UUID,
@@ -347,7 +398,7 @@ BEGIN
   RETURN QUERY
   SELECT 
     r.location_id,
-    AVG(r.score) as avg_score,
+    AVG(r.score)::DOUBLE PRECISION as avg_score,
     COUNT(*) as total_ratings,
     COUNT(CASE WHEN r.timestamp > NOW() - INTERVAL '24 hours' THEN 1 END) as recent_ratings,
     COUNT(CASE WHEN r.score = 1 THEN 1 END) as score_1_count,
@@ -357,6 +408,7 @@ BEGIN
     COUNT(CASE WHEN r.score = 5 THEN 1 END) as score_5_count
   FROM ratings r
   WHERE r.location_id = ANY(location_ids)
+    AND r.ingredient = 'lettuce'
   GROUP BY r.location_id;
 END;
 $$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import express from 'express';
+import { ApiError, AuthUser } from '../types';
+import { verifyDeviceToken } from '../utils/deviceTokens';
+import { getJwtSecret, verifyAccessToken } from '../utils/sessionTokens';
+
+declare global {
+  namespace Express {
+    interface Request {
+      deviceId?: string; // set by identifyDevice from a valid X-Device-Token
+      user?: AuthUser; // set by authenticate from a valid access token
+    }
+  }
+}
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export const getBearerToken = (req: express.Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = header.slice('Bearer '.length).trim();
+  return token.length > 0 ? token : null;
+};
+
+/**
+ * Compare two secrets without leaking timing information
+ */
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Require the admin API key (ADMIN_API_KEY) as a bearer token
+ */
+export const requireAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    const error: ApiError = {
+      error: 'Admin API disabled',
+      message: 'ADMIN_API_KEY is not configured on the server'
+    };
+    return res.status(503).json(error);
+  }
+
+  const token = getBearerToken(req);
+
+  if (!token || !safeEqual(token, adminKey)) {
+    const error: ApiError = {
+      error: 'Unauthorized',
+      message: 'A valid admin API key is required'
+    };
+    return res.status(401).json(error);
+  }
+
+  return next();
+};
+
+/**
+ * Attach the anonymous device identity from the X-Device-Token header, if any.
+ * Requests without the header carry on anonymously; a forged or stale token is rejected.
+ */
+export const identifyDevice = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const token = req.header('X-Device-Token');
+
+  if (!token) {
+    return next();
+  }
+
+  const deviceId = verifyDeviceToken(token);
+
+  if (!deviceId) {
+    const error: ApiError = {
+      error: 'Invalid device token',
+      message: 'The device token is not valid; request a new one from /api/devices',
+      code: 'INVALID_DEVICE_TOKEN'
+    };
+    return res.status(401).json(error);
+  }
+
+  req.deviceId = deviceId;
+  return next();
+};
+
+/**
+ * Resolve the signed-in user from an access token, or send the matching error
+ */
+const resolveUser = (
+  token: string,
+  res: express.Response
+): AuthUser | null => {
+  const secret = getJwtSecret();
+
+  if (!secret) {
+    const error: ApiError = {
+      error: 'Accounts disabled',
+      message: 'JWT_SECRET is not configured on the server'
+    };
+    res.status(503).json(error);
+    return null;
+  }
+
+  const user = verifyAccessToken(token, secret);
+
+  if (!user) {
+    const error: ApiError = {
+      error: 'Unauthorized',
+      message: 'The access token is invalid or has expired',
+      code: 'INVALID_ACCESS_TOKEN'
+    };
+    res.status(401).json(error);
+    return null;
+  }
+
+  return user;
+};
+
+/**
+ * Require a signed-in user (Authorization: Bearer <accessToken>) and set req.user
+ */
+export const authenticate = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const token = getBearerToken(req);
+
+  if (!token) {
+    const error: ApiError = {
+      error: 'Unauthorized',
+      message: 'Sign in to access this resource'
+    };
+    return res.status(401).json(error);
+  }
+
+  const user = resolveUser(token, res);
+  if (!user) {
+    return;
+  }
+
+  req.user = user;
+  return next();
+};
+
+/**
+ * Like authenticate, but lets requests without a bearer token through anonymously
+ */
+export const optionalAuthenticate = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const token = getBearerToken(req);
+
+  if (!token) {
+    return next();
+  }
+
+  const user = resolveUser(token, res);
+  if (!user) {
+    return;
+  }
+
+  req.user = user;
+  return next();
+};
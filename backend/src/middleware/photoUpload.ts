@@ -0,0 +1,67 @@
+import express from 'express';
+import multer from 'multer';
+import { ApiError } from '../types';
+import { getPhotoMaxBytes, PHOTO_ALLOWED_TYPES } from '../utils/photoProcessing';
+
+/**
+ * Accept a single image in the multipart `photo` field, held in memory as req.file.
+ * Oversized uploads are rejected with 413 and other content types with 415,
+ * before anything is written to disk.
+ */
+export const photoUpload = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: getPhotoMaxBytes(), files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (PHOTO_ALLOWED_TYPES.includes(file.mimetype)) {
+        callback(null, true);
+      } else {
+        callback(new UnsupportedPhotoTypeError(file.mimetype));
+      }
+    }
+  }).single('photo');
+
+  upload(req, res, (err: unknown) => {
+    if (!err) {
+      return next();
+    }
+
+    if (err instanceof UnsupportedPhotoTypeError) {
+      const error: ApiError = {
+        error: 'Unsupported photo type',
+        message: `Photos must be one of: ${PHOTO_ALLOWED_TYPES.join(', ')}`,
+        details: { contentType: err.contentType }
+      };
+      return res.status(415).json(error);
+    }
+
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      const maxBytes = getPhotoMaxBytes();
+      const error: ApiError = {
+        error: 'Photo too large',
+        message: `Photos must be at most ${(maxBytes / (1024 * 1024)).toFixed(1)} MB`,
+        details: { maxBytes }
+      };
+      return res.status(413).json(error);
+    }
+
+    if (err instanceof multer.MulterError) {
+      const error: ApiError = {
+        error: 'Invalid upload',
+        message: 'Send a single image in the "photo" field'
+      };
+      return res.status(400).json(error);
+    }
+
+    return next(err);
+  });
+};
+
+/**
+ * Raised by the upload filter for a content type outside PHOTO_ALLOWED_TYPES
+ */
+class UnsupportedPhotoTypeError extends Error {
+  constructor(public contentType: string) {
+    super(`Unsupported photo type: ${contentType}`);
+  }
+}
@@ -0,0 +1,130 @@
+import pool from '../database/connection';
+import { CreateHoursExceptionRequest, HoursException, HoursExceptionRow } from '../types';
+
+// Dates come back as YYYY-MM-DD strings; pg would otherwise turn DATE into a local-midnight Date
+const EXCEPTION_COLUMNS = `
+  id,
+  location_id,
+  to_char(start_date, 'YYYY-MM-DD') as start_date,
+  to_char(end_date, 'YYYY-MM-DD') as end_date,
+  closed,
+  open_time,
+  close_time,
+  reason,
+  created_at
+`;
+
+export class HoursExceptionRepository {
+
+  /**
+   * Add holiday or special hours for a location
+   */
+  async createException(locationId: string, exception: CreateHoursExceptionRequest): Promise<HoursException> {
+    const query = `
+      INSERT INTO location_hours_exceptions (location_id, start_date, end_date, closed, open_time, close_time, reason)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING ${EXCEPTION_COLUMNS}
+    `;
+
+    try {
+      const closed = exception.closed ?? false;
+      const result = await pool.query(query, [
+        locationId,
+        exception.startDate,
+        exception.endDate,
+        closed,
+        closed ? null : exception.open,
+        closed ? null : exception.close,
+        exception.reason
+      ]);
+      return this.mapException(result.rows[0]);
+    } catch (error) {
+      console.error('Error creating hours exception:', error);
+      throw new Error('Failed to create hours exception');
+    }
+  }
+
+  /**
+   * Get a location's exceptions ending on or after fromDate (all of them without one), earliest first
+   */
+  async getExceptionsByLocation(locationId: string, fromDate?: string): Promise<HoursException[]> {
+    const query = `
+      SELECT ${EXCEPTION_COLUMNS}
+      FROM location_hours_exceptions
+      WHERE location_id = $1
+        AND ($2::date IS NULL OR end_date >= $2::date)
+      ORDER BY start_date, created_at
+    `;
+
+    try {
+      const result = await pool.query(query, [locationId, fromDate ?? null]);
+      return result.rows.map(row => this.mapException(row));
+    } catch (error) {
+      console.error('Error fetching hours exceptions:', error);
+      throw new Error('Failed to fetch hours exceptions');
+    }
+  }
+
+  /**
+   * Get exceptions ending on or after fromDate for several locations at once, keyed by location ID.
+   * Locations without exceptions are left out of the map.
+   */
+  async getExceptionsForLocations(locationIds: string[], fromDate: string): Promise<Map<string, HoursException[]>> {
+    const exceptions = new Map<string, HoursException[]>();
+    if (locationIds.length === 0) {
+      return exceptions;
+    }
+
+    const query = `
+      SELECT ${EXCEPTION_COLUMNS}
+      FROM location_hours_exceptions
+      WHERE location_id = ANY($1::uuid[])
+        AND end_date >= $2::date
+      ORDER BY start_date, created_at
+    `;
+
+    try {
+      const result = await pool.query(query, [locationIds, fromDate]);
+      for (const row of result.rows) {
+        const exception = this.mapException(row);
+        exceptions.set(exception.locationId, [...(exceptions.get(exception.locationId) ?? []), exception]);
+      }
+      return exceptions;
+    } catch (error) {
+      console.error('Error fetching hours exceptions for locations:', error);
+      throw new Error('Failed to fetch hours exceptions');
+    }
+  }
+
+  /**
+   * Delete one of a location's exceptions
+   */
+  async deleteException(locationId: string, exceptionId: string): Promise<boolean> {
+    const query = `DELETE FROM location_hours_exceptions WHERE id = $1 AND location_id = $2`;
+
+    try {
+      const result = await pool.query(query, [exceptionId, locationId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting hours exception:', error);
+      throw new Error('Failed to delete hours exception');
+    }
+  }
+
+  /**
+   * Map a database row to the public exception shape
+   */
+  private mapException(row: HoursExceptionRow): HoursException {
+    return {
+      id: row.id,
+      locationId: row.location_id,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      closed: row.closed,
+      open: row.open_time,
+      close: row.close_time,
+      reason: row.reason,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -1,29 +1,76 @@
 import pool from '../database/connection';
-import { SubwayLocation, SubwayLocationDetail, Coordinates } from '../types';
+import {
+  SubwayLocation,
+  SubwayLocationDetail,
+  Coordinates,
+  CreateLocationRequest,
+  HotLocation,
+  LocationBatchEntry,
+  LocationRatingStatsRow,
+  NearbyCursor,
+  NearbyFilters,
+  NearbyLocationsPage,
+  NearbySortOrder,
+  BoundingBox,
+  LocationSearchResult,
+  LocationSuggestion,
+  UpdateLocationRequest
+} from '../types';
 import { CacheService, CACHE_KEYS, CACHE_TTL } from '../cache/redisClient';
 import { PerformanceMonitor } from '../utils/performanceMonitor';
+import { normalizeStoreHours } from '../utils/validation';
+import { mapLettuceScore } from '../utils/scoreEstimate';
 
 export class LocationRepository {
   
   /**
-   * Get nearby Subway locations within specified radius
+   * Get every nearby Subway location within specified radius, closest first
    */
   async getNearbyLocations(
     userCoordinates: Coordinates, 
     radiusMeters: number = 5000
   ): Promise<SubwayLocation[]> {
+    const { locations } = await this.getNearbyLocationsPage(userCoordinates, radiusMeters);
+    return locations;
+  }
+
+  /**
+   * Get one page of nearby locations with filters and sort order applied in SQL.
+   * Omit limit to get every matching location in range (nextCursor is then null).
+   */
+  async getNearbyLocationsPage(
+    userCoordinates: Coordinates,
+    radiusMeters: number = 5000,
+    options: NearbyFilters & {
+      sort?: NearbySortOrder;
+      limit?: number;
+      after?: NearbyCursor | undefined;
+    } = {}
+  ): Promise<NearbyLocationsPage> {
+    const { sort = 'distance', limit, after, minScore, openNow, openAt, recentlyRatedOnly, minRatings } = options;
     const timerName = 'db_getNearbyLocations';
     PerformanceMonitor.startTimer(timerName, {
-      method: 'getNearbyLocations',
+      method: 'getNearbyLocationsPage',
       lat: userCoordinates.lat,
       lng: userCoordinates.lng,
-      radius: radiusMeters
+      radius: radiusMeters,
+      sort,
+      limit
     });
 
     try {
       // Check cache first
-      const cacheKey = CACHE_KEYS.NEARBY_LOCATIONS(userCoordinates.lat, userCoordinates.lng, radiusMeters);
-      const cachedData = await CacheService.get<SubwayLocation[]>(cacheKey);
+      const cacheKey = CACHE_KEYS.NEARBY_LOCATIONS(userCoordinates.lat, userCoordinates.lng, radiusMeters, {
+        sort,
+        minScore,
+        openNow,
+        openAt,
+        recentlyRatedOnly,
+        minRatings,
+        limit,
+        cursor: after ? `${after.sortKey}:${after.distance}:${after.id}` : undefined
+      });
+      const cachedData = await CacheService.get<NearbyLocationsPage>(cacheKey);
       
       if (cachedData) {
         PerformanceMonitor.endTimer(timerName);
@@ -31,16 +78,37 @@ export class LocationRepository {
       }
 
       const query = `
-        SELECT * FROM get_nearby_locations_optimized($1, $2, $3)
+        SELECT
+          n.*,
+          calculate_ingredient_scores(n.id) as ingredient_scores,
+          is_location_open(n.id, n.hours) as is_open,
+          get_score_trend(n.id) as score_trend,
+          calculate_score_estimate(n.id, 'lettuce') as score_estimate
+        FROM get_nearby_locations_optimized($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) n
       `;
       
+      // Fetch one extra row to know whether another page exists
       const result = await pool.query(query, [
         userCoordinates.lat,
         userCoordinates.lng,
-        radiusMeters
+        radiusMeters,
+        limit !== undefined ? limit + 1 : null,
+        after?.sortKey ?? null,
+        after?.distance ?? null,
+        after?.id ?? null,
+        minScore ?? null,
+        openNow ?? false,
+        recentlyRatedOnly ?? false,
+        minRatings ?? null,
+        sort,
+        openAt ?? null
       ]);
+
+      const hasMore = limit !== undefined && result.rows.length > limit;
+      const rows = hasMore ? result.rows.slice(0, limit) : result.rows;
+      const lastRow = rows[rows.length - 1];
       
-      const locations = result.rows.map(row => ({
+      const locations = rows.map(row => ({
         id: row.id,
         name: row.name,
         address: row.address,
@@ -49,17 +117,27 @@ export class LocationRepository {
           lng: parseFloat(row.lng)
         },
         hours: row.hours,
-        lettuceScore: parseFloat(row.lettuce_score) || 0,
+        ...mapLettuceScore(row),
+        ingredientScores: row.ingredient_scores ?? {},
         lastRated: row.last_rated,
         recentlyRated: row.recently_rated,
-        distanceFromUser: row.distance_meters
+        distanceFromUser: row.distance_meters,
+        isOpen: row.is_open,
+        scoreTrend: (row.score_trend ?? []).map((score: string) => parseFloat(score))
       }));
 
+      const page: NearbyLocationsPage = {
+        locations,
+        nextCursor: hasMore && lastRow
+          ? { sortKey: lastRow.sort_key, distance: lastRow.distance_meters, id: lastRow.id }
+          : null
+      };
+
       // Cache the results
-      await CacheService.set(cacheKey, locations, CACHE_TTL.NEARBY_LOCATIONS);
+      await CacheService.set(cacheKey, page, CACHE_TTL.NEARBY_LOCATIONS);
       
       PerformanceMonitor.endTimer(timerName);
-      return locations;
+      return page;
     } catch (error) {
       PerformanceMonitor.endTimer(timerName);
       console.error('Error fetching nearby locations:', error);
@@ -67,6 +145,86 @@ export class LocationRepository {
     }
   }
 
+  /**
+   * Get trending locations near the user from the hot_locations materialized view,
+   * busiest (most ratings in the last 24 hours) first
+   */
+  async getHotLocations(
+    userCoordinates: Coordinates,
+    radiusMeters: number = 5000,
+    limit: number = 10
+  ): Promise<HotLocation[]> {
+    const timerName = 'db_getHotLocations';
+    PerformanceMonitor.startTimer(timerName, {
+      method: 'getHotLocations',
+      lat: userCoordinates.lat,
+      lng: userCoordinates.lng,
+      radius: radiusMeters,
+      limit
+    });
+
+    try {
+      // Check cache first
+      const cacheKey = CACHE_KEYS.HOT_LOCATIONS(userCoordinates.lat, userCoordinates.lng, radiusMeters, limit);
+      const cachedData = await CacheService.get<HotLocation[]>(cacheKey);
+
+      if (cachedData) {
+        PerformanceMonitor.endTimer(timerName);
+        return cachedData;
+      }
+
+      const query = `
+        SELECT h.*, calculate_ingredient_scores(h.id) as ingredient_scores, is_location_open(h.id, h.hours) as is_open
+        FROM get_nearby_hot_locations($1, $2, $3, $4) h
+      `;
+
+      const result = await pool.query(query, [
+        userCoordinates.lat,
+        userCoordinates.lng,
+        radiusMeters,
+        limit
+      ]);
+
+      const locations: HotLocation[] = result.rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        address: row.address,
+        coordinates: {
+          lat: parseFloat(row.lat),
+          lng: parseFloat(row.lng)
+        },
+        hours: row.hours,
+        lettuceScore: parseFloat(row.lettuce_score) || 0,
+        ingredientScores: row.ingredient_scores ?? {},
+        lastRated: row.last_rated,
+        recentlyRated: row.recently_rated,
+        distanceFromUser: row.distance_meters,
+        isOpen: row.is_open,
+        ratingCount: parseInt(row.rating_count) || 0,
+        recentRatingCount: parseInt(row.ratings_last_24h) || 0,
+        ratingVelocity: parseFloat(row.rating_velocity) || 0
+      }));
+
+      // Cache the results
+      await CacheService.set(cacheKey, locations, CACHE_TTL.HOT_LOCATIONS);
+
+      PerformanceMonitor.endTimer(timerName);
+      return locations;
+    } catch (error) {
+      PerformanceMonitor.endTimer(timerName);
+      console.error('Error fetching hot locations:', error);
+      throw new Error('Failed to fetch hot locations');
+    }
+  }
+
+  /**
+   * Refresh the hot_locations materialized view and drop cached hot results
+   */
+  async refreshHotLocations(): Promise<void> {
+    await pool.query('SELECT refresh_hot_locations()');
+    await CacheService.delPattern('hot:*');
+  }
+
   /**
    * Get detailed information for a specific location
    */
@@ -96,15 +254,20 @@ export class LocationRepository {
           ST_X(l.coordinates::geometry) as lng,
           l.hours,
           calculate_lettuce_score(l.id) as lettuce_score,
+          calculate_score_estimate(l.id, 'lettuce') as score_estimate,
+          calculate_ingredient_scores(l.id) as ingredient_scores,
+          is_location_open(l.id, l.hours) as is_open,
           (
             SELECT MAX(timestamp) 
             FROM ratings r 
             WHERE r.location_id = l.id
+            AND r.ingredient = 'lettuce'
           ) as last_rated,
           (
             SELECT COUNT(*) > 0
             FROM ratings r 
             WHERE r.location_id = l.id 
+            AND r.ingredient = 'lettuce'
             AND r.timestamp > NOW() - INTERVAL '2 hours'
           ) as recently_rated
         FROM locations l
@@ -112,7 +275,7 @@ export class LocationRepository {
       `;
 
       const ratingsQuery = `
-        SELECT id, score, timestamp, user_id
+        SELECT id, location_id, score, timestamp, user_id, ingredient, tags, comment
         FROM ratings
         WHERE location_id = $1
         ORDER BY timestamp DESC
@@ -136,6 +299,7 @@ export class LocationRepository {
           END as confidence
         FROM ratings
         WHERE location_id = $1
+        AND ingredient = 'lettuce'
         AND timestamp > NOW() - INTERVAL '30 days'
         GROUP BY 
           CASE 
@@ -159,6 +323,8 @@ export class LocationRepository {
       }
 
       const locationRow = locationResult.rows[0];
+      // The stats describe lettuce; the ratings list keeps every ingredient
+      const lettuceRatings = ratingsResult.rows.filter(r => r.ingredient === 'lettuce');
       
       const locationDetail = {
         id: locationRow.id,
@@ -169,15 +335,20 @@ export class LocationRepository {
           lng: parseFloat(locationRow.lng)
         },
         hours: locationRow.hours,
-        lettuceScore: parseFloat(locationRow.lettuce_score) || 0,
+        ...mapLettuceScore(locationRow),
+        ingredientScores: locationRow.ingredient_scores ?? {},
         lastRated: locationRow.last_rated,
         recentlyRated: locationRow.recently_rated,
+        isOpen: locationRow.is_open,
         ratings: ratingsResult.rows.map(row => ({
           id: row.id,
           locationId: row.location_id,
           score: row.score,
           timestamp: row.timestamp,
-          userId: row.user_id
+          userId: row.user_id,
+          ingredient: row.ingredient,
+          tags: row.tags,
+          comment: row.comment
         })),
         timeRecommendations: timeRecommendationsResult.rows.map(row => ({
           period: row.period as 'morning' | 'lunch' | 'afternoon' | 'evening',
@@ -186,9 +357,9 @@ export class LocationRepository {
           sampleSize: parseInt(row.sample_size),
           timeRange: this.getTimeRangeForPeriod(row.period)
         })),
-        totalRatings: ratingsResult.rows.length,
-        averageScore: ratingsResult.rows.length > 0 
-          ? ratingsResult.rows.reduce((sum, r) => sum + r.score, 0) / ratingsResult.rows.length 
+        totalRatings: lettuceRatings.length,
+        averageScore: lettuceRatings.length > 0 
+          ? lettuceRatings.reduce((sum, r) => sum + r.score, 0) / lettuceRatings.length 
           : 0
       };
 
@@ -205,9 +376,397 @@ export class LocationRepository {
   }
 
   /**
-   * Create a new Subway location
+   * Get scores and rating stats for many locations at once.
+   * Each location is cached separately, so only uncached ids hit the database.
+   * Results follow the order of locationIds; unknown ids are left out.
+   */
+  async getLocationsBatch(locationIds: string[]): Promise<LocationBatchEntry[]> {
+    const timerName = 'db_getLocationsBatch';
+    PerformanceMonitor.startTimer(timerName, {
+      method: 'getLocationsBatch',
+      count: locationIds.length
+    });
+
+    try {
+      const ids = [...new Set(locationIds)];
+      const cachedData = await CacheService.getMultiple<LocationBatchEntry>(
+        ids.map(id => CACHE_KEYS.LOCATION_STATS(id))
+      );
+
+      const entries = new Map<string, LocationBatchEntry>();
+      ids.forEach(id => {
+        const cached = cachedData[CACHE_KEYS.LOCATION_STATS(id)];
+        if (cached) {
+          entries.set(id, cached);
+        }
+      });
+
+      const missingIds = ids.filter(id => !entries.has(id));
+
+      if (missingIds.length > 0) {
+        // Join on locations so ids that don't exist are dropped
+        const scoresQuery = `
+          SELECT l.id, s.lettuce_score
+          FROM locations l
+          JOIN calculate_batch_lettuce_scores($1::uuid[]) s ON s.location_id = l.id
+        `;
+        const statsQuery = `
+          SELECT * FROM get_location_rating_stats_batch($1::uuid[])
+        `;
+
+        const [scoresResult, statsResult] = await Promise.all([
+          pool.query(scoresQuery, [missingIds]),
+          pool.query(statsQuery, [missingIds])
+        ]);
+
+        const statsById = new Map<string, LocationRatingStatsRow>(
+          (statsResult.rows as LocationRatingStatsRow[]).map(row => [row.location_id, row])
+        );
+
+        const fetched: LocationBatchEntry[] = scoresResult.rows.map(row => {
+          const stats = statsById.get(row.id);
+          return {
+            id: row.id,
+            lettuceScore: parseFloat(row.lettuce_score) || 0,
+            averageScore: stats?.avg_score ?? 0,
+            totalRatings: stats ? parseInt(stats.total_ratings) || 0 : 0,
+            recentRatings: stats ? parseInt(stats.recent_ratings) || 0 : 0,
+            scoreDistribution: ([1, 2, 3, 4, 5] as const).map(score => ({
+              score,
+              count: stats ? parseInt(stats[`score_${score}_count`]) || 0 : 0
+            }))
+          };
+        });
+
+        fetched.forEach(entry => entries.set(entry.id, entry));
+
+        // Cache each location on its own so overlapping batches share entries
+        await CacheService.setMultiple(fetched.map(entry => ({
+          key: CACHE_KEYS.LOCATION_STATS(entry.id),
+          data: entry,
+          ttl: CACHE_TTL.LOCATION_STATS
+        })));
+      }
+
+      PerformanceMonitor.endTimer(timerName);
+      return ids
+        .map(id => entries.get(id))
+        .filter((entry): entry is LocationBatchEntry => entry !== undefined);
+    } catch (error) {
+      PerformanceMonitor.endTimer(timerName);
+      console.error('Error fetching location batch:', error);
+      throw new Error('Failed to fetch location batch');
+    }
+  }
+
+  /**
+   * Get locations inside a map viewport, closest to the viewport center first.
+   * Fetches one row past the limit so callers can tell the user to zoom in.
+   */
+  async getLocationsInBounds(
+    bounds: BoundingBox,
+    limit: number = 100
+  ): Promise<{ locations: SubwayLocation[]; tooMany: boolean }> {
+    const timerName = 'db_getLocationsInBounds';
+    PerformanceMonitor.startTimer(timerName, {
+      method: 'getLocationsInBounds',
+      ...bounds,
+      limit
+    });
+
+    try {
+      // Check cache first
+      const cacheKey = CACHE_KEYS.LOCATIONS_IN_BOUNDS(bounds.north, bounds.south, bounds.east, bounds.west, limit);
+      const cachedData = await CacheService.get<{ locations: SubwayLocation[]; tooMany: boolean }>(cacheKey);
+
+      if (cachedData) {
+        PerformanceMonitor.endTimer(timerName);
+        return cachedData;
+      }
+
+      // A viewport crossing the antimeridian is split into two envelopes
+      const crossesAntimeridian = bounds.west > bounds.east;
+      const envelopeFilter = crossesAntimeridian
+        ? `(l.coordinates && ST_MakeEnvelope($4, $2, 180, $1, 4326)
+            OR l.coordinates && ST_MakeEnvelope(-180, $2, $3, $1, 4326))`
+        : `l.coordinates && ST_MakeEnvelope($4, $2, $3, $1, 4326)`;
+
+      let centerLng = (bounds.west + bounds.east) / 2;
+      if (crossesAntimeridian) {
+        centerLng = centerLng > 0 ? centerLng - 180 : centerLng + 180;
+      }
+      const centerLat = (bounds.north + bounds.south) / 2;
+
+      const query = `
+        SELECT
+          b.id,
+          b.name,
+          b.address,
+          ST_Y(b.coordinates::geometry) as lat,
+          ST_X(b.coordinates::geometry) as lng,
+          b.hours,
+          calculate_lettuce_score(b.id) as lettuce_score,
+          calculate_score_estimate(b.id, 'lettuce') as score_estimate,
+          calculate_ingredient_scores(b.id) as ingredient_scores,
+          is_location_open(b.id, b.hours) as is_open,
+          (
+            SELECT MAX(timestamp)
+            FROM ratings r
+            WHERE r.location_id = b.id
+            AND r.ingredient = 'lettuce'
+          ) as last_rated,
+          (
+            SELECT COUNT(*) > 0
+            FROM ratings r
+            WHERE r.location_id = b.id
+            AND r.ingredient = 'lettuce'
+            AND r.timestamp > NOW() - INTERVAL '2 hours'
+          ) as recently_rated
+        FROM (
+          SELECT l.id, l.name, l.address, l.coordinates, l.hours
+          FROM locations l
+          WHERE ${envelopeFilter}
+          ORDER BY l.coordinates <-> ST_SetSRID(ST_MakePoint($5, $6), 4326)
+          LIMIT $7
+        ) b
+      `;
+
+      const result = await pool.query(query, [
+        bounds.north,
+        bounds.south,
+        bounds.east,
+        bounds.west,
+        centerLng,
+        centerLat,
+        limit + 1
+      ]);
+
+      const tooMany = result.rows.length > limit;
+      const locations: SubwayLocation[] = result.rows.slice(0, limit).map(row => ({
+        id: row.id,
+        name: row.name,
+        address: row.address,
+        coordinates: {
+          lat: parseFloat(row.lat),
+          lng: parseFloat(row.lng)
+        },
+        hours: row.hours,
+        ...mapLettuceScore(row),
+        ingredientScores: row.ingredient_scores ?? {},
+        lastRated: row.last_rated,
+        recentlyRated: row.recently_rated,
+        isOpen: row.is_open
+      }));
+
+      const viewport = { locations, tooMany };
+
+      // Cache the results
+      await CacheService.set(cacheKey, viewport, CACHE_TTL.LOCATIONS_IN_BOUNDS);
+
+      PerformanceMonitor.endTimer(timerName);
+      return viewport;
+    } catch (error) {
+      PerformanceMonitor.endTimer(timerName);
+      console.error('Error fetching locations in bounds:', error);
+      throw new Error('Failed to fetch locations in bounds');
+    }
+  }
+
+  /**
+   * Fuzzy search locations by name or address (trigram word similarity).
+   * When coordinates are given, closer stores get a proximity boost.
+   */
+  async searchLocations(
+    query: string,
+    options: { coordinates?: Coordinates | undefined; limit?: number } = {}
+  ): Promise<LocationSearchResult[]> {
+    const { coordinates, limit = 10 } = options;
+    const timerName = 'db_searchLocations';
+    PerformanceMonitor.startTimer(timerName, {
+      method: 'searchLocations',
+      query,
+      limit
+    });
+
+    try {
+      // Check cache first
+      const cacheKey = CACHE_KEYS.SEARCH_RESULTS(query, 'full', limit, coordinates?.lat, coordinates?.lng);
+      const cachedData = await CacheService.get<LocationSearchResult[]>(cacheKey);
+
+      if (cachedData) {
+        PerformanceMonitor.endTimer(timerName);
+        return cachedData;
+      }
+
+      const searchQuery = `
+        WITH matches AS (${this.getSearchMatchesSql()})
+        SELECT
+          m.id,
+          m.name,
+          m.address,
+          ST_Y(m.coordinates::geometry) as lat,
+          ST_X(m.coordinates::geometry) as lng,
+          m.hours,
+          m.match_score,
+          m.distance_meters,
+          calculate_lettuce_score(m.id) as lettuce_score,
+          calculate_score_estimate(m.id, 'lettuce') as score_estimate,
+          calculate_ingredient_scores(m.id) as ingredient_scores,
+          is_location_open(m.id, m.hours) as is_open,
+          (
+            SELECT MAX(timestamp)
+            FROM ratings r
+            WHERE r.location_id = m.id
+            AND r.ingredient = 'lettuce'
+          ) as last_rated,
+          (
+            SELECT COUNT(*) > 0
+            FROM ratings r
+            WHERE r.location_id = m.id
+            AND r.ingredient = 'lettuce'
+            AND r.timestamp > NOW() - INTERVAL '2 hours'
+          ) as recently_rated
+        FROM matches m
+        ORDER BY m.rank DESC, m.name
+        LIMIT $5
+      `;
+
+      const result = await pool.query(searchQuery, this.getSearchParams(query, coordinates, limit));
+
+      const locations: LocationSearchResult[] = result.rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        address: row.address,
+        coordinates: {
+          lat: parseFloat(row.lat),
+          lng: parseFloat(row.lng)
+        },
+        hours: row.hours,
+        ...mapLettuceScore(row),
+        ingredientScores: row.ingredient_scores ?? {},
+        lastRated: row.last_rated,
+        recentlyRated: row.recently_rated,
+        isOpen: row.is_open,
+        matchScore: Math.round(parseFloat(row.match_score) * 100) / 100,
+        ...(row.distance_meters !== null && { distanceFromUser: parseFloat(row.distance_meters) })
+      }));
+
+      // Cache the results
+      await CacheService.set(cacheKey, locations, CACHE_TTL.SEARCH_RESULTS);
+
+      PerformanceMonitor.endTimer(timerName);
+      return locations;
+    } catch (error) {
+      PerformanceMonitor.endTimer(timerName);
+      console.error('Error searching locations:', error);
+      throw new Error('Failed to search locations');
+    }
+  }
+
+  /**
+   * Lightweight type-ahead suggestions (no score or rating lookups)
+   */
+  async autocompleteLocations(
+    query: string,
+    options: { coordinates?: Coordinates | undefined; limit?: number } = {}
+  ): Promise<LocationSuggestion[]> {
+    const { coordinates, limit = 5 } = options;
+
+    try {
+      // Check cache first
+      const cacheKey = CACHE_KEYS.SEARCH_RESULTS(query, 'autocomplete', limit, coordinates?.lat, coordinates?.lng);
+      const cachedData = await CacheService.get<LocationSuggestion[]>(cacheKey);
+
+      if (cachedData) {
+        return cachedData;
+      }
+
+      const autocompleteQuery = `
+        WITH matches AS (${this.getSearchMatchesSql()})
+        SELECT
+          m.id,
+          m.name,
+          m.address,
+          ST_Y(m.coordinates::geometry) as lat,
+          ST_X(m.coordinates::geometry) as lng,
+          m.match_score,
+          m.distance_meters
+        FROM matches m
+        ORDER BY m.rank DESC, m.name
+        LIMIT $5
+      `;
+
+      const result = await pool.query(autocompleteQuery, this.getSearchParams(query, coordinates, limit));
+
+      const suggestions: LocationSuggestion[] = result.rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        address: row.address,
+        coordinates: {
+          lat: parseFloat(row.lat),
+          lng: parseFloat(row.lng)
+        },
+        matchScore: Math.round(parseFloat(row.match_score) * 100) / 100,
+        ...(row.distance_meters !== null && { distanceFromUser: parseFloat(row.distance_meters) })
+      }));
+
+      await CacheService.set(cacheKey, suggestions, CACHE_TTL.SEARCH_RESULTS);
+
+      return suggestions;
+    } catch (error) {
+      console.error('Error fetching location suggestions:', error);
+      throw new Error('Failed to fetch location suggestions');
+    }
+  }
+
+  /**
+   * Shared matching/ranking SQL for search queries.
+   * Params: $1 query, $2 LIKE pattern, $3 user lat, $4 user lng.
+   * Rank is the best name/address word similarity plus a proximity boost
+   * that decays with distance (0.3 at the user's position, ~0.11 at 5km).
+   */
+  private getSearchMatchesSql(): string {
+    return `
+      SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.coordinates,
+        l.hours,
+        scored.match_score,
+        scored.distance_meters,
+        scored.match_score + COALESCE(0.3 * EXP(-scored.distance_meters / 5000.0), 0) as rank
+      FROM locations l
+      CROSS JOIN LATERAL (
+        SELECT
+          GREATEST(word_similarity($1, l.name), word_similarity($1, l.address)) as match_score,
+          CASE
+            WHEN $3::double precision IS NULL OR $4::double precision IS NULL THEN NULL
+            ELSE ST_Distance(
+              l.coordinates::geography,
+              ST_SetSRID(ST_MakePoint($4, $3), 4326)::geography
+            )
+          END as distance_meters
+      ) scored
+      WHERE $1 <% l.name
+        OR $1 <% l.address
+        OR l.name ILIKE $2
+        OR l.address ILIKE $2
+    `;
+  }
+
+  /**
+   * Build the positional parameters for the search SQL
+   */
+  private getSearchParams(query: string, coordinates: Coordinates | undefined, limit: number): unknown[] {
+    const likePattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+    return [query, likePattern, coordinates?.lat ?? null, coordinates?.lng ?? null, limit];
+  }
+
+  /**
+   * Create a new Subway location. Hours are stored in the intervals form.
    */
-  async createLocation(location: Omit<SubwayLocation, 'id' | 'lettuceScore' | 'lastRated' | 'recentlyRated' | 'distanceFromUser'>): Promise<string> {
+  async createLocation(location: CreateLocationRequest): Promise<string> {
     const query = `
       INSERT INTO locations (name, address, coordinates, hours)
       VALUES ($1, $2, ST_SetSRID(ST_MakePoint($3, $4), 4326), $5)
@@ -220,7 +779,7 @@ export class LocationRepository {
         location.address,
         location.coordinates.lng,
         location.coordinates.lat,
-        JSON.stringify(location.hours)
+        JSON.stringify(normalizeStoreHours(location.hours))
       ]);
 
       return result.rows[0].id;
@@ -231,9 +790,9 @@ export class LocationRepository {
   }
 
   /**
-   * Update location information
+   * Update location information. Hours are stored in the intervals form.
    */
-  async updateLocation(locationId: string, updates: Partial<Omit<SubwayLocation, 'id' | 'lettuceScore' | 'lastRated' | 'recentlyRated' | 'distanceFromUser'>>): Promise<boolean> {
+  async updateLocation(locationId: string, updates: UpdateLocationRequest): Promise<boolean> {
     const setParts: string[] = [];
     const values: any[] = [];
     let paramIndex = 1;
@@ -255,7 +814,7 @@ export class LocationRepository {
 
     if (updates.hours) {
       setParts.push(`hours = $${paramIndex++}`);
-      values.push(JSON.stringify(updates.hours));
+      values.push(JSON.stringify(normalizeStoreHours(updates.hours)));
     }
 
     if (setParts.length === 0) {
@@ -304,12 +863,15 @@ export class LocationRepository {
       await Promise.all([
         CacheService.del(CACHE_KEYS.LOCATION_DETAIL(locationId)),
         CacheService.del(CACHE_KEYS.LOCATION_SCORE(locationId)),
+        CacheService.del(CACHE_KEYS.LOCATION_STATS(locationId)),
         CacheService.del(CACHE_KEYS.RATING_SUMMARY(locationId)),
         CacheService.del(CACHE_KEYS.TIME_ANALYSIS(locationId)),
       ]);
 
       // Invalidate nearby location caches (pattern-based)
       await CacheService.delPattern('nearby:*');
+      await CacheService.delPattern('search:*');
+      await CacheService.delPattern('bounds:*');
     } catch (error) {
       console.error('Error invalidating location cache:', error);
     }
@@ -0,0 +1,130 @@
+import pool from '../database/connection';
+import { RatingPhoto, RatingPhotoRow } from '../types';
+
+export class PhotoRepository {
+
+  /**
+   * Record a stored photo against its rating, unless the rating already has
+   * maxPerRating photos. Returns null when the limit is reached.
+   */
+  async createPhoto(photo: {
+    id: string;
+    ratingId: string;
+    locationId: string;
+    contentType: string;
+    width: number;
+    height: number;
+    sizeBytes: number;
+  }, maxPerRating: number): Promise<RatingPhoto | null> {
+    const query = `
+      INSERT INTO rating_photos (id, rating_id, location_id, content_type, width, height, size_bytes)
+      SELECT $1::uuid, $2::uuid, $3::uuid, $4::varchar, $5::integer, $6::integer, $7::integer
+      WHERE (SELECT COUNT(*) FROM rating_photos WHERE rating_id = $2::uuid) < $8
+      RETURNING *
+    `;
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize uploads for the same rating so two at once can't both pass the limit
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`photos:${photo.ratingId}`]);
+
+      const result = await client.query(query, [
+        photo.id,
+        photo.ratingId,
+        photo.locationId,
+        photo.contentType,
+        photo.width,
+        photo.height,
+        photo.sizeBytes,
+        maxPerRating
+      ]);
+
+      await client.query('COMMIT');
+
+      const row: RatingPhotoRow | undefined = result.rows[0];
+      return row ? this.mapPhoto(row) : null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error creating photo:', error);
+      throw new Error('Failed to create photo');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get a photo's metadata by ID
+   */
+  async getPhotoById(photoId: string): Promise<(RatingPhoto & { contentType: string }) | null> {
+    const query = `SELECT * FROM rating_photos WHERE id = $1`;
+
+    try {
+      const result = await pool.query(query, [photoId]);
+      const row: RatingPhotoRow | undefined = result.rows[0];
+
+      if (!row) {
+        return null;
+      }
+
+      return { ...this.mapPhoto(row), contentType: row.content_type };
+    } catch (error) {
+      console.error('Error fetching photo:', error);
+      throw new Error('Failed to fetch photo');
+    }
+  }
+
+  /**
+   * Get the most recent photos for a location, newest first
+   */
+  async getPhotosByLocation(locationId: string, limit: number = 24): Promise<RatingPhoto[]> {
+    const query = `
+      SELECT *
+      FROM rating_photos
+      WHERE location_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2
+    `;
+
+    try {
+      const result = await pool.query(query, [locationId, limit]);
+      return result.rows.map(row => this.mapPhoto(row));
+    } catch (error) {
+      console.error('Error fetching location photos:', error);
+      throw new Error('Failed to fetch location photos');
+    }
+  }
+
+  /**
+   * Get the IDs of all photos attached to a rating
+   */
+  async getPhotoIdsByRating(ratingId: string): Promise<string[]> {
+    const query = `SELECT id FROM rating_photos WHERE rating_id = $1`;
+
+    try {
+      const result = await pool.query(query, [ratingId]);
+      return result.rows.map(row => row.id);
+    } catch (error) {
+      console.error('Error fetching rating photos:', error);
+      throw new Error('Failed to fetch rating photos');
+    }
+  }
+
+  /**
+   * Map a database row to the public photo shape with its serving URLs
+   */
+  private mapPhoto(row: RatingPhotoRow): RatingPhoto {
+    return {
+      id: row.id,
+      ratingId: row.rating_id,
+      locationId: row.location_id,
+      url: `/api/photos/${row.id}`,
+      thumbnailUrl: `/api/photos/${row.id}/thumbnail`,
+      width: row.width,
+      height: row.height,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -1,31 +1,185 @@
+import { PoolClient } from 'pg';
 import pool from '../database/connection';
-import { Rating, TimeRecommendation } from '../types';
+import {
+  AnalysisGranularity,
+  FreshnessForecast,
+  FreshnessHeatmap,
+  HistoricalAnalysis,
+  HistoricalAnalysisBucket,
+  Ingredient,
+  IngredientRatingInput,
+  Rating, RatingFeedback, SubmittedRating, RatingTagCount, ScoreEstimate, SubwayLocation, TimeRecommendation } from '../types';
 import { 
   analyzeHistoricalPatterns, 
+  buildFreshnessHeatmap,
   filterRatingsByDateRange,
-  getOptimalTimingMessage 
+  splitRatingsByGranularity,
+  summarizeHistoricalPatterns
 } from '../utils/historicalAnalysis';
+import { CurrentScore, FORECAST_HISTORY_DAYS, forecastFreshness } from '../utils/freshnessForecast';
+import { parseScoreEstimate } from '../utils/scoreEstimate';
+import { DEFAULT_INGREDIENT, RATING_TAGS } from '../utils/validation';
 import { LocationRepository } from './LocationRepository';
 
+// Default window in which a rater's repeat rating replaces their earlier one
+const DEFAULT_REPEAT_WINDOW_MINUTES = 60;
+
+/**
+ * Minutes a rater must wait before rating the same location again, from RATING_REPEAT_WINDOW_MINUTES
+ */
+export function getRatingRepeatWindowMinutes(): number {
+  const minutes = parseInt(process.env.RATING_REPEAT_WINDOW_MINUTES || '');
+  return isNaN(minutes) || minutes < 0 ? DEFAULT_REPEAT_WINDOW_MINUTES : minutes;
+}
+
 export class RatingRepository {
 
+  /**
+   * Record one submission's ratings in a single transaction, so either every ingredient is
+   * saved or none is. Feedback belongs to the first rating. Returns a result per rating, in order.
+   *
+   * Keeps one rating per rater (user or device) per location and ingredient per repeat window.
+   * A repeat inside the window updates the rater's earlier rating instead of adding another; the
+   * rating keeps its original timestamp, so the repeat and edit windows both run from the first
+   * submission, and its edit token hash is replaced so only the latest token works.
+   * Anonymous ratings (no raterId) can't be matched up, so they are always created.
+   */
+  async submitRatings(
+    locationId: string,
+    ratings: IngredientRatingInput[],
+    raterId?: string,
+    editTokenHash?: string,
+    feedback?: RatingFeedback
+  ): Promise<SubmittedRating[]> {
+    // Validate score range
+    if (ratings.some(({ score }) => score < 1 || score > 5)) {
+      throw new Error('Rating score must be between 1 and 5');
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const submitted: SubmittedRating[] = [];
+      for (const [index, { ingredient, score }] of ratings.entries()) {
+        submitted.push(await this.saveSubmittedRating(
+          client,
+          locationId,
+          ingredient,
+          score,
+          raterId,
+          editTokenHash,
+          index === 0 ? feedback : undefined
+        ));
+      }
+
+      await client.query('COMMIT');
+
+      // Invalidate cache for this location after the ratings changed
+      const locationRepository = new LocationRepository();
+      await locationRepository.invalidateLocationCache(locationId);
+
+      return submitted;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error submitting rating:', error);
+      throw new Error('Failed to submit rating');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Insert or, for a repeat inside the window, update one rating of a submission
+   */
+  private async saveSubmittedRating(
+    client: PoolClient,
+    locationId: string,
+    ingredient: Ingredient,
+    score: number,
+    raterId: string | undefined,
+    editTokenHash: string | undefined,
+    feedback: RatingFeedback | undefined
+  ): Promise<SubmittedRating> {
+    if (raterId) {
+      // Serialize submissions from the same rater for the same location so
+      // two quick taps can't both insert
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${locationId}:${raterId}:${ingredient}`]);
+
+      const existing = await client.query(
+        `
+          SELECT id
+          FROM ratings
+          WHERE location_id = $1
+            AND user_id = $2
+            AND ingredient = $3
+            AND timestamp > NOW() - make_interval(mins => $4)
+          ORDER BY timestamp DESC
+          LIMIT 1
+        `,
+        [locationId, raterId, ingredient, getRatingRepeatWindowMinutes()]
+      );
+
+      if (existing.rows[0]) {
+        // Replace the earlier rating's score and feedback; moving its timestamp would let
+        // a rater who keeps re-rating stay inside both windows indefinitely
+        const ratingId: string = existing.rows[0].id;
+        await client.query(
+          `
+            UPDATE ratings
+            SET score = $2, edit_token_hash = $3, tags = $4, comment = $5
+            WHERE id = $1
+          `,
+          [ratingId, score, editTokenHash || null, feedback?.tags ?? [], feedback?.comment ?? null]
+        );
+        return { ratingId, ingredient, action: 'updated' };
+      }
+    }
+
+    const inserted = await client.query(
+      `
+        INSERT INTO ratings (location_id, score, user_id, edit_token_hash, tags, comment, ingredient)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING id
+      `,
+      [locationId, score, raterId || null, editTokenHash || null, feedback?.tags ?? [], feedback?.comment ?? null, ingredient]
+    );
+    return { ratingId: inserted.rows[0].id, ingredient, action: 'created' };
+  }
+
   /**
    * Submit a new rating for a location
    */
-  async createRating(locationId: string, score: number, userId?: string): Promise<string> {
+  async createRating(
+    locationId: string,
+    score: number,
+    userId?: string,
+    editTokenHash?: string,
+    feedback?: RatingFeedback,
+    ingredient: Ingredient = DEFAULT_INGREDIENT
+  ): Promise<string> {
     // Validate score range
     if (score < 1 || score > 5) {
       throw new Error('Rating score must be between 1 and 5');
     }
 
     const query = `
-      INSERT INTO ratings (location_id, score, user_id)
-      VALUES ($1, $2, $3)
+      INSERT INTO ratings (location_id, score, user_id, edit_token_hash, tags, comment, ingredient)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
       RETURNING id
     `;
 
     try {
-      const result = await pool.query(query, [locationId, score, userId || null]);
+      const result = await pool.query(query, [
+        locationId,
+        score,
+        userId || null,
+        editTokenHash || null,
+        feedback?.tags ?? [],
+        feedback?.comment ?? null,
+        ingredient
+      ]);
       const ratingId = result.rows[0].id;
       
       // Invalidate cache for this location after rating is created
@@ -40,26 +194,108 @@ export class RatingRepository {
   }
 
   /**
-   * Get ratings for a specific location
+   * Get a single rating along with the hash of its ownership token
    */
-  async getRatingsByLocation(locationId: string, limit: number = 50): Promise<Rating[]> {
+  async getRatingById(ratingId: string): Promise<(Rating & { editTokenHash: string | null }) | null> {
     const query = `
-      SELECT id, location_id, score, timestamp, user_id
+      SELECT id, location_id, score, timestamp, user_id, ingredient, tags, comment, edit_token_hash
+      FROM ratings
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await pool.query(query, [ratingId]);
+      const row = result.rows[0];
+
+      if (!row) {
+        return null;
+      }
+
+      return {
+        id: row.id,
+        locationId: row.location_id,
+        score: row.score,
+        timestamp: row.timestamp,
+        userId: row.user_id,
+        ingredient: row.ingredient,
+        tags: row.tags,
+        comment: row.comment,
+        editTokenHash: row.edit_token_hash
+      };
+    } catch (error) {
+      console.error('Error fetching rating:', error);
+      throw new Error('Failed to fetch rating');
+    }
+  }
+
+  /**
+   * Change the score of an existing rating, keeping its original timestamp
+   */
+  async updateRatingScore(ratingId: string, score: number): Promise<Rating | null> {
+    // Validate score range
+    if (score < 1 || score > 5) {
+      throw new Error('Rating score must be between 1 and 5');
+    }
+
+    const query = `
+      UPDATE ratings
+      SET score = $2
+      WHERE id = $1
+      RETURNING id, location_id, score, timestamp, user_id, ingredient, tags, comment
+    `;
+
+    try {
+      const result = await pool.query(query, [ratingId, score]);
+      const row = result.rows[0];
+
+      if (!row) {
+        return null;
+      }
+
+      const locationRepository = new LocationRepository();
+      await locationRepository.invalidateLocationCache(row.location_id);
+
+      return {
+        id: row.id,
+        locationId: row.location_id,
+        score: row.score,
+        timestamp: row.timestamp,
+        userId: row.user_id,
+        ingredient: row.ingredient,
+        tags: row.tags,
+        comment: row.comment
+      };
+    } catch (error) {
+      console.error('Error updating rating:', error);
+      throw new Error('Failed to update rating');
+    }
+  }
+
+  /**
+   * Get ratings for a specific location, optionally only those of one ingredient
+   */
+  async getRatingsByLocation(locationId: string, limit: number = 50, ingredient?: Ingredient): Promise<Rating[]> {
+    const query = `
+      SELECT id, location_id, score, timestamp, user_id, ingredient, tags, comment
       FROM ratings
       WHERE location_id = $1
+        AND ($3::varchar IS NULL OR ingredient = $3)
       ORDER BY timestamp DESC
       LIMIT $2
     `;
 
     try {
-      const result = await pool.query(query, [locationId, limit]);
+      const result = await pool.query(query, [locationId, limit, ingredient ?? null]);
       
       return result.rows.map(row => ({
         id: row.id,
         locationId: row.location_id,
         score: row.score,
         timestamp: row.timestamp,
-        userId: row.user_id
+        userId: row.user_id,
+        ingredient: row.ingredient,
+        tags: row.tags,
+        comment: row.comment
       }));
     } catch (error) {
       console.error('Error fetching ratings:', error);
@@ -72,7 +308,7 @@ export class RatingRepository {
    */
   async getRecentRatings(limit: number = 100): Promise<Rating[]> {
     const query = `
-      SELECT id, location_id, score, timestamp, user_id
+      SELECT id, location_id, score, timestamp, user_id, ingredient, tags, comment
       FROM ratings
       ORDER BY timestamp DESC
       LIMIT $1
@@ -86,7 +322,10 @@ export class RatingRepository {
         locationId: row.location_id,
         score: row.score,
         timestamp: row.timestamp,
-        userId: row.user_id
+        userId: row.user_id,
+        ingredient: row.ingredient,
+        tags: row.tags,
+        comment: row.comment
       }));
     } catch (error) {
       console.error('Error fetching recent ratings:', error);
@@ -95,7 +334,7 @@ export class RatingRepository {
   }
 
   /**
-   * Get rating statistics for a location
+   * Get lettuce rating statistics for a location
    */
   async getRatingStats(locationId: string): Promise<{
     averageScore: number;
@@ -110,12 +349,14 @@ export class RatingRepository {
         COUNT(CASE WHEN timestamp > NOW() - INTERVAL '24 hours' THEN 1 END) as recent_ratings
       FROM ratings
       WHERE location_id = $1
+        AND ingredient = 'lettuce'
     `;
 
     const distributionQuery = `
       SELECT score, COUNT(*) as count
       FROM ratings
       WHERE location_id = $1
+        AND ingredient = 'lettuce'
       GROUP BY score
       ORDER BY score
     `;
@@ -143,6 +384,53 @@ export class RatingRepository {
     }
   }
 
+  /**
+   * Count how often each predefined tag was attached to a location's ratings.
+   * Every tag is listed, most frequent first, with zero counts for unused tags.
+   */
+  async getTagCounts(locationId: string): Promise<RatingTagCount[]> {
+    const query = `
+      SELECT tag, COUNT(*) as count
+      FROM ratings, unnest(tags) AS tag
+      WHERE location_id = $1
+      GROUP BY tag
+    `;
+
+    try {
+      const result = await pool.query(query, [locationId]);
+      const counts = new Map<string, number>(
+        result.rows.map(row => [row.tag, parseInt(row.count)])
+      );
+
+      return RATING_TAGS
+        .map(tag => ({ tag, count: counts.get(tag) ?? 0 }))
+        .sort((a, b) => b.count - a.count);
+    } catch (error) {
+      console.error('Error fetching tag counts:', error);
+      throw new Error('Failed to fetch tag counts');
+    }
+  }
+
+  /**
+   * List the ingredients that have been rated at a location
+   */
+  async getRatedIngredients(locationId: string): Promise<Ingredient[]> {
+    const query = `
+      SELECT DISTINCT ingredient
+      FROM ratings
+      WHERE location_id = $1
+      ORDER BY ingredient
+    `;
+
+    try {
+      const result = await pool.query(query, [locationId]);
+      return result.rows.map(row => row.ingredient);
+    } catch (error) {
+      console.error('Error fetching rated ingredients:', error);
+      throw new Error('Failed to fetch rated ingredients');
+    }
+  }
+
   /**
    * Calculate weighted lettuce score for a location
    */
@@ -158,6 +446,21 @@ export class RatingRepository {
     }
   }
 
+  /**
+   * Bayesian score of one ingredient at a location, with its credible interval
+   */
+  async getScoreEstimate(locationId: string, ingredient: Ingredient = DEFAULT_INGREDIENT): Promise<ScoreEstimate> {
+    const query = `SELECT calculate_score_estimate($1, $2) as score_estimate`;
+
+    try {
+      const result = await pool.query(query, [locationId, ingredient]);
+      return parseScoreEstimate(result.rows[0].score_estimate);
+    } catch (error) {
+      console.error('Error calculating score estimate:', error);
+      throw new Error('Failed to calculate score estimate');
+    }
+  }
+
   /**
    * Check if location was recently rated (within 2 hours)
    */
@@ -184,7 +487,7 @@ export class RatingRepository {
   async getTimeBasedAnalysis(locationId: string, daysPeriod: number = 30): Promise<TimeRecommendation[]> {
     try {
       // Get all ratings for the location
-      const allRatings = await this.getRatingsByLocation(locationId, 1000); // Get more ratings for better analysis
+      const allRatings = await this.getRatingsByLocation(locationId, 1000, DEFAULT_INGREDIENT); // Get more ratings for better analysis
       
       // Filter ratings by date range
       const recentRatings = filterRatingsByDateRange(allRatings, daysPeriod);
@@ -202,34 +505,42 @@ export class RatingRepository {
   /**
    * Get comprehensive historical analysis for a location
    */
-  async getHistoricalAnalysis(locationId: string, daysPeriod: number = 30): Promise<{
-    timeRecommendations: TimeRecommendation[];
-    bestPeriod?: string | undefined;
-    worstPeriod?: string | undefined;
-    totalAnalyzedRatings: number;
-    hasReliableData: boolean;
-    optimalTimingMessage: string;
-  }> {
+  async getHistoricalAnalysis(locationId: string, daysPeriod: number = 30): Promise<HistoricalAnalysis> {
     try {
       // Get all ratings for the location
-      const allRatings = await this.getRatingsByLocation(locationId, 1000);
+      const allRatings = await this.getRatingsByLocation(locationId, 1000, DEFAULT_INGREDIENT);
       
       // Filter ratings by date range
       const recentRatings = filterRatingsByDateRange(allRatings, daysPeriod);
       
-      // Perform historical analysis
-      const analysis = analyzeHistoricalPatterns(recentRatings);
-      
-      // Generate optimal timing message
-      const optimalTimingMessage = getOptimalTimingMessage(analysis);
-      
+      // Perform historical analysis with its optimal timing message
+      return summarizeHistoricalPatterns(recentRatings);
+    } catch (error) {
+      console.error('Error fetching historical analysis:', error);
+      throw new Error('Failed to fetch historical analysis');
+    }
+  }
+
+  /**
+   * Get historical analysis of a location's lettuce ratings in [from, to), for the whole window
+   * and for each day, week or month of it
+   */
+  async getHistoricalAnalysisInRange(
+    locationId: string,
+    from: Date,
+    to: Date,
+    granularity: AnalysisGranularity = 'all'
+  ): Promise<HistoricalAnalysis & { periods: HistoricalAnalysisBucket[] }> {
+    try {
+      const ratings = await this.getRatingsInRange(locationId, from, to, DEFAULT_INGREDIENT);
+
       return {
-        timeRecommendations: analysis.timeRecommendations,
-        bestPeriod: analysis.bestPeriod,
-        worstPeriod: analysis.worstPeriod,
-        totalAnalyzedRatings: analysis.totalAnalyzedRatings,
-        hasReliableData: analysis.hasReliableData,
-        optimalTimingMessage
+        ...summarizeHistoricalPatterns(ratings),
+        periods: splitRatingsByGranularity(ratings, from, to, granularity).map(bucket => ({
+          start: bucket.start,
+          end: bucket.end,
+          ...summarizeHistoricalPatterns(bucket.ratings)
+        }))
       };
     } catch (error) {
       console.error('Error fetching historical analysis:', error);
@@ -238,14 +549,142 @@ export class RatingRepository {
   }
 
   /**
-   * Delete a rating (admin function)
+   * Get a location's ratings with timestamps in [from, to), newest first, optionally only one ingredient's
+   */
+  async getRatingsInRange(locationId: string, from: Date, to: Date, ingredient?: Ingredient): Promise<Rating[]> {
+    const query = `
+      SELECT id, location_id, score, timestamp, user_id, ingredient, tags, comment
+      FROM ratings
+      WHERE location_id = $1
+        AND timestamp >= $2
+        AND timestamp < $3
+        AND ($4::varchar IS NULL OR ingredient = $4)
+      ORDER BY timestamp DESC
+    `;
+
+    try {
+      const result = await pool.query(query, [locationId, from, to, ingredient ?? null]);
+
+      return result.rows.map(row => ({
+        id: row.id,
+        locationId: row.location_id,
+        score: row.score,
+        timestamp: row.timestamp,
+        userId: row.user_id,
+        ingredient: row.ingredient,
+        tags: row.tags,
+        comment: row.comment
+      }));
+    } catch (error) {
+      console.error('Error fetching ratings in range:', error);
+      throw new Error('Failed to fetch ratings');
+    }
+  }
+
+  /**
+   * Get a weekday-by-hour grid of lettuce ratings for a location, bucketed in the store's timezone
+   */
+  async getHeatmapAnalysis(locationId: string, timezone: string, daysPeriod: number = 90): Promise<FreshnessHeatmap> {
+    try {
+      // A 7x24 grid spreads ratings thinly, so look further back than the period analysis
+      const allRatings = await this.getRatingsByLocation(locationId, 5000, DEFAULT_INGREDIENT);
+      const recentRatings = filterRatingsByDateRange(allRatings, daysPeriod);
+
+      return buildFreshnessHeatmap(recentRatings, timezone);
+    } catch (error) {
+      console.error('Error fetching heatmap analysis:', error);
+      throw new Error('Failed to fetch heatmap analysis');
+    }
+  }
+
+  /**
+   * Predict a location's lettuce score at a visit time from its weekday and hour history and current score
+   */
+  async getFreshnessForecast(
+    locationId: string,
+    timezone: string,
+    current: CurrentScore,
+    at: Date
+  ): Promise<FreshnessForecast> {
+    try {
+      const allRatings = await this.getRatingsByLocation(locationId, 5000, DEFAULT_INGREDIENT);
+      const recentRatings = filterRatingsByDateRange(allRatings, FORECAST_HISTORY_DAYS);
+
+      return forecastFreshness(recentRatings, timezone, current, at);
+    } catch (error) {
+      console.error('Error fetching freshness forecast:', error);
+      throw new Error('Failed to fetch freshness forecast');
+    }
+  }
+
+  /**
+   * Predict the lettuce score of several locations at the same visit time, keyed by location ID
+   */
+  async getFreshnessForecasts(locations: SubwayLocation[], at: Date): Promise<Map<string, FreshnessForecast>> {
+    const query = `
+      SELECT id, location_id, score, timestamp
+      FROM ratings
+      WHERE location_id = ANY($1::uuid[])
+        AND ingredient = $2
+        AND timestamp >= $3
+    `;
+
+    try {
+      const forecasts = new Map<string, FreshnessForecast>();
+      if (locations.length === 0) {
+        return forecasts;
+      }
+
+      const result = await pool.query(query, [
+        locations.map(location => location.id),
+        DEFAULT_INGREDIENT,
+        new Date(Date.now() - FORECAST_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+      ]);
+
+      const ratingsByLocation = new Map<string, Rating[]>();
+      for (const row of result.rows) {
+        const ratings = ratingsByLocation.get(row.location_id) ?? [];
+        ratings.push({ id: row.id, locationId: row.location_id, score: row.score, timestamp: row.timestamp });
+        ratingsByLocation.set(row.location_id, ratings);
+      }
+
+      const now = new Date();
+      for (const location of locations) {
+        forecasts.set(location.id, forecastFreshness(
+          ratingsByLocation.get(location.id) ?? [],
+          location.hours.timezone,
+          { score: location.lettuceScore, lastRated: location.lastRated },
+          at,
+          now
+        ));
+      }
+
+      return forecasts;
+    } catch (error) {
+      console.error('Error fetching freshness forecasts:', error);
+      throw new Error('Failed to fetch freshness forecasts');
+    }
+  }
+
+  /**
+   * Delete a rating
    */
   async deleteRating(ratingId: string): Promise<boolean> {
-    const query = `DELETE FROM ratings WHERE id = $1`;
+    const query = `DELETE FROM ratings WHERE id = $1 RETURNING location_id`;
 
     try {
       const result = await pool.query(query, [ratingId]);
-      return (result.rowCount || 0) > 0;
+      const row = result.rows[0];
+
+      if (!row) {
+        return false;
+      }
+
+      // The location's score changed, so its cached data is stale
+      const locationRepository = new LocationRepository();
+      await locationRepository.invalidateLocationCache(row.location_id);
+
+      return true;
     } catch (error) {
       console.error('Error deleting rating:', error);
       throw new Error('Failed to delete rating');
@@ -0,0 +1,89 @@
+import pool from '../database/connection';
+import { RestockEvent, RestockPattern } from '../types';
+import { RESTOCK_PATTERN_DAYS, summarizeRestockPattern } from '../utils/restockDetection';
+
+export class RestockRepository {
+
+  /**
+   * Save detected restock events for a location, skipping ones already recorded.
+   * Returns how many were new.
+   */
+  async recordRestockEvents(locationId: string, events: RestockEvent[]): Promise<number> {
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const query = `
+      INSERT INTO restock_events (location_id, restocked_at, score_before, score_after)
+      SELECT $1, restocked_at, score_before, score_after
+      FROM unnest($2::timestamptz[], $3::numeric[], $4::numeric[]) AS detected(restocked_at, score_before, score_after)
+      ON CONFLICT (location_id, restocked_at) DO NOTHING
+    `;
+
+    try {
+      const result = await pool.query(query, [
+        locationId,
+        events.map(event => event.restockedAt),
+        events.map(event => event.scoreBefore),
+        events.map(event => event.scoreAfter)
+      ]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error recording restock events:', error);
+      throw new Error('Failed to record restock events');
+    }
+  }
+
+  /**
+   * Get a location's restock events since a time, newest first
+   */
+  async getRestockEvents(locationId: string, since: Date): Promise<RestockEvent[]> {
+    const query = `
+      SELECT restocked_at, score_before, score_after
+      FROM restock_events
+      WHERE location_id = $1 AND restocked_at >= $2
+      ORDER BY restocked_at DESC
+    `;
+
+    try {
+      const result = await pool.query(query, [locationId, since]);
+
+      return result.rows.map(row => ({
+        restockedAt: row.restocked_at,
+        scoreBefore: parseFloat(row.score_before),
+        scoreAfter: parseFloat(row.score_after)
+      }));
+    } catch (error) {
+      console.error('Error fetching restock events:', error);
+      throw new Error('Failed to fetch restock events');
+    }
+  }
+
+  /**
+   * Get the days and time a location usually restocks, from the last RESTOCK_PATTERN_DAYS of events
+   */
+  async getRestockPattern(locationId: string, timezone: string): Promise<RestockPattern> {
+    const since = new Date(Date.now() - RESTOCK_PATTERN_DAYS * 24 * 60 * 60 * 1000);
+    const events = await this.getRestockEvents(locationId, since);
+    return summarizeRestockPattern(events, timezone);
+  }
+
+  /**
+   * Get the IDs of locations with lettuce ratings since a time
+   */
+  async getLocationsRatedSince(since: Date): Promise<string[]> {
+    const query = `
+      SELECT DISTINCT location_id
+      FROM ratings
+      WHERE ingredient = 'lettuce' AND timestamp >= $1
+    `;
+
+    try {
+      const result = await pool.query(query, [since]);
+      return result.rows.map(row => row.location_id);
+    } catch (error) {
+      console.error('Error fetching recently rated locations:', error);
+      throw new Error('Failed to fetch recently rated locations');
+    }
+  }
+}
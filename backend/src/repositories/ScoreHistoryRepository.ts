@@ -0,0 +1,67 @@
+import pool from '../database/connection';
+import { ScoreHistoryBucket, ScoreHistoryInterval } from '../types';
+import { buildScoreHistory, getBucketStart } from '../utils/scoreHistory';
+
+export class ScoreHistoryRepository {
+
+  /**
+   * Get a location's lettuce score history between from and to in day or week buckets
+   */
+  async getScoreHistory(
+    locationId: string,
+    from: Date,
+    to: Date,
+    interval: ScoreHistoryInterval
+  ): Promise<ScoreHistoryBucket[]> {
+    const start = getBucketStart(from, interval);
+
+    // Snapshots in the window plus the last one before it, which the first bucket opens with
+    const snapshotsQuery = `
+      SELECT score, recorded_at
+      FROM location_score_snapshots
+      WHERE location_id = $1
+        AND recorded_at < $3
+        AND recorded_at >= COALESCE(
+          (
+            SELECT MAX(recorded_at)
+            FROM location_score_snapshots
+            WHERE location_id = $1 AND recorded_at < $2
+          ),
+          $2
+        )
+      ORDER BY recorded_at ASC
+    `;
+
+    const ratingCountsQuery = `
+      SELECT
+        to_char(date_trunc($4, timestamp AT TIME ZONE 'UTC'), 'YYYY-MM-DD') as bucket,
+        COUNT(*) as rating_count
+      FROM ratings
+      WHERE location_id = $1
+        AND ingredient = 'lettuce'
+        AND timestamp >= $2
+        AND timestamp < $3
+      GROUP BY bucket
+    `;
+
+    try {
+      const [snapshotsResult, ratingCountsResult] = await Promise.all([
+        pool.query(snapshotsQuery, [locationId, start, to]),
+        pool.query(ratingCountsQuery, [locationId, start, to, interval])
+      ]);
+
+      const snapshots = snapshotsResult.rows.map(row => ({
+        score: parseFloat(row.score),
+        recordedAt: row.recorded_at
+      }));
+      const ratingCounts = new Map<string, number>(
+        ratingCountsResult.rows.map(row => [row.bucket, parseInt(row.rating_count, 10)])
+      );
+
+      return buildScoreHistory(snapshots, ratingCounts, start, to, interval);
+    } catch (error) {
+      console.error('Error fetching score history:', error);
+      throw new Error('Failed to fetch score history');
+    }
+  }
+}
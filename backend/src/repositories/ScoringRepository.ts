@@ -0,0 +1,157 @@
+import pool from '../database/connection';
+import { Ingredient, ScoreContributionRow, ScoreExplanation, ScoringBacktestResult } from '../types';
+import { explainContributions } from '../utils/scoreExplanation';
+import { parseScoreEstimate } from '../utils/scoreEstimate';
+import { DEFAULT_SCORING_STRATEGY } from '../utils/scoringStrategies';
+
+export class ScoringRepository {
+
+  /**
+   * Name of the strategy calculate_score_estimate scores locations with
+   */
+  async getActiveStrategy(): Promise<string> {
+    const query = `SELECT value FROM app_settings WHERE key = 'scoring_strategy'`;
+
+    try {
+      const result = await pool.query(query);
+      return result.rows[0]?.value ?? DEFAULT_SCORING_STRATEGY;
+    } catch (error) {
+      console.error('Error fetching scoring strategy:', error);
+      throw new Error('Failed to fetch scoring strategy');
+    }
+  }
+
+  /**
+   * Score locations with another strategy from now on
+   */
+  async setActiveStrategy(strategy: string): Promise<void> {
+    const query = `
+      INSERT INTO app_settings (key, value, updated_at)
+      VALUES ('scoring_strategy', $1, NOW())
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = EXCLUDED.updated_at
+    `;
+
+    try {
+      await pool.query(query, [strategy]);
+    } catch (error) {
+      console.error('Error setting scoring strategy:', error);
+      throw new Error('Failed to set scoring strategy');
+    }
+  }
+
+  /**
+   * Break a location's score down into the ratings behind it under the active strategy,
+   * with the weights score_contributions gives each one
+   */
+  async getScoreExplanation(locationId: string, ingredient: Ingredient): Promise<ScoreExplanation> {
+    // Only the Bayesian strategy starts from the chain-wide mean
+    const query = `
+      WITH active AS (
+        SELECT COALESCE((SELECT value FROM app_settings WHERE key = 'scoring_strategy'), $3) as strategy
+      )
+      SELECT
+        active.strategy,
+        calculate_strategy_score_estimate(active.strategy, $1, $2, NOW()) as score_estimate,
+        CASE WHEN active.strategy = 'bayesian' THEN (
+          SELECT row_to_json(p) FROM score_prior($2, NOW()) p
+        ) END as prior,
+        (
+          SELECT COALESCE(json_agg(c ORDER BY c.rated_at DESC), '[]'::json)
+          FROM score_contributions(active.strategy, $1, $2, NOW()) c
+        ) as contributions
+      FROM active
+    `;
+
+    try {
+      const result = await pool.query(query, [locationId, ingredient, DEFAULT_SCORING_STRATEGY]);
+      const row = result.rows[0];
+      const { prior, contributions } = explainContributions(
+        (row.contributions as ScoreContributionRow[]).map(contribution => ({
+          ratingId: contribution.rating_id,
+          timestamp: new Date(contribution.rated_at),
+          score: contribution.score,
+          recencyWeight: contribution.recency_weight,
+          timeWeight: contribution.time_weight
+        })),
+        row.prior && { mean: row.prior.prior_mean, weight: row.prior.prior_weight }
+      );
+
+      return {
+        locationId,
+        ingredient,
+        strategy: row.strategy,
+        ...parseScoreEstimate(row.score_estimate),
+        prior,
+        contributions
+      };
+    } catch (error) {
+      console.error('Error explaining score:', error);
+      throw new Error('Failed to explain score');
+    }
+  }
+
+  /**
+   * Replay ratings in time order, predicting each one with a strategy from only the
+   * ratings of the same location and ingredient before it. Ratings without an earlier
+   * one to predict from are skipped. Pass since to replay only recent ratings.
+   */
+  async backtestStrategy(strategy: string, since: Date | null = null): Promise<ScoringBacktestResult> {
+    // An as_of just before each rating leaves the rating itself out of its prediction
+    const query = `
+      SELECT
+        COUNT(*) as predictions,
+        AVG(ABS(error)) as mean_absolute_error,
+        SQRT(AVG(error * error)) as root_mean_squared_error,
+        AVG(error) as bias
+      FROM (
+        SELECT (estimate->>'score')::DOUBLE PRECISION - score as error
+        FROM (
+          SELECT
+            r.score,
+            calculate_strategy_score_estimate($1, r.location_id, r.ingredient, r.timestamp - INTERVAL '1 microsecond') as estimate
+          FROM ratings r
+          WHERE $2::timestamptz IS NULL OR r.timestamp >= $2
+        ) replayed
+        WHERE (estimate->>'score')::DOUBLE PRECISION > 0
+      ) predictions
+    `;
+
+    try {
+      const result = await pool.query(query, [strategy, since]);
+      const row = result.rows[0];
+      return {
+        strategy,
+        predictions: parseInt(row.predictions) || 0,
+        meanAbsoluteError: parseFloat(row.mean_absolute_error) || 0,
+        rootMeanSquaredError: parseFloat(row.root_mean_squared_error) || 0,
+        bias: parseFloat(row.bias) || 0
+      };
+    } catch (error) {
+      console.error('Error backtesting scoring strategy:', error);
+      throw new Error('Failed to backtest scoring strategy');
+    }
+  }
+
+  /**
+   * Rescore every location with the active strategy, recording a score history snapshot
+   * where the score changed, and refresh the materialized views that store scores.
+   * Returns how many locations were rescored.
+   */
+  async recomputeStoredScores(): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as locations
+      FROM (SELECT record_score_snapshot(id) FROM locations) recorded
+    `;
+
+    try {
+      const result = await pool.query(query);
+      // refresh_location_scores() refreshes concurrently, which needs a unique index this view lacks
+      await pool.query('REFRESH MATERIALIZED VIEW location_scores');
+      await pool.query('SELECT refresh_hot_locations()');
+      return parseInt(result.rows[0].locations) || 0;
+    } catch (error) {
+      console.error('Error recomputing stored scores:', error);
+      throw new Error('Failed to recompute stored scores');
+    }
+  }
+}
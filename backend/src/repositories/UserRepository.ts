@@ -0,0 +1,118 @@
+import pool from '../database/connection';
+import { User, UserRow } from '../types';
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+export class UserRepository {
+
+  /**
+   * Create a user account. Returns null if the email is already registered.
+   */
+  async createUser(email: string, passwordHash: string, displayName?: string): Promise<User | null> {
+    const query = `
+      INSERT INTO users (email, password_hash, display_name)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `;
+
+    try {
+      const result = await pool.query(query, [email.toLowerCase(), passwordHash, displayName || null]);
+      return this.mapUser(result.rows[0]);
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        return null;
+      }
+      console.error('Error creating user:', error);
+      throw new Error('Failed to create user');
+    }
+  }
+
+  /**
+   * Get a user together with their password hash, for login
+   */
+  async getUserByEmail(email: string): Promise<(User & { passwordHash: string }) | null> {
+    const query = `SELECT * FROM users WHERE email = $1`;
+
+    try {
+      const result = await pool.query(query, [email.toLowerCase()]);
+      const row: UserRow | undefined = result.rows[0];
+
+      if (!row) {
+        return null;
+      }
+
+      return { ...this.mapUser(row), passwordHash: row.password_hash };
+    } catch (error) {
+      console.error('Error fetching user by email:', error);
+      throw new Error('Failed to fetch user');
+    }
+  }
+
+  /**
+   * Get a user by ID
+   */
+  async getUserById(userId: string): Promise<User | null> {
+    const query = `SELECT * FROM users WHERE id = $1`;
+
+    try {
+      const result = await pool.query(query, [userId]);
+      return result.rows[0] ? this.mapUser(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      throw new Error('Failed to fetch user');
+    }
+  }
+
+  /**
+   * Store the hash of a newly issued refresh token
+   */
+  async saveRefreshToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    const query = `
+      INSERT INTO refresh_tokens (user_id, token_hash, expires_at)
+      VALUES ($1, $2, $3)
+    `;
+
+    try {
+      await pool.query(query, [userId, tokenHash, expiresAt]);
+    } catch (error) {
+      console.error('Error saving refresh token:', error);
+      throw new Error('Failed to save refresh token');
+    }
+  }
+
+  /**
+   * Revoke a refresh token if it is still live, returning the user it belonged to.
+   * Returns null for unknown, expired or already revoked tokens, so each token works once.
+   */
+  async consumeRefreshToken(tokenHash: string): Promise<string | null> {
+    const query = `
+      UPDATE refresh_tokens
+      SET revoked_at = NOW()
+      WHERE token_hash = $1
+        AND revoked_at IS NULL
+        AND expires_at > NOW()
+      RETURNING user_id
+    `;
+
+    try {
+      const result = await pool.query(query, [tokenHash]);
+      return result.rows[0]?.user_id ?? null;
+    } catch (error) {
+      console.error('Error consuming refresh token:', error);
+      throw new Error('Failed to consume refresh token');
+    }
+  }
+
+  /**
+   * Map a database row to the public user shape (never exposes the password hash)
+   */
+  private mapUser(row: UserRow): User {
+    return {
+      id: row.id,
+      email: row.email,
+      displayName: row.display_name,
+      createdAt: row.created_at
+    };
+  }
+}
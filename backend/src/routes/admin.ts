@@ -0,0 +1,319 @@
+import express from 'express';
+import Joi from 'joi';
+import { LocationRepository } from '../repositories/LocationRepository';
+import { HoursExceptionRepository } from '../repositories/HoursExceptionRepository';
+import { requireAdmin } from '../middleware/auth';
+import {
+  hoursExceptionSchema,
+  locationSchema,
+  locationUpdateSchema,
+  validateHoursException,
+  validateLocationId,
+  validateStoreHours,
+  validateUUID,
+  isValidTimezone
+} from '../utils/validation';
+import {
+  ApiError,
+  CreateHoursExceptionRequest,
+  CreateLocationRequest,
+  HoursExceptionsResponse,
+  UpdateLocationRequest
+} from '../types';
+
+const router = express.Router();
+const locationRepository = new LocationRepository();
+const hoursExceptionRepository = new HoursExceptionRepository();
+
+// Every admin route requires the admin API key
+router.use(requireAdmin);
+
+/**
+ * Validate a location payload against a Joi schema plus store hours logic.
+ * Returns an ApiError when invalid, otherwise the sanitized value.
+ */
+function validateLocationPayload<T>(schema: Joi.ObjectSchema, body: unknown): { value?: T; error?: ApiError } {
+  const { error, value } = schema.validate(body, { abortEarly: false, stripUnknown: true });
+
+  if (error) {
+    return {
+      error: {
+        error: 'Invalid location data',
+        message: error.details.map(d => d.message).join(', '),
+        details: error.details.map(d => ({ field: d.path.join('.'), message: d.message }))
+      }
+    };
+  }
+
+  if (value.hours) {
+    if (!validateStoreHours(value.hours)) {
+      return {
+        error: {
+          error: 'Invalid store hours',
+          message: 'Each interval must open before 24:00 and close at a different time than it opens (a close at or before the open runs past midnight), and intervals must not overlap'
+        }
+      };
+    }
+
+    if (!isValidTimezone(value.hours.timezone)) {
+      return {
+        error: {
+          error: 'Invalid store hours',
+          message: `Unknown timezone: ${value.hours.timezone}`
+        }
+      };
+    }
+  }
+
+  return { value: value as T };
+}
+
+/**
+ * POST /api/admin/locations
+ * Create a new Subway location
+ */
+router.post('/locations', async (req, res) => {
+  try {
+    const { value, error } = validateLocationPayload<CreateLocationRequest>(locationSchema, req.body);
+    if (error || !value) {
+      return res.status(400).json(error);
+    }
+
+    const locationId = await locationRepository.createLocation(value);
+    await locationRepository.invalidateLocationCache(locationId);
+
+    const location = await locationRepository.getLocationById(locationId);
+
+    return res.status(201).json(location);
+  } catch (error) {
+    console.error('Error in POST /api/admin/locations:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to create location'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * PATCH /api/admin/locations/:id
+ * Update name, address, coordinates and/or hours of a location
+ */
+router.patch('/locations/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate location ID format
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    const { value, error } = validateLocationPayload<UpdateLocationRequest>(locationUpdateSchema, req.body);
+    if (error || !value) {
+      return res.status(400).json(error);
+    }
+
+    const updated = await locationRepository.updateLocation(id, value);
+    if (!updated) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    await locationRepository.invalidateLocationCache(id);
+
+    const location = await locationRepository.getLocationById(id);
+
+    return res.json(location);
+  } catch (error) {
+    console.error('Error in PATCH /api/admin/locations/:id:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to update location'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * DELETE /api/admin/locations/:id
+ * Delete a location and all of its ratings
+ */
+router.delete('/locations/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate location ID format
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    const deleted = await locationRepository.deleteLocation(id);
+    if (!deleted) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    await locationRepository.invalidateLocationCache(id);
+
+    return res.json({ id, message: 'Location deleted successfully' });
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/locations/:id:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to delete location'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/admin/locations/:id/hours-exceptions
+ * List a location's holiday and special hours, optionally only those ending on or after ?from=YYYY-MM-DD
+ */
+router.get('/locations/:id/hours-exceptions', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { from } = req.query;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (from !== undefined && (typeof from !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(from))) {
+      const error: ApiError = {
+        error: 'Invalid date',
+        message: 'from must be a date in YYYY-MM-DD format'
+      };
+      return res.status(400).json(error);
+    }
+
+    const exceptions = await hoursExceptionRepository.getExceptionsByLocation(id, from);
+    const response: HoursExceptionsResponse = { exceptions };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/admin/locations/:id/hours-exceptions:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch hours exceptions'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * POST /api/admin/locations/:id/hours-exceptions
+ * Close a location, or give it special hours, for a date range (e.g. a holiday)
+ */
+router.post('/locations/:id/hours-exceptions', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    const { error: schemaError, value } = hoursExceptionSchema.validate(req.body, { abortEarly: false, stripUnknown: true });
+    if (schemaError) {
+      const error: ApiError = {
+        error: 'Invalid hours exception',
+        message: schemaError.details.map(d => d.message).join(', '),
+        details: schemaError.details.map(d => ({ field: d.path.join('.'), message: d.message }))
+      };
+      return res.status(400).json(error);
+    }
+
+    if (!validateHoursException(value)) {
+      const error: ApiError = {
+        error: 'Invalid hours exception',
+        message: 'Dates must be real and endDate on or after startDate; open must be before 24:00 and close different from open (a close at or before the open runs past midnight)'
+      };
+      return res.status(400).json(error);
+    }
+
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const exception = await hoursExceptionRepository.createException(id, value as CreateHoursExceptionRequest);
+
+    // Cached responses carry isOpen, which may now be different
+    await locationRepository.invalidateLocationCache(id);
+
+    return res.status(201).json(exception);
+  } catch (error) {
+    console.error('Error in POST /api/admin/locations/:id/hours-exceptions:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to create hours exception'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * DELETE /api/admin/locations/:id/hours-exceptions/:exceptionId
+ * Remove a holiday or special hours entry
+ */
+router.delete('/locations/:id/hours-exceptions/:exceptionId', async (req, res) => {
+  try {
+    const { id, exceptionId } = req.params;
+
+    if (!validateLocationId(id) || !validateUUID(exceptionId)) {
+      const error: ApiError = {
+        error: 'Invalid ID',
+        message: 'Location ID and exception ID must be valid UUIDs'
+      };
+      return res.status(400).json(error);
+    }
+
+    const deleted = await hoursExceptionRepository.deleteException(id, exceptionId);
+    if (!deleted) {
+      const error: ApiError = {
+        error: 'Hours exception not found',
+        message: `No hours exception found with ID: ${exceptionId}`
+      };
+      return res.status(404).json(error);
+    }
+
+    await locationRepository.invalidateLocationCache(id);
+
+    return res.json({ id: exceptionId, message: 'Hours exception deleted successfully' });
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/locations/:id/hours-exceptions/:exceptionId:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to delete hours exception'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+export default router;
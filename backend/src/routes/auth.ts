@@ -0,0 +1,223 @@
+import express from 'express';
+import { UserRepository } from '../repositories/UserRepository';
+import { authenticate } from '../middleware/auth';
+import { loginSchema, registerSchema } from '../utils/validation';
+import { hashPassword, verifyPassword } from '../utils/passwords';
+import {
+  generateRefreshToken,
+  getAccessTokenTtlSeconds,
+  getJwtSecret,
+  hashRefreshToken,
+  signAccessToken
+} from '../utils/sessionTokens';
+import {
+  ApiError,
+  AuthResponse,
+  LoginRequest,
+  RefreshSessionRequest,
+  RegisterRequest,
+  User
+} from '../types';
+
+const router = express.Router();
+const userRepository = new UserRepository();
+
+// Accounts need JWT_SECRET to sign sessions
+router.use((req, res, next) => {
+  if (!getJwtSecret()) {
+    const error: ApiError = {
+      error: 'Accounts disabled',
+      message: 'JWT_SECRET is not configured on the server'
+    };
+    return res.status(503).json(error);
+  }
+  return next();
+});
+
+/**
+ * POST /api/auth/register
+ * Create an account with email and password and start a session
+ */
+router.post('/register', async (req, res) => {
+  try {
+    const { error, value } = registerSchema.validate(req.body, { abortEarly: false, stripUnknown: true });
+    if (error) {
+      const apiError: ApiError = {
+        error: 'Invalid registration data',
+        message: error.details.map(detail => detail.message).join('; '),
+        details: error.details
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const { email, password, displayName } = value as RegisterRequest;
+    const user = await userRepository.createUser(email, await hashPassword(password), displayName);
+
+    if (!user) {
+      const apiError: ApiError = {
+        error: 'Email already registered',
+        message: 'An account with this email already exists'
+      };
+      return res.status(409).json(apiError);
+    }
+
+    return res.status(201).json(await startSession(user));
+  } catch (error) {
+    console.error('Error in POST /api/auth/register:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to register'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * POST /api/auth/login
+ * Exchange email and password for an access token and refresh token
+ */
+router.post('/login', async (req, res) => {
+  try {
+    const { error, value } = loginSchema.validate(req.body, { abortEarly: false, stripUnknown: true });
+    if (error) {
+      const apiError: ApiError = {
+        error: 'Invalid login data',
+        message: error.details.map(detail => detail.message).join('; ')
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const { email, password } = value as LoginRequest;
+    const account = await userRepository.getUserByEmail(email);
+
+    // Same response for unknown email and wrong password
+    if (!account || !(await verifyPassword(password, account.passwordHash))) {
+      const apiError: ApiError = {
+        error: 'Invalid credentials',
+        message: 'Email or password is incorrect'
+      };
+      return res.status(401).json(apiError);
+    }
+
+    const { passwordHash, ...user } = account;
+    return res.json(await startSession(user));
+  } catch (error) {
+    console.error('Error in POST /api/auth/login:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to log in'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Trade a refresh token for a new session. The old refresh token stops working.
+ */
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = (req.body ?? {}) as Partial<RefreshSessionRequest>;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      const apiError: ApiError = {
+        error: 'Missing required parameters',
+        message: 'refreshToken is required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    const userId = await userRepository.consumeRefreshToken(hashRefreshToken(refreshToken));
+    const user = userId ? await userRepository.getUserById(userId) : null;
+
+    if (!user) {
+      const apiError: ApiError = {
+        error: 'Unauthorized',
+        message: 'The refresh token is invalid, expired or already used',
+        code: 'INVALID_REFRESH_TOKEN'
+      };
+      return res.status(401).json(apiError);
+    }
+
+    return res.json(await startSession(user));
+  } catch (error) {
+    console.error('Error in POST /api/auth/refresh:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to refresh session'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End a session by revoking its refresh token
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = (req.body ?? {}) as Partial<RefreshSessionRequest>;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      const apiError: ApiError = {
+        error: 'Missing required parameters',
+        message: 'refreshToken is required'
+      };
+      return res.status(400).json(apiError);
+    }
+
+    await userRepository.consumeRefreshToken(hashRefreshToken(refreshToken));
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error in POST /api/auth/logout:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to log out'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Get the signed-in user's account
+ */
+router.get('/me', authenticate, async (req, res) => {
+  try {
+    const user = await userRepository.getUserById(req.user!.id);
+
+    if (!user) {
+      const apiError: ApiError = {
+        error: 'User not found',
+        message: 'The account for this session no longer exists'
+      };
+      return res.status(404).json(apiError);
+    }
+
+    return res.json(user);
+  } catch (error) {
+    console.error('Error in GET /api/auth/me:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch account'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * Issue an access token and a stored refresh token for a user
+ */
+async function startSession(user: User): Promise<AuthResponse> {
+  const { refreshToken, tokenHash, expiresAt } = generateRefreshToken();
+  await userRepository.saveRefreshToken(user.id, tokenHash, expiresAt);
+
+  return {
+    user,
+    accessToken: signAccessToken({ id: user.id, email: user.email }, getJwtSecret()!),
+    refreshToken,
+    expiresIn: getAccessTokenTtlSeconds()
+  };
+}
+
+export default router;
@@ -0,0 +1,26 @@
+import express from 'express';
+import { issueDeviceToken } from '../utils/deviceTokens';
+import { ApiError, DeviceTokenResponse } from '../types';
+
+const router = express.Router();
+
+/**
+ * POST /api/devices
+ * Issue a signed anonymous device token. Clients keep it and send it as
+ * X-Device-Token so their ratings are attributed to the same device.
+ */
+router.post('/', (req, res) => {
+  try {
+    const response: DeviceTokenResponse = issueDeviceToken();
+    return res.status(201).json(response);
+  } catch (error) {
+    console.error('Error in POST /api/devices:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to issue device token'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+export default router;
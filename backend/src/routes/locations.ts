@@ -1,21 +1,150 @@
+import crypto from 'crypto';
 import express from 'express';
 import { LocationRepository } from '../repositories/LocationRepository';
 import { RatingRepository } from '../repositories/RatingRepository';
-import { validateCoordinates, validateLocationId } from '../utils/validation';
-import { calculateWeightedScore } from '../utils/weightedScore';
-import { NearbyLocationsRequest, NearbyLocationsResponse, ApiError, SubmitRatingRequest, SubmitRatingResponse } from '../types';
+import { PhotoRepository } from '../repositories/PhotoRepository';
+import { HoursExceptionRepository } from '../repositories/HoursExceptionRepository';
+import { ScoreHistoryRepository } from '../repositories/ScoreHistoryRepository';
+import { RestockRepository } from '../repositories/RestockRepository';
+import { ScoringRepository } from '../repositories/ScoringRepository';
+import { photoStorage } from '../services/photoStorage';
+import {
+  DEFAULT_INGREDIENT,
+  INGREDIENTS,
+  getStoreStatus,
+  RATING_COMMENT_MAX_LENGTH,
+  RATING_TAGS,
+  validateCoordinates,
+  validateIngredient,
+  validateIngredientScores,
+  validateLocationId,
+  validateRatingComment,
+  validateRatingTags
+} from '../utils/validation';
+import { containsProfanity } from '../utils/profanity';
+import { identifyDevice, optionalAuthenticate } from '../middleware/auth';
+import { photoUpload } from '../middleware/photoUpload';
+import { PHOTO_CONTENT_TYPE, processPhoto } from '../utils/photoProcessing';
+import { calculateIngredientScores, calculateWeightedScore } from '../utils/weightedScore';
+import { MAX_FORECAST_HOURS } from '../utils/freshnessForecast';
+import { getLocalDayAndHour } from '../utils/historicalAnalysis';
+import { RESTOCK_PATTERN_DAYS, summarizeRestockPattern } from '../utils/restockDetection';
+import {
+  generateEditToken,
+  getRatingEditableUntil,
+  hashEditToken,
+  isWithinEditWindow,
+  verifyEditToken
+} from '../utils/ratingTokens';
+import {
+  NearbyLocationsRequest,
+  NearbyLocationsResponse,
+  NearbyCursor,
+  NearbySortOrder,
+  ApiError,
+  Ingredient,
+  Rating,
+  RatingFeedback,
+  SubmitRatingRequest,
+  SubmitRatingResponse,
+  UpdateRatingResponse,
+  DeleteRatingResponse,
+  LocationSearchMode,
+  LocationSearchResponse,
+  BoundingBox,
+  LocationsInBoundsResponse,
+  HotLocationsResponse,
+  LocationBatchResponse,
+  LocationPhotosResponse,
+  FreshnessHeatmapResponse,
+  FreshnessForecastResponse,
+  NearbyLocationsPage,
+  AnalysisGranularity,
+  HistoricalAnalysisResponse,
+  ScoreHistoryInterval,
+  ScoreHistoryResponse,
+  ScoreExplanation,
+  RestockEventsResponse,
+  SubwayLocation
+} from '../types';
 
 const router = express.Router();
 const locationRepository = new LocationRepository();
 const ratingRepository = new RatingRepository();
+const photoRepository = new PhotoRepository();
+const hoursExceptionRepository = new HoursExceptionRepository();
+const scoreHistoryRepository = new ScoreHistoryRepository();
+const restockRepository = new RestockRepository();
+const scoringRepository = new ScoringRepository();
+
+// Upper bound on markers returned for a single map viewport
+const MAX_BOUNDS_RESULTS = 200;
+
+// Upper bound on ids accepted by a single batch lookup
+const MAX_BATCH_IDS = 100;
+
+// Upper bound on photos attached to a single rating
+const MAX_PHOTOS_PER_RATING = 3;
+
+// Number of photos shown in a location's gallery
+const LOCATION_GALLERY_SIZE = 24;
+
+// Days of ratings the historical analysis covers by default, and at most
+const DEFAULT_ANALYSIS_DAYS = 30;
+const MAX_ANALYSIS_DAYS = 731;
+
+const ANALYSIS_GRANULARITIES: AnalysisGranularity[] = ['all', 'day', 'week', 'month'];
+
+// Days of ratings the freshness heatmap covers by default, and at most
+const DEFAULT_HEATMAP_DAYS = 90;
+const MAX_HEATMAP_DAYS = 365;
+
+// Days of score history returned by default for each interval, and at most
+const DEFAULT_SCORE_HISTORY_DAYS: Record<ScoreHistoryInterval, number> = { day: 30, week: 182 };
+const MAX_SCORE_HISTORY_DAYS = 365;
+
+const SCORE_HISTORY_INTERVALS: ScoreHistoryInterval[] = ['day', 'week'];
+
+// Days of restock events returned at most
+const MAX_RESTOCK_DAYS = 365;
+
+// How far in the past a forecast time may be, to allow for clock skew and slow requests
+const FORECAST_PAST_TOLERANCE_MS = 60 * 60 * 1000;
+
+// Closest matches forecast and ranked for a nearby search with a visit time
+const MAX_FORECAST_CANDIDATES = 100;
+
+const NEARBY_SORT_ORDERS: NearbySortOrder[] = ['distance', 'score', 'recency', 'blended'];
+
+// Attribute rating submissions and edits to the signed-in user or the rater's anonymous device
+router.use('/:id/ratings', optionalAuthenticate, identifyDevice);
 
 /**
  * GET /api/locations/nearby
- * Get nearby Subway locations based on user coordinates
+ * Get nearby Subway locations based on user coordinates, with each store's open status.
+ * Supports minScore, openNow, recentlyRatedOnly, minRatings and sort=distance|score|recency|blended.
+ * With at=<ISO time>, each location gets a forecast for that visit time, openNow checks the
+ * hours at that time, and minScore and the score and blended sorts use the predicted score
+ * instead of the current one; only the closest MAX_FORECAST_CANDIDATES matches are ranked.
+ * Results are paged; pass nextCursor back as cursor (with the same filters) for the next page.
+ * totalFound counts the locations in this page, not every match in range; a non-null
+ * nextCursor is what signals that more exist.
  */
 router.get('/nearby', async (req, res) => {
   try {
-    const { lat, lng, radius = 5000, limit = 20 } = req.query;
+    const {
+      lat,
+      lng,
+      radius = 5000,
+      limit = 20,
+      cursor,
+      minScore,
+      openNow,
+      recentlyRatedOnly,
+      minRatings,
+      sort = 'distance',
+      at
+    } = req.query;
 
     // Validate required parameters
     if (!lat || !lng) {
@@ -40,7 +169,7 @@ router.get('/nearby', async (req, res) => {
       return res.status(400).json(error);
     }
 
-    if (searchRadius < 100 || searchRadius > 50000) {
+    if (isNaN(searchRadius) || searchRadius < 100 || searchRadius > 50000) {
       const error: ApiError = {
         error: 'Invalid radius',
         message: 'Radius must be between 100 and 50000 meters'
@@ -48,7 +177,7 @@ router.get('/nearby', async (req, res) => {
       return res.status(400).json(error);
     }
 
-    if (maxResults < 1 || maxResults > 100) {
+    if (isNaN(maxResults) || maxResults < 1 || maxResults > 100) {
       const error: ApiError = {
         error: 'Invalid limit',
         message: 'Limit must be between 1 and 100'
@@ -56,20 +185,119 @@ router.get('/nearby', async (req, res) => {
       return res.status(400).json(error);
     }
 
-    // Fetch nearby locations
-    const locations = await locationRepository.getNearbyLocations(
-      { lat: latitude, lng: longitude },
-      searchRadius
-    );
+    if (!NEARBY_SORT_ORDERS.includes(sort as NearbySortOrder)) {
+      const error: ApiError = {
+        error: 'Invalid sort',
+        message: `Sort must be one of: ${NEARBY_SORT_ORDERS.join(', ')}`
+      };
+      return res.status(400).json(error);
+    }
+    const sortOrder = sort as NearbySortOrder;
+
+    const minimumScore = minScore !== undefined ? parseFloat(minScore as string) : undefined;
+    if (minimumScore !== undefined && (isNaN(minimumScore) || minimumScore < 1 || minimumScore > 5)) {
+      const error: ApiError = {
+        error: 'Invalid minScore',
+        message: 'minScore must be between 1 and 5'
+      };
+      return res.status(400).json(error);
+    }
+
+    const minimumRatings = minRatings !== undefined ? parseInt(minRatings as string) : undefined;
+    if (minimumRatings !== undefined && (isNaN(minimumRatings) || minimumRatings < 1 || minimumRatings > 1000)) {
+      const error: ApiError = {
+        error: 'Invalid minRatings',
+        message: 'minRatings must be between 1 and 1000'
+      };
+      return res.status(400).json(error);
+    }
+
+    const onlyOpen = parseBooleanParam(openNow);
+    const onlyRecentlyRated = parseBooleanParam(recentlyRatedOnly);
+    if (onlyOpen === null || onlyRecentlyRated === null) {
+      const error: ApiError = {
+        error: 'Invalid filter',
+        message: 'openNow and recentlyRatedOnly must be true or false'
+      };
+      return res.status(400).json(error);
+    }
+
+    let after: NearbyCursor | undefined;
+    if (cursor !== undefined) {
+      const decoded = decodeNearbyCursor(cursor as string);
+      if (!decoded) {
+        const error: ApiError = {
+          error: 'Invalid cursor',
+          message: 'Cursor must be a nextCursor value returned by this endpoint'
+        };
+        return res.status(400).json(error);
+      }
+      after = decoded;
+    }
+
+    let visitTime: Date | undefined;
+    if (at !== undefined) {
+      const parsed = parseForecastTime(at);
+      if (!parsed) {
+        const error: ApiError = {
+          error: 'Invalid forecast time',
+          message: `at must be an ISO time within the next ${MAX_FORECAST_HOURS / 24} days`
+        };
+        return res.status(400).json(error);
+      }
+      visitTime = parsed;
+    }
 
-    // Limit results
-    const limitedLocations = locations.slice(0, maxResults);
+    let page: NearbyLocationsPage;
+    if (visitTime) {
+      // Predicted scores aren't in SQL, so fetch the closest matches and rank them here
+      const candidates = await locationRepository.getNearbyLocationsPage(
+        { lat: latitude, lng: longitude },
+        searchRadius,
+        {
+          openNow: onlyOpen,
+          openAt: visitTime,
+          recentlyRatedOnly: onlyRecentlyRated,
+          minRatings: minimumRatings,
+          limit: MAX_FORECAST_CANDIDATES
+        }
+      );
+      const forecasts = await ratingRepository.getFreshnessForecasts(candidates.locations, visitTime);
+      const withForecasts = candidates.locations.map(location => {
+        const forecast = forecasts.get(location.id);
+        return forecast ? { ...location, forecast } : location;
+      });
+      page = rankByForecast(withForecasts, {
+        sort: sortOrder,
+        radius: searchRadius,
+        minScore: minimumScore,
+        limit: maxResults,
+        after
+      });
+    } else {
+      page = await locationRepository.getNearbyLocationsPage(
+        { lat: latitude, lng: longitude },
+        searchRadius,
+        {
+          sort: sortOrder,
+          minScore: minimumScore,
+          openNow: onlyOpen,
+          recentlyRatedOnly: onlyRecentlyRated,
+          minRatings: minimumRatings,
+          limit: maxResults,
+          after
+        }
+      );
+    }
 
     const response: NearbyLocationsResponse = {
-      locations: limitedLocations,
+      locations: await withOpenStatus(page.locations),
       userLocation: { lat: latitude, lng: longitude },
       searchRadius,
-      totalFound: locations.length
+      sort: sortOrder,
+      ...(visitTime && { at: visitTime }),
+      totalFound: page.locations.length,
+      nextCursor: page.nextCursor ? encodeNearbyCursor(page.nextCursor) : null
     };
 
     return res.json(response);
@@ -83,9 +311,277 @@ router.get('/nearby', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/locations/hot
+ * Get trending locations near the user with their recent rating velocity
+ */
+router.get('/hot', async (req, res) => {
+  try {
+    const { lat, lng, radius = 5000, limit = 10 } = req.query;
+
+    if (!lat || !lng) {
+      const error: ApiError = {
+        error: 'Missing required parameters',
+        message: 'Both lat and lng parameters are required'
+      };
+      return res.status(400).json(error);
+    }
+
+    const latitude = parseFloat(lat as string);
+    const longitude = parseFloat(lng as string);
+    const searchRadius = parseInt(radius as string);
+    const maxResults = parseInt(limit as string);
+
+    if (!validateCoordinates({ lat: latitude, lng: longitude })) {
+      const error: ApiError = {
+        error: 'Invalid coordinates',
+        message: 'Latitude must be between -90 and 90, longitude must be between -180 and 180'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (isNaN(searchRadius) || searchRadius < 100 || searchRadius > 50000) {
+      const error: ApiError = {
+        error: 'Invalid radius',
+        message: 'Radius must be between 100 and 50000 meters'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (isNaN(maxResults) || maxResults < 1 || maxResults > 50) {
+      const error: ApiError = {
+        error: 'Invalid limit',
+        message: 'Limit must be between 1 and 50'
+      };
+      return res.status(400).json(error);
+    }
+
+    const locations = await locationRepository.getHotLocations(
+      { lat: latitude, lng: longitude },
+      searchRadius,
+      maxResults
+    );
+
+    const response: HotLocationsResponse = {
+      locations,
+      userLocation: { lat: latitude, lng: longitude },
+      searchRadius,
+      totalFound: locations.length
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/hot:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch hot locations'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/search
+ * Fuzzy search locations by name or address, optionally biased towards lat/lng.
+ * mode=autocomplete returns lightweight suggestions for type-ahead.
+ */
+router.get('/search', async (req, res) => {
+  try {
+    const { q, lat, lng, mode = 'full', limit } = req.query;
+    const query = typeof q === 'string' ? q.trim() : '';
+
+    if (query.length < 2 || query.length > 100) {
+      const error: ApiError = {
+        error: 'Invalid search query',
+        message: 'Search query (q) must be between 2 and 100 characters'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (mode !== 'full' && mode !== 'autocomplete') {
+      const error: ApiError = {
+        error: 'Invalid search mode',
+        message: 'Mode must be either "full" or "autocomplete"'
+      };
+      return res.status(400).json(error);
+    }
+
+    // Proximity bias is optional, but needs both coordinates
+    let coordinates: { lat: number; lng: number } | undefined;
+    if (lat !== undefined || lng !== undefined) {
+      coordinates = { lat: parseFloat(lat as string), lng: parseFloat(lng as string) };
+
+      if (!validateCoordinates(coordinates)) {
+        const error: ApiError = {
+          error: 'Invalid coordinates',
+          message: 'Latitude must be between -90 and 90, longitude must be between -180 and 180'
+        };
+        return res.status(400).json(error);
+      }
+    }
+
+    const searchMode: LocationSearchMode = mode;
+    const maxResults = limit !== undefined ? parseInt(limit as string) : (searchMode === 'autocomplete' ? 5 : 10);
+
+    if (isNaN(maxResults) || maxResults < 1 || maxResults > 50) {
+      const error: ApiError = {
+        error: 'Invalid limit',
+        message: 'Limit must be between 1 and 50'
+      };
+      return res.status(400).json(error);
+    }
+
+    const results = searchMode === 'autocomplete'
+      ? await locationRepository.autocompleteLocations(query, { coordinates, limit: maxResults })
+      : await locationRepository.searchLocations(query, { coordinates, limit: maxResults });
+
+    const response: LocationSearchResponse = {
+      query,
+      mode: searchMode,
+      results,
+      totalFound: results.length
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/search:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to search locations'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/within-bounds
+ * Get locations inside a map viewport (north/south/east/west in degrees).
+ * west > east is treated as a viewport crossing the antimeridian.
+ */
+router.get('/within-bounds', async (req, res) => {
+  try {
+    const { north, south, east, west, limit = 100 } = req.query;
+
+    if (north === undefined || south === undefined || east === undefined || west === undefined) {
+      const error: ApiError = {
+        error: 'Missing required parameters',
+        message: 'north, south, east and west parameters are required'
+      };
+      return res.status(400).json(error);
+    }
+
+    const bounds: BoundingBox = {
+      north: parseFloat(north as string),
+      south: parseFloat(south as string),
+      east: parseFloat(east as string),
+      west: parseFloat(west as string)
+    };
+    const maxResults = parseInt(limit as string);
+
+    if (
+      !validateCoordinates({ lat: bounds.north, lng: bounds.east }) ||
+      !validateCoordinates({ lat: bounds.south, lng: bounds.west })
+    ) {
+      const error: ApiError = {
+        error: 'Invalid bounds',
+        message: 'Latitudes must be between -90 and 90, longitudes must be between -180 and 180'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (bounds.north <= bounds.south) {
+      const error: ApiError = {
+        error: 'Invalid bounds',
+        message: 'north must be greater than south'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (isNaN(maxResults) || maxResults < 1 || maxResults > MAX_BOUNDS_RESULTS) {
+      const error: ApiError = {
+        error: 'Invalid limit',
+        message: `Limit must be between 1 and ${MAX_BOUNDS_RESULTS}`
+      };
+      return res.status(400).json(error);
+    }
+
+    const { locations, tooMany } = await locationRepository.getLocationsInBounds(bounds, maxResults);
+
+    const response: LocationsInBoundsResponse = {
+      locations,
+      bounds,
+      totalFound: locations.length,
+      limit: maxResults,
+      tooMany
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/within-bounds:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch locations in bounds'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * POST /api/locations/batch
+ * Get scores and rating stats for up to 100 locations in one request
+ */
+router.post('/batch', async (req, res) => {
+  try {
+    const { ids } = req.body ?? {};
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      const error: ApiError = {
+        error: 'Missing required parameters',
+        message: 'ids must be a non-empty array of location IDs'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (ids.length > MAX_BATCH_IDS) {
+      const error: ApiError = {
+        error: 'Too many IDs',
+        message: `A batch may contain at most ${MAX_BATCH_IDS} location IDs`
+      };
+      return res.status(400).json(error);
+    }
+
+    const invalidIds = ids.filter(id => typeof id !== 'string' || !validateLocationId(id));
+    if (invalidIds.length > 0) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location IDs must be valid UUIDs',
+        details: { invalidIds }
+      };
+      return res.status(400).json(error);
+    }
+
+    const locations = await locationRepository.getLocationsBatch(ids);
+    const foundIds = new Set(locations.map(location => location.id));
+
+    const response: LocationBatchResponse = {
+      locations,
+      notFound: [...new Set<string>(ids)].filter(id => !foundIds.has(id))
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in POST /api/locations/batch:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch location batch'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
 /**
  * GET /api/locations/:id
- * Get detailed information for a specific location
+ * Get detailed information for a specific location, with its open status
  */
 router.get('/:id', async (req, res) => {
   try {
@@ -111,7 +607,9 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json(error);
     }
 
-    return res.json(location);
+    const restockPattern = await restockRepository.getRestockPattern(id, location.hours.timezone);
+    const [locationWithStatus] = await withOpenStatus([{ ...location, restockPattern }]);
+    return res.json(locationWithStatus);
   } catch (error) {
     console.error('Error in GET /api/locations/:id:', error);
     const apiError: ApiError = {
@@ -124,12 +622,18 @@ router.get('/:id', async (req, res) => {
 
 /**
  * POST /api/locations/:id/ratings
- * Submit a new rating for a location
+ * Submit a new rating for a location.
+ * Ratings are attributed to the signed-in user, else to the X-Device-Token device;
+ * without either they stay anonymous. A rater's repeat inside the repeat window
+ * updates their earlier rating (200, action 'updated') instead of adding one (201, 'created').
+ * Optional tags (predefined freshness tags) and a short comment are stored with the rating.
+ * `score` rates `ingredient` (default lettuce); ingredientScores rates other ingredients
+ * in the same submission, each stored as its own rating under the same edit token.
  */
 router.post('/:id/ratings', async (req, res) => {
   try {
     const { id } = req.params;
-    const { score, userId }: { score: number; userId?: string } = req.body;
+    const { score, ingredient, ingredientScores, tags, comment }: Partial<SubmitRatingRequest> = req.body;
 
     // Validate location ID format
     if (!validateLocationId(id)) {
@@ -149,6 +653,55 @@ router.post('/:id/ratings', async (req, res) => {
       return res.status(400).json(error);
     }
 
+    if (ingredient !== undefined && !validateIngredient(ingredient)) {
+      const error: ApiError = {
+        error: 'Invalid ingredient',
+        message: `Ingredient must be one of: ${INGREDIENTS.join(', ')}`,
+        details: { allowedIngredients: INGREDIENTS }
+      };
+      return res.status(400).json(error);
+    }
+
+    const primaryIngredient: Ingredient = ingredient ?? DEFAULT_INGREDIENT;
+
+    if (
+      ingredientScores !== undefined &&
+      (!validateIngredientScores(ingredientScores) || ingredientScores[primaryIngredient] !== undefined)
+    ) {
+      const error: ApiError = {
+        error: 'Invalid ingredient scores',
+        message: `Ingredient scores must map other ingredients (${INGREDIENTS.join(', ')}) to a score between 1 and 5`,
+        details: { allowedIngredients: INGREDIENTS }
+      };
+      return res.status(400).json(error);
+    }
+
+    if (tags !== undefined && !validateRatingTags(tags)) {
+      const error: ApiError = {
+        error: 'Invalid tags',
+        message: `Tags must be distinct values from: ${RATING_TAGS.join(', ')}`,
+        details: { allowedTags: RATING_TAGS }
+      };
+      return res.status(400).json(error);
+    }
+
+    if (comment !== undefined && !validateRatingComment(comment)) {
+      const error: ApiError = {
+        error: 'Invalid comment',
+        message: `Comment must be text of at most ${RATING_COMMENT_MAX_LENGTH} characters`
+      };
+      return res.status(400).json(error);
+    }
+
+    if (comment !== undefined && containsProfanity(comment)) {
+      const error: ApiError = {
+        error: 'Invalid comment',
+        message: 'Please keep comments free of offensive language',
+        code: 'COMMENT_PROFANITY'
+      };
+      return res.status(400).json(error);
+    }
+
     // Check if location exists
     const location = await locationRepository.getLocationById(id);
     if (!location) {
@@ -159,26 +712,65 @@ router.post('/:id/ratings', async (req, res) => {
       return res.status(404).json(error);
     }
 
-    // Create the rating
-    const ratingId = await ratingRepository.createRating(id, score, userId);
+    const feedback: RatingFeedback = {
+      tags: tags ?? [],
+      comment: comment?.trim() || null
+    };
 
-    // Get the newly created rating
-    const ratings = await ratingRepository.getRatingsByLocation(id, 1);
-    if (ratings.length === 0) {
-      throw new Error('Failed to retrieve newly created rating');
-    }
+    // Record the rating, keeping only a hash of the submitter's ownership token
+    const editToken = generateEditToken();
+    const editTokenHash = hashEditToken(editToken);
+    const raterId = req.user?.id ?? req.deviceId;
+    // Each ingredient gets its own rating; tags and comment stay with the primary one
+    const submitted = await ratingRepository.submitRatings(
+      id,
+      [
+        { ingredient: primaryIngredient, score },
+        ...Object.entries(ingredientScores ?? {}).map(([otherIngredient, otherScore]) => ({
+          ingredient: otherIngredient as Ingredient,
+          score: otherScore
+        }))
+      ],
+      raterId,
+      editTokenHash,
+      feedback
+    );
+    const action = submitted[0]!.action;
+
+    // Get the stored ratings
+    const storedRatings = await Promise.all(
+      submitted.map(({ ratingId }) => ratingRepository.getRatingById(ratingId))
+    );
+    const ratings: Rating[] = storedRatings.map(storedRating => {
+      if (!storedRating) {
+        throw new Error('Failed to retrieve submitted rating');
+      }
+      const { editTokenHash: _editTokenHash, ...rating } = storedRating;
+      return rating;
+    });
     const newRating = ratings[0]!;
 
-    // Calculate new weighted score
-    const newLocationScore = await calculateWeightedScore(id);
+    // Calculate new weighted scores
+    const [newLocationScore, newIngredientScores] = await Promise.all([
+      calculateWeightedScore(id),
+      calculateIngredientScores(id)
+    ]);
 
     const response: SubmitRatingResponse = {
       rating: newRating,
+      ratings,
+      action,
+      actions: Object.fromEntries(submitted.map(result => [result.ingredient, result.action])),
       newLocationScore,
-      message: 'Rating submitted successfully'
+      ingredientScores: newIngredientScores,
+      message: action === 'updated'
+        ? 'Your earlier rating was updated'
+        : 'Rating submitted successfully',
+      editToken,
+      editableUntil: getRatingEditableUntil(newRating.timestamp)
     };
 
-    return res.status(201).json(response);
+    return res.status(action === 'updated' ? 200 : 201).json(response);
   } catch (error) {
     console.error('Error in POST /api/locations/:id/ratings:', error);
     const apiError: ApiError = {
@@ -190,34 +782,259 @@ router.post('/:id/ratings', async (req, res) => {
 });
 
 /**
- * GET /api/locations/:id/ratings/summary
- * Get rating summary and analysis for a location
+ * PATCH /api/locations/:id/ratings/:ratingId
+ * Change the score of a rating within its edit window.
+ * Requires the editToken from the submit response in the X-Rating-Token header,
+ * or the session or X-Device-Token of whoever submitted it.
  */
-router.get('/:id/ratings/summary', async (req, res) => {
+router.patch('/:id/ratings/:ratingId', async (req, res) => {
   try {
-    const { id } = req.params;
+    const { id, ratingId } = req.params;
+    const { score } = req.body ?? {};
 
-    // Validate location ID format
-    if (!validateLocationId(id)) {
+    if (!score || typeof score !== 'number' || score < 1 || score > 5) {
       const error: ApiError = {
-        error: 'Invalid location ID',
-        message: 'Location ID must be a valid UUID'
+        error: 'Invalid rating score',
+        message: 'Rating score must be a number between 1 and 5'
       };
       return res.status(400).json(error);
     }
 
-    // Check if location exists
-    const location = await locationRepository.getLocationById(id);
-    if (!location) {
+    const check = await checkRatingOwnership(id, ratingId, req.header('X-Rating-Token'), getRaterIds(req));
+    if ('error' in check) {
+      return res.status(check.status).json(check.error);
+    }
+
+    const rating = await ratingRepository.updateRatingScore(ratingId, score);
+    if (!rating) {
       const error: ApiError = {
-        error: 'Location not found',
-        message: `No location found with ID: ${id}`
+        error: 'Rating not found',
+        message: `No rating found with ID: ${ratingId}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const [newLocationScore, ingredientScores] = await Promise.all([
+      calculateWeightedScore(id),
+      calculateIngredientScores(id)
+    ]);
+
+    const response: UpdateRatingResponse = {
+      rating,
+      newLocationScore,
+      ingredientScores,
+      message: 'Rating updated successfully',
+      editableUntil: getRatingEditableUntil(rating.timestamp)
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in PATCH /api/locations/:id/ratings/:ratingId:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to update rating'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * DELETE /api/locations/:id/ratings/:ratingId
+ * Retract a rating within its edit window.
+ * Requires the editToken from the submit response in the X-Rating-Token header,
+ * or the session or X-Device-Token of whoever submitted it.
+ */
+router.delete('/:id/ratings/:ratingId', async (req, res) => {
+  try {
+    const { id, ratingId } = req.params;
+
+    const check = await checkRatingOwnership(id, ratingId, req.header('X-Rating-Token'), getRaterIds(req));
+    if ('error' in check) {
+      return res.status(check.status).json(check.error);
+    }
+
+    // Photo rows go with the rating (ON DELETE CASCADE); their files are removed below
+    const photoIds = await photoRepository.getPhotoIdsByRating(ratingId);
+
+    const deleted = await ratingRepository.deleteRating(ratingId);
+    if (!deleted) {
+      const error: ApiError = {
+        error: 'Rating not found',
+        message: `No rating found with ID: ${ratingId}`
+      };
+      return res.status(404).json(error);
+    }
+
+    await Promise.all(photoIds.map(photoId => photoStorage.remove(photoId)));
+
+    const [newLocationScore, ingredientScores] = await Promise.all([
+      calculateWeightedScore(id),
+      calculateIngredientScores(id)
+    ]);
+
+    const response: DeleteRatingResponse = {
+      newLocationScore,
+      ingredientScores,
+      message: 'Rating deleted successfully'
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in DELETE /api/locations/:id/ratings/:ratingId:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to delete rating'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * POST /api/locations/:id/ratings/:ratingId/photos
+ * Attach a photo (multipart field `photo`, JPEG/PNG/WebP) to a rating within its edit window.
+ * Same ownership rules as editing the rating. The image is stored re-encoded without
+ * EXIF/GPS metadata, alongside a thumbnail.
+ */
+router.post('/:id/ratings/:ratingId/photos', requireRatingOwnership, photoUpload, async (req, res) => {
+  try {
+    const { id, ratingId } = req.params;
+
+    if (!req.file) {
+      const error: ApiError = {
+        error: 'Missing photo',
+        message: 'Send the image as multipart/form-data in the "photo" field'
+      };
+      return res.status(400).json(error);
+    }
+
+    const tooManyPhotos: ApiError = {
+      error: 'Too many photos',
+      message: `A rating can have at most ${MAX_PHOTOS_PER_RATING} photos`
+    };
+
+    // Checked up front to skip processing; createPhoto enforces the limit for concurrent uploads
+    const existingPhotoIds = await photoRepository.getPhotoIdsByRating(ratingId);
+    if (existingPhotoIds.length >= MAX_PHOTOS_PER_RATING) {
+      return res.status(400).json(tooManyPhotos);
+    }
+
+    // Decode and re-encode rather than trusting the declared content type
+    const processed = await processPhoto(req.file.buffer);
+    if (!processed) {
+      const error: ApiError = {
+        error: 'Unsupported photo type',
+        message: 'The upload is not a readable JPEG, PNG or WebP image'
+      };
+      return res.status(415).json(error);
+    }
+
+    const photoId = crypto.randomUUID();
+    await photoStorage.save(photoId, processed.image, processed.thumbnail);
+
+    try {
+      const photo = await photoRepository.createPhoto({
+        id: photoId,
+        ratingId,
+        locationId: id,
+        contentType: PHOTO_CONTENT_TYPE,
+        width: processed.width,
+        height: processed.height,
+        sizeBytes: processed.image.length
+      }, MAX_PHOTOS_PER_RATING);
+
+      if (!photo) {
+        await photoStorage.remove(photoId);
+        return res.status(400).json(tooManyPhotos);
+      }
+
+      return res.status(201).json(photo);
+    } catch (error) {
+      // Don't leave files behind for a photo that was never recorded
+      await photoStorage.remove(photoId);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in POST /api/locations/:id/ratings/:ratingId/photos:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to upload photo'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/:id/photos
+ * Get the most recent rating photos for a location, newest first
+ */
+router.get('/:id/photos', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const response: LocationPhotosResponse = {
+      photos: await photoRepository.getPhotosByLocation(id, LOCATION_GALLERY_SIZE)
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/:id/photos:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch photos'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/:id/ratings/summary
+ * Get rating summary and analysis for a location
+ */
+router.get('/:id/ratings/summary', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate location ID format
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    // Check if location exists
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
       };
       return res.status(404).json(error);
     }
 
     // Get rating statistics
     const stats = await ratingRepository.getRatingStats(id);
+
+    // Get how often each freshness tag was reported
+    const tagCounts = await ratingRepository.getTagCounts(id);
     
     // Get weighted score
     const currentScore = await calculateWeightedScore(id);
@@ -238,7 +1055,8 @@ router.get('/:id/ratings/summary', async (req, res) => {
         timeRange: getTimeRangeForPeriod(time.period)
       })),
       recentActivity: stats.recentRatings,
-      scoreDistribution: stats.scoreDistribution
+      scoreDistribution: stats.scoreDistribution,
+      tagCounts
     };
 
     return res.json(response);
@@ -252,7 +1070,625 @@ router.get('/:id/ratings/summary', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/locations/:id/analysis
+ * Time-of-day analysis of lettuce ratings in [from, to), for the whole window and per
+ * granularity bucket (all, day, week or month). from and to take ISO dates or timestamps;
+ * a date-only `to` includes that whole day. Defaults to the last 30 days as one bucket.
+ */
+router.get('/:id/analysis', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { from, to, granularity = 'all' } = req.query;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (!ANALYSIS_GRANULARITIES.includes(granularity as AnalysisGranularity)) {
+      const error: ApiError = {
+        error: 'Invalid granularity',
+        message: `Granularity must be one of: ${ANALYSIS_GRANULARITIES.join(', ')}`
+      };
+      return res.status(400).json(error);
+    }
+
+    const end = to !== undefined ? parseAnalysisDate(to, true) : new Date();
+    const start = from !== undefined
+      ? parseAnalysisDate(from, false)
+      : end && new Date(end.getTime() - DEFAULT_ANALYSIS_DAYS * 24 * 60 * 60 * 1000);
+
+    if (!start || !end || start >= end) {
+      const error: ApiError = {
+        error: 'Invalid date range',
+        message: 'from and to must be ISO dates or timestamps, with from before to'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (end.getTime() - start.getTime() > MAX_ANALYSIS_DAYS * 24 * 60 * 60 * 1000) {
+      const error: ApiError = {
+        error: 'Invalid date range',
+        message: `The analysis window can be at most ${MAX_ANALYSIS_DAYS} days`
+      };
+      return res.status(400).json(error);
+    }
+
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const analysis = await ratingRepository.getHistoricalAnalysisInRange(
+      id,
+      start,
+      end,
+      granularity as AnalysisGranularity
+    );
+
+    const response: HistoricalAnalysisResponse = {
+      locationId: id,
+      from: start,
+      to: end,
+      granularity: granularity as AnalysisGranularity,
+      ...analysis
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/:id/analysis:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch historical analysis'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/:id/analysis/heatmap
+ * Average lettuce score, sample size and confidence for each weekday and hour
+ * in the store's timezone, over the last `days` days (default 90)
+ */
+router.get('/:id/analysis/heatmap', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { days } = req.query;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    const daysAnalyzed = days !== undefined ? parseInt(days as string) : DEFAULT_HEATMAP_DAYS;
+    if (isNaN(daysAnalyzed) || daysAnalyzed < 1 || daysAnalyzed > MAX_HEATMAP_DAYS) {
+      const error: ApiError = {
+        error: 'Invalid days',
+        message: `days must be between 1 and ${MAX_HEATMAP_DAYS}`
+      };
+      return res.status(400).json(error);
+    }
+
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const heatmap = await ratingRepository.getHeatmapAnalysis(id, location.hours.timezone, daysAnalyzed);
+
+    const response: FreshnessHeatmapResponse = {
+      locationId: id,
+      daysAnalyzed,
+      ...heatmap
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/:id/analysis/heatmap:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch heatmap analysis'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/:id/score-history
+ * Min, average and max lettuce score and the number of ratings per UTC day or week
+ * (`interval`, default day) over the last `days` days (default 30, or 182 for weeks)
+ */
+router.get('/:id/score-history', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { interval = 'day', days } = req.query;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (!SCORE_HISTORY_INTERVALS.includes(interval as ScoreHistoryInterval)) {
+      const error: ApiError = {
+        error: 'Invalid interval',
+        message: `interval must be one of: ${SCORE_HISTORY_INTERVALS.join(', ')}`
+      };
+      return res.status(400).json(error);
+    }
+    const historyInterval = interval as ScoreHistoryInterval;
+
+    const historyDays = days !== undefined ? parseInt(days as string) : DEFAULT_SCORE_HISTORY_DAYS[historyInterval];
+    if (isNaN(historyDays) || historyDays < 1 || historyDays > MAX_SCORE_HISTORY_DAYS) {
+      const error: ApiError = {
+        error: 'Invalid days',
+        message: `days must be between 1 and ${MAX_SCORE_HISTORY_DAYS}`
+      };
+      return res.status(400).json(error);
+    }
+
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - historyDays * 24 * 60 * 60 * 1000);
+    const buckets = await scoreHistoryRepository.getScoreHistory(id, from, to, historyInterval);
+
+    const response: ScoreHistoryResponse = {
+      locationId: id,
+      interval: historyInterval,
+      from: buckets[0]?.start ?? from,
+      to,
+      buckets
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/:id/score-history:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch score history'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/:id/score/explain
+ * The ratings behind a location's score of `ingredient` (default lettuce) under the active
+ * scoring strategy, with each rating's recency weight, time weight and share of the score
+ */
+router.get('/:id/score/explain', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { ingredient = DEFAULT_INGREDIENT } = req.query;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    if (!validateIngredient(ingredient)) {
+      const error: ApiError = {
+        error: 'Invalid ingredient',
+        message: `Ingredient must be one of: ${INGREDIENTS.join(', ')}`,
+        details: { allowedIngredients: INGREDIENTS }
+      };
+      return res.status(400).json(error);
+    }
+
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const explanation: ScoreExplanation = await scoringRepository.getScoreExplanation(id, ingredient);
+    return res.json(explanation);
+  } catch (error) {
+    console.error('Error in GET /api/locations/:id/score/explain:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to explain score'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/:id/restocks
+ * Restocks inferred from jumps in the lettuce ratings over the last `days` days (default 180),
+ * newest first, with the days and time the store usually restocks
+ */
+router.get('/:id/restocks', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { days } = req.query;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    const daysAnalyzed = days !== undefined ? parseInt(days as string) : RESTOCK_PATTERN_DAYS;
+    if (isNaN(daysAnalyzed) || daysAnalyzed < 1 || daysAnalyzed > MAX_RESTOCK_DAYS) {
+      const error: ApiError = {
+        error: 'Invalid days',
+        message: `days must be between 1 and ${MAX_RESTOCK_DAYS}`
+      };
+      return res.status(400).json(error);
+    }
+
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const since = new Date(Date.now() - daysAnalyzed * 24 * 60 * 60 * 1000);
+    const events = await restockRepository.getRestockEvents(id, since);
+
+    const response: RestockEventsResponse = {
+      locationId: id,
+      timezone: location.hours.timezone,
+      daysAnalyzed,
+      pattern: summarizeRestockPattern(events, location.hours.timezone),
+      events
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/:id/restocks:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch restock events'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+/**
+ * GET /api/locations/:id/forecast
+ * Predicted lettuce score with an 80% band for a visit at `at` (ISO time, default now,
+ * up to a week ahead), from the store's weekday and hour history and its current score
+ */
+router.get('/:id/forecast', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { at } = req.query;
+
+    if (!validateLocationId(id)) {
+      const error: ApiError = {
+        error: 'Invalid location ID',
+        message: 'Location ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    const visitTime = at !== undefined ? parseForecastTime(at) : new Date();
+    if (!visitTime) {
+      const error: ApiError = {
+        error: 'Invalid forecast time',
+        message: `at must be an ISO time within the next ${MAX_FORECAST_HOURS / 24} days`
+      };
+      return res.status(400).json(error);
+    }
+
+    const location = await locationRepository.getLocationById(id);
+    if (!location) {
+      const error: ApiError = {
+        error: 'Location not found',
+        message: `No location found with ID: ${id}`
+      };
+      return res.status(404).json(error);
+    }
+
+    const forecast = await ratingRepository.getFreshnessForecast(
+      id,
+      location.hours.timezone,
+      { score: location.lettuceScore, lastRated: location.lastRated },
+      visitTime
+    );
+
+    const response: FreshnessForecastResponse = {
+      locationId: id,
+      timezone: location.hours.timezone,
+      ...getLocalDayAndHour(visitTime, location.hours.timezone),
+      ...forecast
+    };
+
+    return res.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/locations/:id/forecast:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch freshness forecast'
+    };
+    return res.status(500).json(apiError);
+  }
+});
+
+
+
+/**
+ * Fill in isOpen, closesAt, opensAt and closingSoon as of now, in each store's timezone.
+ * Computed per request because location results are cached for longer than the status holds.
+ */
+async function withOpenStatus<T extends SubwayLocation>(locations: T[]): Promise<T[]> {
+  // Two days back covers "yesterday" in every timezone, for intervals running past midnight
+  const fromDate = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const exceptions = await hoursExceptionRepository.getExceptionsForLocations(
+    locations.map(location => location.id),
+    fromDate
+  );
+
+  const now = new Date();
+  return locations.map(location => ({
+    ...location,
+    ...getStoreStatus(location.hours, now, exceptions.get(location.id) ?? [])
+  }));
+}
+
+/**
+ * Parse an analysis window bound. A date-only upper bound (YYYY-MM-DD) means the end of that
+ * UTC day. Returns null for anything unparseable.
+ */
+function parseAnalysisDate(value: unknown, isUpperBound: boolean): Date | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  if (isUpperBound && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+/**
+ * Parse a forecast visit time: an ISO time no more than MAX_FORECAST_HOURS ahead and not
+ * meaningfully in the past. Returns null otherwise.
+ */
+function parseForecastTime(value: unknown): Date | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const date = new Date(value);
+  const now = Date.now();
+  if (
+    isNaN(date.getTime()) ||
+    date.getTime() < now - FORECAST_PAST_TOLERANCE_MS ||
+    date.getTime() > now + MAX_FORECAST_HOURS * 60 * 60 * 1000
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Filter, sort and page nearby locations by their forecasts, with the same ordering and
+ * cursor semantics as get_nearby_locations_optimized but the predicted score in place of the current one
+ */
+function rankByForecast(
+  locations: SubwayLocation[],
+  options: { sort: NearbySortOrder; radius: number; minScore: number | undefined; limit: number; after: NearbyCursor | undefined }
+): NearbyLocationsPage {
+  const { sort, radius, minScore, limit, after } = options;
+
+  const ranked = locations
+    .filter(location => minScore === undefined || (location.forecast?.predictedScore ?? 0) >= minScore)
+    .map(location => {
+      const predictedScore = location.forecast?.predictedScore ?? 0;
+      const distance = location.distanceFromUser ?? 0;
+      const sortKey =
+        sort === 'score' ? -predictedScore :
+        sort === 'recency' ? -(location.lastRated ? new Date(location.lastRated).getTime() / 1000 : 0) :
+        sort === 'blended' ? -(0.7 * predictedScore / 5 + 0.3 * (1 - distance / radius)) :
+        distance;
+      return { location, position: { sortKey, distance, id: location.id } };
+    })
+    .sort((a, b) => compareNearbyPositions(a.position, b.position));
 
+  const remaining = after ? ranked.filter(entry => compareNearbyPositions(entry.position, after) > 0) : ranked;
+  const pageEntries = remaining.slice(0, limit);
+  const lastEntry = pageEntries[pageEntries.length - 1];
+
+  return {
+    locations: pageEntries.map(entry => entry.location),
+    nextCursor: remaining.length > limit && lastEntry ? lastEntry.position : null
+  };
+}
+
+/**
+ * Order nearby positions by sort key, then distance, then ID, as the SQL keyset does
+ */
+function compareNearbyPositions(a: NearbyCursor, b: NearbyCursor): number {
+  if (a.sortKey !== b.sortKey) return a.sortKey - b.sortKey;
+  if (a.distance !== b.distance) return a.distance - b.distance;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Encode a nearby pagination position as an opaque URL-safe cursor
+ */
+function encodeNearbyCursor(position: NearbyCursor): string {
+  return Buffer.from(JSON.stringify([position.sortKey, position.distance, position.id])).toString('base64url');
+}
+
+/**
+ * Decode a nearby cursor, returning null if it is malformed
+ */
+function decodeNearbyCursor(cursor: string): NearbyCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      !Array.isArray(decoded) ||
+      !Number.isFinite(decoded[0]) ||
+      !Number.isFinite(decoded[1]) ||
+      typeof decoded[2] !== 'string' ||
+      !validateLocationId(decoded[2])
+    ) {
+      return null;
+    }
+    return { sortKey: decoded[0], distance: decoded[1], id: decoded[2] };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse an optional true/false query flag; returns null if the value is not a boolean
+ */
+function parseBooleanParam(value: unknown): boolean | undefined | null {
+  if (value === undefined) return undefined;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return null;
+}
+
+/**
+ * IDs a rating from this request could have been stored under: the signed-in user and the device
+ */
+function getRaterIds(req: express.Request): string[] {
+  return [req.user?.id, req.deviceId].filter((raterId): raterId is string => raterId !== undefined);
+}
+
+/**
+ * Reject requests for a rating the caller can't change before reading the body,
+ * so uploads for someone else's rating are never buffered
+ */
+async function requireRatingOwnership(
+  req: express.Request<{ id: string; ratingId: string }>,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  try {
+    const { id, ratingId } = req.params;
+    const check = await checkRatingOwnership(id, ratingId, req.header('X-Rating-Token'), getRaterIds(req));
+    if ('error' in check) {
+      return res.status(check.status).json(check.error);
+    }
+    return next();
+  } catch (error) {
+    console.error('Error checking rating ownership:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to check rating ownership'
+    };
+    return res.status(500).json(apiError);
+  }
+}
+
+/**
+ * Check that a rating belongs to the location, that the caller holds its
+ * ownership token or submitted it as this user or device, and that it is
+ * still inside the edit window
+ */
+async function checkRatingOwnership(
+  locationId: string,
+  ratingId: string,
+  token: string | undefined,
+  raterIds: string[]
+): Promise<{ rating: Rating } | { status: number; error: ApiError }> {
+  if (!validateLocationId(locationId) || !validateLocationId(ratingId)) {
+    return {
+      status: 400,
+      error: {
+        error: 'Invalid rating ID',
+        message: 'Location ID and rating ID must be valid UUIDs'
+      }
+    };
+  }
+
+  if (!token && raterIds.length === 0) {
+    return {
+      status: 401,
+      error: {
+        error: 'Unauthorized',
+        message: 'Sign in, or send an X-Rating-Token or X-Device-Token header, to change a rating'
+      }
+    };
+  }
+
+  const rating = await ratingRepository.getRatingById(ratingId);
+  if (!rating || rating.locationId !== locationId) {
+    return {
+      status: 404,
+      error: {
+        error: 'Rating not found',
+        message: `No rating found with ID: ${ratingId}`
+      }
+    };
+  }
+
+  // Either proof is enough: a repeat rating rotates the token, but not the rater
+  const ownsRating =
+    (token !== undefined && verifyEditToken(token, rating.editTokenHash)) ||
+    (rating.userId !== undefined && raterIds.includes(rating.userId));
+
+  if (!ownsRating) {
+    return {
+      status: 403,
+      error: {
+        error: 'Forbidden',
+        message: 'This rating was not submitted by you'
+      }
+    };
+  }
+
+  if (!isWithinEditWindow(rating.timestamp)) {
+    return {
+      status: 403,
+      error: {
+        error: 'Edit window expired',
+        message: 'This rating can no longer be changed',
+        code: 'EDIT_WINDOW_EXPIRED'
+      }
+    };
+  }
+
+  return { rating };
+}
 
 /**
  * Get time range string for a given period
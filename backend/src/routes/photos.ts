@@ -0,0 +1,72 @@
+import express from 'express';
+import { PhotoRepository } from '../repositories/PhotoRepository';
+import { photoStorage, PhotoVariant } from '../services/photoStorage';
+import { validateUUID } from '../utils/validation';
+import { ApiError } from '../types';
+
+const router = express.Router();
+const photoRepository = new PhotoRepository();
+
+/**
+ * GET /api/photos/:id
+ * Serve a rating photo
+ */
+router.get('/:id', async (req, res) => {
+  return servePhoto(req.params.id, 'original', res);
+});
+
+/**
+ * GET /api/photos/:id/thumbnail
+ * Serve the thumbnail of a rating photo
+ */
+router.get('/:id/thumbnail', async (req, res) => {
+  return servePhoto(req.params.id, 'thumbnail', res);
+});
+
+/**
+ * Send a stored photo variant. Photos never change once uploaded, so clients may cache them indefinitely.
+ */
+async function servePhoto(photoId: string, variant: PhotoVariant, res: express.Response) {
+  const notFound: ApiError = {
+    error: 'Photo not found',
+    message: `No photo found with ID: ${photoId}`
+  };
+
+  try {
+    if (!validateUUID(photoId)) {
+      const error: ApiError = {
+        error: 'Invalid photo ID',
+        message: 'Photo ID must be a valid UUID'
+      };
+      return res.status(400).json(error);
+    }
+
+    const photo = await photoRepository.getPhotoById(photoId);
+    if (!photo) {
+      return res.status(404).json(notFound);
+    }
+
+    const options = {
+      headers: {
+        'Content-Type': photo.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable'
+      }
+    };
+
+    return res.sendFile(photoStorage.getPath(photoId, variant), options, (err) => {
+      if (err && !res.headersSent) {
+        console.error(`Photo file missing for ${photoId} (${variant}):`, err);
+        res.status(404).json(notFound);
+      }
+    });
+  } catch (error) {
+    console.error('Error in GET /api/photos/:id:', error);
+    const apiError: ApiError = {
+      error: 'Internal server error',
+      message: 'Failed to fetch photo'
+    };
+    return res.status(500).json(apiError);
+  }
+}
+
+export default router;
@@ -0,0 +1,146 @@
+import pool from '../database/connection';
+import redisClient, { CacheService, connectRedis } from '../cache/redisClient';
+import { ScoringRepository } from '../repositories/ScoringRepository';
+import { ScoringBacktestResult } from '../types';
+import {
+  getConfiguredScoringStrategy,
+  isScoringStrategy,
+  ScoringStrategy,
+  SCORING_STRATEGIES
+} from '../utils/scoringStrategies';
+
+// Cached responses that include location scores
+const SCORE_CACHE_PATTERNS = ['nearby:*', 'bounds:*', 'location:*', 'score:*', 'search:*', 'hot:*', 'popular:*'];
+
+const scoringRepository = new ScoringRepository();
+
+interface BacktestOptions {
+  strategies: ScoringStrategy[];
+  since: Date | null;
+}
+
+/**
+ * Parse `backtest [--days N] [strategy...]`; without strategies every one is backtested
+ */
+export const parseBacktestArgs = (args: string[], now: Date = new Date()): BacktestOptions => {
+  const strategies: ScoringStrategy[] = [];
+  let since: Date | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === '--days') {
+      const days = parseInt(args[i + 1] || '');
+      if (isNaN(days) || days < 1) {
+        throw new Error('--days must be a positive number of days');
+      }
+      since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+      i++;
+    } else if (isScoringStrategy(arg)) {
+      strategies.push(arg);
+    } else {
+      throw new Error(`Unknown scoring strategy: ${arg}`);
+    }
+  }
+
+  return {
+    strategies: strategies.length > 0 ? strategies : Object.keys(SCORING_STRATEGIES) as ScoringStrategy[],
+    since
+  };
+};
+
+/**
+ * Backtest each strategy against the ratings table, most accurate first
+ */
+export const backtestStrategies = async (options: BacktestOptions): Promise<ScoringBacktestResult[]> => {
+  const results: ScoringBacktestResult[] = [];
+  for (const strategy of options.strategies) {
+    console.log(`⏳ Replaying ratings with ${strategy}...`);
+    results.push(await scoringRepository.backtestStrategy(strategy, options.since));
+  }
+  return results.sort((a, b) => a.meanAbsoluteError - b.meanAbsoluteError);
+};
+
+/**
+ * Backtest results as a table, marking the active strategy
+ */
+export const formatBacktestReport = (results: ScoringBacktestResult[], activeStrategy: string): string => {
+  const header = `${'strategy'.padEnd(16)}${'predictions'.padStart(12)}${'MAE'.padStart(8)}${'RMSE'.padStart(8)}${'bias'.padStart(8)}`;
+  const rows = results.map(result =>
+    `${result.strategy.padEnd(16)}` +
+    `${String(result.predictions).padStart(12)}` +
+    `${result.meanAbsoluteError.toFixed(3).padStart(8)}` +
+    `${result.rootMeanSquaredError.toFixed(3).padStart(8)}` +
+    `${(result.bias >= 0 ? '+' : '') + result.bias.toFixed(3)}`.padStart(8) +
+    (result.strategy === activeStrategy ? '  (active)' : '')
+  );
+  return [header, ...rows].join('\n');
+};
+
+/**
+ * Switch to a strategy and rescore every location with it: score history, the
+ * materialized views and cached responses. Returns how many locations were rescored.
+ */
+export const recomputeScores = async (strategy: ScoringStrategy): Promise<number> => {
+  await scoringRepository.setActiveStrategy(strategy);
+  const locations = await scoringRepository.recomputeStoredScores();
+
+  let clearedKeys = 0;
+  for (const pattern of SCORE_CACHE_PATTERNS) {
+    clearedKeys += await CacheService.delPattern(pattern);
+  }
+  console.log(`🧹 Cleared ${clearedKeys} cached responses`);
+
+  return locations;
+};
+
+// CLI execution
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  (async () => {
+    try {
+      switch (command) {
+        case 'backtest': {
+          const results = await backtestStrategies(parseBacktestArgs(args.slice(1)));
+          const activeStrategy = await scoringRepository.getActiveStrategy();
+          console.log(formatBacktestReport(results, activeStrategy));
+          break;
+        }
+        case 'recompute': {
+          const strategy = getConfiguredScoringStrategy();
+          const redisConnected = await connectRedis();
+          if (!redisConnected) {
+            console.warn('⚠️ Redis unavailable - cached scores expire on their own');
+          }
+          const locations = await recomputeScores(strategy);
+          console.log(`✅ Rescored ${locations} locations with ${strategy}`);
+          break;
+        }
+        case 'status': {
+          const activeStrategy = await scoringRepository.getActiveStrategy();
+          const configuredStrategy = getConfiguredScoringStrategy();
+          console.log(`🥬 Active scoring strategy: ${activeStrategy}`);
+          if (configuredStrategy !== activeStrategy) {
+            console.log(`⚠️ SCORING_STRATEGY is ${configuredStrategy}; run recompute to switch`);
+          }
+          break;
+        }
+        default:
+          console.log('Usage: ts-node scoring.ts [backtest|recompute|status]');
+          console.log('  backtest [--days N] [strategy...] - Replay ratings and compare how well strategies predict the next one');
+          console.log('  recompute                         - Switch to SCORING_STRATEGY and rescore every location');
+          console.log('  status                            - Show the active strategy');
+          console.log(`  Strategies: ${Object.keys(SCORING_STRATEGIES).join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Scoring command failed:', error);
+      process.exit(1);
+    } finally {
+      await pool.end();
+      if (redisClient.isOpen) {
+        await redisClient.quit();
+      }
+    }
+  })();
+}
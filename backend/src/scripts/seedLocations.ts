@@ -1,6 +1,6 @@
 import pool from '../database/connection';
-import { StoreHours, Coordinates } from '../types';
-import { validateCoordinates, isValidSubwayLocation } from '../utils/validation';
+import { LegacyStoreHours, Coordinates } from '../types';
+import { validateCoordinates, isValidSubwayLocation, normalizeStoreHours } from '../utils/validation';
 
 // Sample Subway locations data (real locations for testing)
 const SAMPLE_LOCATIONS = [
@@ -130,7 +130,7 @@ interface LocationSeedData {
   name: string;
   address: string;
   coordinates: Coordinates;
-  hours: StoreHours;
+  hours: LegacyStoreHours; // one open/close per day, stored as intervals
 }
 
 /**
@@ -169,7 +169,7 @@ export const validateLocationSeedData = (location: LocationSeedData): void => {
 /**
  * Validate store hours data structure
  */
-export const validateStoreHours = (hours: StoreHours): void => {
+export const validateStoreHours = (hours: LegacyStoreHours): void => {
   const requiredDays = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
   const timePattern = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
 
@@ -180,7 +180,7 @@ export const validateStoreHours = (hours: StoreHours): void => {
 
   // Validate each day
   for (const day of requiredDays) {
-    const dayHours = hours[day as keyof StoreHours];
+    const dayHours = hours[day as keyof LegacyStoreHours];
     
     if (!dayHours || typeof dayHours !== 'object') {
       throw new Error(`Missing or invalid hours for ${day}`);
@@ -250,7 +250,7 @@ export const insertLocation = async (location: LocationSeedData): Promise<string
       location.address.trim(),
       location.coordinates.lng,
       location.coordinates.lat,
-      JSON.stringify(location.hours)
+      JSON.stringify(normalizeStoreHours(location.hours))
     ];
 
     const result = await client.query(query, values);
@@ -52,8 +52,8 @@ const corsOptions = {
     }
   },
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Rating-Token', 'X-Device-Token'],
   exposedHeaders: ['X-Total-Count', 'X-Page-Count'],
   maxAge: 86400 // 24 hours
 };
@@ -79,10 +79,11 @@ const rateLimitConfig = {
 const limiter = rateLimit(rateLimitConfig);
 app.use('/api/', limiter);
 
-// Stricter rate limiting for rating submissions
+// Stricter rate limiting for rating submissions. Kept loose enough for offices
+// behind one NAT; per-rater repeats are handled by the rating repeat window.
 const ratingLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
-  max: 5, // 5 ratings per minute per IP
+  max: 30, // 30 ratings per minute per IP
   message: {
     error: 'Too many rating submissions. Please wait before submitting another rating.',
     retryAfter: 60
@@ -92,6 +93,19 @@ const ratingLimiter = rateLimit({
 });
 app.use('/api/locations/*/ratings', ratingLimiter);
 
+// Stricter rate limiting for credential checks to slow down password guessing
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 login/register attempts per 15 minutes per IP
+  message: {
+    error: 'Too many sign-in attempts. Please try again later.',
+    retryAfter: 900
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+app.use(['/api/auth/login', '/api/auth/register'], authLimiter);
+
 // Performance monitoring middleware
 app.use(performanceMiddleware);
 
@@ -215,6 +229,10 @@ app.get('/live', (req, res) => {
 // Import routes
 import locationRoutes from './routes/locations';
 import performanceRoutes from './routes/performance';
+import adminRoutes from './routes/admin';
+import deviceRoutes from './routes/devices';
+import authRoutes from './routes/auth';
+import photoRoutes from './routes/photos';
 
 // API routes
 app.get('/api/test', (req, res) => {
@@ -224,9 +242,21 @@ app.get('/api/test', (req, res) => {
 // Location routes
 app.use('/api/locations', locationRoutes);
 
+// User accounts and sessions (require JWT_SECRET)
+app.use('/api/auth', authRoutes);
+
+// Anonymous device identity
+app.use('/api/devices', deviceRoutes);
+
+// Rating photos (stored under PHOTO_STORAGE_DIR)
+app.use('/api/photos', photoRoutes);
+
 // Performance monitoring routes
 app.use('/api/performance', performanceRoutes);
 
+// Admin routes (require ADMIN_API_KEY)
+app.use('/api/admin', adminRoutes);
+
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error(err.stack);
@@ -270,6 +300,14 @@ const startServer = async () => {
       console.log('🔥 Cache warming service started');
     }
 
+    // Keep the hot_locations materialized view fresh for trending stores
+    const { hotLocationsRefreshService } = await import('./services/hotLocationsRefreshService');
+    hotLocationsRefreshService.startScheduledRefresh(10); // Refresh every 10 minutes
+
+    // Infer restocks from rating jumps so stores' usual restock times stay current
+    const { restockDetectionService } = await import('./services/restockDetectionService');
+    restockDetectionService.startScheduledDetection(60); // Scan every hour
+
     // Start memory monitoring
     MemoryMonitor.startMemoryMonitoring(60000); // Monitor every minute
 
@@ -88,7 +88,9 @@ export class CacheWarmingService {
           l.hours,
           COUNT(r.id) as rating_count,
           AVG(r.score) as avg_score,
-          calculate_lettuce_score(l.id) as lettuce_score
+          calculate_lettuce_score(l.id) as lettuce_score,
+          calculate_ingredient_scores(l.id) as ingredient_scores,
+          is_location_open(l.id, l.hours) as is_open
         FROM locations l
         LEFT JOIN ratings r ON l.id = r.location_id
         WHERE r.timestamp > NOW() - INTERVAL '7 days'
@@ -112,8 +114,10 @@ export class CacheWarmingService {
           },
           hours: row.hours,
           lettuceScore: parseFloat(row.lettuce_score) || 0,
+          ingredientScores: row.ingredient_scores ?? {},
           lastRated: null,
-          recentlyRated: false
+          recentlyRated: false,
+          isOpen: row.is_open
         }
       }));
 
@@ -0,0 +1,66 @@
+import { LocationRepository } from '../repositories/LocationRepository';
+import { PerformanceMonitor } from '../utils/performanceMonitor';
+
+export class HotLocationsRefreshService {
+  private locationRepository: LocationRepository;
+  private refreshInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.locationRepository = new LocationRepository();
+  }
+
+  /**
+   * Start refreshing the hot_locations materialized view on a schedule
+   */
+  startScheduledRefresh(intervalMinutes: number = 10): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+    }
+
+    console.log(`🔥 Refreshing hot locations every ${intervalMinutes} minutes`);
+
+    // Initial refresh
+    this.refresh().catch(error => {
+      console.error('Initial hot locations refresh failed:', error);
+    });
+
+    // Schedule periodic refresh
+    this.refreshInterval = setInterval(() => {
+      this.refresh().catch(error => {
+        console.error('Scheduled hot locations refresh failed:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+  }
+
+  /**
+   * Stop the scheduled refresh
+   */
+  stopScheduledRefresh(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+      console.log('🛑 Hot locations refresh stopped');
+    }
+  }
+
+  /**
+   * Refresh the view now so trending stores and rating velocity stay current
+   */
+  async refresh(): Promise<void> {
+    const timerName = 'hot_locations_refresh';
+    PerformanceMonitor.startTimer(timerName);
+
+    try {
+      await this.locationRepository.refreshHotLocations();
+
+      const duration = PerformanceMonitor.endTimer(timerName);
+      console.log(`✅ Hot locations refreshed in ${duration.toFixed(2)}ms`);
+    } catch (error) {
+      PerformanceMonitor.endTimer(timerName);
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const hotLocationsRefreshService = new HotLocationsRefreshService();
@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Default directory for uploaded photos, relative to the working directory
+const DEFAULT_PHOTO_STORAGE_DIR = 'uploads/photos';
+
+export type PhotoVariant = 'original' | 'thumbnail';
+
+/**
+ * Directory photos are stored in, from PHOTO_STORAGE_DIR
+ */
+export function getPhotoStorageDir(): string {
+  return path.resolve(process.env.PHOTO_STORAGE_DIR || DEFAULT_PHOTO_STORAGE_DIR);
+}
+
+/**
+ * Stores rating photos as files on local disk, one file per photo variant.
+ * Without an explicit directory, PHOTO_STORAGE_DIR is read on each use.
+ */
+export class PhotoStorage {
+  private baseDir: string | undefined;
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * Write both variants of a photo
+   */
+  async save(photoId: string, image: Buffer, thumbnail: Buffer): Promise<void> {
+    await fs.mkdir(this.getDir(), { recursive: true });
+    await Promise.all([
+      fs.writeFile(this.getPath(photoId, 'original'), image),
+      fs.writeFile(this.getPath(photoId, 'thumbnail'), thumbnail)
+    ]);
+  }
+
+  /**
+   * Delete both variants of a photo. Missing files are ignored.
+   */
+  async remove(photoId: string): Promise<void> {
+    await Promise.all(
+      (['original', 'thumbnail'] as PhotoVariant[]).map(variant =>
+        fs.rm(this.getPath(photoId, variant), { force: true })
+      )
+    );
+  }
+
+  /**
+   * Absolute path of a photo variant. photoId must already be validated as a UUID.
+   */
+  getPath(photoId: string, variant: PhotoVariant): string {
+    const suffix = variant === 'thumbnail' ? '_thumb' : '';
+    return path.join(this.getDir(), `${photoId}${suffix}.jpg`);
+  }
+
+  private getDir(): string {
+    return this.baseDir ?? getPhotoStorageDir();
+  }
+}
+
+// Export singleton instance
+export const photoStorage = new PhotoStorage();
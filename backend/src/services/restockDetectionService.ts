@@ -0,0 +1,91 @@
+import { RatingRepository } from '../repositories/RatingRepository';
+import { RestockRepository } from '../repositories/RestockRepository';
+import { detectRestockEvents } from '../utils/restockDetection';
+import { DEFAULT_INGREDIENT } from '../utils/validation';
+import { PerformanceMonitor } from '../utils/performanceMonitor';
+
+// Locations rated within this many hours are re-scanned on each run
+const RECENTLY_RATED_HOURS = 24;
+
+// Days of ratings scanned per location, enough for the ratings before a new jump
+const SCAN_DAYS = 14;
+
+export class RestockDetectionService {
+  private ratingRepository: RatingRepository;
+  private restockRepository: RestockRepository;
+  private detectionInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.ratingRepository = new RatingRepository();
+    this.restockRepository = new RestockRepository();
+  }
+
+  /**
+   * Start scanning recently rated locations for restocks on a schedule
+   */
+  startScheduledDetection(intervalMinutes: number = 60): void {
+    if (this.detectionInterval) {
+      clearInterval(this.detectionInterval);
+    }
+
+    console.log(`🥬 Detecting restocks every ${intervalMinutes} minutes`);
+
+    // Initial scan
+    this.detect().catch(error => {
+      console.error('Initial restock detection failed:', error);
+    });
+
+    // Schedule periodic scans
+    this.detectionInterval = setInterval(() => {
+      this.detect().catch(error => {
+        console.error('Scheduled restock detection failed:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+  }
+
+  /**
+   * Stop the scheduled scans
+   */
+  stopScheduledDetection(): void {
+    if (this.detectionInterval) {
+      clearInterval(this.detectionInterval);
+      this.detectionInterval = null;
+      console.log('🛑 Restock detection stopped');
+    }
+  }
+
+  /**
+   * Scan every recently rated location's lettuce ratings for jumps from low to high scores
+   * and record them as restock events. Returns how many new events were recorded.
+   */
+  async detect(): Promise<number> {
+    const timerName = 'restock_detection';
+    PerformanceMonitor.startTimer(timerName);
+
+    try {
+      const now = new Date();
+      const locationIds = await this.restockRepository.getLocationsRatedSince(
+        new Date(now.getTime() - RECENTLY_RATED_HOURS * 60 * 60 * 1000)
+      );
+      const scanFrom = new Date(now.getTime() - SCAN_DAYS * 24 * 60 * 60 * 1000);
+
+      let recorded = 0;
+      for (const locationId of locationIds) {
+        const ratings = await this.ratingRepository.getRatingsInRange(locationId, scanFrom, now, DEFAULT_INGREDIENT);
+        recorded += await this.restockRepository.recordRestockEvents(locationId, detectRestockEvents(ratings));
+      }
+
+      const duration = PerformanceMonitor.endTimer(timerName);
+      console.log(
+        `✅ Restock detection scanned ${locationIds.length} locations, ${recorded} new events in ${duration.toFixed(2)}ms`
+      );
+      return recorded;
+    } catch (error) {
+      PerformanceMonitor.endTimer(timerName);
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const restockDetectionService = new RestockDetectionService();
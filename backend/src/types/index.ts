@@ -4,18 +4,42 @@ export interface Coordinates {
   lng: number;
 }
 
+// One opening interval in HH:MM. A close at or before the open runs past
+// midnight into the next day (e.g. 18:00-02:00); 24:00 closes at midnight.
+export interface HoursInterval {
+  open: string;
+  close: string;
+}
+
+// A day's opening intervals in order, e.g. a split shift; none when closed all day
+export interface DayHours {
+  intervals: HoursInterval[];
+}
+
+// Single open/close form, still accepted on input and normalized to intervals
+export interface LegacyDayHours {
+  open: string;
+  close: string;
+  closed?: boolean;
+}
+
 // Store hours interface
 export interface StoreHours {
-  monday: { open: string; close: string; closed?: boolean };
-  tuesday: { open: string; close: string; closed?: boolean };
-  wednesday: { open: string; close: string; closed?: boolean };
-  thursday: { open: string; close: string; closed?: boolean };
-  friday: { open: string; close: string; closed?: boolean };
-  saturday: { open: string; close: string; closed?: boolean };
-  sunday: { open: string; close: string; closed?: boolean };
+  monday: DayHours;
+  tuesday: DayHours;
+  wednesday: DayHours;
+  thursday: DayHours;
+  friday: DayHours;
+  saturday: DayHours;
+  sunday: DayHours;
   timezone: string;
 }
 
+// Store hours as accepted on input: each day in either form
+export type StoreHoursInput = Record<DayOfWeek, DayHours | LegacyDayHours> & { timezone: string };
+
+export type LegacyStoreHours = Record<DayOfWeek, LegacyDayHours> & { timezone: string };
+
 // Database row interfaces (matching SQL schema)
 export interface LocationRow {
   id: string;
@@ -42,19 +66,134 @@ export interface SubwayLocation {
   address: string;
   coordinates: Coordinates;
   hours: StoreHours;
-  lettuceScore: number; // 1-5, weighted average of last 10 ratings
-  lastRated?: Date;
-  recentlyRated: boolean; // rated within last 2 hours
+  lettuceScore: number; // 1-5 Bayesian lettuce score, 0 without ratings
+  scoreEstimate?: ScoreEstimate; // lettuce score with its credible interval
+  ingredientScores?: IngredientScores; // weighted score of each ingredient with ratings
+  lastRated?: Date; // latest lettuce rating
+  recentlyRated: boolean; // lettuce rated within last 2 hours
   distanceFromUser?: number; // in meters
-  isOpen?: boolean; // calculated based on current time and hours
+  isOpen?: boolean; // calculated from hours, hours exceptions and the current time
+  closesAt?: Date; // when an open store next closes; absent if open around the clock
+  opensAt?: Date; // when a closed store next opens; absent if not within a week
+  closingSoon?: boolean; // open and closing within 30 minutes
+  scoreTrend?: number[]; // latest lettuce score snapshots, oldest first
+  forecast?: FreshnessForecast; // predicted lettuce score at the requested visit time
+}
+
+// Bayesian score from time-decayed ratings shrunk toward the chain-wide mean, with an
+// 80% credible interval. All zero for a location without ratings.
+export interface ScoreEstimate {
+  score: number;
+  lower: number;
+  upper: number;
+  effectiveSampleSize: number; // ratings counted after time decay, fresh rating = 1
 }
 
+// One rating's part in a score: its weight is recencyWeight x timeWeight, and share is
+// the fraction of the final score it accounts for
+export interface ScoreContribution {
+  ratingId: string;
+  timestamp: Date;
+  score: number; // the rating as given, 1-5
+  recencyWeight: number; // from its position among the latest ratings
+  timeWeight: number; // from its age
+  weight: number;
+  share: number;
+}
+
+// Chain-wide mean a Bayesian score starts from, counted as `weight` fresh ratings
+export interface ScorePrior {
+  mean: number;
+  weight: number;
+  share: number;
+}
+
+// How a location's score was calculated; the shares of the prior and every contribution
+// add up to 1, and the sum of each share times its score is the score
+export interface ScoreExplanation extends ScoreEstimate {
+  locationId: string;
+  ingredient: Ingredient;
+  strategy: string;
+  prior: ScorePrior | null;
+  contributions: ScoreContribution[];
+}
+
+// How well a scoring strategy predicted each rating from the ratings before it
+export interface ScoringBacktestResult {
+  strategy: string;
+  predictions: number; // ratings with an earlier rating of the same ingredient to predict from
+  meanAbsoluteError: number;
+  rootMeanSquaredError: number;
+  bias: number; // mean of predicted minus actual; positive means scores run high
+}
+
+// JSONB returned by calculate_score_estimate
+export interface ScoreEstimateRow {
+  score: number;
+  lower: number;
+  upper: number;
+  effective_sample_size: number;
+}
+
+// Row of score_contributions, as json_agg returns it
+export interface ScoreContributionRow {
+  rating_id: string;
+  rated_at: string;
+  score: number;
+  recency_weight: number;
+  time_weight: number;
+}
+
+// Row of get_location_rating_stats_batch; pg returns the BIGINT counts as strings
+export interface LocationRatingStatsRow {
+  location_id: string;
+  avg_score: number;
+  total_ratings: string;
+  recent_ratings: string;
+  score_1_count: string;
+  score_2_count: string;
+  score_3_count: string;
+  score_4_count: string;
+  score_5_count: string;
+}
+
+// Open status of a store in its own timezone
+export interface StoreStatus {
+  isOpen: boolean;
+  closesAt?: Date;
+  opensAt?: Date;
+  closingSoon: boolean;
+}
+
+// Ingredients that can be rated; ratings without one are lettuce ratings
+export type Ingredient = 'lettuce' | 'tomato' | 'cucumber' | 'onion' | 'spinach';
+
+// Weighted 1-5 score per ingredient, for ingredients that have ratings
+export type IngredientScores = Partial<Record<Ingredient, number>>;
+
 export interface Rating {
   id: string;
   locationId: string;
   score: number; // 1-5
+  ingredient?: Ingredient; // defaults to lettuce
   timestamp: Date;
-  userId?: string; // for future user tracking
+  userId?: string; // anonymous device ID of the rater, when known
+  tags?: RatingTag[];
+  comment?: string | null;
+}
+
+// Predefined freshness tags a rater can attach to a rating
+export type RatingTag = 'wilted' | 'browning' | 'crisp' | 'fresh_batch' | 'low_stock';
+
+// Optional tags and comment stored alongside a rating
+export interface RatingFeedback {
+  tags: RatingTag[];
+  comment: string | null;
+}
+
+export interface RatingTagCount {
+  tag: RatingTag;
+  count: number;
 }
 
 export interface TimeRecommendation {
@@ -65,11 +204,136 @@ export interface TimeRecommendation {
   timeRange: string; // e.g., "6:00 AM - 11:00 AM"
 }
 
+// How an analysis window is split up: one bucket for the whole window, or calendar days, weeks or months (UTC)
+export type AnalysisGranularity = 'all' | 'day' | 'week' | 'month';
+
+// Time-of-day analysis of a set of ratings
+export interface HistoricalAnalysis {
+  timeRecommendations: TimeRecommendation[];
+  bestPeriod?: TimePeriod | undefined;
+  worstPeriod?: TimePeriod | undefined;
+  totalAnalyzedRatings: number;
+  hasReliableData: boolean;
+  optimalTimingMessage: string;
+}
+
+// Analysis of the ratings in [start, end)
+export interface HistoricalAnalysisBucket extends HistoricalAnalysis {
+  start: Date;
+  end: Date;
+}
+
+export interface HistoricalAnalysisResponse extends HistoricalAnalysis {
+  locationId: string;
+  from: Date;
+  to: Date;
+  granularity: AnalysisGranularity;
+  periods: HistoricalAnalysisBucket[]; // the window split by granularity, oldest first
+}
+
+// One hour of one weekday in a freshness heatmap, in the store's timezone
+export interface HeatmapCell {
+  hour: number; // 0-23
+  averageScore: number | null; // null when no ratings fall in this hour
+  sampleSize: number;
+  confidence: ConfidenceLevel;
+}
+
+export interface HeatmapDay {
+  dayOfWeek: DayOfWeek;
+  hours: HeatmapCell[]; // 24 cells, midnight first
+}
+
+export interface FreshnessHeatmap {
+  timezone: string;
+  days: HeatmapDay[]; // Monday first
+  totalAnalyzedRatings: number;
+}
+
+export interface FreshnessHeatmapResponse extends FreshnessHeatmap {
+  locationId: string;
+  daysAnalyzed: number;
+}
+
+// Expected lettuce score at a future visit time: the store's history for that weekday
+// and hour, pulled towards the current score the sooner the visit and the fresher the ratings
+export interface FreshnessForecast {
+  at: Date;
+  predictedScore: number | null; // null when the location has never been rated
+  lowerBound: number | null; // 80% band around predictedScore
+  upperBound: number | null;
+  confidence: ConfidenceLevel;
+  historicalScore: number | null; // expected at that weekday and hour from past ratings
+  currentScore: number | null;
+  momentumWeight: number; // 0-1, share of the prediction taken from the current score
+  sampleSize: number; // past ratings at that weekday and hour
+}
+
+export interface FreshnessForecastResponse extends FreshnessForecast {
+  locationId: string;
+  timezone: string;
+  dayOfWeek: DayOfWeek; // of the visit, in the store's timezone
+  hour: number;
+}
+
+export type ScoreHistoryInterval = 'day' | 'week';
+
+// Lettuce score recorded whenever a rating change moved it
+export interface ScoreSnapshot {
+  score: number;
+  recordedAt: Date;
+}
+
+// Lettuce score over [start, end). The score in effect when the bucket opened
+// counts towards it, so buckets without a snapshot still carry the score.
+export interface ScoreHistoryBucket {
+  start: Date;
+  end: Date;
+  minScore: number | null; // null before the first snapshot
+  avgScore: number | null;
+  maxScore: number | null;
+  ratingCount: number; // lettuce ratings submitted in the bucket
+}
+
+export interface ScoreHistoryResponse {
+  locationId: string;
+  interval: ScoreHistoryInterval;
+  from: Date;
+  to: Date;
+  buckets: ScoreHistoryBucket[]; // oldest first
+}
+
+// Restock inferred from lettuce ratings jumping from low to high scores
+export interface RestockEvent {
+  restockedAt: Date; // first high rating after the jump
+  scoreBefore: number; // average of the ratings just before
+  scoreAfter: number; // average of the ratings just after
+}
+
+// When a store usually restocks, learned from its restock events in the store's timezone
+export interface RestockPattern {
+  typicalDays: DayOfWeek[]; // Monday first; empty until there are enough events
+  typicalTime: string | null; // HH:MM, to the nearest half hour
+  summary: string | null; // e.g. "Usually restocked Tue/Fri ~10 AM"
+  eventCount: number;
+  lastRestockedAt: Date | null;
+  confidence: ConfidenceLevel;
+}
+
+export interface RestockEventsResponse {
+  locationId: string;
+  timezone: string;
+  daysAnalyzed: number;
+  pattern: RestockPattern;
+  events: RestockEvent[]; // newest first
+}
+
 export interface SubwayLocationDetail extends SubwayLocation {
   ratings: Rating[];
   timeRecommendations: TimeRecommendation[];
-  totalRatings: number;
-  averageScore: number;
+  totalRatings: number; // lettuce ratings among `ratings`
+  averageScore: number; // of those lettuce ratings
+  restockPattern?: RestockPattern;
 }
 
 // API request/response types
@@ -78,27 +342,296 @@ export interface NearbyLocationsRequest {
   lng: number;
   radius?: number; // meters, default 5000
   limit?: number; // max results, default 20
+  cursor?: string; // nextCursor from the previous page
+  minScore?: number; // 1-5, only locations scoring at least this
+  openNow?: boolean; // only locations open right now
+  recentlyRatedOnly?: boolean; // only locations rated within the last 2 hours
+  minRatings?: number; // only locations with at least this many ratings
+  sort?: NearbySortOrder; // default 'distance'
+  at?: string; // ISO visit time; score filters and sorts then use the forecast for that time
+}
+
+// blended = 70% lettuce score, 30% proximity within the search radius
+export type NearbySortOrder = 'distance' | 'score' | 'recency' | 'blended';
+
+export interface NearbyFilters {
+  minScore?: number | undefined;
+  openNow?: boolean | undefined;
+  openAt?: Date | undefined; // when openNow checks opening hours; defaults to now
+  recentlyRatedOnly?: boolean | undefined;
+  minRatings?: number | undefined;
 }
 
 export interface NearbyLocationsResponse {
   locations: SubwayLocation[];
   userLocation: Coordinates;
   searchRadius: number;
+  sort: NearbySortOrder;
+  at?: Date; // visit time the forecasts are for, when requested
+  totalFound: number; // locations in this page, not all matches; see nextCursor
+  nextCursor: string | null; // null when there are no more pages
+}
+
+// Keyset position for nearby pagination: last row's sort key, distance and id
+export interface NearbyCursor {
+  sortKey: number;
+  distance: number;
+  id: string;
+}
+
+export interface NearbyLocationsPage {
+  locations: SubwayLocation[];
+  nextCursor: NearbyCursor | null;
+}
+
+export interface HotLocation extends SubwayLocation {
+  ratingCount: number; // ratings in the last 7 days
+  recentRatingCount: number; // ratings in the last 24 hours
+  ratingVelocity: number; // ratings per hour over the last 24 hours
+}
+
+export interface HotLocationsResponse {
+  locations: HotLocation[];
+  userLocation: Coordinates;
+  searchRadius: number;
+  totalFound: number;
+}
+
+// Score and rating stats for one location in a batch lookup
+export interface LocationBatchEntry {
+  id: string;
+  lettuceScore: number;
+  averageScore: number;
+  totalRatings: number;
+  recentRatings: number; // last 24 hours
+  scoreDistribution: { score: number; count: number }[];
+}
+
+export interface LocationBatchRequest {
+  ids: string[]; // up to 100 location UUIDs
+}
+
+export interface LocationBatchResponse {
+  locations: LocationBatchEntry[]; // in request order
+  notFound: string[]; // requested ids with no matching location
+}
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number; // west > east means the box crosses the antimeridian
+}
+
+export interface LocationsInBoundsResponse {
+  locations: SubwayLocation[];
+  bounds: BoundingBox;
+  totalFound: number;
+  limit: number;
+  tooMany: boolean; // more locations than limit in the viewport - zoom in
+}
+
+export type LocationSearchMode = 'full' | 'autocomplete';
+
+export interface LocationSuggestion {
+  id: string;
+  name: string;
+  address: string;
+  coordinates: Coordinates;
+  matchScore: number; // 0-1 trigram word similarity
+  distanceFromUser?: number; // in meters, only when lat/lng provided
+}
+
+export interface LocationSearchResult extends SubwayLocation {
+  matchScore: number; // 0-1 trigram word similarity
+}
+
+export interface LocationSearchResponse {
+  query: string;
+  mode: LocationSearchMode;
+  results: LocationSearchResult[] | LocationSuggestion[];
   totalFound: number;
 }
 
 export interface SubmitRatingRequest {
   locationId: string;
   score: number; // 1-5
-  userId?: string; // optional for future use
+  ingredient?: Ingredient; // what score rates, default lettuce
+  ingredientScores?: IngredientScores; // other ingredients rated in the same submission
+  tags?: RatingTag[];
+  comment?: string;
+}
+
+// User accounts
+export interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  display_name: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  displayName: string | null;
+  createdAt: Date;
+}
+
+// Identity carried by an access token (req.user)
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  displayName?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface RefreshSessionRequest {
+  refreshToken: string;
+}
+
+export interface AuthResponse {
+  user: User;
+  accessToken: string; // send as Authorization: Bearer <accessToken>
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+}
+
+export interface DeviceTokenResponse {
+  deviceId: string;
+  deviceToken: string; // send as X-Device-Token
+}
+
+// created = new rating; updated = replaced the rater's earlier rating inside the repeat window
+export type RatingSubmissionAction = 'created' | 'updated';
+
+// One ingredient's score within a rating submission
+export interface IngredientRatingInput {
+  ingredient: Ingredient;
+  score: number;
+}
+
+export interface SubmittedRating {
+  ratingId: string;
+  ingredient: Ingredient;
+  action: RatingSubmissionAction;
 }
 
 export interface SubmitRatingResponse {
+  rating: Rating; // the rating for `score`; tags, comment and photos belong to it
+  ratings: Rating[]; // every rating from this submission, `rating` first
+  action: RatingSubmissionAction; // what happened to `rating`
+  actions: Partial<Record<Ingredient, RatingSubmissionAction>>; // what happened to each of `ratings`
+  newLocationScore: number;
+  ingredientScores: IngredientScores;
+  message: string;
+  editToken: string; // send as X-Rating-Token to edit or retract this rating; replaces the token of an updated rating
+  editableUntil: Date; // an updated rating stays editable until its first submission's window ends
+}
+
+export interface UpdateRatingRequest {
+  score: number; // 1-5
+}
+
+export interface UpdateRatingResponse {
   rating: Rating;
   newLocationScore: number;
+  ingredientScores: IngredientScores;
+  message: string;
+  editableUntil: Date;
+}
+
+export interface DeleteRatingResponse {
+  newLocationScore: number;
+  ingredientScores: IngredientScores;
   message: string;
 }
 
+// Rating photos
+export interface RatingPhotoRow {
+  id: string;
+  rating_id: string;
+  location_id: string;
+  content_type: string;
+  width: number;
+  height: number;
+  size_bytes: number;
+  created_at: Date;
+}
+
+export interface RatingPhoto {
+  id: string;
+  ratingId: string;
+  locationId: string;
+  url: string; // full-size image, served from /api/photos/:id
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+  createdAt: Date;
+}
+
+export interface LocationPhotosResponse {
+  photos: RatingPhoto[];
+}
+
+// Admin location management
+export interface CreateLocationRequest {
+  name: string;
+  address: string;
+  coordinates: Coordinates;
+  hours: StoreHoursInput;
+}
+
+export type UpdateLocationRequest = Partial<CreateLocationRequest>;
+
+// Holiday and special hours overriding the weekly hours for a date range
+export interface HoursExceptionRow {
+  id: string;
+  location_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;
+  closed: boolean;
+  open_time: string | null;
+  close_time: string | null;
+  reason: string;
+  created_at: Date;
+}
+
+export interface HoursException {
+  id: string;
+  locationId: string;
+  startDate: string; // YYYY-MM-DD in the store's timezone
+  endDate: string; // inclusive
+  closed: boolean;
+  open: string | null; // HH:MM, when not closed
+  close: string | null;
+  reason: string; // e.g. "Thanksgiving"
+  createdAt: Date;
+}
+
+export interface CreateHoursExceptionRequest {
+  startDate: string;
+  endDate: string;
+  closed?: boolean;
+  open?: string;
+  close?: string;
+  reason: string;
+}
+
+export interface HoursExceptionsResponse {
+  exceptions: HoursException[];
+}
+
 // Error response interface
 export interface ApiError {
   error: string;
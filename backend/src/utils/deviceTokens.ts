@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+
+let fallbackSecret: string | null = null;
+
+/**
+ * Secret used to sign device tokens, from DEVICE_TOKEN_SECRET.
+ * Without it a random per-process secret is used, so tokens stop verifying on restart.
+ */
+function getDeviceTokenSecret(): string {
+  const secret = process.env.DEVICE_TOKEN_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (!fallbackSecret) {
+    console.warn('⚠️ DEVICE_TOKEN_SECRET is not set - device tokens will not survive a restart');
+    fallbackSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+function sign(deviceId: string): string {
+  return crypto.createHmac('sha256', getDeviceTokenSecret()).update(deviceId).digest('base64url');
+}
+
+/**
+ * Issue a new anonymous device identity.
+ * The token is `<deviceId>.<signature>`; deviceId is a UUID so it fits ratings.user_id.
+ */
+export function issueDeviceToken(): { deviceId: string; deviceToken: string } {
+  const deviceId = crypto.randomUUID();
+  return { deviceId, deviceToken: `${deviceId}.${sign(deviceId)}` };
+}
+
+/**
+ * Verify a device token and return its deviceId, or null if it was not signed by us
+ */
+export function verifyDeviceToken(token: string): string | null {
+  const [deviceId, signature, ...rest] = token.split('.');
+  if (!deviceId || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(deviceId));
+  const presented = Buffer.from(signature);
+
+  if (expected.length !== presented.length || !crypto.timingSafeEqual(expected, presented)) {
+    return null;
+  }
+
+  return deviceId;
+}
@@ -0,0 +1,134 @@
+import { FreshnessForecast, Rating } from '../types';
+import { buildFreshnessHeatmap, calculateConfidence, getLocalDayAndHour } from './historicalAnalysis';
+
+/**
+ * Days of ratings a forecast learns the store's weekday and hour pattern from
+ */
+export const FORECAST_HISTORY_DAYS = 90;
+
+/**
+ * Furthest ahead a visit can be forecast
+ */
+export const MAX_FORECAST_HOURS = 7 * 24;
+
+// Hours over which the current score loses its pull (e-folding time). Counted from the
+// last rating, so a score from a rating an hour ago matters more than one from this morning.
+const MOMENTUM_HOURS = 4;
+
+// Ratings' worth of the store's overall average blended into each weekday and hour,
+// so one lucky rating at 12:00 on a Tuesday doesn't set that slot's expectation
+const PRIOR_WEIGHT = 3;
+
+// Spread of individual ratings assumed until a store has enough of its own
+const DEFAULT_SCORE_SPREAD = 1;
+
+// The current score is a weighted average of the last 10 ratings
+const CURRENT_SCORE_RATINGS = 10;
+
+// z-score of an 80% band
+const BAND_Z = 1.28;
+
+/**
+ * Current lettuce score of a location and when it was last rated
+ */
+export interface CurrentScore {
+  score: number | null;
+  lastRated?: Date | undefined;
+}
+
+/**
+ * Predict the lettuce score at a visit time from the store's ratings (lettuce only,
+ * typically the last FORECAST_HISTORY_DAYS days) and its current score.
+ * Times before now are forecast as now.
+ */
+export function forecastFreshness(
+  ratings: Rating[],
+  timezone: string,
+  current: CurrentScore,
+  at: Date,
+  now: Date = new Date()
+): FreshnessForecast {
+  const { dayOfWeek, hour } = getLocalDayAndHour(at, timezone);
+  const heatmap = buildFreshnessHeatmap(ratings, timezone);
+  const cell = heatmap.days.find(day => day.dayOfWeek === dayOfWeek)?.hours[hour];
+  const sampleSize = cell?.sampleSize ?? 0;
+  const currentScore = current.score !== null && current.score > 0 ? current.score : null;
+
+  const overallScore = ratings.length > 0
+    ? ratings.reduce((sum, rating) => sum + rating.score, 0) / ratings.length
+    : currentScore;
+
+  if (overallScore === null) {
+    return {
+      at,
+      predictedScore: null,
+      lowerBound: null,
+      upperBound: null,
+      confidence: 'low',
+      historicalScore: null,
+      currentScore: null,
+      momentumWeight: 0,
+      sampleSize: 0
+    };
+  }
+
+  const slotAverage = cell?.averageScore ?? null;
+  const slotTotal = slotAverage !== null ? slotAverage * sampleSize : 0;
+  const historicalScore = (slotTotal + PRIOR_WEIGHT * overallScore) / (sampleSize + PRIOR_WEIGHT);
+
+  let momentumWeight = 0;
+  if (currentScore !== null) {
+    const hoursAhead = Math.max(0, (at.getTime() - now.getTime()) / (60 * 60 * 1000));
+    const hoursSinceRating = current.lastRated
+      ? Math.max(0, (now.getTime() - new Date(current.lastRated).getTime()) / (60 * 60 * 1000))
+      : Infinity;
+    momentumWeight = Math.exp(-(hoursSinceRating + hoursAhead) / MOMENTUM_HOURS);
+  }
+
+  const predictedScore = currentScore !== null
+    ? momentumWeight * currentScore + (1 - momentumWeight) * historicalScore
+    : historicalScore;
+
+  // Uncertainty of each estimate, mixed in the same proportions as the prediction
+  const spread = getScoreSpread(ratings);
+  const currentError = spread / Math.sqrt(Math.max(1, Math.min(ratings.length, CURRENT_SCORE_RATINGS)));
+  const historicalError = spread / Math.sqrt(sampleSize + PRIOR_WEIGHT);
+  const error = Math.sqrt(
+    (momentumWeight * currentError) ** 2 + ((1 - momentumWeight) * historicalError) ** 2
+  );
+
+  const effectiveSampleSize = momentumWeight * Math.min(ratings.length, CURRENT_SCORE_RATINGS)
+    + (1 - momentumWeight) * sampleSize;
+
+  return {
+    at,
+    predictedScore: roundScore(predictedScore),
+    lowerBound: roundScore(Math.max(1, predictedScore - BAND_Z * error)),
+    upperBound: roundScore(Math.min(5, predictedScore + BAND_Z * error)),
+    confidence: calculateConfidence(Math.round(effectiveSampleSize)),
+    historicalScore: roundScore(historicalScore),
+    currentScore,
+    momentumWeight: Math.round(momentumWeight * 100) / 100,
+    sampleSize
+  };
+}
+
+/**
+ * Sample standard deviation of rating scores, or DEFAULT_SCORE_SPREAD with too few to tell
+ */
+function getScoreSpread(ratings: Rating[]): number {
+  if (ratings.length < 5) {
+    return DEFAULT_SCORE_SPREAD;
+  }
+
+  const mean = ratings.reduce((sum, rating) => sum + rating.score, 0) / ratings.length;
+  const variance = ratings.reduce((sum, rating) => sum + (rating.score - mean) ** 2, 0) / (ratings.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Round to 2 decimal places
+ */
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
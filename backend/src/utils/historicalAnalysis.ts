@@ -1,4 +1,13 @@
-import { Rating, TimeRecommendation, TimePeriod, ConfidenceLevel } from '../types';
+import {
+  AnalysisGranularity,
+  ConfidenceLevel,
+  DayOfWeek,
+  FreshnessHeatmap,
+  HistoricalAnalysis,
+  Rating,
+  TimePeriod,
+  TimeRecommendation
+} from '../types';
 
 /**
  * Time period definitions in hours (24-hour format)
@@ -10,6 +19,11 @@ export const TIME_PERIODS = {
   evening: { start: 19, end: 23, label: '7:00 PM - 12:00 AM' }
 } as const;
 
+/**
+ * Heatmap rows, Monday first
+ */
+export const HEATMAP_DAYS: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
 /**
  * Confidence thresholds based on sample size
  */
@@ -157,6 +171,66 @@ export function analyzeHistoricalPatterns(ratings: Rating[]): {
   };
 }
 
+/**
+ * Weekday and hour (0-23) of a timestamp in the given timezone
+ */
+export function getLocalDayAndHour(timestamp: Date, timezone: string): { dayOfWeek: DayOfWeek; hour: number } {
+  return readDayAndHour(createDayHourFormatter(timezone), timestamp);
+}
+
+/**
+ * Bucket ratings into a 7x24 grid by weekday and hour in the store's timezone,
+ * so patterns like "Monday mornings are fresh" show up
+ */
+export function buildFreshnessHeatmap(ratings: Rating[], timezone: string): FreshnessHeatmap {
+  const formatter = createDayHourFormatter(timezone);
+  const grid = new Map<DayOfWeek, Rating[][]>(
+    HEATMAP_DAYS.map(day => [day, Array.from({ length: 24 }, () => [] as Rating[])])
+  );
+
+  ratings.forEach(rating => {
+    const { dayOfWeek, hour } = readDayAndHour(formatter, new Date(rating.timestamp));
+    grid.get(dayOfWeek)?.[hour]?.push(rating);
+  });
+
+  return {
+    timezone,
+    days: HEATMAP_DAYS.map(dayOfWeek => ({
+      dayOfWeek,
+      hours: (grid.get(dayOfWeek) ?? []).map((cellRatings, hour) => ({
+        hour,
+        averageScore: cellRatings.length > 0 ? calculateAverageScore(cellRatings) : null,
+        sampleSize: cellRatings.length,
+        confidence: calculateConfidence(cellRatings.length)
+      }))
+    })),
+    totalAnalyzedRatings: ratings.length
+  };
+}
+
+/**
+ * Formatter for the long weekday name and 24-hour clock hour in a timezone
+ */
+function createDayHourFormatter(timezone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'long',
+    hour: 'numeric',
+    hourCycle: 'h23'
+  });
+}
+
+/**
+ * Read the weekday and hour of a timestamp with a createDayHourFormatter formatter
+ */
+function readDayAndHour(formatter: Intl.DateTimeFormat, timestamp: Date): { dayOfWeek: DayOfWeek; hour: number } {
+  const parts = formatter.formatToParts(timestamp);
+  const weekday = parts.find(part => part.type === 'weekday')?.value ?? '';
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value ?? '0', 10);
+
+  return { dayOfWeek: weekday.toLowerCase() as DayOfWeek, hour };
+}
+
 /**
  * Filter ratings by date range (for historical analysis)
  */
@@ -193,4 +267,65 @@ export function getOptimalTimingMessage(analysis: {
   }
   
   return "Unable to determine optimal timing";
-}
\ No newline at end of file
+}
+
+/**
+ * Analyze ratings and add the display message, as returned by the analysis endpoints
+ */
+export function summarizeHistoricalPatterns(ratings: Rating[]): HistoricalAnalysis {
+  const analysis = analyzeHistoricalPatterns(ratings);
+
+  return {
+    ...analysis,
+    optimalTimingMessage: getOptimalTimingMessage(analysis)
+  };
+}
+
+/**
+ * Split [from, to) into calendar buckets (UTC) and assign each rating to its bucket.
+ * The first and last buckets are cut off at from and to; empty buckets are kept.
+ */
+export function splitRatingsByGranularity(
+  ratings: Rating[],
+  from: Date,
+  to: Date,
+  granularity: AnalysisGranularity
+): { start: Date; end: Date; ratings: Rating[] }[] {
+  const buckets: { start: Date; end: Date; ratings: Rating[] }[] = [];
+
+  let start = from;
+  while (start < to) {
+    const next = granularity === 'all' ? to : getNextBucketStart(start, granularity);
+    const end = next < to ? next : to;
+    buckets.push({
+      start,
+      end,
+      ratings: ratings.filter(rating => {
+        const timestamp = new Date(rating.timestamp);
+        return timestamp >= start && timestamp < end;
+      })
+    });
+    start = end;
+  }
+
+  return buckets;
+}
+
+/**
+ * Start of the UTC day, week (Monday) or month after the one containing date
+ */
+export function getNextBucketStart(date: Date, granularity: Exclude<AnalysisGranularity, 'all'>): Date {
+  const next = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (granularity === 'month') {
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  } else if (granularity === 'week') {
+    const daysSinceMonday = (next.getUTCDay() + 6) % 7;
+    next.setUTCDate(next.getUTCDate() - daysSinceMonday + 7);
+  } else {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+
+  return next;
+}
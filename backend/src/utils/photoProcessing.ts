@@ -0,0 +1,65 @@
+import sharp from 'sharp';
+
+// Upload formats we accept; everything is re-encoded to JPEG on the way in
+export const PHOTO_ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Output content type of stored images and thumbnails
+export const PHOTO_CONTENT_TYPE = 'image/jpeg';
+
+// Default upload size limit (5 MB)
+const DEFAULT_PHOTO_MAX_BYTES = 5 * 1024 * 1024;
+
+// Longest edge of stored images and thumbnails, in pixels
+const PHOTO_MAX_DIMENSION = 1600;
+const THUMBNAIL_SIZE = 320;
+
+// Decoded formats matching PHOTO_ALLOWED_TYPES, as reported by sharp
+const ALLOWED_FORMATS = ['jpeg', 'png', 'webp'];
+
+/**
+ * Largest photo upload accepted, in bytes, from PHOTO_MAX_BYTES
+ */
+export function getPhotoMaxBytes(): number {
+  const bytes = parseInt(process.env.PHOTO_MAX_BYTES || '');
+  return isNaN(bytes) || bytes <= 0 ? DEFAULT_PHOTO_MAX_BYTES : bytes;
+}
+
+export interface ProcessedPhoto {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Re-encode an uploaded photo for storage.
+ * The image is rotated upright from its EXIF orientation and then written without any
+ * metadata, so EXIF/GPS data never reaches disk. Returns null if the upload is not a
+ * readable JPEG, PNG or WebP image, whatever its declared content type.
+ */
+export async function processPhoto(upload: Buffer): Promise<ProcessedPhoto | null> {
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(upload).metadata());
+  } catch {
+    return null;
+  }
+
+  if (!format || !ALLOWED_FORMATS.includes(format)) {
+    return null;
+  }
+
+  // sharp drops all metadata on output unless withMetadata() is requested
+  const { data: image, info } = await sharp(upload)
+    .rotate()
+    .resize(PHOTO_MAX_DIMENSION, PHOTO_MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 85, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+
+  const thumbnail = await sharp(image)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+    .jpeg({ quality: 75, mozjpeg: true })
+    .toBuffer();
+
+  return { image, thumbnail, width: info.width, height: info.height };
+}
@@ -0,0 +1,48 @@
+// Words rejected in user-written rating comments. Matched as whole words,
+// case-insensitively, after folding common letter substitutions.
+const BLOCKED_WORDS = [
+  'fuck',
+  'fucking',
+  'fucker',
+  'shit',
+  'shitty',
+  'bitch',
+  'bastard',
+  'asshole',
+  'dick',
+  'cunt',
+  'whore',
+  'slut',
+  'retard',
+  'fag',
+  'faggot',
+  'nigger',
+  'nigga'
+];
+
+const BLOCKED_WORD_SET = new Set(BLOCKED_WORDS);
+
+// Digits and symbols commonly swapped in for letters to dodge filters
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's'
+};
+
+/**
+ * Check whether text contains a blocked word
+ */
+export function containsProfanity(text: string): boolean {
+  const folded = text
+    .toLowerCase()
+    .replace(/[013457@$]/g, char => LEETSPEAK[char] ?? char);
+
+  return folded
+    .split(/[^a-z]+/)
+    .some(word => BLOCKED_WORD_SET.has(word));
+}
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+
+// Default time after submission during which a rating can be edited or retracted
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * Minutes a rating stays editable, from RATING_EDIT_WINDOW_MINUTES
+ */
+export function getRatingEditWindowMinutes(): number {
+  const minutes = parseInt(process.env.RATING_EDIT_WINDOW_MINUTES || '');
+  return isNaN(minutes) || minutes < 0 ? DEFAULT_EDIT_WINDOW_MINUTES : minutes;
+}
+
+/**
+ * Time until which a rating submitted at `timestamp` can be changed
+ */
+export function getRatingEditableUntil(timestamp: Date): Date {
+  return new Date(new Date(timestamp).getTime() + getRatingEditWindowMinutes() * 60 * 1000);
+}
+
+/**
+ * Check whether a rating is still inside its edit window
+ */
+export function isWithinEditWindow(timestamp: Date, now: Date = new Date()): boolean {
+  return now.getTime() <= getRatingEditableUntil(timestamp).getTime();
+}
+
+/**
+ * Create a random ownership token handed to the rating's submitter
+ */
+export function generateEditToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Hash an ownership token for storage - only the hash is kept in the database
+ */
+export function hashEditToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Check a presented token against the stored hash without leaking timing information
+ */
+export function verifyEditToken(token: string, storedHash: string | null): boolean {
+  if (!storedHash) {
+    return false;
+  }
+
+  const presented = Buffer.from(hashEditToken(token));
+  const stored = Buffer.from(storedHash);
+
+  return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+}
@@ -0,0 +1,143 @@
+import { DayOfWeek, Rating, RestockEvent, RestockPattern } from '../types';
+import { calculateConfidence, getLocalDayAndHour, HEATMAP_DAYS } from './historicalAnalysis';
+
+/**
+ * Days of restock events a store's restock pattern is learned from
+ */
+export const RESTOCK_PATTERN_DAYS = 180;
+
+// Ratings averaged on each side of a possible jump, so one odd rating doesn't count as a restock
+const RESTOCK_WINDOW = 2;
+
+// A restock takes the average from at most LOW_SCORE to at least HIGH_SCORE
+const LOW_SCORE = 2.5;
+const HIGH_SCORE = 4;
+
+// Longest gap between the last low and first high rating that still pins down when the
+// restock happened; across a longer gap the lettuce could have changed at any time
+const MAX_JUMP_GAP_HOURS = 12;
+
+// Restock events needed before calling out typical days, and the share of them
+// a weekday needs to count as typical
+const MIN_PATTERN_EVENTS = 3;
+const TYPICAL_DAY_SHARE = 0.25;
+
+const DAY_ABBREVIATIONS: Record<DayOfWeek, string> = {
+  monday: 'Mon',
+  tuesday: 'Tue',
+  wednesday: 'Wed',
+  thursday: 'Thu',
+  friday: 'Fri',
+  saturday: 'Sat',
+  sunday: 'Sun'
+};
+
+/**
+ * Find restocks in a location's lettuce ratings: points where the average of the previous
+ * RESTOCK_WINDOW ratings is low and the average of the next RESTOCK_WINDOW is high.
+ * Ratings may come in any order.
+ */
+export function detectRestockEvents(ratings: Rating[]): RestockEvent[] {
+  const sorted = [...ratings].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const events: RestockEvent[] = [];
+
+  let index = RESTOCK_WINDOW;
+  while (index + RESTOCK_WINDOW <= sorted.length) {
+    const before = sorted.slice(index - RESTOCK_WINDOW, index);
+    const after = sorted.slice(index, index + RESTOCK_WINDOW);
+    const scoreBefore = averageScore(before);
+    const scoreAfter = averageScore(after);
+    const lastLow = new Date(before[before.length - 1]!.timestamp);
+    const firstHigh = new Date(after[0]!.timestamp);
+    const gapHours = (firstHigh.getTime() - lastLow.getTime()) / (60 * 60 * 1000);
+
+    if (scoreBefore <= LOW_SCORE && scoreAfter >= HIGH_SCORE && gapHours <= MAX_JUMP_GAP_HOURS) {
+      events.push({ restockedAt: firstHigh, scoreBefore, scoreAfter });
+      // The ratings after this jump can't also be the low side of another one
+      index += RESTOCK_WINDOW;
+    } else {
+      index++;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Learn the weekdays and time of day a store usually restocks, in its own timezone
+ */
+export function summarizeRestockPattern(events: RestockEvent[], timezone: string): RestockPattern {
+  const lastRestockedAt = events.reduce<Date | null>((latest, event) => {
+    const restockedAt = new Date(event.restockedAt);
+    return latest === null || restockedAt > latest ? restockedAt : latest;
+  }, null);
+
+  const pattern: RestockPattern = {
+    typicalDays: [],
+    typicalTime: null,
+    summary: null,
+    eventCount: events.length,
+    lastRestockedAt,
+    confidence: calculateConfidence(events.length)
+  };
+
+  if (events.length < MIN_PATTERN_EVENTS) {
+    return pattern;
+  }
+
+  const localTimes = events.map(event => {
+    const restockedAt = new Date(event.restockedAt);
+    const { dayOfWeek, hour } = getLocalDayAndHour(restockedAt, timezone);
+    return { dayOfWeek, minutes: hour * 60 + getLocalMinute(restockedAt, timezone) };
+  });
+
+  const typicalDays = HEATMAP_DAYS.filter(day => {
+    const count = localTimes.filter(time => time.dayOfWeek === day).length;
+    return count >= 2 && count >= events.length * TYPICAL_DAY_SHARE;
+  });
+  if (typicalDays.length === 0) {
+    return pattern;
+  }
+
+  // Median time of the restocks on those days, to the nearest half hour
+  const minutes = localTimes
+    .filter(time => typicalDays.includes(time.dayOfWeek))
+    .map(time => time.minutes)
+    .sort((a, b) => a - b);
+  const median = minutes[Math.floor(minutes.length / 2)]!;
+  const rounded = (Math.round(median / 30) * 30) % (24 * 60);
+
+  return {
+    ...pattern,
+    typicalDays,
+    typicalTime: `${String(Math.floor(rounded / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`,
+    summary: `Usually restocked ${typicalDays.map(day => DAY_ABBREVIATIONS[day]).join('/')} ~${formatClockTime(rounded)}`
+  };
+}
+
+/**
+ * Average score of ratings, unrounded
+ */
+function averageScore(ratings: Rating[]): number {
+  return ratings.reduce((sum, rating) => sum + rating.score, 0) / ratings.length;
+}
+
+/**
+ * Minute of the hour in the given timezone; not always the UTC minute (e.g. Asia/Kolkata)
+ */
+function getLocalMinute(date: Date, timezone: string): number {
+  return parseInt(new Intl.DateTimeFormat('en-US', { timeZone: timezone, minute: 'numeric' }).format(date), 10);
+}
+
+/**
+ * Minutes after midnight as a 12-hour time, e.g. "10 AM" or "2:30 PM"
+ */
+function formatClockTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  const period = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0 ? `${displayHour} ${period}` : `${displayHour}:${String(minute).padStart(2, '0')} ${period}`;
+}
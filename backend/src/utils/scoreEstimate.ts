@@ -0,0 +1,29 @@
+import { ScoreEstimate, ScoreEstimateRow, SubwayLocation } from '../types';
+
+/**
+ * Map the JSONB from calculate_score_estimate, the model behind every ingredient score
+ */
+export function parseScoreEstimate(row: ScoreEstimateRow): ScoreEstimate {
+  return {
+    score: Number(row.score),
+    lower: Number(row.lower),
+    upper: Number(row.upper),
+    effectiveSampleSize: Number(row.effective_sample_size)
+  };
+}
+
+/**
+ * Lettuce score and estimate of a location row selecting lettuce_score and score_estimate.
+ * The score is the estimate's, so it always lies inside the estimate's interval.
+ */
+export function mapLettuceScore(row: {
+  lettuce_score?: string | number | null;
+  score_estimate?: ScoreEstimateRow | null;
+}): Pick<SubwayLocation, 'lettuceScore' | 'scoreEstimate'> {
+  if (!row.score_estimate) {
+    return { lettuceScore: parseFloat(String(row.lettuce_score)) || 0 };
+  }
+
+  const scoreEstimate = parseScoreEstimate(row.score_estimate);
+  return { lettuceScore: scoreEstimate.score, scoreEstimate };
+}
@@ -0,0 +1,44 @@
+import { ScoreContribution, ScorePrior } from '../types';
+
+// A rating's weights before its share of the score is known
+export type WeightedRating = Omit<ScoreContribution, 'weight' | 'share'>;
+
+/**
+ * Work out how much each rating, and the prior if the strategy has one, contributes to
+ * the score: each gets its weight over the total weight. Without ratings there is no
+ * score to explain, so the prior is left out too.
+ */
+export function explainContributions(
+  ratings: WeightedRating[],
+  prior: Omit<ScorePrior, 'share'> | null
+): { prior: ScorePrior | null; contributions: ScoreContribution[] } {
+  if (ratings.length === 0) {
+    return { prior: null, contributions: [] };
+  }
+
+  const weights = ratings.map(rating => rating.recencyWeight * rating.timeWeight);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) + (prior?.weight ?? 0);
+
+  return {
+    prior: prior && {
+      mean: roundTo(prior.mean, 2),
+      weight: prior.weight,
+      share: roundTo(prior.weight / totalWeight, 3)
+    },
+    contributions: ratings.map((rating, index) => ({
+      ...rating,
+      recencyWeight: roundTo(rating.recencyWeight, 4),
+      timeWeight: roundTo(rating.timeWeight, 4),
+      weight: roundTo(weights[index]!, 4),
+      share: roundTo(weights[index]! / totalWeight, 3)
+    }))
+  };
+}
+
+/**
+ * Round to a number of decimal places
+ */
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,73 @@
+import { ScoreHistoryBucket, ScoreHistoryInterval, ScoreSnapshot } from '../types';
+import { getNextBucketStart } from './historicalAnalysis';
+
+/**
+ * Start of the UTC day or week (Monday) containing date
+ */
+export function getBucketStart(date: Date, interval: ScoreHistoryInterval): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (interval === 'week') {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+
+  return start;
+}
+
+/**
+ * Key of the bucket containing date, matching to_char(date_trunc(interval, ...), 'YYYY-MM-DD') in UTC
+ */
+export function getBucketKey(date: Date, interval: ScoreHistoryInterval): string {
+  return getBucketStart(date, interval).toISOString().slice(0, 10);
+}
+
+/**
+ * Split [from, to) into whole day or week buckets, the first starting at or before from,
+ * with the min, average and max lettuce score in each. Snapshots must be oldest first;
+ * one recorded before the first bucket sets the score that bucket opens with.
+ * ratingCounts maps bucket keys (see getBucketKey) to the number of ratings in that bucket.
+ */
+export function buildScoreHistory(
+  snapshots: ScoreSnapshot[],
+  ratingCounts: Map<string, number>,
+  from: Date,
+  to: Date,
+  interval: ScoreHistoryInterval
+): ScoreHistoryBucket[] {
+  const buckets: ScoreHistoryBucket[] = [];
+  let start = getBucketStart(from, interval);
+  let currentScore: number | null = null;
+  let index = 0;
+
+  // Score in effect when the first bucket opens
+  while (index < snapshots.length && new Date(snapshots[index]!.recordedAt) < start) {
+    currentScore = snapshots[index]!.score;
+    index++;
+  }
+
+  while (start < to) {
+    const end = getNextBucketStart(start, interval);
+    const scores = currentScore !== null ? [currentScore] : [];
+
+    while (index < snapshots.length && new Date(snapshots[index]!.recordedAt) < end) {
+      currentScore = snapshots[index]!.score;
+      scores.push(currentScore);
+      index++;
+    }
+
+    buckets.push({
+      start,
+      end,
+      minScore: scores.length > 0 ? Math.min(...scores) : null,
+      avgScore: scores.length > 0
+        ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100
+        : null,
+      maxScore: scores.length > 0 ? Math.max(...scores) : null,
+      ratingCount: ratingCounts.get(getBucketKey(start, interval)) ?? 0
+    });
+    start = end;
+  }
+
+  return buckets;
+}
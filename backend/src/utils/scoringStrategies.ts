@@ -0,0 +1,26 @@
+/**
+ * Scoring strategies the database can score locations with, by name. Each is a
+ * score_estimate_<name> SQL function; calculate_score_estimate uses the active one.
+ */
+export const SCORING_STRATEGIES = {
+  bayesian: 'Time-decayed ratings shrunk toward the chain-wide mean, with a credible interval',
+  recency_decay: 'Last 10 ratings, each one older weighted 0.9x as much',
+  time_decay: 'Last 10 ratings by recency, also halved for every 24 hours of age',
+  hot_locations: 'Last 10 ratings weighted by position and age, as hot locations were scored'
+} as const;
+
+export type ScoringStrategy = keyof typeof SCORING_STRATEGIES;
+
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategy = 'bayesian';
+
+export function isScoringStrategy(name: string): name is ScoringStrategy {
+  return Object.prototype.hasOwnProperty.call(SCORING_STRATEGIES, name);
+}
+
+/**
+ * Strategy to score locations with, from SCORING_STRATEGY
+ */
+export function getConfiguredScoringStrategy(): ScoringStrategy {
+  const name = process.env.SCORING_STRATEGY || '';
+  return isScoringStrategy(name) ? name : DEFAULT_SCORING_STRATEGY;
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AuthUser } from '../types';
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+/**
+ * Secret for signing access tokens, from JWT_SECRET. Accounts are disabled without it.
+ */
+export function getJwtSecret(): string | null {
+  return process.env.JWT_SECRET || null;
+}
+
+/**
+ * Lifetime of an access token in seconds, from JWT_ACCESS_TOKEN_TTL
+ */
+export function getAccessTokenTtlSeconds(): number {
+  const seconds = parseInt(process.env.JWT_ACCESS_TOKEN_TTL || '');
+  return isNaN(seconds) || seconds <= 0 ? DEFAULT_ACCESS_TOKEN_TTL_SECONDS : seconds;
+}
+
+function getRefreshTokenTtlDays(): number {
+  const days = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '');
+  return isNaN(days) || days <= 0 ? DEFAULT_REFRESH_TOKEN_TTL_DAYS : days;
+}
+
+/**
+ * Sign a short-lived access token for a user
+ */
+export function signAccessToken(user: AuthUser, secret: string): string {
+  return jwt.sign({ email: user.email }, secret, {
+    subject: user.id,
+    expiresIn: getAccessTokenTtlSeconds()
+  });
+}
+
+/**
+ * Verify an access token and return the user it was issued to, or null if invalid or expired
+ */
+export function verifyAccessToken(token: string, secret: string): AuthUser | null {
+  try {
+    const payload = jwt.verify(token, secret);
+    if (typeof payload === 'string' || !payload.sub || typeof payload.email !== 'string') {
+      return null;
+    }
+    return { id: payload.sub, email: payload.email };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create an opaque refresh token. Only its hash is stored so a database leak
+ * does not hand out live sessions.
+ */
+export function generateRefreshToken(): { refreshToken: string; tokenHash: string; expiresAt: Date } {
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000);
+  return { refreshToken, tokenHash: hashRefreshToken(refreshToken), expiresAt };
+}
+
+export function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
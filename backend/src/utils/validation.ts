@@ -1,16 +1,55 @@
 import Joi from 'joi';
-import { Coordinates, StoreHours } from '../types';
+import {
+  Coordinates,
+  CreateHoursExceptionRequest,
+  DayHours,
+  DayOfWeek,
+  HoursException,
+  HoursInterval,
+  Ingredient,
+  IngredientScores,
+  LegacyDayHours,
+  RatingTag,
+  StoreHours,
+  StoreHoursInput,
+  StoreStatus
+} from '../types';
 
 // Time pattern for HH:MM format (including 24:00 for midnight)
 const timePattern = /^([0-1][0-9]|2[0-4]):[0-5][0-9]$/;
 
-// Day hours schema
-const dayHoursSchema = Joi.object({
+// Date pattern for YYYY-MM-DD format
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+// Days of the week in JavaScript getDay() order
+const DAYS_OF_WEEK: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Days ahead searched for the next opening or closing time
+const STATUS_LOOKAHEAD_DAYS = 7;
+
+// An open store closing within this many minutes is closing soon
+export const CLOSING_SOON_MINUTES = 30;
+
+// Opening interval schema
+const hoursIntervalSchema = Joi.object({
   open: Joi.string().pattern(timePattern).required(),
-  close: Joi.string().pattern(timePattern).required(),
-  closed: Joi.boolean().optional()
+  close: Joi.string().pattern(timePattern).required()
 });
 
+// Day hours schema: a list of intervals, or the single open/close form
+const dayHoursSchema = Joi.alternatives().try(
+  Joi.object({
+    intervals: Joi.array().items(hoursIntervalSchema).required()
+  }),
+  Joi.object({
+    open: Joi.string().pattern(timePattern).required(),
+    close: Joi.string().pattern(timePattern).required(),
+    closed: Joi.boolean().optional()
+  })
+);
+
 // Store hours validation schema
 export const storeHoursSchema = Joi.object({
   monday: dayHoursSchema.required(),
@@ -37,11 +76,65 @@ export const locationSchema = Joi.object({
   hours: storeHoursSchema.required()
 });
 
+// Partial location schema for admin updates (at least one field required)
+export const locationUpdateSchema = locationSchema
+  .fork(['name', 'address', 'coordinates', 'hours'], (schema) => schema.optional())
+  .min(1);
+
+// Hours exception schema: closed for the date range, or open with replacement hours
+export const hoursExceptionSchema = Joi.object({
+  startDate: Joi.string().pattern(datePattern).required(),
+  endDate: Joi.string().pattern(datePattern).required(),
+  closed: Joi.boolean().default(false),
+  open: Joi.when('closed', {
+    is: true,
+    then: Joi.forbidden(),
+    otherwise: Joi.string().pattern(timePattern).required()
+  }),
+  close: Joi.when('closed', {
+    is: true,
+    then: Joi.forbidden(),
+    otherwise: Joi.string().pattern(timePattern).required()
+  }),
+  reason: Joi.string().trim().min(1).max(200).required()
+});
+
+// Ingredients that can be rated, in display order
+export const INGREDIENTS: Ingredient[] = ['lettuce', 'tomato', 'cucumber', 'onion', 'spinach'];
+
+// Ingredient of ratings that don't name one
+export const DEFAULT_INGREDIENT: Ingredient = 'lettuce';
+
+// Freshness tags accepted on ratings, in display order
+export const RATING_TAGS: RatingTag[] = ['wilted', 'browning', 'crisp', 'fresh_batch', 'low_stock'];
+
+// Longest free-text comment accepted on a rating
+export const RATING_COMMENT_MAX_LENGTH = 280;
+
 // Rating validation schema
 export const ratingSchema = Joi.object({
   score: Joi.number().integer().min(1).max(5).required(),
   locationId: Joi.string().uuid().required(),
-  userId: Joi.string().uuid().optional()
+  userId: Joi.string().uuid().optional(),
+  ingredient: Joi.string().valid(...INGREDIENTS).optional(),
+  ingredientScores: Joi.object(
+    Object.fromEntries(INGREDIENTS.map(ingredient => [ingredient, Joi.number().integer().min(1).max(5)]))
+  ).optional(),
+  tags: Joi.array().items(Joi.string().valid(...RATING_TAGS)).unique().optional(),
+  comment: Joi.string().allow('').trim().max(RATING_COMMENT_MAX_LENGTH).optional()
+});
+
+// Account registration validation
+export const registerSchema = Joi.object({
+  email: Joi.string().email().max(255).required(),
+  password: Joi.string().min(8).max(128).required(),
+  displayName: Joi.string().trim().min(1).max(50).optional()
+});
+
+// Login validation
+export const loginSchema = Joi.object({
+  email: Joi.string().email().max(255).required(),
+  password: Joi.string().max(128).required()
 });
 
 // Nearby locations query validation
@@ -107,6 +200,41 @@ export const validateRatingData = (data: any) => {
   return value;
 };
 
+/**
+ * Validate an ingredient name
+ */
+export const validateIngredient = (ingredient: any): ingredient is Ingredient => {
+  return INGREDIENTS.includes(ingredient);
+};
+
+/**
+ * Validate a per-ingredient score map: known ingredients mapped to 1-5 integer scores
+ */
+export const validateIngredientScores = (scores: any): scores is IngredientScores => {
+  return typeof scores === 'object' &&
+         scores !== null &&
+         !Array.isArray(scores) &&
+         Object.entries(scores).every(([ingredient, score]) =>
+           validateIngredient(ingredient) && validateRatingScore(score)
+         );
+};
+
+/**
+ * Validate rating tags: an array of distinct predefined tags
+ */
+export const validateRatingTags = (tags: any): tags is RatingTag[] => {
+  return Array.isArray(tags) &&
+         tags.every(tag => RATING_TAGS.includes(tag)) &&
+         new Set(tags).size === tags.length;
+};
+
+/**
+ * Validate a rating comment: a string of at most RATING_COMMENT_MAX_LENGTH characters
+ */
+export const validateRatingComment = (comment: any): comment is string => {
+  return typeof comment === 'string' && comment.trim().length <= RATING_COMMENT_MAX_LENGTH;
+};
+
 /**
  * Validate nearby locations query parameters
  */
@@ -140,31 +268,119 @@ export const calculateDistance = (coord1: Coordinates, coord2: Coordinates): num
 };
 
 /**
- * Validate store hours structure and logic
+ * Validate store hours structure and logic. Each interval must be non-empty, a day's
+ * intervals must not overlap, and an interval running past midnight must end before
+ * the next day's first interval opens.
  */
-export const validateStoreHours = (hours: any): hours is StoreHours => {
+export const validateStoreHours = (hours: any): hours is StoreHoursInput => {
   const { error } = storeHoursSchema.validate(hours);
   if (error) {
     return false;
   }
 
-  // Additional logical validation
-  const requiredDays = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-  
-  for (const day of requiredDays) {
-    const dayHours = hours[day];
-    
-    if (dayHours.closed) {
-      continue; // Skip validation for closed days
+  const normalized = normalizeStoreHours(hours);
+
+  return DAYS_OF_WEEK.every((day, index) => {
+    const intervals = normalized[day].intervals;
+    if (!intervals.every(interval => isValidHoursInterval(interval.open, interval.close))) {
+      return false;
     }
 
-    // Validate time logic
-    if (!isValidTimeRange(dayHours.open, dayHours.close)) {
+    // Intervals are sorted by opening time, so each must open after the previous one closes
+    const spans = intervals.map(getSameDaySpan);
+    if (spans.some((span, i) => i > 0 && span.start < spans[i - 1]!.end)) {
       return false;
     }
+
+    const nextDay = DAYS_OF_WEEK[(index + 1) % DAYS_OF_WEEK.length]!;
+    const spillEnd = Math.max(0, ...intervals.map(getPastMidnightEnd));
+    return normalized[nextDay].intervals.every(interval => timeToMinutes(interval.open) >= spillEnd);
+  });
+};
+
+/**
+ * Convert store hours to the intervals form, sorting each day's intervals by opening time
+ */
+export const normalizeStoreHours = (hours: StoreHoursInput): StoreHours => {
+  const normalized = { timezone: hours.timezone } as StoreHours;
+  for (const day of DAYS_OF_WEEK) {
+    normalized[day] = normalizeDayHours(hours[day]);
+  }
+  return normalized;
+};
+
+/**
+ * Convert one day's hours to the intervals form
+ */
+const normalizeDayHours = (dayHours: DayHours | LegacyDayHours): DayHours => {
+  if ('intervals' in dayHours) {
+    return {
+      intervals: [...dayHours.intervals].sort((a, b) => timeToMinutes(a.open) - timeToMinutes(b.open))
+    };
+  }
+
+  return { intervals: dayHours.closed ? [] : [{ open: dayHours.open, close: dayHours.close }] };
+};
+
+/**
+ * Check that an opening interval is usable: it opens before midnight and isn't empty.
+ * A close at or before the open means the interval runs past midnight.
+ */
+export const isValidHoursInterval = (openTime: string, closeTime: string): boolean => {
+  const openMinutes = timeToMinutes(openTime);
+  const closeMinutes = timeToMinutes(closeTime);
+
+  return openMinutes < MINUTES_PER_DAY &&
+         closeMinutes <= MINUTES_PER_DAY &&
+         openMinutes !== closeMinutes;
+};
+
+/**
+ * Whether an interval closes after midnight (24:00 closes at midnight, so it doesn't)
+ */
+const runsPastMidnight = (interval: HoursInterval): boolean => {
+  return timeToMinutes(interval.close) <= timeToMinutes(interval.open);
+};
+
+/**
+ * Minutes of the opening day an interval covers; past-midnight intervals run to the end of the day
+ */
+const getSameDaySpan = (interval: HoursInterval): { start: number; end: number } => {
+  return {
+    start: timeToMinutes(interval.open),
+    end: runsPastMidnight(interval) ? MINUTES_PER_DAY : timeToMinutes(interval.close)
+  };
+};
+
+/**
+ * Minute of the next day a past-midnight interval closes at, or 0 for same-day intervals
+ */
+const getPastMidnightEnd = (interval: HoursInterval): number => {
+  return runsPastMidnight(interval) ? timeToMinutes(interval.close) : 0;
+};
+
+/**
+ * Validate an hours exception: schema, real calendar dates in order, and a valid time range
+ */
+export const validateHoursException = (exception: any): exception is CreateHoursExceptionRequest => {
+  const { error, value } = hoursExceptionSchema.validate(exception);
+  if (error) {
+    return false;
   }
 
-  return true;
+  if (!isValidDate(value.startDate) || !isValidDate(value.endDate) || value.endDate < value.startDate) {
+    return false;
+  }
+
+  return value.closed || isValidHoursInterval(value.open, value.close);
+};
+
+/**
+ * Check that a YYYY-MM-DD string is a real calendar date
+ */
+const isValidDate = (date: string): boolean => {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
 };
 
 /**
@@ -198,45 +414,118 @@ export const timeToMinutes = (time: string): number => {
 };
 
 /**
- * Check if a store is currently open based on hours and timezone
+ * Check if a store is currently open based on hours and timezone.
+ * Open during any of today's intervals, or the past-midnight end of yesterday's.
+ * An exception covering a store-local date replaces that day's weekly hours.
  */
-export const isStoreOpen = (hours: StoreHours, currentTime?: Date): boolean => {
+export const isStoreOpen = (hours: StoreHoursInput, currentTime?: Date, exceptions: HoursException[] = []): boolean => {
+  return getStoreStatus(hours, currentTime, exceptions).isOpen;
+};
+
+/**
+ * Work out whether a store is open in its own timezone, and when that next changes.
+ * Back-to-back intervals (such as 24:00 followed by 00:00) count as one opening.
+ */
+export const getStoreStatus = (hours: StoreHoursInput, currentTime?: Date, exceptions: HoursException[] = []): StoreStatus => {
   const now = currentTime || new Date();
-  
+
   try {
     // Convert to store's timezone
     const storeTime = new Date(now.toLocaleString("en-US", { timeZone: hours.timezone }));
-    const dayName = storeTime.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    const currentTimeStr = storeTime.toTimeString().slice(0, 5); // HH:MM format
-    
-    const dayHours = hours[dayName as keyof Omit<StoreHours, 'timezone'>];
-    
-    if (!dayHours || typeof dayHours === 'string' || dayHours.closed) {
-      return false;
+    const currentMinutes = storeTime.getHours() * 60 + storeTime.getMinutes();
+    const spans = getOpeningSpans(normalizeStoreHours(hours), storeTime, exceptions);
+
+    // Store-local minutes are offsets from the current minute, so they convert without the UTC offset
+    const startOfMinute = now.getTime() - (now.getTime() % 60000);
+    const toDate = (minutes: number): Date => new Date(startOfMinute + (minutes - currentMinutes) * 60000);
+
+    const currentSpan = spans.find(span => span.start <= currentMinutes && currentMinutes <= span.end);
+    if (!currentSpan) {
+      const nextSpan = spans.find(span => span.start > currentMinutes);
+      return nextSpan
+        ? { isOpen: false, opensAt: toDate(nextSpan.start), closingSoon: false }
+        : { isOpen: false, closingSoon: false };
     }
 
-    const currentMinutes = timeToMinutes(currentTimeStr);
-    const openMinutes = timeToMinutes(dayHours.open);
-    let closeMinutes = timeToMinutes(dayHours.close);
-
-    // Handle 24:00 as end of day
-    if (dayHours.close === '24:00') {
-      closeMinutes = 24 * 60; // 1440 minutes
+    let closeMinutes = currentSpan.end;
+    let following = spans.find(span => span.start <= closeMinutes && span.end > closeMinutes);
+    while (following) {
+      closeMinutes = following.end;
+      following = spans.find(span => span.start <= closeMinutes && span.end > closeMinutes);
     }
 
-    // Handle overnight hours
-    if (closeMinutes <= openMinutes) {
-      // Store is open overnight (e.g., 22:00 - 06:00)
-      return currentMinutes >= openMinutes || currentMinutes <= closeMinutes;
+    if (closeMinutes >= (STATUS_LOOKAHEAD_DAYS + 1) * MINUTES_PER_DAY) {
+      return { isOpen: true, closingSoon: false };
     }
 
-    // Normal hours (same day)
-    return currentMinutes >= openMinutes && currentMinutes <= closeMinutes;
-
+    return {
+      isOpen: true,
+      closesAt: toDate(closeMinutes),
+      closingSoon: closeMinutes - currentMinutes <= CLOSING_SOON_MINUTES
+    };
   } catch (error) {
     console.error('Error checking store hours:', error);
-    return false;
+    return { isOpen: false, closingSoon: false };
+  }
+};
+
+/**
+ * Opening intervals from yesterday to the end of the lookahead, as minutes from the start of
+ * today in the store's timezone, sorted by start
+ */
+const getOpeningSpans = (
+  hours: StoreHours,
+  storeTime: Date,
+  exceptions: HoursException[]
+): { start: number; end: number }[] => {
+  const spans: { start: number; end: number }[] = [];
+
+  for (let offset = -1; offset <= STATUS_LOOKAHEAD_DAYS; offset++) {
+    const date = new Date(storeTime);
+    date.setDate(date.getDate() + offset);
+
+    for (const interval of getIntervalsOn(hours, date, exceptions)) {
+      const dayStart = offset * MINUTES_PER_DAY;
+      spans.push({
+        start: dayStart + timeToMinutes(interval.open),
+        end: dayStart + getSameDaySpan(interval).end + getPastMidnightEnd(interval)
+      });
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Opening intervals for the store-local date held in a Date's local fields, with exceptions applied
+ */
+const getIntervalsOn = (hours: StoreHours, date: Date, exceptions: HoursException[]): HoursInterval[] => {
+  const hoursException = findHoursException(exceptions, formatLocalDate(date));
+  if (hoursException) {
+    return hoursException.closed || !hoursException.open || !hoursException.close
+      ? []
+      : [{ open: hoursException.open, close: hoursException.close }];
   }
+
+  return hours[DAYS_OF_WEEK[date.getDay()]!].intervals;
+};
+
+/**
+ * Find the exception covering a date; the newest one wins when several overlap
+ */
+const findHoursException = (exceptions: HoursException[], date: string): HoursException | undefined => {
+  return exceptions
+    .filter(exception => exception.startDate <= date && date <= exception.endDate)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+};
+
+/**
+ * Format the calendar date of a Date's local fields as YYYY-MM-DD
+ */
+const formatLocalDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
 };
 
 /**
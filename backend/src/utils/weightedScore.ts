@@ -1,39 +1,61 @@
 import { RatingRepository } from '../repositories/RatingRepository';
-import { Rating } from '../types';
+import { Ingredient, IngredientScores, ScoreEstimate } from '../types';
+import { DEFAULT_INGREDIENT } from './validation';
 
 /**
- * Calculate weighted score for a location using last 10 ratings
- * More recent ratings have higher weight using exponential decay
+ * Calculate the score of one ingredient at a location. Scores come from the database's
+ * calculate_score_estimate, so they match the scores nearby and search results sort by.
  */
-export async function calculateWeightedScore(locationId: string, ratingRepository?: RatingRepository): Promise<number> {
+export async function calculateWeightedScore(
+  locationId: string,
+  ratingRepository?: RatingRepository,
+  ingredient: Ingredient = DEFAULT_INGREDIENT
+): Promise<number> {
+  const estimate = await calculateScoreEstimate(locationId, ratingRepository, ingredient);
+  return estimate.score;
+}
+
+/**
+ * Bayesian score of one ingredient at a location: time-decayed ratings shrunk toward the
+ * chain-wide mean, with an 80% credible interval and the effective number of ratings
+ */
+export async function calculateScoreEstimate(
+  locationId: string,
+  ratingRepository?: RatingRepository,
+  ingredient: Ingredient = DEFAULT_INGREDIENT
+): Promise<ScoreEstimate> {
   try {
     const repo = ratingRepository || new RatingRepository();
-    
-    // Get last 10 ratings for the location
-    const ratings = await repo.getRatingsByLocation(locationId, 10);
-    
-    if (ratings.length === 0) {
-      return 0;
-    }
+    return await repo.getScoreEstimate(locationId, ingredient);
+  } catch (error) {
+    console.error('Error calculating score estimate:', error);
+    return { score: 0, lower: 0, upper: 0, effectiveSampleSize: 0 };
+  }
+}
 
-    // Calculate weighted average with exponential decay
-    // Most recent rating gets weight 1.0, each older rating gets weight * 0.9
-    let totalWeightedScore = 0;
-    let totalWeight = 0;
-    
-    ratings.forEach((rating, index) => {
-      const weight = Math.pow(0.9, index); // Exponential decay
-      totalWeightedScore += rating.score * weight;
-      totalWeight += weight;
-    });
+/**
+ * Calculate the weighted score of every ingredient rated at a location
+ */
+export async function calculateIngredientScores(
+  locationId: string,
+  ratingRepository?: RatingRepository
+): Promise<IngredientScores> {
+  try {
+    const repo = ratingRepository || new RatingRepository();
+    const ingredients = await repo.getRatedIngredients(locationId);
 
-    const weightedScore = totalWeightedScore / totalWeight;
-    
-    // Round to 1 decimal place
-    return Math.round(weightedScore * 10) / 10;
+    const scores = await Promise.all(
+      ingredients.map(ingredient => calculateWeightedScore(locationId, repo, ingredient))
+    );
+
+    const ingredientScores: IngredientScores = {};
+    ingredients.forEach((ingredient, index) => {
+      ingredientScores[ingredient] = scores[index] ?? 0;
+    });
+    return ingredientScores;
   } catch (error) {
-    console.error('Error calculating weighted score:', error);
-    return 0;
+    console.error('Error calculating ingredient scores:', error);
+    return {};
   }
 }
 
@@ -53,39 +75,3 @@ export function calculateTimeBasedWeight(ratingTimestamp: Date, currentTime: Dat
   
   return Math.pow(0.5, hoursDiff / 24);
 }
-
-/**
- * Calculate weighted score with both recency and time-based weights
- */
-export async function calculateAdvancedWeightedScore(locationId: string, ratingRepository?: RatingRepository): Promise<number> {
-  try {
-    const repo = ratingRepository || new RatingRepository();
-    const ratings = await repo.getRatingsByLocation(locationId, 10);
-    
-    if (ratings.length === 0) {
-      return 0;
-    }
-
-    const currentTime = new Date();
-    let totalWeightedScore = 0;
-    let totalWeight = 0;
-    
-    ratings.forEach((rating, index) => {
-      // Combine recency weight (position in list) with time-based weight
-      const recencyWeight = Math.pow(0.9, index);
-      const timeWeight = calculateTimeBasedWeight(rating.timestamp, currentTime);
-      const combinedWeight = recencyWeight * timeWeight;
-      
-      totalWeightedScore += rating.score * combinedWeight;
-      totalWeight += combinedWeight;
-    });
-
-    const weightedScore = totalWeightedScore / totalWeight;
-    
-    // Round to 1 decimal place
-    return Math.round(weightedScore * 10) / 10;
-  } catch (error) {
-    console.error('Error calculating advanced weighted score:', error);
-    return 0;
-  }
-}
\ No newline at end of file
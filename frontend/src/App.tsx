@@ -11,10 +11,10 @@ import {
   DataSyncIndicator,
   OfflineIndicator 
 } from './components';
-import { SubwayLocation } from './types';
-import { directionsService } from './services';
-import { useLocationData } from './hooks/useLocationQueries';
-import { useState } from 'react';
+import { BoundingBox, SubwayLocation } from './types';
+import { deviceIdentityService, directionsService } from './services';
+import { useHotLocations, useLocationData, useLocationsInBounds } from './hooks/useLocationQueries';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 
 // Configure React Query client
 const queryClient = new QueryClient({
@@ -103,6 +103,11 @@ const AppContent: React.FC = () => {
   const [locationToRate, setLocationToRate] = useState<SubwayLocation | undefined>();
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
 
+  // Get this device its anonymous identity on first visit so ratings can be attributed to it
+  useEffect(() => {
+    deviceIdentityService.getDeviceToken();
+  }, []);
+
   // Use real-time location data
   const { 
     locations, 
@@ -111,7 +116,10 @@ const AppContent: React.FC = () => {
     refetch, 
     isRefetching,
     dataUpdatedAt,
-    isStale 
+    isStale,
+    hasMore,
+    isLoadingMore,
+    loadMore
   } = useLocationData(userLocation, {
     enableRealTimeUpdates: true,
     enableAutoRefresh: true,
@@ -120,6 +128,24 @@ const AppContent: React.FC = () => {
   // Fallback to sample data if API is not available
   const displayLocations = locations.length > 0 ? locations : sampleSubwayLocations;
 
+  const { data: hotData } = useHotLocations(userLocation);
+
+  // Markers for whatever part of the map is visible, refetched when the map goes idle
+  const [mapBounds, setMapBounds] = useState<BoundingBox | null>(null);
+  const handleBoundsChange = useCallback((bounds: BoundingBox) => setMapBounds(bounds), []);
+  const { data: boundsData } = useLocationsInBounds(mapBounds);
+
+  const mapLocations = useMemo(() => {
+    if (!boundsData) return displayLocations;
+
+    // Keep nearby results (they carry distanceFromUser) and add viewport-only ones
+    const seenIds = new Set(displayLocations.map(loc => loc.id));
+    return [
+      ...displayLocations,
+      ...boundsData.locations.filter(loc => !seenIds.has(loc.id)),
+    ];
+  }, [displayLocations, boundsData]);
+
   const handleLocationSelect = (location: SubwayLocation) => {
     setSelectedLocation(location);
     if (!isPanelOpen) {
@@ -205,9 +231,11 @@ const AppContent: React.FC = () => {
                     <>
                       <MapView
                         userLocation={location}
-                        subwayLocations={displayLocations}
+                        subwayLocations={mapLocations}
                         selectedLocation={selectedLocation}
                         onLocationSelect={handleLocationSelect}
+                        onBoundsChange={handleBoundsChange}
+                        showZoomInHint={boundsData?.tooMany ?? false}
                       />
                       <LocationPanel
                         locations={displayLocations}
@@ -222,6 +250,10 @@ const AppContent: React.FC = () => {
                         isRefetching={isRefetching}
                         error={error}
                         onRetry={() => refetch()}
+                        hasMore={hasMore}
+                        isLoadingMore={isLoadingMore}
+                        onLoadMore={() => loadMore()}
+                        trendingLocations={hotData?.locations}
                       />
                     </>
                   ) : (
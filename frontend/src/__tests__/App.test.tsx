@@ -54,12 +54,21 @@ vi.mock('../hooks/useLocationQueries', () => ({
     dataUpdatedAt: Date.now(),
     isStale: false,
   }),
+  useLocationsInBounds: () => ({
+    data: undefined,
+  }),
+  useHotLocations: () => ({
+    data: undefined,
+  }),
 }));
 
 vi.mock('../services', () => ({
   directionsService: {
     openDirections: vi.fn(),
   },
+  deviceIdentityService: {
+    getDeviceToken: vi.fn().mockResolvedValue('device-token'),
+  },
 }));
 
 vi.mock('../contexts/LocationContext', () => ({
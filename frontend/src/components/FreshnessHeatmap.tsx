@@ -0,0 +1,105 @@
+import React from 'react';
+import { FreshnessHeatmapResponse, HeatmapCell, DayOfWeek } from '../types';
+
+interface FreshnessHeatmapProps {
+  heatmap?: FreshnessHeatmapResponse;
+  isLoading?: boolean;
+}
+
+const DAY_LABELS: Record<DayOfWeek, string> = {
+  monday: 'Mon',
+  tuesday: 'Tue',
+  wednesday: 'Wed',
+  thursday: 'Thu',
+  friday: 'Fri',
+  saturday: 'Sat',
+  sunday: 'Sun',
+};
+
+// Hours labelled along the top of the grid
+const HOUR_MARKERS = [0, 6, 12, 18];
+
+const getCellColor = (cell: HeatmapCell): string => {
+  if (cell.averageScore === null) return 'bg-gray-100';
+  if (cell.averageScore >= 4.5) return 'bg-green-600';
+  if (cell.averageScore >= 4) return 'bg-green-400';
+  if (cell.averageScore >= 3) return 'bg-yellow-400';
+  if (cell.averageScore >= 2) return 'bg-orange-400';
+  return 'bg-red-500';
+};
+
+const formatHour = (hour: number): string => `${hour.toString().padStart(2, '0')}:00`;
+
+const describeCell = (dayOfWeek: DayOfWeek, cell: HeatmapCell): string => {
+  const when = `${dayOfWeek.charAt(0).toUpperCase()}${dayOfWeek.slice(1)} ${formatHour(cell.hour)}`;
+  if (cell.averageScore === null) {
+    return `${when}: no ratings`;
+  }
+  return `${when}: ${cell.averageScore.toFixed(1)} average from ${cell.sampleSize} rating${
+    cell.sampleSize !== 1 ? 's' : ''
+  } (${cell.confidence} confidence)`;
+};
+
+const FreshnessHeatmap: React.FC<FreshnessHeatmapProps> = ({ heatmap, isLoading = false }) => {
+  if (isLoading) {
+    return <div className="h-32 rounded-lg bg-gray-100 animate-pulse" aria-busy="true" />;
+  }
+
+  if (!heatmap || heatmap.totalAnalyzedRatings === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-gray-500 text-sm">Not enough data for a freshness heatmap</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        className="grid grid-cols-[auto_repeat(24,minmax(0,1fr))] gap-px items-center"
+        role="grid"
+        aria-label="Lettuce freshness by day and hour"
+      >
+        <div />
+        {Array.from({ length: 24 }, (_, hour) => (
+          <div key={hour} className="text-[10px] text-gray-500 leading-none" aria-hidden="true">
+            {HOUR_MARKERS.includes(hour) ? hour : ''}
+          </div>
+        ))}
+
+        {heatmap.days.map((day) => (
+          <div key={day.dayOfWeek} role="row" className="contents">
+            <div role="rowheader" className="text-xs text-gray-600 pr-2">
+              {DAY_LABELS[day.dayOfWeek]}
+            </div>
+            {day.hours.map((cell) => (
+              <div
+                key={cell.hour}
+                role="gridcell"
+                aria-label={describeCell(day.dayOfWeek, cell)}
+                title={describeCell(day.dayOfWeek, cell)}
+                className={`h-4 rounded-sm ${getCellColor(cell)} ${
+                  cell.averageScore !== null && cell.confidence === 'low' ? 'opacity-50' : ''
+                }`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+        <span>
+          Store time ({heatmap.timezone}), last {heatmap.daysAnalyzed} days
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm bg-red-500" aria-hidden="true" />
+          Wilted
+          <span className="w-3 h-3 rounded-sm bg-green-600 ml-2" aria-hidden="true" />
+          Fresh
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default FreshnessHeatmap;
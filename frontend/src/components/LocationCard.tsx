@@ -1,6 +1,10 @@
 import React from 'react';
 import { SubwayLocation } from '../types';
 import { DataFreshnessIndicator } from './DataSyncIndicator';
+import ScoreSparkline from './ScoreSparkline';
+
+// A credible interval at least this wide means too few recent ratings to trust the score
+const UNCERTAIN_INTERVAL_WIDTH = 1;
 
 interface LocationCardProps {
   location: SubwayLocation;
@@ -91,52 +95,55 @@ const LocationCard: React.FC<LocationCardProps> = ({
   };
 
   const getCurrentStatus = (): { isOpen: boolean; text: string; color: string } => {
-    const now = new Date();
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const currentDay = dayNames[now.getDay()] as keyof typeof location.hours;
-    const currentTime = now.getHours() * 100 + now.getMinutes();
-    
-    const todayHours = location.hours[currentDay];
-    
-    // Handle case where hours might be undefined or in wrong format
-    if (typeof todayHours === 'string' || !todayHours) {
+    // Open status comes from the server, which evaluates hours in the store's timezone
+    if (location.isOpen === undefined) {
       return { isOpen: false, text: 'Hours unavailable', color: 'text-gray-500' };
     }
-    
-    if (todayHours.closed) {
-      return { isOpen: false, text: 'Closed today', color: 'text-red-600' };
-    }
 
-    // Parse time strings (assuming format like "09:00" or "9:00")
-    const parseTime = (timeStr: string): number => {
-      const [hours, minutes] = timeStr.split(':').map(Number);
-      return hours * 100 + (minutes || 0);
-    };
+    if (location.isOpen) {
+      if (!location.closesAt) {
+        return { isOpen: true, text: 'Open 24 hours', color: 'text-green-600' };
+      }
+      return location.closingSoon
+        ? { isOpen: true, text: `Closing soon (${formatStoreTime(location.closesAt)})`, color: 'text-orange-600' }
+        : { isOpen: true, text: `Open until ${formatStoreTime(location.closesAt)}`, color: 'text-green-600' };
+    }
 
-    const openTime = parseTime(todayHours.open);
-    const closeTime = parseTime(todayHours.close);
-    
-    const isOpen = currentTime >= openTime && currentTime <= closeTime;
+    if (!location.opensAt) {
+      return { isOpen: false, text: 'Closed', color: 'text-red-600' };
+    }
     
-    if (isOpen) {
-      return { 
-        isOpen: true, 
-        text: `Open until ${todayHours.close}`, 
-        color: 'text-green-600' 
-      };
-    } else if (currentTime < openTime) {
+    if (isStoreToday(location.opensAt)) {
       return { 
         isOpen: false, 
-        text: `Opens at ${todayHours.open}`, 
+        text: `Opens at ${formatStoreTime(location.opensAt)}`, 
         color: 'text-orange-600' 
       };
-    } else {
-      return { 
-        isOpen: false, 
-        text: 'Closed', 
-        color: 'text-red-600' 
-      };
     }
+
+    return { 
+      isOpen: false, 
+      text: `Opens ${formatStoreDay(location.opensAt)} ${formatStoreTime(location.opensAt)}`, 
+      color: 'text-red-600' 
+    };
+  };
+
+  // Times are shown in the store's timezone, wherever the viewer is
+  const formatStoreTime = (time: Date): string => {
+    return new Date(time).toLocaleTimeString('en-GB', {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: location.hours.timezone,
+    });
+  };
+
+  const formatStoreDay = (time: Date): string => {
+    return new Date(time).toLocaleDateString('en-US', { weekday: 'short', timeZone: location.hours.timezone });
+  };
+
+  const isStoreToday = (time: Date): boolean => {
+    const toStoreDate = (date: Date) => date.toLocaleDateString('en-CA', { timeZone: location.hours.timezone });
+    return toStoreDate(new Date(time)) === toStoreDate(new Date());
   };
 
   const formatLastRated = (lastRated?: Date): string => {
@@ -155,6 +162,9 @@ const LocationCard: React.FC<LocationCardProps> = ({
 
   const status = getCurrentStatus();
   const hasValidScore = location.lettuceScore > 0;
+  const estimate = hasValidScore ? location.scoreEstimate : undefined;
+  const isUncertain = estimate !== undefined && estimate.upper - estimate.lower >= UNCERTAIN_INTERVAL_WIDTH;
+  const scoreRange = estimate ? `${estimate.lower.toFixed(1)}–${estimate.upper.toFixed(1)}` : '';
 
   const handleCardClick = () => {
     if (onSelect) {
@@ -234,8 +244,10 @@ const LocationCard: React.FC<LocationCardProps> = ({
               <div 
                 className={`w-9 h-9 sm:w-10 sm:h-10 rounded-full flex items-center justify-center text-white text-xs sm:text-sm font-bold shadow-sm flex-shrink-0 ${
                   hasValidScore ? getScoreColor(location.lettuceScore) : 'bg-gray-400'
-                }`}
-                title={hasValidScore ? `Lettuce freshness score: ${location.lettuceScore.toFixed(1)}/5` : 'No ratings yet'}
+                } ${isUncertain ? 'border-2 border-dashed border-white' : ''}`}
+                title={hasValidScore
+                  ? `Lettuce freshness score: ${location.lettuceScore.toFixed(1)}/5${estimate ? `, likely ${scoreRange}` : ''}`
+                  : 'No ratings yet'}
               >
                 {hasValidScore ? location.lettuceScore.toFixed(1) : 'N/A'}
               </div>
@@ -254,6 +266,13 @@ const LocationCard: React.FC<LocationCardProps> = ({
                   <span className="text-gray-400 text-responsive-xs">No ratings</span>
                 )}
               </div>
+
+              {/* Recent score trend */}
+              {hasValidScore && location.scoreTrend && (
+                <div className="hidden sm:block flex-shrink-0">
+                  <ScoreSparkline scores={location.scoreTrend} />
+                </div>
+              )}
             </div>
 
             {/* Score text description */}
@@ -281,6 +300,16 @@ const LocationCard: React.FC<LocationCardProps> = ({
           </div>
         </div>
 
+        {/* Too few recent ratings to pin the score down */}
+        {isUncertain && (
+          <p
+            className="mb-3 sm:mb-4 text-responsive-xs text-gray-500"
+            title={`Score counts about ${Math.max(1, Math.round(estimate.effectiveSampleSize))} recent ratings`}
+          >
+            Few recent ratings · likely {scoreRange}
+          </p>
+        )}
+
         {/* Last rated information and data freshness */}
         <div className="mb-3 sm:mb-4 flex items-center justify-between flex-wrap gap-2">
           {location.lastRated && (
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { SubwayLocation } from '../types';
+import React, { useRef, useCallback } from 'react';
+import { HotLocation, SubwayLocation } from '../types';
 import LocationCard from './LocationCard';
 import { OfflineMessage, useOfflineErrorMessage } from './OfflineIndicator';
 
@@ -16,6 +16,10 @@ interface LocationPanelProps {
   isRefetching?: boolean;
   error?: any;
   onRetry?: () => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  trendingLocations?: HotLocation[];
 }
 
 
@@ -34,17 +38,16 @@ const LocationPanel: React.FC<LocationPanelProps> = ({
   isRefetching = false,
   error,
   onRetry,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  trendingLocations = [],
 }) => {
-  const [visibleLocations, setVisibleLocations] = useState<SubwayLocation[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const touchStartY = useRef<number>(0);
   const touchCurrentY = useRef<number>(0);
   const isDragging = useRef<boolean>(false);
 
-  const ITEMS_PER_PAGE = 10;
-  
   // Use the offline error message hook at the component level
   const { getErrorMessage, shouldShowRetry } = useOfflineErrorMessage();
 
@@ -57,29 +60,12 @@ const LocationPanel: React.FC<LocationPanelProps> = ({
     });
   }, [locations]);
 
-  // Initialize visible locations
-  useEffect(() => {
-    const initialItems = sortedLocations.slice(0, ITEMS_PER_PAGE);
-    setVisibleLocations(initialItems);
-    setHasMore(sortedLocations.length > ITEMS_PER_PAGE);
-  }, [sortedLocations]);
-
-  // Load more locations for infinite scroll
+  // Request the next page from the server for infinite scroll
   const loadMoreLocations = useCallback(() => {
-    if (isLoading || !hasMore) return;
+    if (isLoadingMore || !hasMore || !onLoadMore) return;
 
-    setIsLoading(true);
-    
-    // Simulate loading delay for better UX
-    setTimeout(() => {
-      const currentLength = visibleLocations.length;
-      const nextItems = sortedLocations.slice(currentLength, currentLength + ITEMS_PER_PAGE);
-      
-      setVisibleLocations(prev => [...prev, ...nextItems]);
-      setHasMore(currentLength + nextItems.length < sortedLocations.length);
-      setIsLoading(false);
-    }, 300);
-  }, [isLoading, hasMore, visibleLocations.length, sortedLocations]);
+    onLoadMore();
+  }, [isLoadingMore, hasMore, onLoadMore]);
 
   // Infinite scroll handler
   const handleScroll = useCallback(() => {
@@ -216,14 +202,39 @@ const LocationPanel: React.FC<LocationPanelProps> = ({
               onRetry={onRetry}
               className="mx-2"
             />
-          ) : visibleLocations.length === 0 ? (
+          ) : sortedLocations.length === 0 ? (
             <div className="text-center py-6 sm:py-8">
               <div className="text-gray-400 text-3xl sm:text-4xl mb-3 sm:mb-4">🏪</div>
               <p className="text-responsive-sm text-gray-600">No Subway locations found nearby</p>
             </div>
           ) : (
             <>
-              {visibleLocations.map((location) => (
+              {/* Trending locations - most rated in the last 24 hours */}
+              {trendingLocations.length > 0 && (
+                <section aria-label="Trending locations" className="mb-4">
+                  <h3 className="text-responsive-sm font-semibold text-gray-800 mb-2">🔥 Trending</h3>
+                  <div className="flex gap-2 overflow-x-auto scrollbar-thin pb-1">
+                    {trendingLocations.map((location) => (
+                      <button
+                        key={location.id}
+                        onClick={() => onLocationSelect(location)}
+                        className="flex-shrink-0 w-40 text-left bg-orange-50 border border-orange-100 rounded-xl p-3 hover:bg-orange-100 transition-colors tap-target"
+                        title={`${location.ratingVelocity.toFixed(2)} ratings per hour`}
+                      >
+                        <p className="text-responsive-xs font-medium text-gray-800 truncate">{location.name}</p>
+                        <p className="text-xs text-orange-700 mt-1">
+                          {location.recentRatingCount} rating{location.recentRatingCount !== 1 ? 's' : ''} in 24h
+                        </p>
+                        <p className="text-xs text-gray-600 mt-0.5">
+                          Score {location.lettuceScore > 0 ? location.lettuceScore.toFixed(1) : 'N/A'}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {sortedLocations.map((location) => (
                 <LocationCard
                   key={location.id}
                   location={location}
@@ -239,14 +250,14 @@ const LocationPanel: React.FC<LocationPanelProps> = ({
               ))}
 
               {/* Loading indicator */}
-              {isLoading && (
+              {isLoadingMore && (
                 <div className="flex justify-center py-4 touch-target">
                   <div className="animate-spin rounded-full h-6 w-6 sm:h-8 sm:w-8 border-b-2 border-green-600" role="status" aria-label="Loading more locations"></div>
                 </div>
               )}
 
               {/* End of list indicator */}
-              {!hasMore && visibleLocations.length > 0 && (
+              {!hasMore && sortedLocations.length > 0 && (
                 <div className="text-center py-4 text-gray-500 text-responsive-xs">
                   You've reached the end of the list
                 </div>
@@ -1,13 +1,15 @@
 import React, { useEffect, useRef } from 'react';
 import { Wrapper, Status } from '@googlemaps/react-wrapper';
 import { MarkerClusterer } from '@googlemaps/markerclusterer';
-import { Coordinates, SubwayLocation } from '../types';
+import { BoundingBox, Coordinates, SubwayLocation } from '../types';
 
 interface MapViewProps {
   userLocation: Coordinates;
   subwayLocations: SubwayLocation[];
   selectedLocation?: SubwayLocation;
   onLocationSelect: (location: SubwayLocation) => void;
+  onBoundsChange?: (bounds: BoundingBox) => void;
+  showZoomInHint?: boolean;
   className?: string;
 }
 
@@ -16,6 +18,7 @@ interface GoogleMapProps {
   subwayLocations: SubwayLocation[];
   selectedLocation?: SubwayLocation;
   onLocationSelect: (location: SubwayLocation) => void;
+  onBoundsChange?: (bounds: BoundingBox) => void;
 }
 
 // Map component that uses the Google Maps API directly
@@ -24,6 +27,7 @@ const GoogleMapComponent: React.FC<GoogleMapProps> = ({
   subwayLocations,
   selectedLocation,
   onLocationSelect,
+  onBoundsChange,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<google.maps.Map | null>(null);
@@ -72,6 +76,30 @@ const GoogleMapComponent: React.FC<GoogleMapProps> = ({
     };
   }, [userLocation]);
 
+  // Report the visible viewport once panning/zooming settles
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !onBoundsChange) return;
+
+    const idleListener = map.addListener('idle', () => {
+      const bounds = map.getBounds();
+      if (!bounds) return;
+
+      const northEast = bounds.getNorthEast();
+      const southWest = bounds.getSouthWest();
+      onBoundsChange({
+        north: northEast.lat(),
+        south: southWest.lat(),
+        east: northEast.lng(),
+        west: southWest.lng(),
+      });
+    });
+
+    return () => {
+      idleListener.remove();
+    };
+  }, [onBoundsChange]);
+
   // Update user location marker
   useEffect(() => {
     if (!mapInstanceRef.current) return;
@@ -310,6 +338,8 @@ const MapView: React.FC<MapViewProps> = ({
   subwayLocations,
   selectedLocation,
   onLocationSelect,
+  onBoundsChange,
+  showZoomInHint = false,
   className = '',
 }) => {
   const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
@@ -327,15 +357,22 @@ const MapView: React.FC<MapViewProps> = ({
   }
 
   return (
-    <div className={`w-full h-full ${className}`}>
+    <div className={`relative w-full h-full ${className}`}>
       <Wrapper apiKey={apiKey} render={createRender(subwayLocations, onLocationSelect)} libraries={['marker']}>
         <GoogleMapComponent
           userLocation={userLocation}
           subwayLocations={subwayLocations}
           selectedLocation={selectedLocation}
           onLocationSelect={onLocationSelect}
+          onBoundsChange={onBoundsChange}
         />
       </Wrapper>
+
+      {showZoomInHint && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-white rounded-full shadow-md text-sm text-gray-700">
+          Zoom in to see more locations
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,51 @@
+import React from 'react';
+import { RatingPhoto } from '../types';
+
+interface PhotoGalleryProps {
+  photos: RatingPhoto[];
+  isLoading?: boolean;
+}
+
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos, isLoading = false }) => {
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-3 gap-2" aria-busy="true">
+        {[0, 1, 2].map((index) => (
+          <div key={index} className="aspect-square rounded-lg bg-gray-100 animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (photos.length === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-gray-500 text-sm">No photos yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="grid grid-cols-3 gap-2" aria-label="Lettuce photos">
+      {photos.map((photo) => (
+        <li key={photo.id}>
+          <a
+            href={photo.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block aspect-square overflow-hidden rounded-lg bg-gray-100 focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            <img
+              src={photo.thumbnailUrl}
+              alt={`Lettuce photo from ${new Date(photo.createdAt).toLocaleDateString()}`}
+              loading="lazy"
+              className="w-full h-full object-cover"
+            />
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PhotoGallery;
@@ -1,6 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { SubwayLocation } from '../types';
-import { useSubmitRating, useLocationDetail } from '../hooks/useLocationQueries';
+import { Ingredient, IngredientScores, RatingTag, ScoreHistoryInterval, SubwayLocation } from '../types';
+import {
+  useSubmitRating,
+  useLocationDetail,
+  useLocationPhotos,
+  useUploadRatingPhoto,
+  useFreshnessHeatmap,
+  useScoreHistory,
+  useScoreExplanation,
+} from '../hooks/useLocationQueries';
+import PhotoGallery from './PhotoGallery';
+import FreshnessHeatmap from './FreshnessHeatmap';
+import ScoreHistoryChart from './ScoreHistoryChart';
+import ScoreExplanation from './ScoreExplanation';
+
+// Longest comment the backend accepts
+const COMMENT_MAX_LENGTH = 280;
+
+// Photo types and size the backend accepts
+const PHOTO_ACCEPT = 'image/jpeg,image/png,image/webp';
+const PHOTO_MAX_BYTES = 5 * 1024 * 1024;
+
+const TAG_OPTIONS: { tag: RatingTag; label: string }[] = [
+  { tag: 'crisp', label: 'Crisp' },
+  { tag: 'fresh_batch', label: 'Fresh batch' },
+  { tag: 'wilted', label: 'Wilted' },
+  { tag: 'browning', label: 'Browning' },
+  { tag: 'low_stock', label: 'Low stock' },
+];
+
+// Ingredients that can be rated alongside the lettuce
+const OTHER_INGREDIENTS: { ingredient: Exclude<Ingredient, 'lettuce'>; label: string; emoji: string }[] = [
+  { ingredient: 'tomato', label: 'Tomatoes', emoji: '🍅' },
+  { ingredient: 'cucumber', label: 'Cucumbers', emoji: '🥒' },
+  { ingredient: 'onion', label: 'Onions', emoji: '🧅' },
+  { ingredient: 'spinach', label: 'Spinach', emoji: '🍃' },
+];
 
 interface RatingModalProps {
   location: SubwayLocation;
@@ -17,15 +52,44 @@ const RatingModal: React.FC<RatingModalProps> = ({
 }) => {
   const [selectedRating, setSelectedRating] = useState<number>(0);
   const [hoveredRating, setHoveredRating] = useState<number>(0);
+  const [ingredientRatings, setIngredientRatings] = useState<IngredientScores>({});
+  const [selectedTags, setSelectedTags] = useState<RatingTag[]>([]);
+  const [comment, setComment] = useState<string>('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  // Rating saved by a submission whose photo upload failed, so the upload can be retried
+  const [savedRating, setSavedRating] = useState<{ ratingId: string; editToken: string } | null>(null);
+  const [historyInterval, setHistoryInterval] = useState<ScoreHistoryInterval>('day');
+  const [showExplanation, setShowExplanation] = useState(false);
   
   const submitRatingMutation = useSubmitRating();
+  const uploadPhotoMutation = useUploadRatingPhoto();
   const { data: locationDetail } = useLocationDetail(location.id, isOpen);
+  const { data: photosData, isLoading: photosLoading } = useLocationPhotos(location.id, isOpen);
+  const { data: heatmap, isLoading: heatmapLoading } = useFreshnessHeatmap(location.id, isOpen);
+  const { data: scoreHistory, isLoading: scoreHistoryLoading } = useScoreHistory(
+    location.id,
+    historyInterval,
+    isOpen
+  );
+  // Only fetched once the explanation is opened
+  const { data: scoreExplanation, isLoading: scoreExplanationLoading } = useScoreExplanation(
+    location.id,
+    isOpen && showExplanation
+  );
 
   // Reset rating when modal opens
   useEffect(() => {
     if (isOpen) {
       setSelectedRating(0);
       setHoveredRating(0);
+      setIngredientRatings({});
+      setSelectedTags([]);
+      setComment('');
+      setPhoto(null);
+      setPhotoError(null);
+      setSavedRating(null);
+      setShowExplanation(false);
     }
   }, [isOpen]);
 
@@ -33,20 +97,87 @@ const RatingModal: React.FC<RatingModalProps> = ({
     setSelectedRating(rating);
   };
 
+  // Picking an ingredient's current rating again clears it
+  const handleIngredientRatingClick = (ingredient: Ingredient, rating: number) => {
+    setIngredientRatings((ratings) => {
+      const { [ingredient]: current, ...rest } = ratings;
+      return current === rating ? rest : { ...rest, [ingredient]: rating };
+    });
+  };
+
+  const handleTagToggle = (tag: RatingTag) => {
+    setSelectedTags((tags) =>
+      tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag]
+    );
+  };
+
+  const handlePhotoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    event.target.value = '';
+
+    if (file && file.size > PHOTO_MAX_BYTES) {
+      setPhoto(null);
+      setPhotoError('Photos must be 5 MB or smaller');
+      return;
+    }
+
+    setPhoto(file);
+    setPhotoError(null);
+  };
+
+  const finishSubmit = () => {
+    if (onSubmit) {
+      onSubmit(selectedRating);
+    }
+
+    onClose();
+  };
+
+  // Returns whether the photo was uploaded; on failure the modal stays open to retry it
+  const uploadPhoto = async (ratingId: string, editToken: string, file: File): Promise<boolean> => {
+    try {
+      await uploadPhotoMutation.mutateAsync({
+        locationId: location.id,
+        ratingId,
+        editToken,
+        photo: file,
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to upload photo:', error);
+      setSavedRating({ ratingId, editToken });
+      return false;
+    }
+  };
+
+  const handleRetryPhoto = async () => {
+    if (!savedRating || !photo) return;
+
+    if (await uploadPhoto(savedRating.ratingId, savedRating.editToken, photo)) {
+      finishSubmit();
+    }
+  };
+
   const handleSubmit = async () => {
     if (selectedRating === 0) return;
 
+    const trimmedComment = comment.trim();
+
     try {
-      await submitRatingMutation.mutateAsync({
+      const result = await submitRatingMutation.mutateAsync({
         locationId: location.id,
         score: selectedRating,
+        ...(Object.keys(ingredientRatings).length > 0 ? { ingredientScores: ingredientRatings } : {}),
+        ...(selectedTags.length > 0 ? { tags: selectedTags } : {}),
+        ...(trimmedComment ? { comment: trimmedComment } : {}),
       });
-      
-      if (onSubmit) {
-        onSubmit(selectedRating);
+
+      // The rating is saved either way; a failed upload is retried without resubmitting it
+      if (photo && !(await uploadPhoto(result.rating.id, result.editToken, photo))) {
+        return;
       }
-      
-      onClose();
+
+      finishSubmit();
     } catch (error) {
       console.error('Failed to submit rating:', error);
     }
@@ -200,6 +331,24 @@ const RatingModal: React.FC<RatingModalProps> = ({
                   </p>
                 </div>
               </div>
+              {location.lettuceScore > 0 && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setShowExplanation((shown) => !shown)}
+                    aria-expanded={showExplanation}
+                    aria-controls="score-explanation"
+                    className="mt-2 text-responsive-xs font-medium text-green-700 hover:text-green-800"
+                  >
+                    How is this calculated? {showExplanation ? '▴' : '▾'}
+                  </button>
+                  {showExplanation && (
+                    <div id="score-explanation" className="mt-2 pt-2 border-t border-gray-200">
+                      <ScoreExplanation explanation={scoreExplanation} isLoading={scoreExplanationLoading} />
+                    </div>
+                  )}
+                </>
+              )}
             </div>
 
             {/* Rating Selection */}
@@ -240,6 +389,143 @@ const RatingModal: React.FC<RatingModalProps> = ({
               </div>
             </div>
 
+            {/* Other Ingredients */}
+            <div className="mb-4 sm:mb-6">
+              <h3 className="text-responsive-sm font-semibold text-gray-900 mb-2">
+                Other ingredients <span className="font-normal text-gray-500">(optional)</span>
+              </h3>
+              <div className="space-y-2">
+                {OTHER_INGREDIENTS.map(({ ingredient, label, emoji }) => {
+                  const currentScore = location.ingredientScores?.[ingredient];
+                  const selected = ingredientRatings[ingredient] ?? 0;
+                  return (
+                    <div key={ingredient} className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <span className="text-responsive-sm font-medium text-gray-700">
+                          <span aria-hidden="true">{emoji}</span> {label}
+                        </span>
+                        <span className="ml-2 text-responsive-xs text-gray-500">
+                          {currentScore ? `Now ${currentScore.toFixed(1)}` : 'Not rated yet'}
+                        </span>
+                      </div>
+                      <div className="flex flex-shrink-0" role="radiogroup" aria-label={`${label} rating`}>
+                        {[1, 2, 3, 4, 5].map((rating) => (
+                          <button
+                            key={rating}
+                            type="button"
+                            role="radio"
+                            aria-checked={selected === rating}
+                            onClick={() => handleIngredientRatingClick(ingredient, rating)}
+                            className="text-xl px-0.5 focus:outline-none focus:ring-2 focus:ring-green-500 rounded tap-target"
+                            aria-label={`Rate ${ingredient} ${rating} star${rating !== 1 ? 's' : ''}`}
+                          >
+                            <span className={rating <= selected ? 'text-yellow-400' : 'text-gray-300'}>★</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Tags and Comment */}
+            <div className="mb-4 sm:mb-6">
+              <h3 className="text-responsive-sm font-semibold text-gray-900 mb-2">
+                Anything to add? <span className="font-normal text-gray-500">(optional)</span>
+              </h3>
+              <div className="flex flex-wrap gap-2 mb-3" role="group" aria-label="Freshness tags">
+                {TAG_OPTIONS.map(({ tag, label }) => {
+                  const selected = selectedTags.includes(tag);
+                  return (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => handleTagToggle(tag)}
+                      aria-pressed={selected}
+                      className={`px-3 py-1.5 rounded-full text-responsive-xs font-medium border transition-colors tap-target focus:outline-none focus:ring-2 focus:ring-green-500 ${
+                        selected
+                          ? 'bg-green-600 border-green-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+              <label htmlFor="rating-comment" className="sr-only">
+                Comment
+              </label>
+              <textarea
+                id="rating-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={COMMENT_MAX_LENGTH}
+                rows={2}
+                placeholder="Add a short comment"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-responsive-sm resize-none focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <p className="text-right text-responsive-xs text-gray-500 mt-1">
+                {comment.length}/{COMMENT_MAX_LENGTH}
+              </p>
+
+              {/* Photo */}
+              <div className="flex items-center justify-between gap-3">
+                <label className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-gray-300 text-responsive-xs font-medium text-gray-700 hover:bg-gray-50 cursor-pointer tap-target focus-within:ring-2 focus-within:ring-green-500">
+                  <span aria-hidden="true">📷</span>
+                  <span>{photo ? 'Change photo' : 'Add a photo'}</span>
+                  <input
+                    type="file"
+                    accept={PHOTO_ACCEPT}
+                    onChange={handlePhotoChange}
+                    className="sr-only"
+                    aria-label="Photo of the lettuce"
+                  />
+                </label>
+                {photo && (
+                  <span className="flex items-center gap-2 min-w-0 text-responsive-xs text-gray-600">
+                    <span className="truncate">{photo.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPhoto(null)}
+                      className="text-gray-500 hover:text-gray-700"
+                      aria-label="Remove photo"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                )}
+              </div>
+              {photoError && (
+                <p className="text-responsive-xs text-red-700 mt-1">{photoError}</p>
+              )}
+              {savedRating && uploadPhotoMutation.error && (
+                <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg" role="alert">
+                  <p className="text-responsive-xs text-red-700">
+                    Your rating was saved, but the photo didn't upload. {uploadPhotoMutation.error.message}
+                  </p>
+                  <div className="flex gap-3 mt-2">
+                    <button
+                      type="button"
+                      onClick={handleRetryPhoto}
+                      disabled={!photo || uploadPhotoMutation.isPending}
+                      className="text-responsive-xs font-medium text-green-700 hover:text-green-800 disabled:text-gray-400"
+                    >
+                      Retry upload
+                    </button>
+                    <button
+                      type="button"
+                      onClick={finishSubmit}
+                      className="text-responsive-xs font-medium text-gray-600 hover:text-gray-800"
+                    >
+                      Continue without photo
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Optimal Times Section */}
             {locationDetail && (
               <div className="mb-4 sm:mb-6">
@@ -247,9 +533,62 @@ const RatingModal: React.FC<RatingModalProps> = ({
                   Optimal Freshness Times
                 </h3>
                 {renderTimeRecommendations()}
+                {locationDetail.restockPattern?.summary && (
+                  <p className="mt-3 text-responsive-xs text-gray-600">
+                    <span aria-hidden="true">🥬 </span>
+                    {locationDetail.restockPattern.summary}
+                    {' '}
+                    <span className="text-gray-400">
+                      (from {locationDetail.restockPattern.eventCount} rating jumps)
+                    </span>
+                  </p>
+                )}
               </div>
             )}
 
+            {/* Score History */}
+            <div className="mb-4 sm:mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-responsive-base font-semibold text-gray-900">
+                  Score History
+                </h3>
+                <div className="flex gap-1" role="group" aria-label="Score history interval">
+                  {(['day', 'week'] as ScoreHistoryInterval[]).map((interval) => (
+                    <button
+                      key={interval}
+                      type="button"
+                      onClick={() => setHistoryInterval(interval)}
+                      aria-pressed={historyInterval === interval}
+                      className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                        historyInterval === interval
+                          ? 'bg-green-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {interval === 'day' ? 'Daily' : 'Weekly'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <ScoreHistoryChart history={scoreHistory} isLoading={scoreHistoryLoading} />
+            </div>
+
+            {/* Freshness Heatmap */}
+            <div className="mb-4 sm:mb-6">
+              <h3 className="text-responsive-base font-semibold text-gray-900 mb-3">
+                Freshness by Day and Hour
+              </h3>
+              <FreshnessHeatmap heatmap={heatmap} isLoading={heatmapLoading} />
+            </div>
+
+            {/* Photo Gallery */}
+            <div className="mb-4 sm:mb-6">
+              <h3 className="text-responsive-base font-semibold text-gray-900 mb-3">
+                Recent Photos
+              </h3>
+              <PhotoGallery photos={photosData?.photos ?? []} isLoading={photosLoading} />
+            </div>
+
             {/* Error Display */}
             {submitRatingMutation.isError && (
               <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -271,7 +610,7 @@ const RatingModal: React.FC<RatingModalProps> = ({
               </button>
               <button
                 onClick={handleSubmit}
-                disabled={selectedRating === 0 || submitRatingMutation.isPending}
+                disabled={selectedRating === 0 || savedRating !== null || submitRatingMutation.isPending || uploadPhotoMutation.isPending}
                 className="flex-1 px-4 py-3 sm:py-2.5 bg-green-600 hover:bg-green-700 active:bg-green-800 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-xl font-medium transition-colors touch-target tap-target focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
               >
                 {submitRatingMutation.isPending ? (
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ScoreExplanation as ScoreExplanationData } from '../types';
+
+interface ScoreExplanationProps {
+  explanation?: ScoreExplanationData;
+  isLoading?: boolean;
+}
+
+// Scoring strategies the backend can be configured with
+const STRATEGY_LABELS: Record<string, string> = {
+  bayesian: 'Recent ratings, halved in weight every 3 days, blended with the chain-wide average',
+  recency_decay: 'Last 10 ratings, each one older counting 0.9x as much',
+  time_decay: 'Last 10 ratings by recency, also halved in weight every 24 hours',
+  hot_locations: 'Last 10 ratings weighted by position and age',
+};
+
+const formatShare = (share: number): string => `${(share * 100).toFixed(share < 0.1 ? 1 : 0)}%`;
+
+const formatWeight = (weight: number): string => weight.toFixed(2);
+
+const formatRatedAt = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const ScoreExplanation: React.FC<ScoreExplanationProps> = ({ explanation, isLoading = false }) => {
+  if (isLoading) {
+    return <div className="h-24 rounded-lg bg-gray-100 animate-pulse" aria-busy="true" />;
+  }
+
+  if (!explanation || explanation.contributions.length === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-gray-500 text-sm">No ratings behind this score yet</p>
+      </div>
+    );
+  }
+
+  const { prior, contributions } = explanation;
+
+  return (
+    <div className="text-responsive-xs text-gray-700">
+      <p className="mb-2">
+        {STRATEGY_LABELS[explanation.strategy] ?? explanation.strategy}.{' '}
+        Score {explanation.score.toFixed(2)}
+        {explanation.upper > explanation.lower && (
+          <>, likely {explanation.lower.toFixed(1)}–{explanation.upper.toFixed(1)}</>
+        )}
+        .
+      </p>
+
+      {prior && (
+        <p className="mb-2">
+          Chain-wide average {prior.mean.toFixed(2)}, counted as {prior.weight} fresh ratings:{' '}
+          <span className="font-medium">{formatShare(prior.share)}</span> of the score
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <caption className="sr-only">Ratings behind the score, newest first</caption>
+          <thead className="text-gray-500">
+            <tr>
+              <th scope="col" className="py-1 pr-2 font-medium">Rated</th>
+              <th scope="col" className="py-1 pr-2 font-medium text-right">Score</th>
+              <th scope="col" className="py-1 pr-2 font-medium text-right">Recency</th>
+              <th scope="col" className="py-1 pr-2 font-medium text-right">Age</th>
+              <th scope="col" className="py-1 font-medium text-right">Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {contributions.map((contribution) => (
+              <tr key={contribution.ratingId} className="border-t border-gray-200">
+                <td className="py-1 pr-2 whitespace-nowrap">{formatRatedAt(contribution.timestamp)}</td>
+                <td className="py-1 pr-2 text-right">{contribution.score}</td>
+                <td className="py-1 pr-2 text-right">×{formatWeight(contribution.recencyWeight)}</td>
+                <td className="py-1 pr-2 text-right">×{formatWeight(contribution.timeWeight)}</td>
+                <td className="py-1 text-right font-medium">{formatShare(contribution.share)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreExplanation;
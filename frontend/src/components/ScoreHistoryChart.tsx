@@ -0,0 +1,149 @@
+import React from 'react';
+import { ScoreHistoryBucket, ScoreHistoryResponse } from '../types';
+
+interface ScoreHistoryChartProps {
+  history?: ScoreHistoryResponse;
+  isLoading?: boolean;
+}
+
+const CHART_WIDTH = 320;
+const SCORE_HEIGHT = 100;
+const COUNT_HEIGHT = 24;
+const GAP = 6;
+const CHART_HEIGHT = SCORE_HEIGHT + GAP + COUNT_HEIGHT;
+
+const MIN_SCORE = 1;
+const MAX_SCORE = 5;
+const GRID_SCORES = [1, 2, 3, 4, 5];
+
+const formatBucketDate = (bucket: ScoreHistoryBucket): string =>
+  new Date(bucket.start).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const describeBucket = (bucket: ScoreHistoryBucket, interval: ScoreHistoryResponse['interval']): string => {
+  const when = `${interval === 'week' ? 'Week of ' : ''}${formatBucketDate(bucket)}`;
+  const ratings = `${bucket.ratingCount} rating${bucket.ratingCount !== 1 ? 's' : ''}`;
+  if (bucket.avgScore === null || bucket.minScore === null || bucket.maxScore === null) {
+    return `${when}: no score yet, ${ratings}`;
+  }
+  const range = `${bucket.minScore.toFixed(1)}-${bucket.maxScore.toFixed(1)}`;
+  return `${when}: average ${bucket.avgScore.toFixed(1)} (${range}), ${ratings}`;
+};
+
+const scoreToY = (score: number): number =>
+  SCORE_HEIGHT - ((score - MIN_SCORE) / (MAX_SCORE - MIN_SCORE)) * SCORE_HEIGHT;
+
+const ScoreHistoryChart: React.FC<ScoreHistoryChartProps> = ({ history, isLoading = false }) => {
+  if (isLoading) {
+    return <div className="h-32 rounded-lg bg-gray-100 animate-pulse" aria-busy="true" />;
+  }
+
+  const scoredBuckets = history?.buckets.filter((bucket) => bucket.avgScore !== null) ?? [];
+  if (!history || scoredBuckets.length === 0) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-gray-500 text-sm">No score history yet</p>
+      </div>
+    );
+  }
+
+  const { buckets, interval } = history;
+  const slotWidth = CHART_WIDTH / buckets.length;
+  const maxCount = Math.max(1, ...buckets.map((bucket) => bucket.ratingCount));
+  const centerX = (index: number) => slotWidth * index + slotWidth / 2;
+
+  // Scores are only missing before the first snapshot, so skipping those buckets keeps the line whole
+  const avgPoints = buckets
+    .map((bucket, index) =>
+      bucket.avgScore !== null ? `${centerX(index).toFixed(1)},${scoreToY(bucket.avgScore).toFixed(1)}` : null
+    )
+    .filter((point): point is string => point !== null)
+    .join(' ');
+  const rangePoints = [
+    ...buckets.map((bucket, index) =>
+      bucket.maxScore !== null ? `${centerX(index).toFixed(1)},${scoreToY(bucket.maxScore).toFixed(1)}` : null
+    ),
+    ...buckets
+      .map((bucket, index) =>
+        bucket.minScore !== null ? `${centerX(index).toFixed(1)},${scoreToY(bucket.minScore).toFixed(1)}` : null
+      )
+      .reverse(),
+  ]
+    .filter((point): point is string => point !== null)
+    .join(' ');
+
+  const first = buckets[0]!;
+  const last = buckets[buckets.length - 1]!;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`Lettuce score by ${interval} from ${formatBucketDate(first)} to ${formatBucketDate(last)}`}
+      >
+        {GRID_SCORES.map((score) => (
+          <line
+            key={score}
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={scoreToY(score)}
+            y2={scoreToY(score)}
+            className="stroke-gray-100"
+            strokeWidth={1}
+          />
+        ))}
+
+        <polygon points={rangePoints} className="fill-green-100" />
+        <polyline
+          points={avgPoints}
+          fill="none"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          className="stroke-green-600"
+        />
+
+        {buckets.map((bucket, index) => {
+          const barHeight = (bucket.ratingCount / maxCount) * COUNT_HEIGHT;
+          return (
+            <g key={bucket.start}>
+              <title>{describeBucket(bucket, interval)}</title>
+              <rect
+                x={slotWidth * index + slotWidth * 0.15}
+                y={CHART_HEIGHT - barHeight}
+                width={slotWidth * 0.7}
+                height={barHeight}
+                className="fill-gray-300"
+              />
+              {bucket.avgScore !== null && (
+                <circle cx={centerX(index)} cy={scoreToY(bucket.avgScore)} r={2} className="fill-green-600" />
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      <ul className="sr-only" aria-label={`Lettuce score by ${interval}`}>
+        {buckets.map((bucket) => (
+          <li key={bucket.start}>{describeBucket(bucket, interval)}</li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+        <span>
+          {formatBucketDate(first)} - {formatBucketDate(last)}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-0.5 bg-green-600" aria-hidden="true" />
+          Average
+          <span className="w-3 h-3 bg-green-100 ml-2" aria-hidden="true" />
+          Range
+          <span className="w-3 h-3 bg-gray-300 ml-2" aria-hidden="true" />
+          Ratings
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreHistoryChart;
@@ -0,0 +1,55 @@
+import React from 'react';
+
+interface ScoreSparklineProps {
+  scores: number[]; // oldest first, on the 1-5 scale
+  width?: number;
+  height?: number;
+}
+
+// Scores are plotted against the full rating scale so small wobbles stay small
+const MIN_SCORE = 1;
+const MAX_SCORE = 5;
+
+const getTrendColor = (first: number, last: number): string => {
+  if (last - first >= 0.1) return 'stroke-green-600';
+  if (first - last >= 0.1) return 'stroke-red-500';
+  return 'stroke-gray-400';
+};
+
+const ScoreSparkline: React.FC<ScoreSparklineProps> = ({ scores, width = 64, height = 20 }) => {
+  if (scores.length < 2) {
+    return null;
+  }
+
+  const first = scores[0]!;
+  const last = scores[scores.length - 1]!;
+  const points = scores
+    .map((score, index) => {
+      const x = (index / (scores.length - 1)) * width;
+      const y = height - ((score - MIN_SCORE) / (MAX_SCORE - MIN_SCORE)) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={`Score trend from ${first.toFixed(1)} to ${last.toFixed(1)}`}
+      className="overflow-visible"
+    >
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth={1.5}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={getTrendColor(first, last)}
+      />
+    </svg>
+  );
+};
+
+export default ScoreSparkline;
@@ -24,7 +24,9 @@ const mockLocation: SubwayLocation = {
   lastRated: new Date('2024-01-15T14:30:00Z'),
   recentlyRated: true,
   distanceFromUser: 250,
-  isOpen: true
+  isOpen: true,
+  closesAt: new Date('2024-01-16T03:00:00Z'), // 22:00 in New York
+  closingSoon: false
 };
 
 const mockLocationNoRating: SubwayLocation = {
@@ -44,7 +46,10 @@ const mockLocationClosed: SubwayLocation = {
     ...mockLocation.hours,
     monday: { open: '09:00', close: '22:00', closed: true }
   },
-  isOpen: false
+  isOpen: false,
+  closesAt: undefined,
+  opensAt: new Date('2024-01-16T14:00:00Z'), // Tuesday 09:00 in New York
+  closingSoon: false
 };
 
 describe('LocationCard', () => {
@@ -130,6 +135,36 @@ describe('LocationCard', () => {
       
       expect(screen.getByText('Very Good')).toBeInTheDocument();
     });
+
+    it('shows a sparkline of the recent score trend', () => {
+      render(<LocationCard location={{ ...mockLocation, scoreTrend: [3.1, 3.6, 4.2] }} />);
+
+      const sparkline = screen.getByRole('img', { name: 'Score trend from 3.1 to 4.2' });
+      expect(sparkline.querySelector('polyline')).toHaveClass('stroke-green-600');
+    });
+
+    it('omits the sparkline until there are two snapshots', () => {
+      render(<LocationCard location={{ ...mockLocation, scoreTrend: [4.2] }} />);
+
+      expect(screen.queryByRole('img', { name: /Score trend/ })).not.toBeInTheDocument();
+    });
+
+    it('flags a score with a wide credible interval as uncertain', () => {
+      const scoreEstimate = { score: 4.2, lower: 3.4, upper: 4.8, effectiveSampleSize: 1.3 };
+      render(<LocationCard location={{ ...mockLocation, scoreEstimate }} />);
+
+      expect(screen.getByText('Few recent ratings · likely 3.4–4.8')).toBeInTheDocument();
+      expect(screen.getByText('4.2')).toHaveClass('border-dashed');
+      expect(screen.getByTitle('Lettuce freshness score: 4.2/5, likely 3.4–4.8')).toBeInTheDocument();
+    });
+
+    it('does not flag a score with a narrow credible interval', () => {
+      const scoreEstimate = { score: 4.2, lower: 3.9, upper: 4.5, effectiveSampleSize: 12.4 };
+      render(<LocationCard location={{ ...mockLocation, scoreEstimate }} />);
+
+      expect(screen.queryByText(/Few recent ratings/)).not.toBeInTheDocument();
+      expect(screen.getByText('4.2')).not.toHaveClass('border-dashed');
+    });
   });
 
   describe('Recently Rated Indicator', () => {
@@ -164,7 +199,7 @@ describe('LocationCard', () => {
     it('displays closed status for closed locations', () => {
       render(<LocationCard location={mockLocationClosed} />);
       
-      expect(screen.getByText('Closed today')).toBeInTheDocument();
+      expect(screen.getByText('Opens Tue 09:00')).toBeInTheDocument();
     });
 
     it('shows correct status indicator colors', () => {
@@ -176,9 +211,45 @@ describe('LocationCard', () => {
       
       // Closed location should have red indicator
       rerender(<LocationCard location={mockLocationClosed} />);
-      statusText = screen.getByText('Closed today');
+      statusText = screen.getByText('Opens Tue 09:00');
       expect(statusText).toHaveClass('text-red-600');
     });
+
+    it('shows when a closed store opens later today', () => {
+      const opensLaterLocation = {
+        ...mockLocation,
+        isOpen: false,
+        closesAt: undefined,
+        opensAt: new Date('2024-01-15T22:00:00Z') // 17:00 in New York
+      };
+
+      render(<LocationCard location={opensLaterLocation} />);
+
+      expect(screen.getByText('Opens at 17:00')).toHaveClass('text-orange-600');
+    });
+
+    it('warns when a store is closing soon', () => {
+      render(<LocationCard location={{ ...mockLocation, closingSoon: true }} />);
+
+      expect(screen.getByText('Closing soon (22:00)')).toHaveClass('text-orange-600');
+    });
+
+    it('shows times in the store timezone', () => {
+      const pacificLocation = {
+        ...mockLocation,
+        hours: { ...mockLocation.hours, timezone: 'America/Los_Angeles' }
+      };
+
+      render(<LocationCard location={pacificLocation} />);
+
+      expect(screen.getByText('Open until 19:00')).toBeInTheDocument();
+    });
+
+    it('shows stores without a closing time as open 24 hours', () => {
+      render(<LocationCard location={{ ...mockLocation, closesAt: undefined }} />);
+
+      expect(screen.getByText('Open 24 hours')).toBeInTheDocument();
+    });
   });
 
   describe('Last Rated Information', () => {
@@ -371,13 +442,10 @@ describe('LocationCard', () => {
   });
 
   describe('Edge Cases', () => {
-    it('handles missing hours data gracefully', () => {
+    it('handles missing open status gracefully', () => {
       const locationWithBadHours = {
         ...mockLocation,
-        hours: {
-          ...mockLocation.hours,
-          monday: undefined as any
-        }
+        isOpen: undefined
       };
       
       render(<LocationCard location={locationWithBadHours} />);
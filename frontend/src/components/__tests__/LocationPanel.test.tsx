@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import LocationPanel from '../LocationPanel';
 import { SubwayLocation } from '../../types';
@@ -249,70 +249,91 @@ describe('LocationPanel', () => {
     });
   });
 
-  describe('Infinite Scroll', () => {
-    it('initially loads first 10 locations', () => {
-      const manyLocations = [...mockLocations, ...generateMockLocations(20)];
-      render(<LocationPanel {...defaultProps} locations={manyLocations} isOpen={true} />);
-      
-      // Should show first 10 locations (3 original + 7 generated)
-      const locationCards = screen.getAllByText(/Subway -/);
-      expect(locationCards).toHaveLength(10);
+  describe('Trending', () => {
+    const trendingLocations = [
+      { ...mockLocations[0], ratingCount: 14, recentRatingCount: 6, ratingVelocity: 0.25 },
+    ];
+
+    it('shows trending locations with their 24h rating count', () => {
+      render(<LocationPanel {...defaultProps} isOpen={true} trendingLocations={trendingLocations} />);
+
+      const trending = screen.getByRole('region', { name: 'Trending locations' });
+      expect(trending).toHaveTextContent('6 ratings in 24h');
     });
 
-    it('loads more locations on scroll', async () => {
-      const manyLocations = [...mockLocations, ...generateMockLocations(20)];
-      render(<LocationPanel {...defaultProps} locations={manyLocations} isOpen={true} />);
-      
-      // Get the scrollable container
+    it('selects a location when a trending card is clicked', () => {
+      render(<LocationPanel {...defaultProps} isOpen={true} trendingLocations={trendingLocations} />);
+
+      const trending = screen.getByRole('region', { name: 'Trending locations' });
+      fireEvent.click(trending.querySelector('button')!);
+
+      expect(defaultProps.onLocationSelect).toHaveBeenCalledWith(trendingLocations[0]);
+    });
+
+    it('hides the section when nothing is trending', () => {
+      render(<LocationPanel {...defaultProps} isOpen={true} />);
+
+      expect(screen.queryByRole('region', { name: 'Trending locations' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Infinite Scroll', () => {
+    const scrollToBottom = () => {
       const scrollContainer = screen.getByRole('region').querySelector('[class*="overflow-y-auto"]');
-      
-      // Simulate scroll to bottom
+
       Object.defineProperty(scrollContainer, 'scrollTop', { value: 1000, writable: true });
       Object.defineProperty(scrollContainer, 'scrollHeight', { value: 1200, writable: true });
       Object.defineProperty(scrollContainer, 'clientHeight', { value: 400, writable: true });
-      
+
       fireEvent.scroll(scrollContainer!);
+    };
+
+    it('renders every location loaded so far', () => {
+      const manyLocations = [...mockLocations, ...generateMockLocations(20)];
+      render(<LocationPanel {...defaultProps} locations={manyLocations} isOpen={true} hasMore={true} />);
       
-      // Wait for loading and new items
-      await waitFor(() => {
-        const locationCards = screen.getAllByText(/Subway -/);
-        expect(locationCards.length).toBeGreaterThan(10);
-      });
+      const locationCards = screen.getAllByText(/Subway -/);
+      expect(locationCards).toHaveLength(23);
     });
 
-    it('shows loading indicator during infinite scroll', async () => {
+    it('requests the next page from the server on scroll', () => {
+      const onLoadMore = vi.fn();
       const manyLocations = [...mockLocations, ...generateMockLocations(20)];
-      render(<LocationPanel {...defaultProps} locations={manyLocations} isOpen={true} />);
-      
-      const scrollContainer = screen.getByRole('region').querySelector('[class*="overflow-y-auto"]');
+      render(
+        <LocationPanel {...defaultProps} locations={manyLocations} isOpen={true} hasMore={true} onLoadMore={onLoadMore} />
+      );
       
-      // Trigger scroll
-      Object.defineProperty(scrollContainer, 'scrollTop', { value: 1000, writable: true });
-      Object.defineProperty(scrollContainer, 'scrollHeight', { value: 1200, writable: true });
-      Object.defineProperty(scrollContainer, 'clientHeight', { value: 400, writable: true });
-      
-      fireEvent.scroll(scrollContainer!);
+      scrollToBottom();
       
-      // Should show loading spinner briefly
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not request another page while one is loading', () => {
+      const onLoadMore = vi.fn();
+      render(
+        <LocationPanel
+          {...defaultProps}
+          isOpen={true}
+          hasMore={true}
+          isLoadingMore={true}
+          onLoadMore={onLoadMore}
+        />
+      );
+
+      scrollToBottom();
+
+      expect(onLoadMore).not.toHaveBeenCalled();
       expect(screen.getByRole('status', { hidden: true })).toBeInTheDocument();
     });
 
-    it('shows end of list message when all locations are loaded', async () => {
-      const fewLocations = [...mockLocations, ...generateMockLocations(5)];
-      render(<LocationPanel {...defaultProps} locations={fewLocations} isOpen={true} />);
-      
-      const scrollContainer = screen.getByRole('region').querySelector('[class*="overflow-y-auto"]');
-      
-      // Scroll to load all items
-      Object.defineProperty(scrollContainer, 'scrollTop', { value: 1000, writable: true });
-      Object.defineProperty(scrollContainer, 'scrollHeight', { value: 1200, writable: true });
-      Object.defineProperty(scrollContainer, 'clientHeight', { value: 400, writable: true });
+    it('shows end of list message when the server has no more pages', () => {
+      const onLoadMore = vi.fn();
+      render(<LocationPanel {...defaultProps} isOpen={true} hasMore={false} onLoadMore={onLoadMore} />);
       
-      fireEvent.scroll(scrollContainer!);
+      scrollToBottom();
       
-      await waitFor(() => {
-        expect(screen.getByText("You've reached the end of the list")).toBeInTheDocument();
-      });
+      expect(onLoadMore).not.toHaveBeenCalled();
+      expect(screen.getByText("You've reached the end of the list")).toBeInTheDocument();
     });
   });
 
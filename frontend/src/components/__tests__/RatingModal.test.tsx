@@ -9,12 +9,30 @@ import { SubwayLocation } from '../../types';
 vi.mock('../../hooks/useLocationQueries', () => ({
   useSubmitRating: vi.fn(),
   useLocationDetail: vi.fn(),
+  useLocationPhotos: vi.fn(),
+  useUploadRatingPhoto: vi.fn(),
+  useFreshnessHeatmap: vi.fn(),
+  useScoreHistory: vi.fn(),
+  useScoreExplanation: vi.fn(),
 }));
 
-import { useSubmitRating, useLocationDetail } from '../../hooks/useLocationQueries';
+import {
+  useSubmitRating,
+  useLocationDetail,
+  useLocationPhotos,
+  useUploadRatingPhoto,
+  useFreshnessHeatmap,
+  useScoreHistory,
+  useScoreExplanation,
+} from '../../hooks/useLocationQueries';
 
 const mockUseSubmitRating = vi.mocked(useSubmitRating);
 const mockUseLocationDetail = vi.mocked(useLocationDetail);
+const mockUseLocationPhotos = vi.mocked(useLocationPhotos);
+const mockUseUploadRatingPhoto = vi.mocked(useUploadRatingPhoto);
+const mockUseFreshnessHeatmap = vi.mocked(useFreshnessHeatmap);
+const mockUseScoreHistory = vi.mocked(useScoreHistory);
+const mockUseScoreExplanation = vi.mocked(useScoreExplanation);
 
 // Test data
 const mockLocation: SubwayLocation = {
@@ -80,6 +98,7 @@ describe('RatingModal', () => {
   const mockOnClose = vi.fn();
   const mockOnSubmit = vi.fn();
   const mockMutateAsync = vi.fn();
+  const mockUploadPhoto = vi.fn();
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -104,6 +123,31 @@ describe('RatingModal', () => {
       isSuccess: true,
       refetch: vi.fn(),
     });
+
+    mockUseLocationPhotos.mockReturnValue({
+      data: { photos: [] },
+      isLoading: false,
+    });
+
+    mockUseUploadRatingPhoto.mockReturnValue({
+      mutateAsync: mockUploadPhoto,
+      isPending: false,
+    });
+
+    mockUseFreshnessHeatmap.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+    });
+
+    mockUseScoreHistory.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+    });
+
+    mockUseScoreExplanation.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+    });
   });
 
   afterEach(() => {
@@ -198,6 +242,285 @@ describe('RatingModal', () => {
       expect(screen.getByText('lunch')).toBeInTheDocument();
     });
 
+    it('should display when the store usually restocks', () => {
+      mockUseLocationDetail.mockReturnValue({
+        data: {
+          ...mockLocationDetail,
+          restockPattern: {
+            typicalDays: ['tuesday', 'friday'],
+            typicalTime: '10:00',
+            summary: 'Usually restocked Tue/Fri ~10 AM',
+            eventCount: 9,
+            lastRestockedAt: '2024-01-12T15:05:00.000Z',
+            confidence: 'low',
+          },
+        },
+        isLoading: false,
+      });
+
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      expect(screen.getByText('Usually restocked Tue/Fri ~10 AM')).toBeInTheDocument();
+      expect(screen.getByText('(from 9 rating jumps)')).toBeInTheDocument();
+    });
+
+    it('should display the freshness heatmap', () => {
+      const emptyHours = Array.from({ length: 24 }, (_, hour) => ({
+        hour,
+        averageScore: null,
+        sampleSize: 0,
+        confidence: 'low' as const,
+      }));
+      mockUseFreshnessHeatmap.mockReturnValue({
+        data: {
+          locationId: mockLocation.id,
+          timezone: 'America/New_York',
+          daysAnalyzed: 90,
+          totalAnalyzedRatings: 12,
+          days: (['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const).map(
+            (dayOfWeek) => ({
+              dayOfWeek,
+              hours: dayOfWeek === 'monday'
+                ? emptyHours.map((cell) =>
+                    cell.hour === 8 ? { hour: 8, averageScore: 4.6, sampleSize: 12, confidence: 'medium' as const } : cell
+                  )
+                : emptyHours,
+            })
+          ),
+        },
+        isLoading: false,
+      });
+
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      const heatmap = screen.getByRole('grid', { name: 'Lettuce freshness by day and hour' });
+      expect(heatmap.querySelectorAll('[role="gridcell"]')).toHaveLength(7 * 24);
+      expect(
+        screen.getByRole('gridcell', { name: 'Monday 08:00: 4.6 average from 12 ratings (medium confidence)' })
+      ).toHaveClass('bg-green-600');
+      expect(screen.getByRole('gridcell', { name: 'Sunday 23:00: no ratings' })).toHaveClass('bg-gray-100');
+      expect(screen.getByText(/Store time \(America\/New_York\), last 90 days/)).toBeInTheDocument();
+    });
+
+    it('should explain when there is no heatmap data yet', () => {
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      expect(screen.getByText('Not enough data for a freshness heatmap')).toBeInTheDocument();
+    });
+
+    it('should display the score history chart', () => {
+      mockUseScoreHistory.mockReturnValue({
+        data: {
+          locationId: mockLocation.id,
+          interval: 'day',
+          from: '2024-01-15T00:00:00.000Z',
+          to: '2024-01-17T09:00:00.000Z',
+          buckets: [
+            {
+              start: '2024-01-15T00:00:00.000Z',
+              end: '2024-01-16T00:00:00.000Z',
+              minScore: null,
+              avgScore: null,
+              maxScore: null,
+              ratingCount: 0,
+            },
+            {
+              start: '2024-01-16T00:00:00.000Z',
+              end: '2024-01-17T00:00:00.000Z',
+              minScore: 3.5,
+              avgScore: 3.9,
+              maxScore: 4.2,
+              ratingCount: 2,
+            },
+            {
+              start: '2024-01-17T00:00:00.000Z',
+              end: '2024-01-18T00:00:00.000Z',
+              minScore: 4.2,
+              avgScore: 4.2,
+              maxScore: 4.2,
+              ratingCount: 1,
+            },
+          ],
+        },
+        isLoading: false,
+      });
+
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      expect(screen.getByRole('img', { name: /Lettuce score by day/ })).toBeInTheDocument();
+      const days = screen.getByRole('list', { name: 'Lettuce score by day' }).querySelectorAll('li');
+      expect(days).toHaveLength(3);
+      expect(days[0]).toHaveTextContent('no score yet, 0 ratings');
+      expect(days[1]).toHaveTextContent('average 3.9 (3.5-4.2), 2 ratings');
+      expect(days[2]).toHaveTextContent('average 4.2 (4.2-4.2), 1 rating');
+    });
+
+    it('should switch the score history to weekly buckets', () => {
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      expect(mockUseScoreHistory).toHaveBeenLastCalledWith(mockLocation.id, 'day', true);
+      expect(screen.getByText('No score history yet')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Weekly' }));
+
+      expect(mockUseScoreHistory).toHaveBeenLastCalledWith(mockLocation.id, 'week', true);
+      expect(screen.getByRole('button', { name: 'Weekly' })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should fetch the score explanation only once it is opened', () => {
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      const toggle = screen.getByRole('button', { name: /How is this calculated/ });
+      expect(toggle).toHaveAttribute('aria-expanded', 'false');
+      expect(mockUseScoreExplanation).toHaveBeenLastCalledWith(mockLocation.id, false);
+
+      fireEvent.click(toggle);
+
+      expect(toggle).toHaveAttribute('aria-expanded', 'true');
+      expect(mockUseScoreExplanation).toHaveBeenLastCalledWith(mockLocation.id, true);
+      expect(screen.getByText('No ratings behind this score yet')).toBeInTheDocument();
+    });
+
+    it('should list the ratings and weights behind the score', () => {
+      mockUseScoreExplanation.mockReturnValue({
+        data: {
+          locationId: mockLocation.id,
+          ingredient: 'lettuce',
+          strategy: 'bayesian',
+          score: 4.2,
+          lower: 3.6,
+          upper: 4.8,
+          effectiveSampleSize: 1.5,
+          prior: { mean: 3.4, weight: 2, share: 0.571 },
+          contributions: [
+            {
+              ratingId: 'rating-2',
+              timestamp: '2024-01-15T10:30:00.000Z',
+              score: 5,
+              recencyWeight: 1,
+              timeWeight: 1,
+              weight: 1,
+              share: 0.286,
+            },
+            {
+              ratingId: 'rating-1',
+              timestamp: '2024-01-12T10:30:00.000Z',
+              score: 4,
+              recencyWeight: 1,
+              timeWeight: 0.5,
+              weight: 0.5,
+              share: 0.143,
+            },
+          ],
+        },
+        isLoading: false,
+      });
+
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /How is this calculated/ }));
+
+      expect(screen.getByText(/likely 3.6–4.8/)).toBeInTheDocument();
+      expect(screen.getByText(/Chain-wide average 3.40/)).toHaveTextContent('57% of the score');
+      const rows = screen.getByRole('table').querySelectorAll('tbody tr');
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toHaveTextContent('×1.00×1.0029%');
+      expect(rows[1]).toHaveTextContent('×1.00×0.5014%');
+    });
+
+    it('should not offer a score explanation without ratings', () => {
+      render(
+        <RatingModal
+          location={{ ...mockLocation, lettuceScore: 0 }}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      expect(screen.queryByRole('button', { name: /How is this calculated/ })).not.toBeInTheDocument();
+    });
+
+    it('should display recent photos in a gallery', () => {
+      mockUseLocationPhotos.mockReturnValue({
+        data: {
+          photos: [{
+            id: 'photo-1',
+            ratingId: 'rating-1',
+            locationId: mockLocation.id,
+            url: '/api/photos/photo-1',
+            thumbnailUrl: '/api/photos/photo-1/thumbnail',
+            width: 1200,
+            height: 900,
+            createdAt: new Date('2024-01-15T12:00:00Z'),
+          }],
+        },
+        isLoading: false,
+      });
+
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      const gallery = screen.getByRole('list', { name: 'Lettuce photos' });
+      expect(gallery.querySelector('img')).toHaveAttribute('src', '/api/photos/photo-1/thumbnail');
+      expect(gallery.querySelector('a')).toHaveAttribute('href', '/api/photos/photo-1');
+    });
+
     it('should show "Not enough data" when no time recommendations', () => {
       mockUseLocationDetail.mockReturnValue({
         data: { ...mockLocationDetail, timeRecommendations: [] },
@@ -375,6 +698,189 @@ describe('RatingModal', () => {
       expect(mockOnClose).toHaveBeenCalled();
     });
 
+    it('should upload the chosen photo with the new rating\'s edit token', async () => {
+      mockMutateAsync.mockResolvedValue({
+        rating: { id: 'new-rating', locationId: mockLocation.id, score: 3, timestamp: new Date() },
+        newLocationScore: 4.1,
+        message: 'Rating submitted successfully',
+        editToken: 'edit-token',
+      });
+      mockUploadPhoto.mockResolvedValue({ id: 'photo-1' });
+
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      const photo = new File(['lettuce'], 'bin.jpg', { type: 'image/jpeg' });
+      fireEvent.click(screen.getByLabelText('Rate 3 stars'));
+      fireEvent.change(screen.getByLabelText('Photo of the lettuce'), { target: { files: [photo] } });
+      expect(screen.getByText('bin.jpg')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Submit Rating'));
+
+      await waitFor(() => {
+        expect(mockUploadPhoto).toHaveBeenCalledWith({
+          locationId: mockLocation.id,
+          ratingId: 'new-rating',
+          editToken: 'edit-token',
+          photo,
+        });
+      });
+      expect(mockOnClose).toHaveBeenCalled();
+    });
+
+    it('should keep the modal open to retry a failed photo upload', async () => {
+      mockMutateAsync.mockResolvedValue({
+        rating: { id: 'new-rating', locationId: mockLocation.id, score: 3, timestamp: new Date() },
+        newLocationScore: 4.1,
+        message: 'Rating submitted successfully',
+        editToken: 'edit-token',
+      });
+      const uploadError = new Error('Failed to upload photo: Payload Too Large');
+      mockUploadPhoto.mockImplementationOnce(async () => {
+        mockUseUploadRatingPhoto.mockReturnValue({
+          mutateAsync: mockUploadPhoto,
+          isPending: false,
+          error: uploadError,
+        });
+        throw uploadError;
+      });
+
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+          onSubmit={mockOnSubmit}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      const photo = new File(['lettuce'], 'bin.jpg', { type: 'image/jpeg' });
+      fireEvent.click(screen.getByLabelText('Rate 3 stars'));
+      fireEvent.change(screen.getByLabelText('Photo of the lettuce'), { target: { files: [photo] } });
+      fireEvent.click(screen.getByText('Submit Rating'));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Failed to upload photo: Payload Too Large');
+      expect(mockOnClose).not.toHaveBeenCalled();
+      expect(screen.getByText('Submit Rating').closest('button')).toBeDisabled();
+
+      mockUploadPhoto.mockResolvedValueOnce({ id: 'photo-1' });
+      fireEvent.click(screen.getByText('Retry upload'));
+
+      await waitFor(() => {
+        expect(mockOnClose).toHaveBeenCalled();
+      });
+      expect(mockUploadPhoto).toHaveBeenLastCalledWith({
+        locationId: mockLocation.id,
+        ratingId: 'new-rating',
+        editToken: 'edit-token',
+        photo,
+      });
+      expect(mockMutateAsync).toHaveBeenCalledTimes(1);
+      expect(mockOnSubmit).toHaveBeenCalledWith(3);
+    });
+
+    it('should reject photos over 5 MB before submitting', () => {
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      const photo = new File([new Uint8Array(5 * 1024 * 1024 + 1)], 'huge.jpg', { type: 'image/jpeg' });
+      fireEvent.change(screen.getByLabelText('Photo of the lettuce'), { target: { files: [photo] } });
+
+      expect(screen.getByText('Photos must be 5 MB or smaller')).toBeInTheDocument();
+      expect(screen.queryByText('huge.jpg')).not.toBeInTheDocument();
+    });
+
+    it('should submit selected tags and a trimmed comment', async () => {
+      mockMutateAsync.mockResolvedValue({
+        rating: { id: 'new-rating', locationId: mockLocation.id, score: 2, timestamp: new Date() },
+        newLocationScore: 3.9,
+        message: 'Rating submitted successfully',
+      });
+
+      render(
+        <RatingModal
+          location={mockLocation}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      fireEvent.click(screen.getByLabelText('Rate 2 stars'));
+
+      const wiltedChip = screen.getByRole('button', { name: 'Wilted' });
+      fireEvent.click(wiltedChip);
+      fireEvent.click(screen.getByRole('button', { name: 'Low stock' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Crisp' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Crisp' }));
+      expect(wiltedChip).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.change(screen.getByLabelText('Comment'), {
+        target: { value: '  Nearly out by 2pm  ' },
+      });
+      expect(screen.getByText('21/280')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Submit Rating'));
+
+      await waitFor(() => {
+        expect(mockMutateAsync).toHaveBeenCalledWith({
+          locationId: mockLocation.id,
+          score: 2,
+          tags: ['wilted', 'low_stock'],
+          comment: 'Nearly out by 2pm',
+        });
+      });
+    });
+
+    it('should submit ratings for other ingredients with the lettuce rating', async () => {
+      mockMutateAsync.mockResolvedValue({
+        rating: { id: 'new-rating', locationId: mockLocation.id, score: 4, timestamp: new Date() },
+        newLocationScore: 4.2,
+        message: 'Rating submitted successfully',
+      });
+
+      render(
+        <RatingModal
+          location={{ ...mockLocation, ingredientScores: { lettuce: 4.2, tomato: 3.4 } }}
+          isOpen={true}
+          onClose={mockOnClose}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      expect(screen.getByText('Now 3.4')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Rate 4 stars'));
+      fireEvent.click(screen.getByLabelText('Rate tomato 2 stars'));
+      fireEvent.click(screen.getByLabelText('Rate onion 5 stars'));
+      fireEvent.click(screen.getByLabelText('Rate cucumber 3 stars'));
+      fireEvent.click(screen.getByLabelText('Rate cucumber 3 stars'));
+      expect(screen.getByLabelText('Rate tomato 2 stars')).toHaveAttribute('aria-checked', 'true');
+
+      fireEvent.click(screen.getByText('Submit Rating'));
+
+      await waitFor(() => {
+        expect(mockMutateAsync).toHaveBeenCalledWith({
+          locationId: mockLocation.id,
+          score: 4,
+          ingredientScores: { tomato: 2, onion: 5 },
+        });
+      });
+    });
+
     it('should show loading state during submission', async () => {
       mockUseSubmitRating.mockReturnValue({
         mutateAsync: mockMutateAsync,
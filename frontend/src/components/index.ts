@@ -7,6 +7,11 @@ export { default as MapView } from './MapView';
 export { default as LocationPanel } from './LocationPanel';
 export { default as LocationCard } from './LocationCard';
 export { default as RatingModal } from './RatingModal';
+export { default as PhotoGallery } from './PhotoGallery';
+export { default as FreshnessHeatmap } from './FreshnessHeatmap';
+export { default as ScoreHistoryChart } from './ScoreHistoryChart';
+export { default as ScoreSparkline } from './ScoreSparkline';
+export { default as ScoreExplanation } from './ScoreExplanation';
 export { default as ErrorBoundary, QueryErrorBoundary, useErrorHandler } from './ErrorBoundary';
 export { default as DataSyncIndicator, DataFreshnessIndicator } from './DataSyncIndicator';
 export { default as OfflineIndicator, OfflineMessage, useOfflineErrorMessage } from './OfflineIndicator';
\ No newline at end of file
@@ -1,18 +1,28 @@
 import React from 'react';
-import { renderHook, waitFor } from '@testing-library/react';
+import { renderHook, waitFor, act } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactNode } from 'react';
 import { 
   useNearbyLocations, 
+  useInfiniteNearbyLocations,
   useLocationDetail, 
+  useLocationsInBounds,
   useSubmitRating, 
-  useLocationData
+  useLocationData,
+  useAutoRefresh
 } from '../useLocationQueries';
 import { Coordinates, SubwayLocation, SubmitRatingRequest } from '../../types';
 
 // Mock fetch globally
 global.fetch = vi.fn();
 
+vi.mock('../../services/deviceIdentity', () => ({
+  deviceIdentityService: {
+    getDeviceToken: vi.fn().mockResolvedValue('device-token'),
+    clearDeviceToken: vi.fn(),
+  },
+}));
+
 // Create a test wrapper with QueryClient
 const createWrapper = () => {
   const queryClient = new QueryClient({
@@ -115,6 +125,92 @@ describe('useLocationQueries', () => {
     });
   });
 
+  describe('useInfiniteNearbyLocations', () => {
+    it('should request the next page with the returned cursor', async () => {
+      (fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            locations: [mockLocation],
+            userLocation: mockCoordinates,
+            searchRadius: 5000,
+            totalFound: 1,
+            nextCursor: 'page-2',
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            locations: [{ ...mockLocation, id: '2' }],
+            userLocation: mockCoordinates,
+            searchRadius: 5000,
+            totalFound: 1,
+            nextCursor: null,
+          }),
+        });
+
+      const { result } = renderHook(
+        () => useInfiniteNearbyLocations(mockCoordinates, 5000, 1),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(result.current.hasNextPage).toBe(true);
+      });
+
+      await act(async () => {
+        await result.current.fetchNextPage();
+      });
+
+      await waitFor(() => {
+        expect(result.current.data?.pages).toHaveLength(2);
+      });
+
+      expect(fetch).toHaveBeenLastCalledWith(expect.stringContaining('cursor=page-2'));
+      expect(result.current.hasNextPage).toBe(false);
+    });
+  });
+
+  describe('useLocationsInBounds', () => {
+    it('should fetch locations for rounded viewport bounds', async () => {
+      const mockResponse = {
+        locations: [mockLocation],
+        bounds: { north: 40.8, south: 40.7, east: -73.9, west: -74.1 },
+        totalFound: 1,
+        limit: 100,
+        tooMany: false,
+      };
+
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockResponse,
+      });
+
+      const { result } = renderHook(
+        () => useLocationsInBounds({ north: 40.80012, south: 40.69991, east: -73.9, west: -74.1 }),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(result.current.data).toEqual(mockResponse);
+      expect(fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/locations/within-bounds?north=40.8&south=40.7&east=-73.9&west=-74.1&limit=100')
+      );
+    });
+
+    it('should not fetch when bounds are null', () => {
+      renderHook(
+        () => useLocationsInBounds(null),
+        { wrapper: createWrapper() }
+      );
+
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('useLocationDetail', () => {
     it('should fetch location detail successfully', async () => {
       const mockDetailResponse = {
@@ -189,6 +285,12 @@ describe('useLocationQueries', () => {
       });
 
       expect(result.current.data).toEqual(mockRatingResponse);
+      expect(fetch).toHaveBeenCalledWith(
+        '/api/locations/1/ratings',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Device-Token': 'device-token' }),
+        })
+      );
     });
 
     it('should handle rating submission errors', async () => {
@@ -254,6 +356,34 @@ describe('useLocationQueries', () => {
       expect(result.current.isLoading).toBe(false);
     });
   });
+
+  describe('useAutoRefresh', () => {
+    it('should refetch the paged nearby locations', async () => {
+      (fetch as any).mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          locations: [mockLocation],
+          userLocation: mockCoordinates,
+          searchRadius: 5000,
+          totalFound: 1,
+          nextCursor: null,
+        }),
+      });
+
+      renderHook(
+        () => {
+          useInfiniteNearbyLocations(mockCoordinates);
+          useAutoRefresh(mockCoordinates, { baseInterval: 50 });
+        },
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        // The first page, then at least one refresh of it
+        expect((fetch as any).mock.calls.length).toBeGreaterThanOrEqual(2);
+      });
+    });
+  });
 });
 
 describe('Error Handling and Retry Logic', () => {
@@ -1,14 +1,32 @@
 import React from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+  InfiniteData
+} from '@tanstack/react-query';
 import { 
   SubwayLocationDetail, 
   NearbyLocationsResponse, 
+  HotLocationsResponse,
+  LocationsInBoundsResponse,
+  BoundingBox,
   SubmitRatingRequest, 
   SubmitRatingResponse,
+  UploadRatingPhotoRequest,
+  RatingPhoto,
+  LocationPhotosResponse,
+  FreshnessHeatmapResponse,
+  ScoreHistoryInterval,
+  ScoreHistoryResponse,
+  ScoreExplanation,
   Coordinates,
   SubwayLocation 
 } from '../types';
 import { useOfflineAwareQuery } from './useOfflineStatus';
+import { deviceIdentityService } from '../services/deviceIdentity';
 
 // API base URL
 const API_BASE = '/api';
@@ -18,8 +36,19 @@ export const locationKeys = {
   all: ['locations'] as const,
   nearby: (coords: Coordinates, radius?: number) => 
     [...locationKeys.all, 'nearby', coords, radius] as const,
+  nearbyPages: (coords: Coordinates, radius?: number, pageSize?: number) =>
+    [...locationKeys.all, 'nearbyPages', coords, radius, pageSize] as const,
+  hot: (coords: Coordinates, radius?: number) =>
+    [...locationKeys.all, 'hot', coords, radius] as const,
+  bounds: (bounds: BoundingBox, limit?: number) =>
+    [...locationKeys.all, 'bounds', bounds, limit] as const,
   detail: (id: string) => [...locationKeys.all, 'detail', id] as const,
   ratings: (id: string) => [...locationKeys.all, 'ratings', id] as const,
+  photos: (id: string) => [...locationKeys.all, 'photos', id] as const,
+  heatmap: (id: string) => [...locationKeys.all, 'heatmap', id] as const,
+  scoreHistory: (id: string, interval?: ScoreHistoryInterval) =>
+    [...locationKeys.all, 'scoreHistory', id, interval] as const,
+  scoreExplanation: (id: string) => [...locationKeys.all, 'scoreExplanation', id] as const,
 };
 
 // API functions
@@ -27,7 +56,8 @@ const fetchNearbyLocations = async (
   lat: number, 
   lng: number, 
   radius = 5000, 
-  limit = 20
+  limit = 20,
+  cursor?: string
 ): Promise<NearbyLocationsResponse> => {
   const params = new URLSearchParams({
     lat: lat.toString(),
@@ -35,6 +65,9 @@ const fetchNearbyLocations = async (
     radius: radius.toString(),
     limit: limit.toString(),
   });
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
   
   const response = await fetch(`${API_BASE}/locations/nearby?${params}`);
   if (!response.ok) {
@@ -44,6 +77,55 @@ const fetchNearbyLocations = async (
   return response.json();
 };
 
+const fetchHotLocations = async (
+  lat: number,
+  lng: number,
+  radius = 5000,
+  limit = 10
+): Promise<HotLocationsResponse> => {
+  const params = new URLSearchParams({
+    lat: lat.toString(),
+    lng: lng.toString(),
+    radius: radius.toString(),
+    limit: limit.toString(),
+  });
+
+  const response = await fetch(`${API_BASE}/locations/hot?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch hot locations: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+const fetchLocationsInBounds = async (
+  bounds: BoundingBox,
+  limit = 100
+): Promise<LocationsInBoundsResponse> => {
+  const params = new URLSearchParams({
+    north: bounds.north.toString(),
+    south: bounds.south.toString(),
+    east: bounds.east.toString(),
+    west: bounds.west.toString(),
+    limit: limit.toString(),
+  });
+
+  const response = await fetch(`${API_BASE}/locations/within-bounds?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch locations in bounds: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+// Round viewport edges so tiny pans reuse the cached query
+const roundBounds = (bounds: BoundingBox): BoundingBox => ({
+  north: Math.round(bounds.north * 1000) / 1000,
+  south: Math.round(bounds.south * 1000) / 1000,
+  east: Math.round(bounds.east * 1000) / 1000,
+  west: Math.round(bounds.west * 1000) / 1000,
+});
+
 const fetchLocationDetail = async (id: string): Promise<SubwayLocationDetail> => {
   const response = await fetch(`${API_BASE}/locations/${id}`);
   if (!response.ok) {
@@ -54,24 +136,128 @@ const fetchLocationDetail = async (id: string): Promise<SubwayLocationDetail> =>
 };
 
 const submitRating = async (request: SubmitRatingRequest): Promise<SubmitRatingResponse> => {
+  // Attribute the rating to this device; rate anonymously if no token is available
+  const deviceToken = await deviceIdentityService.getDeviceToken();
+
   const response = await fetch(`${API_BASE}/locations/${request.locationId}/ratings`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...(deviceToken ? { 'X-Device-Token': deviceToken } : {}),
     },
     body: JSON.stringify({
       score: request.score,
-      userId: request.userId,
+      ingredientScores: request.ingredientScores,
+      tags: request.tags,
+      comment: request.comment,
     }),
   });
   
   if (!response.ok) {
+    // The backend no longer accepts this token (e.g. its secret rotated); get a fresh one next time
+    if (response.status === 401) {
+      deviceIdentityService.clearDeviceToken();
+    }
+
     throw new Error(`Failed to submit rating: ${response.statusText}`);
   }
   
   return response.json();
 };
 
+const uploadRatingPhoto = async (request: UploadRatingPhotoRequest): Promise<RatingPhoto> => {
+  const body = new FormData();
+  body.append('photo', request.photo);
+
+  // The browser sets the multipart Content-Type (with boundary) itself
+  const response = await fetch(
+    `${API_BASE}/locations/${request.locationId}/ratings/${request.ratingId}/photos`,
+    {
+      method: 'POST',
+      headers: { 'X-Rating-Token': request.editToken },
+      body,
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to upload photo: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+const fetchLocationPhotos = async (locationId: string): Promise<LocationPhotosResponse> => {
+  const response = await fetch(`${API_BASE}/locations/${locationId}/photos`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch location photos: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+const fetchFreshnessHeatmap = async (locationId: string): Promise<FreshnessHeatmapResponse> => {
+  const response = await fetch(`${API_BASE}/locations/${locationId}/analysis/heatmap`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch freshness heatmap: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+const fetchScoreHistory = async (
+  locationId: string,
+  interval: ScoreHistoryInterval
+): Promise<ScoreHistoryResponse> => {
+  const response = await fetch(`${API_BASE}/locations/${locationId}/score-history?interval=${interval}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch score history: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+const fetchScoreExplanation = async (locationId: string): Promise<ScoreExplanation> => {
+  const response = await fetch(`${API_BASE}/locations/${locationId}/score/explain`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch score explanation: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+// Apply an update to one location inside a cached list response (plain or paged)
+const updateCachedLocation = (
+  queryData: unknown,
+  locationId: string,
+  update: (location: SubwayLocation) => SubwayLocation
+): unknown => {
+  if (!queryData || typeof queryData !== 'object') return queryData;
+
+  if ('pages' in queryData) {
+    const pagedData = queryData as InfiniteData<NearbyLocationsResponse>;
+    return {
+      ...pagedData,
+      pages: pagedData.pages.map(page => updateCachedLocation(page, locationId, update)),
+    };
+  }
+
+  if ('locations' in queryData) {
+    const listData = queryData as NearbyLocationsResponse;
+    return {
+      ...listData,
+      locations: listData.locations.map(location =>
+        location.id === locationId ? update(location) : location
+      ),
+    };
+  }
+
+  return queryData;
+};
+
 // React Query hooks with real-time updates
 export const useNearbyLocations = (
   coordinates: Coordinates | null,
@@ -107,6 +293,97 @@ export const useNearbyLocations = (
   });
 };
 
+// Nearby locations fetched page by page from the server (cursor pagination)
+export const useInfiniteNearbyLocations = (
+  coordinates: Coordinates | null,
+  radius = 5000,
+  pageSize = 20,
+  enabled = true,
+  options?: {
+    enableRealTimeUpdates?: boolean;
+    refetchInterval?: number;
+  }
+) => {
+  const { enableRealTimeUpdates = true, refetchInterval = 2 * 60 * 1000 } = options || {};
+  const { shouldRetry, getRetryDelay, isOffline } = useOfflineAwareQuery();
+
+  return useInfiniteQuery({
+    queryKey: locationKeys.nearbyPages(coordinates || { lat: 0, lng: 0 }, radius, pageSize),
+    queryFn: ({ pageParam }) => {
+      if (!coordinates) {
+        throw new Error('Coordinates are required');
+      }
+      return fetchNearbyLocations(coordinates.lat, coordinates.lng, radius, pageSize, pageParam);
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: enabled && !!coordinates,
+    staleTime: 1 * 60 * 1000, // 1 minute - shorter for real-time feel
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+    refetchInterval: enableRealTimeUpdates && !isOffline ? refetchInterval : false,
+    refetchIntervalInBackground: false,
+    refetchOnWindowFocus: !isOffline,
+    refetchOnReconnect: true,
+  });
+};
+
+// Trending locations near the user (server refreshes the underlying view every few minutes)
+export const useHotLocations = (
+  coordinates: Coordinates | null,
+  radius = 5000,
+  enabled = true
+) => {
+  const { shouldRetry, getRetryDelay, isOffline } = useOfflineAwareQuery();
+
+  return useQuery({
+    queryKey: locationKeys.hot(coordinates || { lat: 0, lng: 0 }, radius),
+    queryFn: () => {
+      if (!coordinates) {
+        throw new Error('Coordinates are required');
+      }
+      return fetchHotLocations(coordinates.lat, coordinates.lng, radius);
+    },
+    enabled: enabled && !!coordinates,
+    staleTime: 5 * 60 * 1000, // 5 minutes - matches the server cache
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+    refetchOnWindowFocus: !isOffline,
+    refetchOnReconnect: true,
+  });
+};
+
+// Locations inside the visible map viewport; refetches whenever the bounds change
+export const useLocationsInBounds = (
+  bounds: BoundingBox | null,
+  limit = 100,
+  enabled = true
+) => {
+  const { shouldRetry, getRetryDelay, isOffline } = useOfflineAwareQuery();
+  const roundedBounds = bounds ? roundBounds(bounds) : null;
+
+  return useQuery({
+    queryKey: locationKeys.bounds(roundedBounds || { north: 0, south: 0, east: 0, west: 0 }, limit),
+    queryFn: () => {
+      if (!roundedBounds) {
+        throw new Error('Bounds are required');
+      }
+      return fetchLocationsInBounds(roundedBounds, limit);
+    },
+    enabled: enabled && !!roundedBounds,
+    // Keep showing the previous viewport's markers while panning
+    placeholderData: keepPreviousData,
+    staleTime: 1 * 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+    refetchOnWindowFocus: !isOffline,
+    refetchOnReconnect: true,
+  });
+};
+
 export const useLocationDetail = (
   locationId: string | null, 
   enabled = true,
@@ -167,7 +444,6 @@ export const useSubmitRating = () => {
               locationId: variables.locationId,
               score: variables.score,
               timestamp: new Date(),
-              userId: variables.userId,
             };
             const allRatings = [...recentRatings, newRating];
             
@@ -199,29 +475,22 @@ export const useSubmitRating = () => {
 
       // Optimistically update nearby locations
       previousNearbyLocations.forEach(([queryKey, queryData]) => {
-        if (queryData && typeof queryData === 'object' && 'locations' in queryData) {
-          const nearbyData = queryData as NearbyLocationsResponse;
-          const updatedLocations = nearbyData.locations.map((location: SubwayLocation) => {
-            if (location.id === variables.locationId) {
-              // Use the same optimistic calculation logic
-              const optimisticScore = Math.min(5, Math.max(1, 
-                (location.lettuceScore * 9 + variables.score) / 10
-              ));
-              
-              return {
-                ...location,
-                lettuceScore: optimisticScore,
-                lastRated: new Date(),
-                recentlyRated: true,
-              };
-            }
-            return location;
-          });
-
-          queryClient.setQueryData(queryKey, {
-            ...nearbyData,
-            locations: updatedLocations,
-          });
+        const updatedData = updateCachedLocation(queryData, variables.locationId, (location) => {
+          // Use the same optimistic calculation logic
+          const optimisticScore = Math.min(5, Math.max(1, 
+            (location.lettuceScore * 9 + variables.score) / 10
+          ));
+          
+          return {
+            ...location,
+            lettuceScore: optimisticScore,
+            lastRated: new Date(),
+            recentlyRated: true,
+          };
+        });
+
+        if (updatedData !== queryData) {
+          queryClient.setQueryData(queryKey, updatedData);
         }
       });
 
@@ -239,6 +508,10 @@ export const useSubmitRating = () => {
               lettuceScore: data.newLocationScore,
               lastRated: new Date(),
               recentlyRated: true,
+              // A repeat replaced this rater's earlier rating, so undo the optimistic +1
+              totalRatings: data.action === 'updated'
+                ? Math.max(0, (oldData.totalRatings || 0) - 1)
+                : oldData.totalRatings,
             };
           }
           return oldData;
@@ -248,24 +521,15 @@ export const useSubmitRating = () => {
       // Update nearby locations with real score
       const nearbyQueries = queryClient.getQueriesData({ queryKey: locationKeys.all });
       nearbyQueries.forEach(([queryKey, queryData]) => {
-        if (queryData && typeof queryData === 'object' && 'locations' in queryData) {
-          const nearbyData = queryData as NearbyLocationsResponse;
-          const updatedLocations = nearbyData.locations.map((location: SubwayLocation) => {
-            if (location.id === variables.locationId) {
-              return {
-                ...location,
-                lettuceScore: data.newLocationScore,
-                lastRated: new Date(),
-                recentlyRated: true,
-              };
-            }
-            return location;
-          });
-
-          queryClient.setQueryData(queryKey, {
-            ...nearbyData,
-            locations: updatedLocations,
-          });
+        const updatedData = updateCachedLocation(queryData, variables.locationId, (location) => ({
+          ...location,
+          lettuceScore: data.newLocationScore,
+          lastRated: new Date(),
+          recentlyRated: true,
+        }));
+
+        if (updatedData !== queryData) {
+          queryClient.setQueryData(queryKey, updatedData);
         }
       });
 
@@ -274,6 +538,8 @@ export const useSubmitRating = () => {
         queryKey: locationKeys.detail(variables.locationId),
         refetchType: 'none' // Don't refetch immediately since we just updated
       });
+      queryClient.invalidateQueries({ queryKey: locationKeys.scoreHistory(variables.locationId) });
+      queryClient.invalidateQueries({ queryKey: locationKeys.scoreExplanation(variables.locationId) });
     },
     onError: (error, variables, context) => {
       console.error('Failed to submit rating:', error);
@@ -297,6 +563,106 @@ export const useSubmitRating = () => {
   });
 };
 
+// Hook for attaching a photo to a rating just submitted (uses the rating's edit token)
+export const useUploadRatingPhoto = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: uploadRatingPhoto,
+    onSuccess: (_photo, variables) => {
+      queryClient.invalidateQueries({ queryKey: locationKeys.photos(variables.locationId) });
+    },
+  });
+};
+
+// Hook for the recent photo gallery of a location
+export const useLocationPhotos = (locationId: string | null, enabled = true) => {
+  const { shouldRetry, getRetryDelay, isOffline } = useOfflineAwareQuery();
+
+  return useQuery({
+    queryKey: locationKeys.photos(locationId || ''),
+    queryFn: () => {
+      if (!locationId) {
+        throw new Error('Location ID is required');
+      }
+      return fetchLocationPhotos(locationId);
+    },
+    enabled: enabled && !!locationId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+    refetchOnWindowFocus: !isOffline,
+  });
+};
+
+// Hook for the day-of-week by hour freshness heatmap of a location
+export const useFreshnessHeatmap = (locationId: string | null, enabled = true) => {
+  const { shouldRetry, getRetryDelay } = useOfflineAwareQuery();
+
+  return useQuery({
+    queryKey: locationKeys.heatmap(locationId || ''),
+    queryFn: () => {
+      if (!locationId) {
+        throw new Error('Location ID is required');
+      }
+      return fetchFreshnessHeatmap(locationId);
+    },
+    enabled: enabled && !!locationId,
+    staleTime: 30 * 60 * 1000, // 30 minutes - months of ratings barely move in that time
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Hook for the lettuce score history of a location, by day or week
+export const useScoreHistory = (
+  locationId: string | null,
+  interval: ScoreHistoryInterval = 'day',
+  enabled = true
+) => {
+  const { shouldRetry, getRetryDelay } = useOfflineAwareQuery();
+
+  return useQuery({
+    queryKey: locationKeys.scoreHistory(locationId || '', interval),
+    queryFn: () => {
+      if (!locationId) {
+        throw new Error('Location ID is required');
+      }
+      return fetchScoreHistory(locationId, interval);
+    },
+    enabled: enabled && !!locationId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Hook for the ratings and weights behind a location's lettuce score
+export const useScoreExplanation = (locationId: string | null, enabled = true) => {
+  const { shouldRetry, getRetryDelay } = useOfflineAwareQuery();
+
+  return useQuery({
+    queryKey: locationKeys.scoreExplanation(locationId || ''),
+    queryFn: () => {
+      if (!locationId) {
+        throw new Error('Location ID is required');
+      }
+      return fetchScoreExplanation(locationId);
+    },
+    enabled: enabled && !!locationId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+    refetchOnWindowFocus: false,
+  });
+};
+
 // Hook for real-time score monitoring of a specific location
 export const useRealTimeLocationScore = (
   locationId: string | null,
@@ -349,11 +715,17 @@ export const useAutoRefresh = (
     if (!userLocation || !enableAutoRefresh) return;
 
     try {
-      // Invalidate and refetch nearby locations
-      await queryClient.invalidateQueries({ 
-        queryKey: locationKeys.nearby(userLocation),
-        refetchType: 'active'
-      });
+      // Invalidate and refetch nearby locations, single and paged
+      await Promise.all([
+        queryClient.invalidateQueries({ 
+          queryKey: locationKeys.nearby(userLocation),
+          refetchType: 'active'
+        }),
+        queryClient.invalidateQueries({
+          queryKey: [...locationKeys.all, 'nearbyPages', userLocation],
+          refetchType: 'active'
+        }),
+      ]);
     } catch (error) {
       console.warn('Auto-refresh failed:', error);
     }
@@ -398,18 +770,23 @@ export const useLocationData = (
 ) => {
   const { enableRealTimeUpdates = true, enableAutoRefresh = true } = options || {};
   
-  const nearbyQuery = useNearbyLocations(userLocation, 5000, 20, true, {
+  const nearbyQuery = useInfiniteNearbyLocations(userLocation, 5000, 20, true, {
     enableRealTimeUpdates,
     refetchInterval: enableRealTimeUpdates ? 2 * 60 * 1000 : undefined,
   });
 
+  const locations = React.useMemo(
+    () => nearbyQuery.data?.pages.flatMap(page => page.locations) ?? [],
+    [nearbyQuery.data]
+  );
+
   // Set up auto-refresh
   useAutoRefresh(userLocation, {
     enableAutoRefresh,
   });
   
   return {
-    locations: nearbyQuery.data?.locations || [],
+    locations,
     isLoading: nearbyQuery.isLoading,
     error: nearbyQuery.error,
     refetch: nearbyQuery.refetch,
@@ -417,6 +794,9 @@ export const useLocationData = (
     isFetching: nearbyQuery.isFetching,
     dataUpdatedAt: nearbyQuery.dataUpdatedAt,
     isStale: nearbyQuery.isStale,
+    hasMore: nearbyQuery.hasNextPage,
+    isLoadingMore: nearbyQuery.isFetchingNextPage,
+    loadMore: nearbyQuery.fetchNextPage,
   };
 };
 
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DeviceIdentityService } from '../deviceIdentity';
+
+describe('DeviceIdentityService', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    global.fetch = fetchMock;
+  });
+
+  const mockIssuedToken = (deviceToken: string) => {
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ deviceId: 'device-1', deviceToken }),
+    });
+  };
+
+  it('should request a token on first use and persist it', async () => {
+    mockIssuedToken('issued-token');
+    const service = new DeviceIdentityService();
+
+    await expect(service.getDeviceToken()).resolves.toBe('issued-token');
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/devices', { method: 'POST' });
+    expect(localStorage.getItem('leaf-app:device-token')).toBe('issued-token');
+  });
+
+  it('should reuse a stored token without calling the backend', async () => {
+    localStorage.setItem('leaf-app:device-token', 'stored-token');
+    const service = new DeviceIdentityService();
+
+    await expect(service.getDeviceToken()).resolves.toBe('stored-token');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should share one request between concurrent callers', async () => {
+    mockIssuedToken('issued-token');
+    const service = new DeviceIdentityService();
+
+    const tokens = await Promise.all([service.getDeviceToken(), service.getDeviceToken()]);
+
+    expect(tokens).toEqual(['issued-token', 'issued-token']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve to null when the backend is unavailable', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('Network error'));
+    const service = new DeviceIdentityService();
+
+    await expect(service.getDeviceToken()).resolves.toBeNull();
+  });
+
+  it('should request a new token after the stored one is cleared', async () => {
+    localStorage.setItem('leaf-app:device-token', 'stale-token');
+    mockIssuedToken('fresh-token');
+    const service = new DeviceIdentityService();
+
+    await service.getDeviceToken();
+    service.clearDeviceToken();
+
+    await expect(service.getDeviceToken()).resolves.toBe('fresh-token');
+  });
+});
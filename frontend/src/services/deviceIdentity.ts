@@ -0,0 +1,83 @@
+import { DeviceTokenResponse } from '../types';
+
+const STORAGE_KEY = 'leaf-app:device-token';
+
+/**
+ * Keeps the anonymous device token issued by the backend so every rating
+ * from this browser is attributed to the same device
+ */
+export class DeviceIdentityService {
+  private static instance: DeviceIdentityService;
+  private token: string | null = null;
+  private pendingRequest: Promise<string | null> | null = null;
+
+  static getInstance(): DeviceIdentityService {
+    if (!DeviceIdentityService.instance) {
+      DeviceIdentityService.instance = new DeviceIdentityService();
+    }
+    return DeviceIdentityService.instance;
+  }
+
+  /**
+   * Get the stored device token, requesting one from the backend on first use.
+   * Resolves to null if no token could be obtained so callers can carry on anonymously.
+   */
+  async getDeviceToken(): Promise<string | null> {
+    this.token = this.token ?? this.readStoredToken();
+    if (this.token) {
+      return this.token;
+    }
+
+    // Share one request between callers racing on first visit
+    if (!this.pendingRequest) {
+      this.pendingRequest = this.requestDeviceToken().finally(() => {
+        this.pendingRequest = null;
+      });
+    }
+    return this.pendingRequest;
+  }
+
+  /**
+   * Forget the stored token, e.g. after the backend rejected it
+   */
+  clearDeviceToken(): void {
+    this.token = null;
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Storage unavailable (private mode) - nothing to clear
+    }
+  }
+
+  private async requestDeviceToken(): Promise<string | null> {
+    try {
+      const response = await fetch('/api/devices', { method: 'POST' });
+      if (!response.ok) {
+        return null;
+      }
+
+      const { deviceToken }: DeviceTokenResponse = await response.json();
+      this.token = deviceToken;
+      try {
+        localStorage.setItem(STORAGE_KEY, deviceToken);
+      } catch {
+        // Storage unavailable - the token still works for this page load
+      }
+      return deviceToken;
+    } catch (error) {
+      console.warn('Failed to obtain device token:', error);
+      return null;
+    }
+  }
+
+  private readStoredToken(): string | null {
+    try {
+      return localStorage.getItem(STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const deviceIdentityService = DeviceIdentityService.getInstance();
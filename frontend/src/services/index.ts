@@ -2,4 +2,6 @@ export { geolocationService, GeolocationService } from './geolocation';
 export type { GeolocationResult, GeolocationError } from './geolocation';
 
 export { directionsService, DirectionsService } from './directions';
-export type { DirectionsError, DirectionsOptions } from './directions';
\ No newline at end of file
+export type { DirectionsError, DirectionsOptions } from './directions';
+
+export { deviceIdentityService, DeviceIdentityService } from './deviceIdentity';
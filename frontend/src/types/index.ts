@@ -4,15 +4,33 @@ export interface Coordinates {
   lng: number;
 }
 
+// One opening interval; a close at or before the open runs past midnight
+export interface HoursInterval {
+  open: string;
+  close: string;
+}
+
+// A day's opening intervals, sorted by opening time; empty when closed all day
+export interface DayHours {
+  intervals: HoursInterval[];
+}
+
+// Single open/close form, still found in data cached before intervals
+export interface LegacyDayHours {
+  open: string;
+  close: string;
+  closed?: boolean;
+}
+
 // Store hours interface
 export interface StoreHours {
-  monday: { open: string; close: string; closed?: boolean };
-  tuesday: { open: string; close: string; closed?: boolean };
-  wednesday: { open: string; close: string; closed?: boolean };
-  thursday: { open: string; close: string; closed?: boolean };
-  friday: { open: string; close: string; closed?: boolean };
-  saturday: { open: string; close: string; closed?: boolean };
-  sunday: { open: string; close: string; closed?: boolean };
+  monday: DayHours | LegacyDayHours;
+  tuesday: DayHours | LegacyDayHours;
+  wednesday: DayHours | LegacyDayHours;
+  thursday: DayHours | LegacyDayHours;
+  friday: DayHours | LegacyDayHours;
+  saturday: DayHours | LegacyDayHours;
+  sunday: DayHours | LegacyDayHours;
   timezone: string;
 }
 
@@ -23,19 +41,51 @@ export interface SubwayLocation {
   address: string;
   coordinates: Coordinates;
   hours: StoreHours;
-  lettuceScore: number; // 1-5, weighted average of last 10 ratings
-  lastRated?: Date;
-  recentlyRated: boolean; // rated within last 2 hours
+  lettuceScore: number; // 1-5 Bayesian lettuce score, 0 without ratings
+  scoreEstimate?: ScoreEstimate; // lettuce score with its credible interval
+  ingredientScores?: IngredientScores; // weighted score of each ingredient with ratings
+  lastRated?: Date; // latest lettuce rating
+  recentlyRated: boolean; // lettuce rated within last 2 hours
   distanceFromUser?: number; // in meters
-  isOpen?: boolean; // calculated based on current time and hours
+  isOpen?: boolean; // calculated by the server in the store's timezone
+  closesAt?: Date; // when an open store next closes; absent if open around the clock
+  opensAt?: Date; // when a closed store next opens; absent if not within a week
+  closingSoon?: boolean; // open and closing within 30 minutes
+  scoreTrend?: number[]; // latest lettuce score snapshots, oldest first
+}
+
+// Bayesian score from time-decayed ratings shrunk toward the chain-wide mean, with an
+// 80% credible interval. All zero for a location without ratings.
+export interface ScoreEstimate {
+  score: number;
+  lower: number;
+  upper: number;
+  effectiveSampleSize: number; // ratings counted after time decay, fresh rating = 1
 }
 
+// Ingredients that can be rated; ratings without one are lettuce ratings
+export type Ingredient = 'lettuce' | 'tomato' | 'cucumber' | 'onion' | 'spinach';
+
+// Weighted 1-5 score per ingredient, for ingredients that have ratings
+export type IngredientScores = Partial<Record<Ingredient, number>>;
+
 export interface Rating {
   id: string;
   locationId: string;
   score: number; // 1-5
+  ingredient?: Ingredient; // defaults to lettuce
   timestamp: Date;
-  userId?: string; // for future user tracking
+  userId?: string; // anonymous device ID of the rater, when known
+  tags?: RatingTag[];
+  comment?: string | null;
+}
+
+// Predefined freshness tags a rater can attach to a rating
+export type RatingTag = 'wilted' | 'browning' | 'crisp' | 'fresh_batch' | 'low_stock';
+
+export interface RatingTagCount {
+  tag: RatingTag;
+  count: number;
 }
 
 export interface TimeRecommendation {
@@ -46,11 +96,90 @@ export interface TimeRecommendation {
   timeRange: string; // e.g., "6:00 AM - 11:00 AM"
 }
 
+// One hour of one weekday in a freshness heatmap, in the store's timezone
+export interface HeatmapCell {
+  hour: number; // 0-23
+  averageScore: number | null; // null when no ratings fall in this hour
+  sampleSize: number;
+  confidence: ConfidenceLevel;
+}
+
+export interface HeatmapDay {
+  dayOfWeek: DayOfWeek;
+  hours: HeatmapCell[]; // 24 cells, midnight first
+}
+
+export interface FreshnessHeatmapResponse {
+  locationId: string;
+  timezone: string;
+  daysAnalyzed: number;
+  days: HeatmapDay[]; // Monday first
+  totalAnalyzedRatings: number;
+}
+
+export type ScoreHistoryInterval = 'day' | 'week';
+
+// Lettuce score over one UTC day or week; scores are null before the first rating
+export interface ScoreHistoryBucket {
+  start: string;
+  end: string;
+  minScore: number | null;
+  avgScore: number | null;
+  maxScore: number | null;
+  ratingCount: number; // lettuce ratings submitted in the bucket
+}
+
+export interface ScoreHistoryResponse {
+  locationId: string;
+  interval: ScoreHistoryInterval;
+  from: string;
+  to: string;
+  buckets: ScoreHistoryBucket[]; // oldest first
+}
+
+// One rating's part in a score: weight is recencyWeight × timeWeight, share its
+// fraction of all weight including the prior
+export interface ScoreContribution {
+  ratingId: string;
+  timestamp: string;
+  score: number;
+  recencyWeight: number;
+  timeWeight: number;
+  weight: number;
+  share: number;
+}
+
+// Chain-wide mean a Bayesian score starts from, counted as `weight` fresh ratings
+export interface ScorePrior {
+  mean: number;
+  weight: number;
+  share: number;
+}
+
+export interface ScoreExplanation extends ScoreEstimate {
+  locationId: string;
+  ingredient: Ingredient;
+  strategy: string;
+  prior: ScorePrior | null; // only Bayesian scores have a prior
+  contributions: ScoreContribution[]; // newest first
+}
+
+// When a store usually restocks, inferred from jumps in its lettuce ratings
+export interface RestockPattern {
+  typicalDays: DayOfWeek[]; // Monday first; empty until there are enough restocks
+  typicalTime: string | null; // HH:MM in the store's timezone
+  summary: string | null; // e.g. "Usually restocked Tue/Fri ~10 AM"
+  eventCount: number;
+  lastRestockedAt: string | null;
+  confidence: ConfidenceLevel;
+}
+
 export interface SubwayLocationDetail extends SubwayLocation {
   ratings: Rating[];
   timeRecommendations: TimeRecommendation[];
-  totalRatings: number;
-  averageScore: number;
+  totalRatings: number; // lettuce ratings among `ratings`
+  averageScore: number; // of those lettuce ratings
+  restockPattern?: RestockPattern;
 }
 
 // API request/response types
@@ -59,25 +188,102 @@ export interface NearbyLocationsRequest {
   lng: number;
   radius?: number; // meters, default 5000
   limit?: number; // max results, default 20
+  cursor?: string; // nextCursor from the previous page
+  minScore?: number; // 1-5, only locations scoring at least this
+  openNow?: boolean; // only locations open right now
+  recentlyRatedOnly?: boolean; // only locations rated within the last 2 hours
+  minRatings?: number; // only locations with at least this many ratings
+  sort?: NearbySortOrder; // default 'distance'
 }
 
+// blended = 70% lettuce score, 30% proximity within the search radius
+export type NearbySortOrder = 'distance' | 'score' | 'recency' | 'blended';
+
 export interface NearbyLocationsResponse {
   locations: SubwayLocation[];
   userLocation: Coordinates;
   searchRadius: number;
+  sort: NearbySortOrder;
+  totalFound: number; // locations in this page, not all matches; see nextCursor
+  nextCursor: string | null; // null when there are no more pages
+}
+
+export interface HotLocation extends SubwayLocation {
+  ratingCount: number; // ratings in the last 7 days
+  recentRatingCount: number; // ratings in the last 24 hours
+  ratingVelocity: number; // ratings per hour over the last 24 hours
+}
+
+export interface HotLocationsResponse {
+  locations: HotLocation[];
+  userLocation: Coordinates;
+  searchRadius: number;
+  totalFound: number;
+}
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number; // west > east means the box crosses the antimeridian
+}
+
+export interface LocationsInBoundsResponse {
+  locations: SubwayLocation[];
+  bounds: BoundingBox;
   totalFound: number;
+  limit: number;
+  tooMany: boolean; // more locations than limit in the viewport - zoom in
 }
 
 export interface SubmitRatingRequest {
   locationId: string;
-  score: number; // 1-5
-  userId?: string; // optional for future use
+  score: number; // 1-5, for lettuce
+  ingredientScores?: IngredientScores; // other ingredients rated in the same submission
+  tags?: RatingTag[];
+  comment?: string;
 }
 
+export interface DeviceTokenResponse {
+  deviceId: string;
+  deviceToken: string; // send as X-Device-Token
+}
+
+// created = new rating; updated = replaced this rater's earlier rating inside the repeat window
+export type RatingSubmissionAction = 'created' | 'updated';
+
 export interface SubmitRatingResponse {
-  rating: Rating;
+  rating: Rating; // the lettuce rating; tags, comment and photos belong to it
+  ratings: Rating[]; // every rating from this submission, `rating` first
+  action: RatingSubmissionAction; // what happened to `rating`
+  actions: Partial<Record<Ingredient, RatingSubmissionAction>>; // what happened to each of `ratings`
   newLocationScore: number;
+  ingredientScores: IngredientScores;
   message: string;
+  editToken: string; // send as X-Rating-Token to edit or retract this rating; replaces the token of an updated rating
+  editableUntil: Date;
+}
+
+export interface RatingPhoto {
+  id: string;
+  ratingId: string;
+  locationId: string;
+  url: string; // full-size image, served from /api/photos/:id
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+  createdAt: Date;
+}
+
+export interface UploadRatingPhotoRequest {
+  locationId: string;
+  ratingId: string;
+  editToken: string;
+  photo: File;
+}
+
+export interface LocationPhotosResponse {
+  photos: RatingPhoto[];
 }
 
 // Error response interface